@@ -1,4 +1,5 @@
 import type { FastifyPluginAsync } from "fastify";
+import { randomUUID } from "node:crypto";
 import { getPool, insertJob, updateJob } from "@themodgenerator/db";
 import { validateSpec } from "@themodgenerator/validator";
 import { interpretToSpec } from "@themodgenerator/generator";
@@ -40,7 +41,9 @@ export const generateRoutes: FastifyPluginAsync = async (app) => {
     if (!("spec" in interpretResult)) {
       return reply.status(400).send({ error: "Could not produce a spec from prompt" });
     }
-    const spec = sanitizeSpec(interpretResult.spec);
+    // Job id is fixed before sanitizing: the per-job modId is derived from it.
+    const jobId = buildIdFromHeader ?? randomUUID();
+    const spec = sanitizeSpec(interpretResult.spec, jobId);
     try {
       validateSpec(spec, { prompt });
     } catch {
@@ -48,7 +51,7 @@ export const generateRoutes: FastifyPluginAsync = async (app) => {
     }
 
     const job = await insertJob(pool, {
-      id: buildIdFromHeader,
+      id: jobId,
       prompt,
       mode: "build",
       status: "queued",
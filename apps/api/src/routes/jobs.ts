@@ -70,7 +70,7 @@ export const jobRoutes: FastifyPluginAsync = async (app) => {
     try {
       const planResult = await planFromPrompt(prompt, { jobId: buildId });
       planJson = planResult.plan;
-      spec = sanitizeSpec(planToModSpec(planResult.plan));
+      spec = sanitizeSpec(planToModSpec(planResult.plan), buildId);
       console.log(`[JOBS] jobId=${buildId} spec from planner (plan_json stored)`);
     } catch (plannerErr) {
       console.warn(`[JOBS] jobId=${buildId} planner failed, falling back to interpretToSpec:`, (plannerErr as Error).message);
@@ -91,7 +91,7 @@ export const jobRoutes: FastifyPluginAsync = async (app) => {
       if (!("spec" in interpretResult)) {
         return reply.status(500).send({ error: "Interpreter did not return a spec" });
       }
-      spec = sanitizeSpec(interpretResult.spec);
+      spec = sanitizeSpec(interpretResult.spec, buildId);
       console.log(`[JOBS] jobId=${buildId} clarification_status=skipped spec from interpreter (fallback)`);
     }
     try {
@@ -425,7 +425,7 @@ export const jobRoutes: FastifyPluginAsync = async (app) => {
       return reply.status(200).send({ success: false, jobId, error: "Could not produce spec after clarification" });
     }
 
-    const spec = sanitizeSpec(reInterpret.spec);
+    const spec = sanitizeSpec(reInterpret.spec, jobId);
     try {
       validateSpec(spec, { prompt: resolvedPrompt });
     } catch {
@@ -1,21 +1,21 @@
 import type { ModSpecV1 } from "@themodgenerator/spec";
-
-/** Hard rule: modId is never derived from prompt. Use fixed id for deterministic packaging. */
-export const FIXED_MOD_ID = "generated";
+import { deriveModId } from "@themodgenerator/spec";
 
 const MAX_ID_LEN = 32;
 
 /**
  * Planner is DUMB: it does NOT infer content from prompt.
- * It only sanitizes a Spec: fixed modId, normalize/shorten ids from Spec fields only.
+ * It only sanitizes a Spec: per-job modId, normalize/shorten ids from Spec fields only.
  * Caller (interpreter) provides the Spec; planner never creates items/blocks/recipes.
+ * modId is never derived from the prompt: deriveModId(modName, jobId) gives each job its own namespace,
+ * so generated mods can be installed together.
  */
-export function sanitizeSpec(spec: ModSpecV1): ModSpecV1 {
+export function sanitizeSpec(spec: ModSpecV1, jobId: string): ModSpecV1 {
   const modName = spec.modName?.trim()?.slice(0, 128) || "Generated Mod";
 
   const out: ModSpecV1 = {
     ...spec,
-    modId: FIXED_MOD_ID,
+    modId: deriveModId(modName, jobId),
     modName,
     items: spec.items?.map((i) => ({
       ...i,
@@ -35,10 +35,15 @@ export function sanitizeSpec(spec: ModSpecV1): ModSpecV1 {
         count: r.result.count ?? 1,
       },
       ingredients: r.ingredients?.map((ing) => ({
-        id: sanitizeId(ing.id, "ingredient"),
+        ...(ing.tag ? { tag: ing.tag } : { id: sanitizeId(ing.id, "ingredient") }),
         count: ing.count ?? 1,
       })),
     })),
+    loot: spec.loot?.map((l) => ({
+      ...l,
+      entries: l.entries?.map((e) => ({ ...e, itemId: sanitizeId(e.itemId, "item") })),
+    })),
+    mobDrops: spec.mobDrops?.map((d) => ({ ...d, itemId: sanitizeId(d.itemId, "item") })),
   };
 
   return out;
@@ -56,6 +56,8 @@ import {
   materializeTier1,
   materializeTier1WithPlans,
   validateLootTableJson,
+  validateLangCoverage,
+  validateClientSourcesSafe,
   validateNoRecipesPluralFolder,
   validateRecipeJsonSchema,
   planFromIntent,
@@ -70,9 +72,14 @@ import {
 } from "@themodgenerator/generator";
 import { validateSpec, validateModSpecV2, validateSpecHygiene, validateGeneratedRecipeJson } from "@themodgenerator/validator";
 import { uploadFile } from "@themodgenerator/gcp";
-import { validateTexturePngFile, perceptualFingerprint } from "./texture-validation.js";
+import { validateTexturePngFile, validateTextureResolutions, perceptualFingerprint, pngDimensions } from "./texture-validation.js";
 import { logVanillaAssetsPackAtStartup } from "./vanilla-asset-source.js";
-import { writeMaterializedFiles, getTextureMetaByPath } from "./write-materialized-files.js";
+import {
+  writeMaterializedFiles,
+  getTextureMetaByPath,
+  isBlockOrItemTexture,
+  modTextureResolution,
+} from "./write-materialized-files.js";
 import { validateBlockAsItemAssets } from "./validate-block-as-item-assets.js";
 import { validateJarGate } from "./jar-validation.js";
 import {
@@ -80,6 +87,7 @@ import {
   isModSpecV2,
   expandModSpecV2,
   expandedModSpecV2ToV1,
+  deriveModId,
 } from "@themodgenerator/spec";
 
 // Continue debug logging after imports are available
@@ -156,20 +164,21 @@ export interface TextureManifestEntry {
 }
 
 /**
- * Build texture manifest from materialized PNG files that have textureProfile; use motifsApplied/materialClassApplied from writeMaterializedFiles.
+ * Build texture manifest from materialized PNG files that have textureProfile or paletteSwap; use
+ * motifsApplied/materialClassApplied from writeMaterializedFiles. Palette swaps record their vanilla template as derivedFrom.
  */
 function buildAndWriteTextureManifest(files: MaterializedFile[], workDir: string): TextureManifestEntry[] {
   const manifest: TextureManifestEntry[] = [];
   for (const f of files) {
-    if (!f.path.endsWith(".png") || !(f as { textureProfile?: { intent: string; materialHint: string } }).textureProfile) continue;
-    const profile = (f as { textureProfile: { intent: string; materialHint: string; materialClass?: string; visualMotifs?: string[] } }).textureProfile;
+    const profile = (f as { textureProfile?: { intent: string; materialHint: string } }).textureProfile;
+    if (!f.path.endsWith(".png") || (!profile && !f.paletteSwap)) continue;
     const id = f.path.replace(/.*\/(?:item|block)\//, "").replace(/\.png$/, "");
     const meta = getTextureMetaByPath().get(f.path);
     manifest.push({
       id,
-      intent: profile.intent as "block" | "item" | "processed",
-      materialHint: profile.materialHint,
-      derivedFrom: null,
+      intent: (profile?.intent ?? (f.path.includes("/textures/block/") ? "block" : "item")) as "block" | "item" | "processed",
+      materialHint: profile?.materialHint ?? f.paletteSwap!.variant,
+      derivedFrom: f.paletteSwap?.template ?? null,
       ...(meta && { materialClassApplied: meta.materialClassApplied, motifsApplied: meta.motifsApplied }),
     });
   }
@@ -256,10 +265,13 @@ function validateNoDuplicateTextures(files: MaterializedFile[], workDir: string)
 
 /**
  * Fail fast if any texture PNG is missing or fails decode/opacity/variation validation.
- * Validation: PNG decodes, width/height >= 16, not fully transparent, not a single flat color.
+ * Validation: PNG decodes, width/height >= 16, not fully transparent, not a single flat color; item sprites must
+ * have transparent pixels.
  */
 function validateTexturePngs(files: MaterializedFile[], workDir: string): void {
   const pngFiles = files.filter((f) => f.path.endsWith(".png"));
+  const resolution = modTextureResolution(files);
+  const widths: { path: string; width: number }[] = [];
   for (const f of pngFiles) {
     const fullPath = join(workDir, f.path);
     if (!existsSync(fullPath)) {
@@ -269,8 +281,11 @@ function validateTexturePngs(files: MaterializedFile[], workDir: string): void {
     if (st.size === 0) {
       throw new Error(`Texture is 0 bytes: ${fullPath}`);
     }
-    validateTexturePngFile(fullPath, f.path);
+    validateTexturePngFile(fullPath, f.path, isBlockOrItemTexture(f.path) ? resolution : undefined, f.itemSprite != null);
+    const dims = pngDimensions(readFileSync(fullPath));
+    if (dims) widths.push({ path: f.path, width: dims.width });
   }
+  validateTextureResolutions(widths, resolution);
 }
 
 /**
@@ -414,6 +429,7 @@ async function main(): Promise<void> {
     await logPhase(pool, buildId, "spec_generated");
 
     let expanded: import("@themodgenerator/spec").ExpandedSpecTier1;
+    let textureResolution: number | undefined;
     if (isModSpecV2(specToUse)) {
       const expandedV2 = expandModSpecV2(specToUse);
       await logPhase(pool, buildId, "rules_expanded");
@@ -430,7 +446,8 @@ async function main(): Promise<void> {
         fatalExit(`[BUILDER] buildId=${buildId} ModSpecV2 validation failed: ${msg}`);
       }
       await logPhase(pool, buildId, "validated");
-      specToUse = expandedModSpecV2ToV1(expandedV2);
+      // Per-job namespace: the V2 modId field is user-facing, the build always uses the derived id.
+      specToUse = expandedModSpecV2ToV1(expandedV2, { modId: deriveModId(expandedV2.modName, JOB_ID) });
       expanded = expandSpecTier1(specToUse);
     } else {
       expanded = expandSpecTier1(specToUse);
@@ -541,6 +558,7 @@ async function main(): Promise<void> {
         expanded.items.length > 0 && itemPlans.length > 0
           ? materializeTier1WithPlans(expanded, assets, itemPlans, materializeOpts)
           : materializeTier1(expanded, assets, materializeOpts);
+      textureResolution = modTextureResolution(files);
       await writeMaterializedFiles(files, workDir, {
         mcVersion: specToUse.minecraftVersion ?? "1.21.1",
       });
@@ -548,6 +566,8 @@ async function main(): Promise<void> {
       validateNoRecipesPluralFolder(files);
       validateRecipeJsonSchema(files);
       validateLootTableJson(files);
+      validateLangCoverage(expanded, files);
+      validateClientSourcesSafe(files);
       buildAndWriteTextureManifest(files, workDir);
       validateBlockAsItemAssets(files, expanded.blocks.map((b) => b.id), expanded.spec.modId);
       validateTexturePngs(files, workDir);
@@ -616,7 +636,7 @@ async function main(): Promise<void> {
     currentStep = "jar_found";
     console.log(`[BUILDER] buildId=${buildId} jar=${jarFile}`);
     const jarPath = join(jarDir, jarFile);
-    const modId = (specToUse as { modId?: string }).modId ?? "generated";
+    const modId = expanded.spec.modId;
     const specRecipes = (specToUse as { recipes?: unknown[] }).recipes ?? [];
     const recipesPrefix = `data/${modId}/recipe/`;
     let jarList = "";
@@ -646,7 +666,7 @@ async function main(): Promise<void> {
     currentStep = "jar_gate_validation";
     try {
       const blockIds = expanded.blocks.map((b) => b.id);
-      await validateJarGate(jarPath, modId, blockIds, []);
+      await validateJarGate(jarPath, modId, blockIds, [], textureResolution);
     } catch (jarGateErr: unknown) {
       const errMsg = jarGateErr instanceof Error ? jarGateErr.message : String(jarGateErr);
       console.error(`JAR-GATE FAILED: ${errMsg}`);
@@ -0,0 +1,67 @@
+/**
+ * Unit test: transparent item sprites — every shape is alpha-masked and outlined, shaded with its palette,
+ * drawn at the requested resolution; validateTexturePngBuffer requires transparency for sprites.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { inflateSync } from "node:zlib";
+import { ITEM_SPRITE_SHAPES } from "@themodgenerator/generator";
+import { generateItemSpritePng, itemSpriteMask } from "./item-sprite-png.js";
+import { generateOpaquePng } from "./texture-png.js";
+import { pngDimensions, validateTexturePngBuffer } from "./texture-validation.js";
+
+const RUBY_PALETTE = ["#9b111e", "#e0115f", "#ff6f91", "#5a0a12"];
+
+/** RGBA pixels of an unfiltered PNG from encodeRawRgbaToPng (single IDAT after the 33-byte header). */
+function pixels(png: Buffer): { width: number; rgba: (x: number, y: number) => number[] } {
+  const width = png.readUInt32BE(16);
+  const idatLength = png.readUInt32BE(33);
+  const raw = inflateSync(png.subarray(41, 41 + idatLength));
+  return {
+    width,
+    rgba: (x, y) => [...raw.subarray(y * (1 + width * 4) + 1 + x * 4, y * (1 + width * 4) + 5 + x * 4)],
+  };
+}
+
+describe("item sprites", () => {
+  for (const shape of ITEM_SPRITE_SHAPES) {
+    it(`"${shape}" has transparent background, opaque silhouette and passes sprite validation`, () => {
+      const png = generateItemSpritePng({ shape, palette: RUBY_PALETTE, seed: `test-${shape}`, resolution: 16 });
+      const { rgba } = pixels(png);
+      assert.strictEqual(rgba(0, 0)[3], 0, "corner must be transparent");
+      const mask = itemSpriteMask(shape, 16, `test-${shape}`);
+      const opaque = mask.filter(Boolean).length;
+      assert.ok(opaque >= 12 && opaque < 16 * 16 * 0.6, `silhouette covers part of the icon (${opaque} px)`);
+      assert.ok(validateTexturePngBuffer(png, `item/${shape}.png`, 16, true).ok);
+    });
+  }
+
+  it("outlines the silhouette in a darker color than its fill", () => {
+    const { rgba } = pixels(generateItemSpritePng({ shape: "orb", palette: RUBY_PALETTE, resolution: 32 }));
+    const row = 16;
+    let x = 0;
+    while (rgba(x, row)[3] === 0) x++;
+    const brightness = (p: number[]) => p[0] + p[1] + p[2];
+    assert.ok(brightness(rgba(x, row)) < brightness(rgba(16, row)), "outline must be darker than the middle");
+    const fills = new Set<string>();
+    for (let xx = x + 1; xx < 32 - x - 1; xx++) fills.add(rgba(xx, row).join(","));
+    assert.ok(fills.size > 2, "fill must be shaded, not flat");
+  });
+
+  it("draws at every texture resolution and is deterministic", () => {
+    for (const resolution of [16, 32, 64, 128]) {
+      const png = generateItemSpritePng({ shape: "ingot", palette: RUBY_PALETTE, seed: "s", resolution });
+      assert.deepStrictEqual(pngDimensions(png), { width: resolution, height: resolution });
+    }
+    const a = generateItemSpritePng({ shape: "raw", palette: RUBY_PALETTE, seed: "raw_ruby" });
+    assert.ok(a.equals(generateItemSpritePng({ shape: "raw", palette: RUBY_PALETTE, seed: "raw_ruby" })));
+  });
+
+  it("sprite validation rejects opaque squares", () => {
+    const tile = generateOpaquePng({ material: "gem", seed: "ruby", resolution: 16 });
+    assert.ok(validateTexturePngBuffer(tile, "item/ruby.png", 16).ok, "opaque tiles stay valid for blocks");
+    const result = validateTexturePngBuffer(tile, "item/ruby.png", 16, true);
+    assert.strictEqual(result.ok, false);
+    assert.match(result.message ?? "", /no transparent pixels/);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Generate transparent item sprites (MaterializedFile.itemSprite): an alpha-masked silhouette from the shape
+ * library, shaded with the synthesized palette (darkest → lightest ramp, light from the top left, bevelled edges)
+ * and outlined in a darkened palette color. Pixels outside the silhouette and its outline are alpha 0, like vanilla
+ * item icons. Drawn at the target resolution; outline width 1px up to 32px, scaled above.
+ */
+
+import type { ItemSpriteShape } from "@themodgenerator/generator";
+import {
+  DEFAULT_TEXTURE_RESOLUTION,
+  assertTextureResolution,
+  encodeRawRgbaToPng,
+  paletteRamp,
+  rampColor,
+  seededFloat,
+} from "./texture-png.js";
+
+/** Silhouette test in unit coordinates (u right, v down, pixel centers); the seed varies irregular shapes. */
+type ShapeMask = (u: number, v: number, seed: string) => boolean;
+
+function inEllipse(u: number, v: number, cx: number, cy: number, rx: number, ry: number): boolean {
+  return ((u - cx) / rx) ** 2 + ((v - cy) / ry) ** 2 <= 1;
+}
+
+function nearSegment(u: number, v: number, x0: number, y0: number, x1: number, y1: number, radius: number): boolean {
+  const dx = x1 - x0;
+  const dy = y1 - y0;
+  const t = Math.max(0, Math.min(1, ((u - x0) * dx + (v - y0) * dy) / (dx * dx + dy * dy)));
+  return (u - (x0 + t * dx)) ** 2 + (v - (y0 + t * dy)) ** 2 <= radius * radius;
+}
+
+/** Shape library. Every silhouette keeps a margin for the outline. */
+const SHAPE_MASKS: Record<ItemSpriteShape, ShapeMask> = {
+  // Cut gem: flat table, widening crown, pavilion down to a point.
+  gem: (u, v) => {
+    if (v < 0.2 || v > 0.84) return false;
+    const halfWidth = v <= 0.38 ? 0.2 + (v - 0.2) : (0.38 * (0.84 - v)) / 0.46;
+    return Math.abs(u - 0.5) <= halfWidth;
+  },
+  // Bar seen from the front: narrow top face, wider base.
+  ingot: (u, v) => v >= 0.36 && v <= 0.68 && Math.abs(u - 0.5) <= 0.26 + (v - 0.36) * 0.5,
+  nugget: (u, v) => inEllipse(u, v, 0.44, 0.6, 0.2, 0.15) || inEllipse(u, v, 0.6, 0.5, 0.14, 0.12),
+  // Heap with a flat bottom.
+  dust: (u, v) => v <= 0.8 && inEllipse(u, v, 0.5, 0.8, 0.38, 0.36),
+  // Lumpy chunk: radius wobbles with the angle, phase from the seed.
+  raw: (u, v, seed) => {
+    const dx = u - 0.5;
+    const dy = v - 0.52;
+    const angle = Math.atan2(dy, dx);
+    const phase = seededFloat(seed + "-raw") * Math.PI * 2;
+    const radius = 0.3 * (1 + 0.14 * Math.sin(3 * angle + phase) + 0.08 * Math.sin(5 * angle + phase * 2));
+    return dx * dx + dy * dy <= radius * radius;
+  },
+  // Diagonal stick, bottom left to top right like vanilla rods.
+  rod: (u, v) => nearSegment(u, v, 0.22, 0.78, 0.78, 0.22, 0.075),
+  orb: (u, v) => inEllipse(u, v, 0.5, 0.5, 0.34, 0.34),
+  // Rounded rectangle.
+  plate: (u, v) => {
+    const dx = Math.max(0, Math.abs(u - 0.5) - 0.28);
+    const dy = Math.max(0, Math.abs(v - 0.5) - 0.2);
+    return dx * dx + dy * dy <= 0.08 * 0.08;
+  },
+  // Round fruit with a stem and a leaf.
+  food: (u, v) =>
+    inEllipse(u, v, 0.5, 0.58, 0.3, 0.28) ||
+    (u >= 0.47 && u <= 0.55 && v >= 0.16 && v <= 0.32) ||
+    inEllipse(u, v, 0.64, 0.22, 0.1, 0.05),
+};
+
+/** Opaque pixels of the silhouette (true = inside). */
+export function itemSpriteMask(shape: ItemSpriteShape, resolution: number, seed = "default"): boolean[] {
+  const mask = SHAPE_MASKS[shape];
+  const out: boolean[] = new Array(resolution * resolution);
+  for (let y = 0; y < resolution; y++) {
+    for (let x = 0; x < resolution; x++) {
+      out[y * resolution + x] = mask((x + 0.5) / resolution, (y + 0.5) / resolution, seed);
+    }
+  }
+  return out;
+}
+
+/**
+ * Transparent RGBA sprite: silhouette shaded with the palette, 1px (scaled) outline, alpha 0 elsewhere.
+ * Deterministic from shape, palette, seed and resolution.
+ */
+export function generateItemSpritePng(options: {
+  shape: ItemSpriteShape;
+  palette: string[];
+  seed?: string;
+  /** Width and height in pixels (TEXTURE_RESOLUTIONS); default DEFAULT_TEXTURE_RESOLUTION. */
+  resolution?: number;
+}): Buffer {
+  const { shape, palette, seed = "default", resolution = DEFAULT_TEXTURE_RESOLUTION } = options;
+  assertTextureResolution(resolution);
+  const W = resolution;
+  const inside = itemSpriteMask(shape, W, seed);
+  const at = (x: number, y: number) => x >= 0 && y >= 0 && x < W && y < W && inside[y * W + x];
+
+  const outlineWidth = Math.max(1, Math.round(W / 32));
+  const outline = new Array<boolean>(W * W).fill(false);
+  let grown = inside.slice();
+  for (let step = 0; step < outlineWidth; step++) {
+    const next = grown.slice();
+    for (let y = 0; y < W; y++) {
+      for (let x = 0; x < W; x++) {
+        if (grown[y * W + x]) continue;
+        const touches =
+          (x > 0 && grown[y * W + x - 1]) ||
+          (x + 1 < W && grown[y * W + x + 1]) ||
+          (y > 0 && grown[(y - 1) * W + x]) ||
+          (y + 1 < W && grown[(y + 1) * W + x]);
+        if (touches) {
+          next[y * W + x] = true;
+          outline[y * W + x] = true;
+        }
+      }
+    }
+    grown = next;
+  }
+
+  const ramp = paletteRamp(palette);
+  const outlineColor = ramp[0].map((c) => c * 0.45);
+  const bevel = Math.max(1, Math.round(W / 16));
+  const rawRows = Buffer.alloc(W * (1 + W * 4));
+  for (let y = 0; y < W; y++) {
+    const rowStart = y * (1 + W * 4);
+    rawRows[rowStart] = 0;
+    for (let x = 0; x < W; x++) {
+      const o = rowStart + 1 + x * 4;
+      if (outline[y * W + x]) {
+        rawRows[o] = Math.round(outlineColor[0]);
+        rawRows[o + 1] = Math.round(outlineColor[1]);
+        rawRows[o + 2] = Math.round(outlineColor[2]);
+        rawRows[o + 3] = 255;
+        continue;
+      }
+      if (!inside[y * W + x]) continue;
+      const u = (x + 0.5) / W;
+      const v = (y + 0.5) / W;
+      let t = 0.55 + 0.5 * (0.5 - u) + 0.5 * (0.5 - v);
+      if (!at(x - bevel, y) || !at(x, y - bevel)) t += 0.25;
+      if (!at(x + bevel, y) || !at(x, y + bevel)) t -= 0.25;
+      if ((shape === "gem" && v <= 0.38) || (shape === "ingot" && v <= 0.46)) t += 0.15;
+      if ((shape === "orb" || shape === "gem") && inEllipse(u, v, 0.38, 0.36, 0.08, 0.08)) t = 1;
+      const grain = shape === "dust" || shape === "raw" ? 0.3 : 0.08;
+      t += (seededFloat(`${seed}-${x}-${y}`) - 0.5) * grain;
+      const [r, g, b] = rampColor(ramp, t);
+      rawRows[o] = Math.round(r);
+      rawRows[o + 1] = Math.round(g);
+      rawRows[o + 2] = Math.round(b);
+      rawRows[o + 3] = 255;
+    }
+  }
+  return encodeRawRgbaToPng(W, W, rawRows);
+}
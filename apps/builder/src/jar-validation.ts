@@ -1,9 +1,14 @@
 /**
  * JAR-gate validation: validates the final built JAR before upload.
- * - Recipes: must be under data/<modid>/recipe/ (singular), not recipes/; JSON schema (type, result)
+ * - Recipes: must be under data/<modid>/recipe/ (singular), not recipes/; JSON schema (type, result,
+ *   stonecutting ingredient, smithing_transform template/base/addition)
  * - Loot tables: valid JSON, type, pools; one JSON per file; every block has loot table
+ * - Textures: block/item PNGs share one width (the mod's texture resolution when given)
  */
 
+import { RECIPE_INGREDIENT_SLOTS } from "@themodgenerator/spec";
+import { pngDimensions, validateTextureResolutions } from "./texture-validation.js";
+
 async function getYauzl() {
   return import("yauzl");
 }
@@ -182,7 +187,8 @@ export async function validateJarGate(
   jarPath: string,
   modId: string,
   blockIds: string[],
-  whitelistNonDropping: string[] = []
+  whitelistNonDropping: string[] = [],
+  textureResolution?: number
 ): Promise<void> {
   const entriesWithSizes = await listZipEntriesWithSizes(jarPath);
   const entries = [...entriesWithSizes.keys()];
@@ -224,7 +230,7 @@ export async function validateJarGate(
     );
   }
 
-  // 2) Validate each recipe under data/<modid>/recipe/
+  // 2) Validate each recipe under data/<modid>/recipe/ (type, result, and per-type ingredient slots)
   const recipeEntries = entries.filter(
     (e) => e.startsWith(`data/${modId}/recipe/`) && e.endsWith(".json")
   );
@@ -243,6 +249,12 @@ export async function validateJarGate(
     if (!("result" in r)) {
       throw new Error(`JAR-GATE: Recipe ${entry} must have "result"`);
     }
+    for (const slot of RECIPE_INGREDIENT_SLOTS[r.type] ?? []) {
+      const ing = r[slot] as Record<string, unknown> | undefined;
+      if (typeof ing?.item !== "string" && typeof ing?.tag !== "string") {
+        throw new Error(`JAR-GATE: Recipe ${entry} (${r.type}) must have "${slot}" with "item" or "tag"`);
+      }
+    }
   }
 
   // 3) Fail if loot tables are under loot_tables/ (plural). MC 1.21.1 requires loot_table/ (singular).
@@ -350,4 +362,20 @@ export async function validateJarGate(
       }
     }
   }
+
+  // 8) Block/item textures: one resolution across the mod (a family never mixes 16px and 128px textures)
+  const textureEntries = entries.filter(
+    (e) => (e.startsWith(`${assetsPrefix}textures/block/`) || e.startsWith(`${assetsPrefix}textures/item/`)) && e.endsWith(".png")
+  );
+  const textureWidths: { path: string; width: number }[] = [];
+  for (const entry of textureEntries) {
+    const dims = pngDimensions(await readZipEntryAsBuffer(jarPath, entry));
+    if (!dims) throw new Error(`JAR-GATE: ${entry} invalid PNG signature`);
+    textureWidths.push({ path: entry, width: dims.width });
+  }
+  try {
+    validateTextureResolutions(textureWidths, textureResolution);
+  } catch (e) {
+    throw new Error(`JAR-GATE: ${e instanceof Error ? e.message : String(e)}`);
+  }
 }
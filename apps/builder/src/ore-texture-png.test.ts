@@ -0,0 +1,58 @@
+/**
+ * Unit test: ore compositing — seeded cluster layout on the 16px grid, drawn in the material palette over the base,
+ * identical layout on stone and deepslate, pixel-art cells at higher resolutions.
+ */
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { compositeOreTexture, oreClusterCells } from "./ore-texture-png.js";
+import { generateOpaquePng } from "./texture-png.js";
+import { decodePngRgba, pngDimensions, validateTexturePngBuffer } from "./texture-validation.js";
+
+const STONE = generateOpaquePng({ material: "stone", seed: "stone", resolution: 16 });
+const DEEPSLATE = generateOpaquePng({ colorHint: "black", seed: "deepslate", resolution: 16 });
+
+function pixelAt(png: Buffer, x: number, y: number): number[] {
+  const { width, pixels } = decodePngRgba(png)!;
+  return [...pixels.subarray((y * width + x) * 4, (y * width + x) * 4 + 4)];
+}
+
+describe("ore textures", () => {
+  it("lays out 4–6 clusters inside the texture border, deterministically per seed", () => {
+    const cells = oreClusterCells("mod:ruby");
+    const clusters = new Set(cells.values());
+    assert.ok(clusters.size >= 4 && clusters.size <= 6, `cluster count ${clusters.size}`);
+    for (const index of cells.keys()) {
+      const [x, y] = [index % 16, Math.floor(index / 16)];
+      assert.ok(x >= 1 && y >= 1 && x <= 14 && y <= 14, `cell ${x},${y} inside the border`);
+    }
+    assert.deepStrictEqual([...oreClusterCells("mod:ruby")], [...cells]);
+    assert.notDeepStrictEqual([...oreClusterCells("mod:tin")], [...cells]);
+  });
+
+  it("draws clusters in the material palette and keeps the base elsewhere", () => {
+    const ore = compositeOreTexture(STONE, { palette: ["red", "#9b111e"], seed: "mod:ruby", resolution: 16 });
+    assert.ok(validateTexturePngBuffer(ore, "block/ruby_ore.png", 16).ok);
+    const cells = oreClusterCells("mod:ruby");
+    for (const index of cells.keys()) {
+      const [r, g, b, a] = pixelAt(ore, index % 16, Math.floor(index / 16));
+      assert.ok(r > g && r > b && a === 255, `cluster pixel must be red, got ${r},${g},${b}`);
+    }
+    assert.deepStrictEqual(pixelAt(ore, 0, 0), pixelAt(STONE, 0, 0), "border stays stone");
+  });
+
+  it("stone and deepslate variants share the layout; higher resolutions draw whole cells", () => {
+    const options = { palette: ["#30c0ff"], seed: "mod:sapphire", resolution: 16 };
+    const stone = compositeOreTexture(STONE, options);
+    const deepslate = compositeOreTexture(DEEPSLATE, options);
+    for (const index of oreClusterCells("mod:sapphire").keys()) {
+      const [x, y] = [index % 16, Math.floor(index / 16)];
+      assert.deepStrictEqual(pixelAt(stone, x, y), pixelAt(deepslate, x, y));
+    }
+    const large = compositeOreTexture(STONE, { ...options, resolution: 64 });
+    assert.deepStrictEqual(pngDimensions(large), { width: 64, height: 64 });
+    const [first] = oreClusterCells("mod:sapphire").keys();
+    const [x, y] = [(first % 16) * 4, Math.floor(first / 16) * 4];
+    assert.deepStrictEqual(pixelAt(large, x + 3, y + 3), pixelAt(large, x, y));
+    assert.deepStrictEqual(pixelAt(large, x, y), pixelAt(stone, first % 16, Math.floor(first / 16)));
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Composite ore textures (MaterializedFile.oreComposite): a vanilla base (stone/deepslate/netherrack) with seeded
+ * ore clusters in the material palette on top, like vanilla ores. Clusters are laid out on the 16px vanilla grid
+ * (4–6 clusters of 3–5 cells, lit top left, shaded bottom right, casting a shadow on the base), so a material's
+ * stone and deepslate variants share one layout and every resolution shows the same pixel-art flecks.
+ */
+
+import { encodeRawRgbaToPng, paletteRamp, rampColor, seededFloat, assertTextureResolution } from "./texture-png.js";
+import { decodePngRgba, scalePngToResolution } from "./texture-validation.js";
+
+/** Vanilla texture grid the cluster layout is designed on. */
+const ORE_GRID = 16;
+
+/** Ore cells on the 16×16 grid: cell index (y * 16 + x) → cluster number. Deterministic from the seed. */
+export function oreClusterCells(seed: string): Map<number, number> {
+  const cells = new Map<number, number>();
+  const centers: [number, number][] = [];
+  const count = 4 + Math.floor(seededFloat(seed + "-count") * 3);
+  for (let cluster = 0, attempt = 0; cluster < count && attempt < 60; attempt++) {
+    const cx = 2 + Math.floor(seededFloat(`${seed}-cx-${attempt}`) * 12);
+    const cy = 2 + Math.floor(seededFloat(`${seed}-cy-${attempt}`) * 12);
+    if (centers.some(([x, y]) => Math.max(Math.abs(x - cx), Math.abs(y - cy)) < 4)) continue;
+    centers.push([cx, cy]);
+    const members: [number, number][] = [[cx, cy]];
+    cells.set(cy * ORE_GRID + cx, cluster);
+    const size = 3 + Math.floor(seededFloat(`${seed}-size-${cluster}`) * 3);
+    for (let step = 0; members.length < size && step < size * 4; step++) {
+      const [fx, fy] = members[Math.floor(seededFloat(`${seed}-from-${cluster}-${step}`) * members.length)];
+      const [dx, dy] = [[1, 0], [-1, 0], [0, 1], [0, -1]][Math.floor(seededFloat(`${seed}-dir-${cluster}-${step}`) * 4)];
+      const [nx, ny] = [fx + dx, fy + dy];
+      if (nx < 1 || ny < 1 || nx > ORE_GRID - 2 || ny > ORE_GRID - 2 || cells.has(ny * ORE_GRID + nx)) continue;
+      members.push([nx, ny]);
+      cells.set(ny * ORE_GRID + nx, cluster);
+    }
+    cluster++;
+  }
+  return cells;
+}
+
+/**
+ * Draw the ore clusters for `seed` in `palette` (hex or color names) over the vanilla base texture, at `resolution`.
+ * The base is resized nearest-neighbour; only its first frame (top square) is used.
+ */
+export function compositeOreTexture(
+  base: Buffer,
+  options: { palette: string[]; seed: string; resolution: number }
+): Buffer {
+  const { palette, seed, resolution } = options;
+  assertTextureResolution(resolution);
+  const decoded = decodePngRgba(scalePngToResolution(base, resolution));
+  if (!decoded) throw new Error(`[TEXTURES] Ore base texture could not be decoded (seed ${seed})`);
+  const W = resolution;
+  const cell = W / ORE_GRID;
+  const pixels = Buffer.from(decoded.pixels.subarray(0, W * W * 4));
+  const cells = oreClusterCells(seed);
+  const ramp = paletteRamp(palette);
+  const has = (x: number, y: number) => cells.has(y * ORE_GRID + x);
+
+  const fillCell = (gx: number, gy: number, paint: (o: number) => void) => {
+    for (let y = gy * cell; y < (gy + 1) * cell; y++) {
+      for (let x = gx * cell; x < (gx + 1) * cell; x++) paint((y * W + x) * 4);
+    }
+  };
+  for (const index of cells.keys()) {
+    const gx = index % ORE_GRID;
+    const gy = Math.floor(index / ORE_GRID);
+    if (!has(gx + 1, gy + 1)) {
+      fillCell(gx + 1, gy + 1, (o) => {
+        for (let c = 0; c < 3; c++) pixels[o + c] = Math.round(pixels[o + c] * 0.7);
+      });
+    }
+  }
+  for (const index of cells.keys()) {
+    const gx = index % ORE_GRID;
+    const gy = Math.floor(index / ORE_GRID);
+    let t = 0.6 + (seededFloat(`${seed}-shade-${index}`) - 0.5) * 0.2;
+    if (!has(gx - 1, gy) || !has(gx, gy - 1)) t += 0.3;
+    if (!has(gx + 1, gy) || !has(gx, gy + 1)) t -= 0.35;
+    const [r, g, b] = rampColor(ramp, t);
+    fillCell(gx, gy, (o) => {
+      pixels[o] = Math.round(r);
+      pixels[o + 1] = Math.round(g);
+      pixels[o + 2] = Math.round(b);
+      pixels[o + 3] = 255;
+    });
+  }
+
+  const rawRows = Buffer.alloc(W * (1 + W * 4));
+  for (let y = 0; y < W; y++) {
+    rawRows[y * (1 + W * 4)] = 0;
+    pixels.copy(rawRows, y * (1 + W * 4) + 1, y * W * 4, (y + 1) * W * 4);
+  }
+  return encodeRawRgbaToPng(W, W, rawRows);
+}
@@ -1,9 +1,21 @@
 /**
- * Unit test: profile-driven texture generator records motifsApplied and draws each motif.
+ * Unit test: profile-driven texture generator records motifsApplied and draws each motif;
+ * resolution-aware generation, resizing and validation; palette swaps of vanilla templates.
  */
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import { generateOpaquePng16x16WithProfile } from "./texture-png.js";
+import { encodeRawRgbaToPng, generateOpaquePngWithProfile, TEXTURE_RESOLUTIONS } from "./texture-png.js";
+import {
+  applyPaletteShade,
+  applyPaletteSwap,
+  decodePngRgba,
+  perceptualFingerprint,
+  pngDimensions,
+  scalePngToResolution,
+  validateTexturePngBuffer,
+  validateTextureResolutions,
+} from "./texture-validation.js";
+import { modTextureResolution } from "./write-materialized-files.js";
 
 const BASE_PROFILE = {
   intent: "item" as const,
@@ -19,7 +31,7 @@ function withMotif(motif: string) {
 
 describe("texture-png profile", () => {
   it("textureProfile with visualMotifs holes results in motifsApplied including holes", () => {
-    const result = generateOpaquePng16x16WithProfile({
+    const result = generateOpaquePngWithProfile({
       seed: "test-holes",
       textureProfile: withMotif("holes"),
     });
@@ -32,7 +44,7 @@ describe("texture-png profile", () => {
   const MOTIFS = ["holes", "grain", "strata", "veins", "bubbles", "flakes", "rings"] as const;
   for (const motif of MOTIFS) {
     it(`motif "${motif}" is in motifsApplied when requested`, () => {
-      const result = generateOpaquePng16x16WithProfile({
+      const result = generateOpaquePngWithProfile({
         seed: `test-${motif}`,
         textureProfile: withMotif(motif),
       });
@@ -41,8 +53,8 @@ describe("texture-png profile", () => {
     });
 
     it(`motif "${motif}" changes pixel output (pattern heuristic)`, () => {
-      const noMotif = generateOpaquePng16x16WithProfile({ seed: `seed-${motif}`, textureProfile: BASE_PROFILE });
-      const withMotifBuf = generateOpaquePng16x16WithProfile({
+      const noMotif = generateOpaquePngWithProfile({ seed: `seed-${motif}`, textureProfile: BASE_PROFILE });
+      const withMotifBuf = generateOpaquePngWithProfile({
         seed: `seed-${motif}`,
         textureProfile: withMotif(motif),
       });
@@ -54,3 +66,88 @@ describe("texture-png profile", () => {
     });
   }
 });
+
+describe("texture-png resolution", () => {
+  it("generates every texture resolution natively with more distinct colors at higher resolutions", () => {
+    const colors: number[] = [];
+    for (const resolution of TEXTURE_RESOLUTIONS) {
+      const { buffer } = generateOpaquePngWithProfile({ seed: "res", textureProfile: withMotif("flakes"), resolution });
+      assert.deepStrictEqual(pngDimensions(buffer), { width: resolution, height: resolution });
+      const result = validateTexturePngBuffer(buffer, "res.png", resolution);
+      assert.ok(result.ok, result.message);
+      colors.push(result.uniqueColorCount!);
+    }
+    for (let i = 1; i < colors.length; i++) assert.ok(colors[i] > colors[i - 1], `detail must grow with resolution: ${colors}`);
+  });
+
+  it("rejects unsupported resolutions and mismatched widths", () => {
+    assert.throws(() => generateOpaquePngWithProfile({ seed: "bad", resolution: 48 }), /must be one of 16, 32, 64, 128/);
+    const { buffer } = generateOpaquePngWithProfile({ seed: "w32" });
+    assert.match(validateTexturePngBuffer(buffer, "w32.png", 64).message ?? "", /does not match texture resolution 64/);
+  });
+
+  it("scalePngToResolution resizes copied textures with nearest neighbour", () => {
+    const { buffer } = generateOpaquePngWithProfile({ seed: "copy", resolution: 16 });
+    const scaled = scalePngToResolution(buffer, 64);
+    assert.deepStrictEqual(pngDimensions(scaled), { width: 64, height: 64 });
+    const source = validateTexturePngBuffer(buffer, "copy.png", 16);
+    const result = validateTexturePngBuffer(scaled, "copy.png", 64);
+    assert.strictEqual(result.uniqueColorCount, source.uniqueColorCount, "nearest neighbour adds no colors");
+    assert.strictEqual(scalePngToResolution(scaled, 64), scaled);
+  });
+
+  it("a mod never mixes block/item texture resolutions", () => {
+    const texture = (path: string, textureResolution?: number) => ({ path, contents: "", textureResolution });
+    assert.strictEqual(modTextureResolution([texture("assets/m/textures/item/a.png")]), 32);
+    assert.strictEqual(modTextureResolution([texture("assets/m/textures/item/a.png", 128), texture("assets/m/textures/block/b.png")]), 128);
+    assert.throws(
+      () => modTextureResolution([texture("assets/m/textures/item/a.png", 16), texture("assets/m/textures/block/b.png", 64)]),
+      /Mixed texture resolutions in one mod: 16, 64/
+    );
+    assert.doesNotThrow(() =>
+      validateTextureResolutions([
+        { path: "assets/m/textures/block/maple_planks.png", width: 64 },
+        { path: "assets/m/textures/entity/boat/maple.png", width: 128 },
+      ], 64)
+    );
+    assert.throws(
+      () =>
+        validateTextureResolutions([
+          { path: "assets/m/textures/block/maple_planks.png", width: 64 },
+          { path: "assets/m/textures/block/maple_door_top.png", width: 16 },
+        ]),
+      /expected 64px, got assets\/m\/textures\/block\/maple_door_top\.png \(16px\)/
+    );
+  });
+});
+
+describe("texture-png palette swap", () => {
+  it("applyPaletteSwap maps the template's darkest/lightest pixels to the palette ends and keeps transparency", () => {
+    const rows = Buffer.alloc(2 * (1 + 2 * 4));
+    const pixel = (x: number, y: number, rgba: number[]) => rows.set(rgba, y * (1 + 2 * 4) + 1 + x * 4);
+    pixel(0, 0, [20, 20, 20, 255]);
+    pixel(1, 0, [220, 220, 220, 255]);
+    pixel(0, 1, [120, 120, 120, 255]);
+    pixel(1, 1, [255, 255, 255, 0]);
+    const swapped = decodePngRgba(applyPaletteSwap(encodeRawRgbaToPng(2, 2, rows), ["#200000", "#ff8080"]))!;
+    assert.deepStrictEqual([...swapped.pixels.subarray(0, 4)], [0x20, 0, 0, 255]);
+    assert.deepStrictEqual([...swapped.pixels.subarray(4, 8)], [0xff, 0x80, 0x80, 255]);
+    const mid = swapped.pixels.subarray(8, 12);
+    assert.ok(mid[0] > 0x20 && mid[0] < 0xff && mid[1] === mid[2], "midtone lands between the palette ends");
+    assert.deepStrictEqual([...swapped.pixels.subarray(12, 16)], [255, 255, 255, 0]);
+  });
+
+  it("applyPaletteShade changes the fingerprint without leaving the palette's hue", () => {
+    const source = generateOpaquePngWithProfile({ seed: "shade", colorHint: "red" }).buffer;
+    const shaded = applyPaletteShade(source, "assets/m/textures/item/ruby.png", 0.57);
+    assert.notStrictEqual(perceptualFingerprint(shaded), perceptualFingerprint(source));
+    const before = decodePngRgba(source)!.pixels;
+    const after = decodePngRgba(shaded)!.pixels;
+    for (let o = 0; o < before.length; o += 4) {
+      assert.ok(after[o] <= before[o] && after[o + 1] <= before[o + 1] && after[o + 2] <= before[o + 2]);
+      const ratio = (c: Buffer) => (c[o] + 1) / (c[o + 1] + c[o + 2] + 2);
+      assert.ok(Math.abs(ratio(after) - ratio(before)) < 0.2 * ratio(before) + 0.05, "hue stays in the palette");
+      assert.strictEqual(after[o + 3], before[o + 3]);
+    }
+  });
+});
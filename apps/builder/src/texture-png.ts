@@ -1,7 +1,9 @@
 /**
- * Generate real 32x32 opaque PNGs for block/item textures (output >1KB; Minecraft scales as needed).
- * No external deps: Node zlib + Buffer only. Used when materializer leaves PNG contents empty.
- * Material → base color; add simple noise so texture is not flat. Alpha 255 everywhere.
+ * Generate real opaque PNGs for block/item textures at the file's textureResolution (16/32/64/128, from the
+ * visual level; 32 when unset). No external deps: Node zlib + Buffer only. Used when materializer leaves PNG
+ * contents empty. Material → base color; add simple noise so texture is not flat. Alpha 255 everywhere.
+ * Detail is drawn at the target resolution (per-pixel noise, motif geometry scaled from the 32px layout),
+ * never upscaled from a smaller image.
  */
 
 import { deflateSync } from "node:zlib";
@@ -54,6 +56,19 @@ export function encodeRawRgbaToPng(width: number, height: number, rawRowsWithFil
   return Buffer.concat(out);
 }
 
+/** Resolutions Minecraft accepts for generated block/item textures (VisualLevel textureResolution). */
+export const TEXTURE_RESOLUTIONS = [16, 32, 64, 128] as const;
+
+/** Resolution used when a file carries no textureResolution; motif layouts are designed at this size. */
+export const DEFAULT_TEXTURE_RESOLUTION = 32;
+
+/** Throws unless resolution is one of TEXTURE_RESOLUTIONS. */
+export function assertTextureResolution(resolution: number): void {
+  if (!(TEXTURE_RESOLUTIONS as readonly number[]).includes(resolution)) {
+    throw new Error(`Texture resolution must be one of ${TEXTURE_RESOLUTIONS.join(", ")}, got ${resolution}`);
+  }
+}
+
 /** Material → [R, G, B] 0–255. Opaque, visible in-game. */
 function materialToRgb(material: string): [number, number, number] {
   switch (material) {
@@ -81,17 +96,37 @@ function hashToFloat(s: string): number {
 }
 
 /**
- * Generate a 32x32 RGBA image: base color + per-pixel noise (deterministic from seed).
+ * Deterministic 0–1 value from a string, well mixed (FNV-1a plus avalanche) so seeds differing in one character
+ * land far apart. For per-element seeds like `${seed}-x-${i}`.
+ */
+export function seededFloat(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 0x100000000;
+}
+
+/**
+ * Generate a square RGBA image: base color + per-pixel noise (deterministic from seed).
  * Guarantees: alpha=255 everywhere (opaque), at least two distinct pixel values (noise ±12 per channel).
  */
-export function generateOpaquePng16x16(options: {
+export function generateOpaquePng(options: {
   material?: string;
   /** Override color hint e.g. "yellow" -> [255,255,0] */
   colorHint?: string;
   /** Optional seed for deterministic noise (e.g. modId + contentId). */
   seed?: string;
+  /** Width and height in pixels (TEXTURE_RESOLUTIONS); default DEFAULT_TEXTURE_RESOLUTION. */
+  resolution?: number;
 }): Buffer {
-  const result = generateOpaquePng16x16WithProfile({
+  const result = generateOpaquePngWithProfile({
     ...options,
     textureProfile: undefined,
   });
@@ -116,20 +151,25 @@ export interface GenerateTextureResult {
 /**
  * Profile-driven texture: base + noise + motif stamps (e.g. holes). Records what was applied for manifest.
  */
-export function generateOpaquePng16x16WithProfile(options: {
+export function generateOpaquePngWithProfile(options: {
   material?: string;
   colorHint?: string;
   seed?: string;
   textureProfile?: TextureProfileForGenerator | null;
+  resolution?: number;
 }): GenerateTextureResult {
-  const { material = "generic", colorHint, seed = "default", textureProfile } = options;
+  const { material = "generic", colorHint, seed = "default", textureProfile, resolution = DEFAULT_TEXTURE_RESOLUTION } =
+    options;
+  assertTextureResolution(resolution);
   let [r, g, b] = colorHint ? colorHintToRgb(colorHint) : materialToRgb(material);
   const materialClassApplied = textureProfile?.materialClass ?? "generic";
   const motifsRequested = textureProfile?.visualMotifs ?? [];
   const motifsApplied: string[] = [];
 
-  const W = 32;
-  const H = 32;
+  const W = resolution;
+  const H = resolution;
+  /** Motif geometry is laid out for 32px; k scales sizes and counts so higher resolutions get finer detail. */
+  const k = W / DEFAULT_TEXTURE_RESOLUTION;
   const rowSize = 1 + W * 4;
   const rawRows: number[] = [];
 
@@ -166,9 +206,9 @@ export function generateOpaquePng16x16WithProfile(options: {
   if (motifsRequested.includes("holes") && seed) {
     const numHoles = 2 + (Math.floor(hashToFloat(seed + "-holes") * 2) % 2);
     for (let i = 0; i < numHoles; i++) {
-      const cx = Math.floor(hashToFloat(seed + `-hole-${i}-x`) * (W - 6)) + 3;
-      const cy = Math.floor(hashToFloat(seed + `-hole-${i}-y`) * (H - 6)) + 3;
-      const radius = 2 + (i % 2);
+      const cx = Math.floor(hashToFloat(seed + `-hole-${i}-x`) * (W - 6 * k)) + Math.round(3 * k);
+      const cy = Math.floor(hashToFloat(seed + `-hole-${i}-y`) * (H - 6 * k)) + Math.round(3 * k);
+      const radius = (2 + (i % 2)) * k;
       for (let dy = -radius; dy <= radius; dy++) {
         for (let dx = -radius; dx <= radius; dx++) {
           if (dx * dx + dy * dy <= radius * radius) {
@@ -191,7 +231,7 @@ export function generateOpaquePng16x16WithProfile(options: {
 
   if (motifsRequested.includes("strata") && seed) {
     for (let y = 0; y < H; y++) {
-      const band = Math.floor(y / 4);
+      const band = Math.floor(y / (4 * k));
       const delta = (hashToFloat(seed + "-strata-" + band) - 0.5) * 35;
       for (let x = 0; x < W; x++) {
         const [rr, gg, bb] = getPixel(x, y);
@@ -202,7 +242,7 @@ export function generateOpaquePng16x16WithProfile(options: {
   }
 
   if (motifsRequested.includes("veins") && seed) {
-    const numVeins = 2 + (Math.floor(hashToFloat(seed + "-veins") * 2) % 2);
+    const numVeins = Math.max(1, Math.round((2 + (Math.floor(hashToFloat(seed + "-veins") * 2) % 2)) * k));
     for (let v = 0; v < numVeins; v++) {
       const x0 = Math.floor(hashToFloat(seed + "-v" + v + "-x0") * W);
       const y0 = Math.floor(hashToFloat(seed + "-v" + v + "-y0") * H);
@@ -223,9 +263,9 @@ export function generateOpaquePng16x16WithProfile(options: {
   if (motifsRequested.includes("bubbles") && seed) {
     const numBubbles = 2 + (Math.floor(hashToFloat(seed + "-bubbles") * 2) % 2);
     for (let i = 0; i < numBubbles; i++) {
-      const cx = Math.floor(hashToFloat(seed + `-bub-${i}-x`) * (W - 8)) + 4;
-      const cy = Math.floor(hashToFloat(seed + `-bub-${i}-y`) * (H - 8)) + 4;
-      const radius = 2 + (i % 2);
+      const cx = Math.floor(hashToFloat(seed + `-bub-${i}-x`) * (W - 8 * k)) + Math.round(4 * k);
+      const cy = Math.floor(hashToFloat(seed + `-bub-${i}-y`) * (H - 8 * k)) + Math.round(4 * k);
+      const radius = (2 + (i % 2)) * k;
       for (let dy = -radius; dy <= radius; dy++) {
         for (let dx = -radius; dx <= radius; dx++) {
           if (dx * dx + dy * dy <= radius * radius) {
@@ -243,7 +283,7 @@ export function generateOpaquePng16x16WithProfile(options: {
   }
 
   if (motifsRequested.includes("flakes") && seed) {
-    const numFlakes = 8 + (Math.floor(hashToFloat(seed + "-flakes") * 8) % 8);
+    const numFlakes = Math.round((8 + (Math.floor(hashToFloat(seed + "-flakes") * 8) % 8)) * k * k);
     for (let i = 0; i < numFlakes; i++) {
       const fx = Math.floor(hashToFloat(seed + "-flake-" + i + "-x") * W) % W;
       const fy = Math.floor(hashToFloat(seed + "-flake-" + i + "-y") * H) % H;
@@ -257,11 +297,11 @@ export function generateOpaquePng16x16WithProfile(options: {
   if (motifsRequested.includes("rings") && seed) {
     const cx = W / 2 - 0.5;
     const cy = H / 2 - 0.5;
-    for (const r of [6, 12, 18]) {
+    for (const r of [6 * k, 12 * k, 18 * k]) {
       for (let y = 0; y < H; y++) {
         for (let x = 0; x < W; x++) {
           const d = Math.sqrt((x - cx) ** 2 + (y - cy) ** 2);
-          if (Math.abs(d - r) < 1.2) darken(x, y, 0.65);
+          if (Math.abs(d - r) < 1.2 * Math.max(1, k / 2)) darken(x, y, 0.65);
         }
       }
     }
@@ -292,6 +332,36 @@ export function generateOpaquePng16x16WithProfile(options: {
   };
 }
 
+/**
+ * Palette entries ("#RRGGBB" or color names like colorHint) → RGB ramp, darkest first. Fewer than two colors get a
+ * darker and a lighter shade around the one given (gray when none).
+ */
+export function paletteRamp(palette: string[]): [number, number, number][] {
+  const colors = palette.map((entry): [number, number, number] => {
+    const hex = /^#?([0-9a-f]{6})$/i.exec(entry.trim())?.[1];
+    return hex
+      ? [parseInt(hex.slice(0, 2), 16), parseInt(hex.slice(2, 4), 16), parseInt(hex.slice(4, 6), 16)]
+      : colorHintToRgb(entry);
+  });
+  const luminance = ([r, g, b]: [number, number, number]) => 0.299 * r + 0.587 * g + 0.114 * b;
+  colors.sort((a, b) => luminance(a) - luminance(b));
+  if (colors.length >= 2) return colors;
+  const base = colors[0] ?? [128, 128, 128];
+  return [
+    base.map((c) => c * 0.6) as [number, number, number],
+    base,
+    base.map((c) => c + (255 - c) * 0.4) as [number, number, number],
+  ];
+}
+
+/** Color at t (0 darkest … 1 lightest) along a paletteRamp. */
+export function rampColor(ramp: [number, number, number][], t: number): [number, number, number] {
+  const pos = Math.max(0, Math.min(1, t)) * (ramp.length - 1);
+  const i = Math.min(ramp.length - 2, Math.floor(pos));
+  const f = pos - i;
+  return [0, 1, 2].map((c) => ramp[i][c] + (ramp[i + 1][c] - ramp[i][c]) * f) as [number, number, number];
+}
+
 function colorHintToRgb(hint: string): [number, number, number] {
   const h = hint.toLowerCase().trim();
   if (h.includes("yellow")) return [240, 220, 80];
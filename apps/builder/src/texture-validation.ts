@@ -2,11 +2,13 @@
  * Validate PNG texture files: decode, check dimensions, opacity, and variation.
  * Replaces file-size-based checks so valid compressed PNGs (e.g. 32x32 under 1KB) pass.
  * ensurePngRgba: convert indexed/palette (color type 3) to RGBA so Minecraft accepts the texture.
+ * scalePngToResolution: nearest-neighbour resize of copied/user textures to the mod's texture resolution;
+ * validateTextureResolutions: every block/item texture of a mod shares one resolution.
  */
 
 import { inflateSync } from "node:zlib";
 import { readFileSync } from "node:fs";
-import { encodeRawRgbaToPng } from "./texture-png.js";
+import { encodeRawRgbaToPng, paletteRamp, rampColor } from "./texture-png.js";
 
 const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
 
@@ -319,6 +321,69 @@ export function applySemanticColorTheme(buffer: Buffer, relPath: string, strengt
   return encodeRawRgbaToPng(width, height, outRows);
 }
 
+/**
+ * Palette swap (MaterializedFile.paletteSwap): remap a vanilla template's luminance ramp onto `palette` (hex or
+ * color names). Luminance of the visible pixels is normalized to 0..1 (darkest → lightest) and looked up along
+ * paletteRamp, so the template's shading and pixel pattern survive in the new colors. Alpha is kept; fully
+ * transparent pixels are left untouched.
+ */
+export function applyPaletteSwap(buffer: Buffer, palette: string[]): Buffer {
+  const decoded = decodePngRgba(buffer);
+  if (!decoded) return ensurePngRgba(buffer);
+  const { width, height, pixels } = decoded;
+  const luminance = new Float64Array(width * height);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let p = 0; p < width * height; p++) {
+    const o = p * 4;
+    luminance[p] = 0.299 * pixels[o] + 0.587 * pixels[o + 1] + 0.114 * pixels[o + 2];
+    if (pixels[o + 3] === 0) continue;
+    min = Math.min(min, luminance[p]);
+    max = Math.max(max, luminance[p]);
+  }
+  const ramp = paletteRamp(palette);
+  const outRows = Buffer.alloc(height * (1 + width * 4));
+  for (let y = 0; y < height; y++) {
+    outRows[y * (1 + width * 4)] = 0;
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const o = y * (1 + width * 4) + 1 + x * 4;
+      pixels.copy(outRows, o, p * 4, p * 4 + 4);
+      if (pixels[p * 4 + 3] === 0) continue;
+      const t = max > min ? (luminance[p] - min) / (max - min) : 0.5;
+      const [r, g, b] = rampColor(ramp, t);
+      outRows[o] = Math.round(r);
+      outRows[o + 1] = Math.round(g);
+      outRows[o + 2] = Math.round(b);
+    }
+  }
+  return encodeRawRgbaToPng(width, height, outRows);
+}
+
+/**
+ * Palette-keeping retry for ensurePerceptuallyUnique: darken every visible pixel by a factor that grows with
+ * `strength`, so palette-drawn textures (palette swaps, ore composites, item sprites) stay in their hues instead of
+ * being pulled toward the semantic theme. Same signature as applySemanticColorTheme; alpha is kept.
+ */
+export function applyPaletteShade(buffer: Buffer, _relPath: string, strength: number = 0.45): Buffer {
+  const decoded = decodePngRgba(buffer);
+  if (!decoded) return ensurePngRgba(buffer);
+  const { width, height, pixels } = decoded;
+  const factor = 1 - Math.min(0.5, Math.max(0.05, (strength - 0.4) * 0.5));
+  const outRows = Buffer.alloc(height * (1 + width * 4));
+  for (let y = 0; y < height; y++) {
+    outRows[y * (1 + width * 4)] = 0;
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      const o = y * (1 + width * 4) + 1 + x * 4;
+      pixels.copy(outRows, o, p, p + 4);
+      if (pixels[p + 3] === 0) continue;
+      for (let c = 0; c < 3; c++) outRows[o + c] = Math.round(pixels[p + c] * factor);
+    }
+  }
+  return encodeRawRgbaToPng(width, height, outRows);
+}
+
 /**
  * Apply deterministic per-entity variation so the same source never produces byte-identical output for different paths.
  * Decodes PNG to raw RGBA, tweaks at least one pixel based on relPath (hue/brightness), re-encodes.
@@ -366,10 +431,92 @@ export function applyPerEntityVariation(buffer: Buffer, relPath: string): Buffer
   return encodeRawRgbaToPng(width, height, raw);
 }
 
+/** PNG width/height from IHDR, or null if the buffer is not a PNG. */
+export function pngDimensions(buffer: Buffer): { width: number; height: number } | null {
+  if (buffer.length < 24 || buffer.subarray(0, 8).compare(PNG_SIGNATURE) !== 0) return null;
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+/**
+ * RGBA pixels (width * height * 4, no filter bytes) of an RGB/RGBA/indexed PNG, or null when it cannot be decoded.
+ * Rows are read as unfiltered, like the other transforms here.
+ */
+export function decodePngRgba(buffer: Buffer): { width: number; height: number; pixels: Buffer } | null {
+  const decoded = decodePngRaw(ensurePngRgba(buffer));
+  if (!decoded || (decoded.colorType !== 2 && decoded.colorType !== 6)) return null;
+  const { width, height, colorType, raw } = decoded;
+  const bpp = colorType === 6 ? 4 : 3;
+  const pixels = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * (1 + width * bpp) + 1 + x * bpp;
+      const o = (y * width + x) * 4;
+      pixels[o] = raw[i] ?? 0;
+      pixels[o + 1] = raw[i + 1] ?? 0;
+      pixels[o + 2] = raw[i + 2] ?? 0;
+      pixels[o + 3] = bpp === 4 ? (raw[i + 3] ?? 255) : 255;
+    }
+  }
+  return { width, height, pixels };
+}
+
+/**
+ * Nearest-neighbour resize so the texture is `resolution` pixels wide; height scales by the same factor
+ * (animation strips keep their frame count). Used for vanilla copies and user textures, which are pixel art;
+ * generated textures are drawn at the target resolution instead. Expects unfiltered RGB/RGBA rows as written
+ * by encodeRawRgbaToPng; no-op when the width already matches or the buffer cannot be decoded.
+ */
+export function scalePngToResolution(buffer: Buffer, resolution: number): Buffer {
+  const rgba = ensurePngRgba(buffer);
+  const decoded = decodePngRaw(rgba);
+  if (!decoded || (decoded.colorType !== 2 && decoded.colorType !== 6)) return rgba;
+  const { width, height, colorType, raw } = decoded;
+  if (width === resolution) return rgba;
+  const factor = resolution / width;
+  const outHeight = Math.max(1, Math.round(height * factor));
+  const bpp = colorType === 6 ? 4 : 3;
+  const rowSize = 1 + width * bpp;
+  const outRowSize = 1 + resolution * 4;
+  const outRows = Buffer.alloc(outHeight * outRowSize);
+  for (let y = 0; y < outHeight; y++) {
+    const sy = Math.min(height - 1, Math.floor(y / factor));
+    for (let x = 0; x < resolution; x++) {
+      const sx = Math.min(width - 1, Math.floor(x / factor));
+      const i = sy * rowSize + 1 + sx * bpp;
+      const o = y * outRowSize + 1 + x * 4;
+      outRows[o] = raw[i] ?? 0;
+      outRows[o + 1] = raw[i + 1] ?? 0;
+      outRows[o + 2] = raw[i + 2] ?? 0;
+      outRows[o + 3] = bpp === 4 ? (raw[i + 3] ?? 255) : 255;
+    }
+  }
+  return encodeRawRgbaToPng(resolution, outHeight, outRows);
+}
+
+/**
+ * Throws if block/item textures (paths containing /textures/block/ or /textures/item/) do not all have the
+ * same width, or differ from `expected` when given. Mixed resolutions make one family look patched together.
+ */
+export function validateTextureResolutions(
+  textures: { path: string; width: number }[],
+  expected?: number
+): void {
+  const modTextures = textures.filter((t) => /\/textures\/(block|item)\//.test(t.path));
+  const reference = expected ?? modTextures[0]?.width;
+  const mismatched = modTextures.filter((t) => t.width !== reference);
+  if (mismatched.length > 0) {
+    throw new Error(
+      `Texture resolution mismatch: expected ${reference}px, got ${mismatched
+        .map((t) => `${t.path} (${t.width}px)`)
+        .join(", ")}`
+    );
+  }
+}
+
 /**
  * For RGBA (colorType 6): each row = 1 filter byte + width*4 bytes. Check alpha and variation.
  */
-function validateRgba(raw: Buffer, width: number, height: number): TextureValidationResult {
+function validateRgba(raw: Buffer, width: number, height: number, requireTransparency = false): TextureValidationResult {
   const rowSize = 1 + width * 4;
   const expectedLen = height * rowSize;
   if (raw.length < expectedLen) {
@@ -377,6 +524,7 @@ function validateRgba(raw: Buffer, width: number, height: number): TextureValida
   }
 
   let hasNonZeroAlpha = false;
+  let hasZeroAlpha = false;
   const colorSet = new Set<string>();
   const sample: number[] = [];
 
@@ -389,6 +537,7 @@ function validateRgba(raw: Buffer, width: number, height: number): TextureValida
       const b = raw[i + 2];
       const a = raw[i + 3];
       if (a !== 0) hasNonZeroAlpha = true;
+      else hasZeroAlpha = true;
       colorSet.add(`${r},${g},${b},${a}`);
       if (sample.length < 6) sample.push(r, g, b, a);
     }
@@ -418,6 +567,18 @@ function validateRgba(raw: Buffer, width: number, height: number): TextureValida
     };
   }
 
+  if (requireTransparency && !hasZeroAlpha) {
+    return {
+      ok: false,
+      message: "Item sprite has no transparent pixels (opaque square)",
+      width,
+      height,
+      fullyTransparent: false,
+      uniqueColorCount: colorSet.size,
+      samplePixels: sample.slice(0, 12).join(","),
+    };
+  }
+
   return {
     ok: true,
     width,
@@ -506,10 +667,16 @@ export function perceptualFingerprint(buffer: Buffer): string | null {
 }
 
 /**
- * Validate a PNG buffer: decodable, dimensions >= 16x16, not fully transparent, has pixel variation.
- * Returns result with ok and optional details for logging.
+ * Validate a PNG buffer: decodable, dimensions >= 16x16, width equal to expectedResolution when given,
+ * not fully transparent, has pixel variation. Item sprites (requireTransparency) must be RGBA with at least one
+ * alpha 0 pixel. Returns result with ok and optional details for logging.
  */
-export function validateTexturePngBuffer(buffer: Buffer, _filePath?: string): TextureValidationResult {
+export function validateTexturePngBuffer(
+  buffer: Buffer,
+  _filePath?: string,
+  expectedResolution?: number,
+  requireTransparency = false
+): TextureValidationResult {
   if (buffer.length === 0) {
     return { ok: false, message: "File is 0 bytes" };
   }
@@ -530,8 +697,20 @@ export function validateTexturePngBuffer(buffer: Buffer, _filePath?: string): Te
     };
   }
 
+  if (expectedResolution != null && width !== expectedResolution) {
+    return {
+      ok: false,
+      message: `Width ${width} does not match texture resolution ${expectedResolution}`,
+      width,
+      height,
+    };
+  }
+
   if (colorType === 6) {
-    return validateRgba(raw, width, height);
+    return validateRgba(raw, width, height, requireTransparency);
+  }
+  if (colorType === 2 && requireTransparency) {
+    return { ok: false, message: "Item sprite has no alpha channel (RGB)", width, height };
   }
   if (colorType === 2) {
     return validateRgb(raw, width, height);
@@ -548,9 +727,14 @@ export function validateTexturePngBuffer(buffer: Buffer, _filePath?: string): Te
 /**
  * Validate a PNG file on disk; on failure log details and throw.
  */
-export function validateTexturePngFile(fullPath: string, relPath: string): void {
+export function validateTexturePngFile(
+  fullPath: string,
+  relPath: string,
+  expectedResolution?: number,
+  requireTransparency = false
+): void {
   const buffer = readFileSync(fullPath);
-  const result = validateTexturePngBuffer(buffer, fullPath);
+  const result = validateTexturePngBuffer(buffer, fullPath, expectedResolution, requireTransparency);
 
   if (result.ok) return;
 
@@ -1,17 +1,28 @@
 /**
  * Write Plane 3 materialized files to workDir. Isolated so E2E tests can import
  * without triggering builder env validation (JOB_ID etc.).
+ * Block/item textures are written at one mod-wide resolution (modTextureResolution): generated textures are
+ * drawn at it, vanilla copies and user textures are resized to it. Item sprites (itemSprite) are drawn transparent
+ * with their synthesized palette and ore textures (oreComposite) in their material palette over vanilla stone,
+ * so both skip the semantic color theme. Palette-swapped vanilla copies (paletteSwap) get their template's
+ * luminance remapped onto the palette instead of the theme. All three retry perceptual collisions with
+ * applyPaletteShade, which keeps the palette.
  */
 
 import { mkdirSync, writeFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import type { MaterializedFile } from "@themodgenerator/generator";
-import { generateOpaquePng16x16WithProfile } from "./texture-png.js";
+import { generateOpaquePngWithProfile, DEFAULT_TEXTURE_RESOLUTION, assertTextureResolution } from "./texture-png.js";
+import { generateItemSpritePng } from "./item-sprite-png.js";
+import { compositeOreTexture } from "./ore-texture-png.js";
 import {
   perceptualFingerprint,
   ensurePngRgba,
   applyPerEntityVariation,
   applySemanticColorTheme,
+  applyPaletteSwap,
+  applyPaletteShade,
+  scalePngToResolution,
 } from "./texture-validation.js";
 import {
   getVanillaTextureBuffer,
@@ -31,6 +42,27 @@ export interface WriteMaterializedFilesOptions {
   mcVersion?: string;
 }
 
+/** Block and item textures share the mod resolution; entity, armor and other textures keep their layout. */
+export function isBlockOrItemTexture(relPath: string): boolean {
+  return relPath.endsWith(".png") && /\/textures\/(block|item)\//.test(relPath);
+}
+
+/**
+ * The single texture resolution of a mod: the textureResolution carried by its block/item textures
+ * (the visual level), DEFAULT_TEXTURE_RESOLUTION when none carries one. Throws on mixed resolutions.
+ */
+export function modTextureResolution(files: MaterializedFile[]): number {
+  const declared = new Set(
+    files.filter((f) => isBlockOrItemTexture(f.path) && f.textureResolution != null).map((f) => f.textureResolution!)
+  );
+  if (declared.size > 1) {
+    throw new Error(`[TEXTURES] Mixed texture resolutions in one mod: ${[...declared].sort((a, b) => a - b).join(", ")}`);
+  }
+  const resolution = declared.size === 1 ? [...declared][0] : DEFAULT_TEXTURE_RESOLUTION;
+  assertTextureResolution(resolution);
+  return resolution;
+}
+
 function textureSeedFromFile(relPath: string, file: MaterializedFile): string {
   const base = relPath.replace(/\.png$/, "").replace(/\//g, "_");
   const intent = file.textureIntent ?? "item";
@@ -79,7 +111,7 @@ export async function writeMaterializedFiles(
   const needsVanilla = files.some(
     (f) =>
       f.path.endsWith(".png") &&
-      (f.copyFromVanillaPaths?.length || (f as { vanillaTemplateBlockId?: string }).vanillaTemplateBlockId)
+      (f.copyFromVanillaPaths?.length || (f as { vanillaTemplateBlockId?: string }).vanillaTemplateBlockId || f.oreComposite)
   );
   let vanillaSource: VanillaAssetsSource | null = null;
   if (needsVanilla) {
@@ -94,6 +126,10 @@ export async function writeMaterializedFiles(
 
   const MAX_PERCEPTUAL_ATTEMPTS = 5;
   const seenPerceptualFingerprints = new Set<string>();
+  const modResolution = modTextureResolution(files);
+  const resolutionFor = (relPath: string) => (isBlockOrItemTexture(relPath) ? modResolution : DEFAULT_TEXTURE_RESOLUTION);
+  const fitToModResolution = (buffer: Buffer, relPath: string) =>
+    isBlockOrItemTexture(relPath) ? scalePngToResolution(buffer, modResolution) : buffer;
 
   for (const file of files) {
     const { path: relPath, contents, placeholderMaterial, colorHint, texturePrompt, copyFromVanillaPaths } = file;
@@ -132,11 +168,12 @@ export async function writeMaterializedFiles(
           const material = (file.placeholderMaterial ?? "wood") as "wood" | "stone" | "metal" | "gem" | "generic";
           const seed = textureSeedFromFile(relPath, file);
           const profile = (file as { textureProfile?: { materialClass?: string; visualMotifs?: string[] } }).textureProfile;
-          const { buffer: pngBuffer } = generateOpaquePng16x16WithProfile({
+          const { buffer: pngBuffer } = generateOpaquePngWithProfile({
             material,
             colorHint: file.colorHint,
             seed,
             textureProfile: profile ?? undefined,
+            resolution: resolutionFor(relPath),
           });
           buffer = ensurePngRgba(pngBuffer);
         }
@@ -151,10 +188,40 @@ export async function writeMaterializedFiles(
         buffer = await getVanillaTextureBuffer(vanillaSource!, copyFromVanillaPaths![0], opts);
       }
       buffer = ensurePngRgba(buffer);
-      buffer = applySemanticColorTheme(buffer, relPath);
+      buffer = file.paletteSwap
+        ? applyPaletteSwap(buffer, file.paletteSwap.palette)
+        : applySemanticColorTheme(buffer, relPath);
       buffer = applyPerEntityVariation(buffer, relPath);
-      buffer = ensurePerceptuallyUnique(buffer, relPath, seenPerceptualFingerprints, MAX_PERCEPTUAL_ATTEMPTS, applySemanticColorTheme, applyPerEntityVariation);
+      buffer = fitToModResolution(buffer, relPath);
+      buffer = ensurePerceptuallyUnique(
+        buffer,
+        relPath,
+        seenPerceptualFingerprints,
+        MAX_PERCEPTUAL_ATTEMPTS,
+        file.paletteSwap ? applyPaletteShade : applySemanticColorTheme,
+        applyPerEntityVariation
+      );
       writeFileSync(fullPath, buffer);
+    } else if (relPath.endsWith(".png") && file.oreComposite && (contents === "" || contents.length === 0)) {
+      const { base, palette, seed } = file.oreComposite;
+      const baseBuffer = await getVanillaTextureBuffer(vanillaSource!, `block/${base}`, {
+        mcVersion: options?.mcVersion ?? process.env.MC_VERSION ?? "1.21.1",
+        bundledPackRoot: process.env.VANILLA_ASSETS_PACK,
+      });
+      let oreBuffer = compositeOreTexture(baseBuffer, { palette, seed, resolution: resolutionFor(relPath) });
+      oreBuffer = applyPerEntityVariation(oreBuffer, relPath);
+      oreBuffer = ensurePerceptuallyUnique(oreBuffer, relPath, seenPerceptualFingerprints, MAX_PERCEPTUAL_ATTEMPTS, applyPaletteShade, applyPerEntityVariation);
+      writeFileSync(fullPath, oreBuffer);
+    } else if (relPath.endsWith(".png") && file.itemSprite && (contents === "" || contents.length === 0)) {
+      let spriteBuffer = generateItemSpritePng({
+        shape: file.itemSprite.shape,
+        palette: file.itemSprite.palette,
+        seed: textureSeedFromFile(relPath, file),
+        resolution: resolutionFor(relPath),
+      });
+      spriteBuffer = applyPerEntityVariation(spriteBuffer, relPath);
+      spriteBuffer = ensurePerceptuallyUnique(spriteBuffer, relPath, seenPerceptualFingerprints, MAX_PERCEPTUAL_ATTEMPTS, applyPaletteShade, applyPerEntityVariation);
+      writeFileSync(fullPath, spriteBuffer);
     } else if (relPath.endsWith(".png") && (contents === "" || contents.length === 0)) {
       if (process.env.STRICT_ASSETS === "1") {
         throw new Error(
@@ -168,11 +235,12 @@ export async function writeMaterializedFiles(
       if (process.env.DEBUG && texturePrompt) {
         console.log(`[BUILDER] texture prompt ${relPath}: ${texturePrompt}`);
       }
-      const { buffer: pngBuffer, motifsApplied, materialClassApplied } = generateOpaquePng16x16WithProfile({
+      const { buffer: pngBuffer, motifsApplied, materialClassApplied } = generateOpaquePngWithProfile({
         material,
         colorHint,
         seed,
         textureProfile: profile ?? undefined,
+        resolution: resolutionFor(relPath),
       });
       let rgbaBuffer = ensurePngRgba(pngBuffer);
       rgbaBuffer = applySemanticColorTheme(rgbaBuffer, relPath);
@@ -184,6 +252,7 @@ export async function writeMaterializedFiles(
       let rgbaBuffer = ensurePngRgba(Buffer.from(contents, "base64"));
       rgbaBuffer = applySemanticColorTheme(rgbaBuffer, relPath);
       rgbaBuffer = applyPerEntityVariation(rgbaBuffer, relPath);
+      rgbaBuffer = fitToModResolution(rgbaBuffer, relPath);
       rgbaBuffer = ensurePerceptuallyUnique(rgbaBuffer, relPath, seenPerceptualFingerprints, MAX_PERCEPTUAL_ATTEMPTS, applySemanticColorTheme, applyPerEntityVariation);
       writeFileSync(fullPath, rgbaBuffer);
     } else {
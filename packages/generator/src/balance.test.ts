@@ -53,5 +53,19 @@ describe("Balance", () => {
     assert.ok(stats.durabilityMultiplier >= 5 && stats.durabilityMultiplier <= 40);
     assert.ok(stats.toughness >= 0 && stats.toughness <= 4);
     assert.ok(stats.knockbackResistance >= 0 && stats.knockbackResistance <= 0.2);
+    assert.ok(stats.enchantability >= 5 && stats.enchantability <= 25);
+  });
+
+  it("deriveArmorStats: rarer material gets more protection, toughness and enchantability", () => {
+    const common = { score: 20, normalized: 0.2, factors: { veinsPerChunk: 8, veinSize: 8, verticalRange: 128, biomeRestriction: 0 } };
+    const rare = { score: 90, normalized: 0.9, factors: { veinsPerChunk: 1, veinSize: 2, verticalRange: 32, biomeRestriction: 1 } };
+    const low = deriveArmorStats("tin", common);
+    const high = deriveArmorStats("ruby", rare);
+    const total = (s: { protectionPoints: number[] }) => s.protectionPoints.reduce((a, b) => a + b, 0);
+    assert.ok(total(high) > total(low));
+    assert.ok(high.toughness > low.toughness);
+    assert.ok(high.enchantability > low.enchantability);
+    // Never above vanilla netherite per-slot protection (3, 6, 8, 3).
+    assert.ok(high.protectionPoints.every((p, i) => p <= [3, 6, 8, 3][i]));
   });
 });
@@ -57,6 +57,7 @@ export interface ArmorStats {
   protectionPoints: number[];
   toughness: number;
   knockbackResistance: number;
+  enchantability: number;
 }
 
 export interface MaterialStatOverrides {
@@ -77,7 +78,8 @@ const MINING_LEVEL_MAX = 4;
 
 const ARMOR_DURABILITY_MULT_MIN = 5;
 const ARMOR_DURABILITY_MULT_MAX = 40;
-const PROTECTION_PER_SLOT_MAX = 8;
+/** Per-slot cap = vanilla netherite [boots, leggings, chest, helmet]; generated armor never out-protects it. */
+const PROTECTION_PER_SLOT_MAX = [3, 6, 8, 3];
 const TOUGHNESS_MIN = 0;
 const TOUGHNESS_MAX = 4;
 const KB_RESIST_MIN = 0;
@@ -141,8 +143,8 @@ export function deriveArmorStats(
   }
 
   const baseProtection = 2 + rarityScore.normalized * 4 * mult;
-  const protectionPoints = [1, 2, 3, 1].map((k) =>
-    Math.min(PROTECTION_PER_SLOT_MAX, Math.round(baseProtection * k * 0.5))
+  const protectionPoints = [1, 2, 3, 1].map((k, slot) =>
+    Math.min(PROTECTION_PER_SLOT_MAX[slot], Math.round(baseProtection * k * 0.5))
   );
   const toughness = Math.max(
     TOUGHNESS_MIN,
@@ -156,6 +158,9 @@ export function deriveArmorStats(
     ARMOR_DURABILITY_MULT_MIN +
       (ARMOR_DURABILITY_MULT_MAX - ARMOR_DURABILITY_MULT_MIN) * 0.4 * mult
   );
+  const enchantability = Math.round(
+    ENCHANTABILITY_MIN + (ENCHANTABILITY_MAX - ENCHANTABILITY_MIN) * rarityScore.normalized * mult
+  );
 
   return {
     durabilityMultiplier: Math.max(
@@ -165,5 +170,6 @@ export function deriveArmorStats(
     protectionPoints,
     toughness: Math.max(TOUGHNESS_MIN, Math.min(TOUGHNESS_MAX, toughness)),
     knockbackResistance: Math.max(KB_RESIST_MIN, Math.min(KB_RESIST_MAX, knockbackResistance)),
+    enchantability: Math.max(ENCHANTABILITY_MIN, Math.min(ENCHANTABILITY_MAX, enchantability)),
   };
 }
@@ -1,7 +1,10 @@
 /**
  * Behavior intelligence pipeline. Behavior MUST exist for every item/block.
  * Dangerous/magical/machine/sentient/radioactive/melting/corrupting ALWAYS manifest behaviorally.
- * No empty behavior plans. No cosmetic-only items. DATA ONLY — no Fabric code yet.
+ * No empty behavior plans. No cosmetic-only items.
+ * Block tick behaviors, area effects and state machines compile to Fabric code via interpretation/infer-block-behavior
+ * (ModBlock.tickBehaviors → materializer/block-ticks, ModBlock.stateMachine → materializer/block-states);
+ * the rest is plan data only.
  */
 
 import type { SemanticTag } from "../item-block-primitives.js";
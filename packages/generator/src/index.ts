@@ -10,7 +10,15 @@ export { fromSpec } from "./from-spec.js";
 export { emitHelloWorld } from "./templates/hello-world.js";
 export type { AssetKey } from "./composer-stub.js";
 export { composeTier1Stub } from "./composer-stub.js";
-export type { MaterializedFile, FabricMaterializerTier1 } from "./materializer/index.js";
+export type {
+  MaterializedFile,
+  FabricMaterializerTier1,
+  ItemSprite,
+  ItemSpriteShape,
+  OreBaseTexture,
+  OreComposite,
+  PaletteSwap,
+} from "./materializer/index.js";
 export {
   materializeTier1,
   materializeTier1WithPlans,
@@ -18,9 +26,16 @@ export {
   assetKeysToFiles,
   fabricScaffoldFiles,
   validateLootTableJson,
+  validateLangCoverage,
+  validateClientSourcesSafe,
   validateNoRecipesPluralFolder,
   validateRecipeJsonSchema,
+  toolMaterialStats,
+  armorMaterialStats,
+  ITEM_SPRITE_SHAPES,
 } from "./materializer/index.js";
+export type { NameTranslator, LanguageDictionary, TranslationDictionary } from "./translation/index.js";
+export { createDictionaryTranslator, dictionaryTranslator, OFFLINE_DICTIONARY } from "./translation/index.js";
 export type { Primitive, PrimitiveDefinition, PrimitiveSafety } from "./primitives.js";
 export { PRIMITIVE_REGISTRY } from "./primitives.js";
 export type {
@@ -103,8 +118,8 @@ export type {
 export { resolveVisualBlueprint } from "./visual-blueprints.js";
 export type { TextureRecipe, TextureRecipeLayer, LayerType } from "./texture-recipe.js";
 export { recipeFromBlueprint } from "./texture-recipe.js";
-export type { TextureSourceKind, TextureSourceResult } from "./texture-sources.js";
-export { selectTextureSource } from "./texture-sources.js";
+export type { TextureSourceKind, TextureSourceResult, PaletteSwapVariant, PaletteSwapTemplate } from "./texture-sources.js";
+export { selectTextureSource, paletteSwapTemplate, PALETTE_SWAP_TEMPLATES } from "./texture-sources.js";
 export {
   synthesizeTexture,
   generateProceduralTexture,
@@ -17,6 +17,7 @@ import {
   defaultBlockPrimitive,
   defaultPhysicalTraits,
   type ItemCategory,
+  type ItemRarity,
   type BlockMaterial,
 } from "./item-block-primitives.js";
 
@@ -247,6 +248,18 @@ function synthesizeGameplay(tags: SemanticTag[], kind: InterpretedKind): Gamepla
   return out;
 }
 
+/** Rarity words in the display name; legendary > epic > rare > uncommon. */
+const RARITY_WORDS: Array<[ItemRarity, RegExp]> = [
+  ["legendary", /\b(legendary|mythic|mythical|divine|godly)\b/],
+  ["epic", /\b(epic|ancient|relic|artifact|artefact)\b/],
+  ["rare", /\b(rare|enchanted|arcane|mystic)\b/],
+  ["uncommon", /\b(uncommon|fine|refined|polished)\b/],
+];
+
+/** Durability for items that wear out: wands/staves (flint and steel), tools and weapons (iron tier). */
+const WAND_DURABILITY = 64;
+const TOOL_DURABILITY = 250;
+
 /** Build ItemPrimitive from interpreted result. */
 function buildItemPrimitive(
   id: string,
@@ -267,6 +280,11 @@ function buildItemPrimitive(
           ? "magic"
           : "misc";
   item.category = category;
+  const name = displayName.toLowerCase();
+  item.rarity = RARITY_WORDS.find(([, pattern]) => pattern.test(name))?.[0] ?? "common";
+  if (/\b(wand|staff|scepter)\b/.test(name)) item.durability = WAND_DURABILITY;
+  else if (category === "tool" || category === "weapon") item.durability = TOOL_DURABILITY;
+  if (tags.includes("hot") || /\b(netherite|fireproof|molten|infernal)\b/.test(name)) item.fireproof = true;
   item.visual.textureHints = [aesthetic.materialHint, ...(aesthetic.colorPalette ?? []).slice(0, 2)];
   item.visual.glow = !!aesthetic.glow;
   item.visual.animated = !!aesthetic.animationHint;
@@ -274,6 +292,8 @@ function buildItemPrimitive(
     item.behavior.onConsume = [{ type: "heal", value: gameplay.food.hunger * 2 }];
     item.stackSize = 16;
   }
+  // Damageable items never stack.
+  if (item.durability !== undefined) item.stackSize = 1;
   // Magical → always visible or mechanical feedback (glow + passive effect)
   if (tags.includes("magical")) {
     item.visual.glow = true;
@@ -307,14 +327,17 @@ function buildBlockPrimitive(
  * Interpret any prompt as an item or block.
  * INVARIANT: Never throws. Never returns null. Always returns a populated result (kind "item" | "block").
  * Empty/nonsense input is normalized to evocative "mystery item" and then decomposed.
+ * forceKind skips kind detection when the caller already knows (e.g. "Stone Sword" is an item).
  */
-export function interpretItemOrBlock(prompt: string): InterpretedResult {
+export function interpretItemOrBlock(prompt: string, forceKind?: InterpretedKind): InterpretedResult {
   const safePrompt =
     prompt != null && typeof prompt === "string" && prompt.trim().length > 0 ? prompt.trim() : "mystery item";
   const id = slugify(safePrompt) || "mystery_item";
   const displayName = toDisplayName(safePrompt);
 
-  const { tags, aesthetic, kind } = decompose(safePrompt);
+  const decomposed = decompose(safePrompt);
+  const { tags, aesthetic } = decomposed;
+  const kind = forceKind ?? decomposed.kind;
   const physical = defaultPhysicalTraits();
   const gameplay = synthesizeGameplay(tags, kind);
 
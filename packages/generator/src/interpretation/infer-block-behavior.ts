@@ -0,0 +1,90 @@
+/**
+ * Infer block tick behaviors and state machines from display name through the behavior plan (synthesizeBehavior).
+ * Used when creating ModBlock so the materializer compiles them into a block class (block-ticks, block-states).
+ * - Radioactive/dangerous area effect → poison living entities in the radius once a second.
+ * - Melting tick → the block turns into water near heat (bright block light, like ice).
+ * - Ice cream tick → the block melts away in warm biomes.
+ * - Corrupting area effect → the block spreads into nearby dirt.
+ * - Sentient/magical state machine → idle → active when a player comes near, then cooldown and back to idle after
+ *   a delay. Only for blocks without tick behaviors (both drive scheduledTick).
+ * Machine ticks (they need an inventory) and the passive-particle fallback stay plan data only.
+ */
+
+import type { ModBlockStateMachine, ModBlockStateTransition, ModBlockTickBehavior } from "@themodgenerator/spec";
+import type { BehaviorPlan, StateMachine, TickBehavior } from "../behavior/behavior-intelligence.js";
+import { synthesizeBehavior } from "../behavior/behavior-intelligence.js";
+import { interpretItemOrBlock } from "../interpretation.js";
+
+/** Status effect of a dangerous area effect (poisonous potato, cave spider). */
+const AREA_STATUS_EFFECT = "minecraft:poison";
+/** Ticks between area effect runs: the effect is refreshed while an entity stays in range. */
+const AREA_INTERVAL_TICKS = 20;
+
+const TICK_CONDITIONS: Record<string, ModBlockTickBehavior["condition"]> = {
+  exposed_to_heat: "near_heat",
+  warm_biome: "warm_biome",
+};
+
+/** Plan transition condition → block trigger (and its delay or reach). */
+const TRANSITION_TRIGGERS: Record<string, Omit<ModBlockStateTransition, "from" | "to">> = {
+  player_near: { trigger: "player_near", radius: 4 },
+  after_effect: { trigger: "delay", delayTicks: 40 },
+  ticks_elapsed: { trigger: "delay", delayTicks: 100 },
+  right_click: { trigger: "use" },
+  powered: { trigger: "powered" },
+};
+
+function transformBehavior(tick: TickBehavior, transformInto: string): ModBlockTickBehavior {
+  const condition = tick.condition ? TICK_CONDITIONS[tick.condition] : undefined;
+  return { effect: "transform", intervalTicks: tick.intervalTicks, ...(condition && { condition }), transformInto };
+}
+
+/** Block tick behaviors the plan describes; plan entries without a block counterpart are skipped. */
+export function tickBehaviorsFromPlan(plan: BehaviorPlan): ModBlockTickBehavior[] {
+  const out: ModBlockTickBehavior[] = [];
+  for (const area of plan.areaEffects) {
+    if (area.effect === "status_effect") {
+      out.push({
+        effect: "status_effect",
+        intervalTicks: AREA_INTERVAL_TICKS,
+        radius: area.radius,
+        statusEffect: AREA_STATUS_EFFECT,
+        ...(area.durationTicks !== undefined && { durationTicks: area.durationTicks }),
+      });
+    } else if (area.effect === "block_entity_transform") {
+      out.push({ effect: "spread", intervalTicks: area.durationTicks ?? 200, radius: area.radius, spreadTag: "minecraft:dirt" });
+    }
+  }
+  for (const tick of plan.tickBehaviors) {
+    if (tick.effect === "transform_over_time") out.push(transformBehavior(tick, "minecraft:water"));
+    else if (tick.effect === "decay_or_transform") out.push(transformBehavior(tick, "minecraft:air"));
+  }
+  return out;
+}
+
+/** Block state machine for a plan state machine; transitions with unknown conditions are dropped. */
+export function stateMachineFromPlan(machine: StateMachine): ModBlockStateMachine | undefined {
+  const transitions = machine.transitions.flatMap((t) => {
+    const trigger = TRANSITION_TRIGGERS[t.condition];
+    return trigger ? [{ from: t.from, to: t.to, ...trigger }] : [];
+  });
+  return transitions.length > 0 ? { states: machine.states, transitions } : undefined;
+}
+
+/** Tick behaviors or a state machine for a generated block; empty when the name implies neither. */
+export function inferBlockBehavior(displayName: string): {
+  tickBehaviors?: ModBlockTickBehavior[];
+  stateMachine?: ModBlockStateMachine;
+} {
+  const interpreted = interpretItemOrBlock(displayName, "block");
+  const plan = synthesizeBehavior({
+    semanticTags: interpreted.semanticTags,
+    interpretedKind: "block",
+    gameplayTraits: interpreted.gameplay,
+    prompt: displayName,
+  });
+  const tickBehaviors = tickBehaviorsFromPlan(plan);
+  if (tickBehaviors.length > 0) return { tickBehaviors };
+  const stateMachine = plan.stateMachines.length > 0 ? stateMachineFromPlan(plan.stateMachines[0]) : undefined;
+  return stateMachine ? { stateMachine } : {};
+}
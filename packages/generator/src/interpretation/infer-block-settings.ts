@@ -0,0 +1,141 @@
+/**
+ * Infer block settings from display name (generic keyword matching).
+ * Used when creating ModBlock so the materializer compiles an AbstractBlock.Settings chain.
+ * Physical traits (hardness, luminosity) come from the material keyword, else defaultPhysicalTraits();
+ * an emissive archetype (ArchetypeGuarantees.emissiveRule: runes, lights) lights the block when the name
+ * does not say how bright it is. A crystal's "inner glow" is visual only and does not emit light.
+ */
+
+import type { ModBlockMining, ModBlockSettings } from "@themodgenerator/spec";
+import type { PhysicalTraits } from "../item-block-primitives.js";
+import { defaultPhysicalTraits } from "../item-block-primitives.js";
+import { ARCHETYPES, resolveArchetype } from "../canonical-interpretation.js";
+
+/** Material keyword → physical traits, sound/map color/friction and the tool that harvests it (vanilla references). */
+interface BlockMaterialPreset {
+  pattern: RegExp;
+  physical: PhysicalTraits;
+  settings: Omit<ModBlockSettings, "hardness" | "luminance">;
+  mining?: ModBlockMining;
+}
+
+const PRESETS: BlockMaterialPreset[] = [
+  // Obsidian.
+  {
+    pattern: /\b(obsidian|reinforced|unbreakable|fortified)\b/,
+    physical: { hardness: 50, weight: "heavy" },
+    settings: { resistance: 1200, sound: "stone", mapColor: "black" },
+    mining: { tool: "pickaxe", requiredLevel: 3 },
+  },
+  // Block of iron.
+  {
+    pattern: /\b(metal|metallic|iron|steel|copper|bronze|tin|silver|ingot)\b/,
+    physical: { hardness: 5, weight: "heavy" },
+    settings: { resistance: 6, sound: "metal", mapColor: "iron_gray" },
+    mining: { tool: "pickaxe", requiredLevel: 1 },
+  },
+  // Amethyst block.
+  {
+    pattern: /\b(crystal|crystalline|amethyst|gem|quartz|geode)\b/,
+    physical: { hardness: 1.5, transparency: 0.3 },
+    settings: { sound: "amethyst_block" },
+    mining: { tool: "pickaxe" },
+  },
+  // Ice / packed ice.
+  {
+    pattern: /\b(ice|icy|frozen|frost)\b/,
+    physical: { hardness: 0.5, transparency: 0.5 },
+    settings: { sound: "glass", slipperiness: 0.98, mapColor: "pale_purple" },
+    mining: { tool: "pickaxe" },
+  },
+  // Glass.
+  {
+    pattern: /\b(glass|window)\b/,
+    physical: { hardness: 0.3, transparency: 1 },
+    settings: { sound: "glass" },
+  },
+  // Stone.
+  {
+    pattern: /\b(stone|rock|brick|bricks|cobble|cobblestone|granite|marble|basalt|slate)\b/,
+    physical: { hardness: 1.5, weight: "heavy" },
+    settings: { resistance: 6, sound: "stone", mapColor: "stone_gray" },
+    mining: { tool: "pickaxe" },
+  },
+  // Oak planks.
+  {
+    pattern: /\b(wood|wooden|log|plank|planks|timber)\b/,
+    physical: { hardness: 2 },
+    settings: { resistance: 3, sound: "wood", mapColor: "oak_tan", requiresTool: false },
+    mining: { tool: "axe" },
+  },
+  // Slime block.
+  {
+    pattern: /\b(slime|jelly|goo|gel)\b/,
+    physical: { hardness: 0, weight: "light" },
+    settings: { sound: "slime", slipperiness: 0.8, mapColor: "pale_green" },
+  },
+  // Honey block.
+  {
+    pattern: /\b(honey|syrup|sticky)\b/,
+    physical: { hardness: 0, weight: "light" },
+    settings: { sound: "honey", mapColor: "orange" },
+  },
+  // Wool.
+  {
+    pattern: /\b(wool|cloth|cotton|cushion|pillow|soft|cheese|sponge)\b/,
+    physical: { hardness: 0.8, weight: "light" },
+    settings: { sound: "wool" },
+  },
+  // Sand / dirt.
+  {
+    pattern: /\b(sand|sandy|dust|dirt|soil|mud|gravel)\b/,
+    physical: { hardness: 0.5 },
+    settings: { sound: "gravel", requiresTool: false },
+    mining: { tool: "shovel" },
+  },
+  // Ghostly blocks: nothing to stand on.
+  {
+    pattern: /\b(ghost|ghostly|ethereal|phantom|spectral|intangible)\b/,
+    physical: { hardness: 0.3, weight: "light", transparency: 0.7 },
+    settings: { sound: "wool", noCollision: true },
+  },
+];
+
+/** Glowstone / sea lantern. */
+const BRIGHT = /\b(glowing|glow|luminous|radiant|shining|blazing|lamp|lantern)\b/;
+/** Amethyst cluster / magma block. */
+const DIM = /\b(faint|faintly|dim|dimly|softly|shimmering|flickering)\b/;
+/** Light level of an emissive archetype (runes, lights) whose name gives no brightness. */
+const ARCHETYPE_LUMINANCE = 7;
+
+/** Physical traits from the display name: the matching material's traits, else defaultPhysicalTraits(). */
+export function inferPhysicalTraits(displayName: string): PhysicalTraits {
+  const lower = displayName.toLowerCase();
+  const preset = PRESETS.find((p) => p.pattern.test(lower));
+  const physical: PhysicalTraits = { ...defaultPhysicalTraits(), ...preset?.physical };
+  if (BRIGHT.test(lower)) physical.luminosity = DIM.test(lower) ? 5 : 15;
+  return physical;
+}
+
+/**
+ * Block settings and harvest requirement for a generated block.
+ * materialHint feeds archetype resolution (textureProfile.materialHint). mining gives the block its tool tag;
+ * like vanilla, only stone/metal/crystal need the tool to drop (wood and soil set requiresTool: false).
+ */
+export function inferBlockSettings(
+  displayName: string,
+  blockId: string,
+  materialHint = ""
+): { blockSettings: ModBlockSettings; mining?: ModBlockMining } {
+  const lower = displayName.toLowerCase();
+  const preset = PRESETS.find((p) => p.pattern.test(lower));
+  const physical = inferPhysicalTraits(displayName);
+  const archetype = ARCHETYPES[resolveArchetype({ contentId: blockId, name: displayName, category: "block", material: materialHint })];
+  const luminance =
+    physical.luminosity ||
+    (archetype.emissiveHint && archetype.guarantees.emissiveRule ? ARCHETYPE_LUMINANCE : 0);
+
+  const blockSettings: ModBlockSettings = { hardness: physical.hardness, ...preset?.settings };
+  if (luminance > 0) blockSettings.luminance = luminance;
+  return preset?.mining ? { blockSettings, mining: { ...preset.mining, hardness: physical.hardness } } : { blockSettings };
+}
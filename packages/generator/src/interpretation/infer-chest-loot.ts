@@ -0,0 +1,25 @@
+/**
+ * Infer chest loot for rare items: a survival source that is not crafting.
+ * Rare and epic items (ModItem.properties.rarity, from infer-item-properties) are injected into dungeon and
+ * mineshaft chests; epic items also into ancient city chests. Weights are left to the rarity default.
+ */
+
+import type { ModItem, ModLoot } from "@themodgenerator/spec";
+
+const RARE_CHESTS = ["minecraft:chests/simple_dungeon", "minecraft:chests/abandoned_mineshaft"];
+const EPIC_CHESTS = [...RARE_CHESTS, "minecraft:chests/ancient_city"];
+
+export function inferChestLoot(items: ModItem[] | undefined): ModLoot[] {
+  const byTable = new Map<string, string[]>();
+  for (const item of items ?? []) {
+    const rarity = item.properties?.rarity;
+    const tables = rarity === "epic" ? EPIC_CHESTS : rarity === "rare" ? RARE_CHESTS : [];
+    for (const table of tables) byTable.set(table, [...(byTable.get(table) ?? []), item.id]);
+  }
+  return [...byTable.entries()].map(([table, itemIds]) => ({
+    id: `${table.slice(table.lastIndexOf("/") + 1)}_loot`,
+    type: "chest",
+    targetId: table,
+    entries: itemIds.map((itemId) => ({ itemId })),
+  }));
+}
@@ -0,0 +1,53 @@
+/**
+ * Infer food values from display name (generic keyword matching).
+ * Used when creating ModItem so the materializer can register a FoodComponent.
+ * The head noun decides first: a tool, weapon, armor or material head is never food ("Steak Knife" is a knife).
+ * Otherwise a whole-word food noun or cooking word anywhere in the name makes it food.
+ * "sweet" / "poisonous" adjust those values.
+ * Presets are vanilla reference foods, so the food-balance gate passes.
+ */
+
+import type { ModItemFood } from "@themodgenerator/spec";
+
+const FOOD_NOUN =
+  /\b(cheese|bread|apples?|berry|berries|cake|pie|cookies?|cand(y|ies)|soup|stew|meat|steak|beef|pork|porkchop|chicken|mutton|fish|salmon|cod|jerky|sandwich|burger|pizza|fruits?|carrots?|potato(es)?|muffins?|donuts?|toast|sushi|taco|noodles|rice|honey|chocolate|jam|snack|treat)\b/;
+/** Tools, weapons, armor and materials: a food word in front of these is a modifier ("Steak Knife", "Cheese Sword"). */
+const NON_FOOD_NOUN =
+  /^(knife|knives|sword|blade|dagger|axe|pickaxe|shovel|hoe|spoon|fork|tool|bow|staff|wand|helmet|chestplate|leggings|boots|armor|shield|ingot|nugget|gem|ore|block|dust|shard|seeds?|planks?|log|door|sign)$/;
+const COOKED = /\b(cooked|roasted|grilled|baked|fried|smoked|toasted)\b/;
+const RAW = /\braw\b/;
+const SWEET = /\b(sweet|sugary|candied|honeyed)\b/;
+const POISONOUS = /\b(poisonous|poisoned|toxic|venomous)\b/;
+const ROTTEN = /\b(rotten|spoiled|moldy|mouldy)\b/;
+
+/** Last word before any "of" phrase: "Steak Knife" → knife, "Bowl of Soup" → bowl. */
+function headNoun(lower: string): string {
+  const words = lower.split(/\bof\b/)[0].match(/[a-z0-9]+/g) ?? [];
+  return words[words.length - 1] ?? "";
+}
+
+export function inferFood(displayName: string): ModItemFood | undefined {
+  const lower = displayName.toLowerCase();
+  if (NON_FOOD_NOUN.test(headNoun(lower))) return undefined;
+  const cooked = COOKED.test(lower);
+  if (!cooked && !FOOD_NOUN.test(lower)) return undefined;
+
+  // Apple; cooked → cooked chicken; raw → raw meat.
+  let food: ModItemFood = cooked
+    ? { nutrition: 6, saturation: 0.6 }
+    : RAW.test(lower)
+      ? { nutrition: 2, saturation: 0.3 }
+      : { nutrition: 4, saturation: 0.3 };
+  if (SWEET.test(lower)) {
+    // Cookie / sweet berries: low saturation, eaten quickly.
+    food = { ...food, saturation: 0.1, eatSeconds: 0.8 };
+  }
+  if (POISONOUS.test(lower)) {
+    // Poisonous potato: 60% chance of Poison for 5 seconds.
+    food = { ...food, saturation: 0.1, effects: [{ effect: "minecraft:poison", durationSeconds: 5, probability: 0.6 }] };
+  } else if (ROTTEN.test(lower)) {
+    // Rotten flesh: 80% chance of Hunger for 30 seconds.
+    food = { ...food, saturation: 0.1, effects: [{ effect: "minecraft:hunger", durationSeconds: 30, probability: 0.8 }] };
+  }
+  return food;
+}
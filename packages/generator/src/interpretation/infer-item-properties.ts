@@ -0,0 +1,24 @@
+/**
+ * Infer item properties from display name via the interpreted ItemPrimitive (interpretItemOrBlock).
+ * Used when creating ModItem so the materializer emits maxCount / rarity / fireproof / maxDamage.
+ * Only values that differ from vanilla defaults are kept; "legendary" maps to Rarity.EPIC (vanilla's highest).
+ */
+
+import type { ModItemProperties } from "@themodgenerator/spec";
+import type { ItemPrimitive } from "../item-block-primitives.js";
+import { interpretItemOrBlock } from "../interpretation.js";
+
+/** ModItem.properties for an interpreted item, or undefined when everything is default. */
+export function itemPropertiesFromPrimitive(primitive: ItemPrimitive): ModItemProperties | undefined {
+  const properties: ModItemProperties = {};
+  if (primitive.durability !== undefined) properties.maxDamage = primitive.durability;
+  else if (primitive.stackSize !== 64) properties.maxCount = primitive.stackSize;
+  if (primitive.rarity !== "common") properties.rarity = primitive.rarity === "legendary" ? "epic" : primitive.rarity;
+  if (primitive.fireproof) properties.fireproof = true;
+  return Object.keys(properties).length > 0 ? properties : undefined;
+}
+
+export function inferItemProperties(displayName: string): ModItemProperties | undefined {
+  const { item } = interpretItemOrBlock(displayName, "item");
+  return item ? itemPropertiesFromPrimitive(item) : undefined;
+}
@@ -74,6 +74,97 @@ describe("interpretToSpec", () => {
     assert.ok(names.includes("Ruby") && names.includes("Sapphire") && names.includes("Raw Tin"), "items must be Ruby, Sapphire, Raw Tin");
   });
 
+  it("Add items: Cooked Sausage, Sweet Cheese, Poisonous Berry, Ruby → food inferred from names, ruby stays inedible", () => {
+    const result = interpretToSpec("Add four items: Cooked Sausage, Sweet Cheese, Poisonous Berry, Ruby. No blocks. No recipes.");
+    assert.strictEqual(result.type, "proceed");
+    if (result.type !== "proceed" || !("spec" in result)) return;
+    const byName = (name: string) => result.spec.items!.find((i) => i.name === name);
+    assert.deepStrictEqual(byName("Cooked Sausage")?.food, { nutrition: 6, saturation: 0.6 });
+    assert.deepStrictEqual(byName("Sweet Cheese")?.food, { nutrition: 4, saturation: 0.1, eatSeconds: 0.8 });
+    assert.deepStrictEqual(byName("Poisonous Berry")?.food?.effects, [
+      { effect: "minecraft:poison", durationSeconds: 5, probability: 0.6 },
+    ]);
+    assert.strictEqual(byName("Ruby")?.food, undefined);
+  });
+
+  it("Add items: Steak Knife, Cheese Sword, Apple Pie, Bowl of Soup → the head noun decides over a food word in front", () => {
+    const result = interpretToSpec("Add four items: Steak Knife, Cheese Sword, Apple Pie, Bowl of Soup. No blocks. No recipes.");
+    assert.strictEqual(result.type, "proceed");
+    if (result.type !== "proceed" || !("spec" in result)) return;
+    const byName = (name: string) => result.spec.items!.find((i) => i.name === name);
+    assert.strictEqual(byName("Steak Knife")?.food, undefined);
+    assert.strictEqual(byName("Cheese Sword")?.food, undefined);
+    assert.deepStrictEqual(byName("Apple Pie")?.food, { nutrition: 4, saturation: 0.3 });
+    assert.deepStrictEqual(byName("Bowl of Soup")?.food, { nutrition: 4, saturation: 0.3 });
+  });
+
+  it("Add items: Legendary Relic, Magic Wand, Molten Ingot → rarity, durability and fireproof from the interpreted primitive", () => {
+    const result = interpretToSpec("Add three items: Legendary Relic, Magic Wand, Molten Ingot. No blocks. No recipes.");
+    assert.strictEqual(result.type, "proceed");
+    if (result.type !== "proceed" || !("spec" in result)) return;
+    const byName = (name: string) => result.spec.items!.find((i) => i.name === name);
+    assert.deepStrictEqual(byName("Legendary Relic")?.properties, { rarity: "epic" });
+    assert.deepStrictEqual(byName("Magic Wand")?.properties, { maxDamage: 64 });
+    assert.deepStrictEqual(byName("Molten Ingot")?.properties, { fireproof: true });
+  });
+
+  it("Add items: Legendary Relic, Enchanted Gem, Copper Ingot → rare items get dungeon/mineshaft chest loot, epic also ancient city", () => {
+    const result = interpretToSpec("Add three items: Legendary Relic, Enchanted Gem, Copper Ingot. No blocks. No recipes.");
+    assert.strictEqual(result.type, "proceed");
+    if (result.type !== "proceed" || !("spec" in result)) return;
+    const loot = result.spec.loot ?? [];
+    assert.deepStrictEqual(
+      loot.map((l) => [l.targetId, l.entries?.map((e) => e.itemId)]),
+      [
+        ["minecraft:chests/simple_dungeon", ["legendary_relic", "enchanted_gem"]],
+        ["minecraft:chests/abandoned_mineshaft", ["legendary_relic", "enchanted_gem"]],
+        ["minecraft:chests/ancient_city", ["legendary_relic"]],
+      ]
+    );
+    assert.ok(loot.every((l) => l.type === "chest"));
+  });
+
+  it("Add blocks: Glowing Crystal Block, Obsidian Brick, Wooden Crate → block settings inferred from names", () => {
+    const result = interpretToSpec("Add three blocks: Glowing Crystal Block, Obsidian Brick, Wooden Crate");
+    assert.strictEqual(result.type, "proceed");
+    if (result.type !== "proceed" || !("spec" in result)) return;
+    const byName = (name: string) => result.spec.blocks!.find((b) => b.name === name);
+    assert.deepStrictEqual(byName("Glowing Crystal Block")?.blockSettings, { hardness: 1.5, sound: "amethyst_block", luminance: 15 });
+    assert.deepStrictEqual(byName("Obsidian Brick")?.blockSettings, { hardness: 50, resistance: 1200, sound: "stone", mapColor: "black" });
+    assert.deepStrictEqual(byName("Obsidian Brick")?.mining, { tool: "pickaxe", requiredLevel: 3, hardness: 50 });
+    assert.strictEqual(byName("Wooden Crate")?.blockSettings?.requiresTool, false, "wood drops without an axe");
+  });
+
+  it("Add blocks: Radioactive Cheese, Melting Ice, Marble Block → tick behaviors from the behavior plan", () => {
+    const result = interpretToSpec("Add three blocks: Radioactive Cheese, Melting Ice, Marble Block");
+    assert.strictEqual(result.type, "proceed");
+    if (result.type !== "proceed" || !("spec" in result)) return;
+    const byName = (name: string) => result.spec.blocks!.find((b) => b.name === name);
+    assert.deepStrictEqual(byName("Radioactive Cheese")?.tickBehaviors, [
+      { effect: "status_effect", intervalTicks: 20, radius: 3, statusEffect: "minecraft:poison", durationTicks: 100 },
+    ]);
+    assert.deepStrictEqual(byName("Melting Ice")?.tickBehaviors, [
+      { effect: "transform", intervalTicks: 40, condition: "near_heat", transformInto: "minecraft:water" },
+    ]);
+    assert.strictEqual(byName("Marble Block")?.tickBehaviors, undefined);
+  });
+
+  it("Add a block: Sentient Stone → idle/active/cooldown state machine from the behavior plan", () => {
+    const result = interpretToSpec("Add a block: Sentient Stone");
+    assert.strictEqual(result.type, "proceed");
+    if (result.type !== "proceed" || !("spec" in result)) return;
+    const block = result.spec.blocks!.find((b) => b.name === "Sentient Stone");
+    assert.deepStrictEqual(block?.stateMachine, {
+      states: ["idle", "active", "cooldown"],
+      transitions: [
+        { from: "idle", to: "active", trigger: "player_near", radius: 4 },
+        { from: "active", to: "cooldown", trigger: "delay", delayTicks: 40 },
+        { from: "cooldown", to: "idle", trigger: "delay", delayTicks: 100 },
+      ],
+    });
+    assert.strictEqual(block?.tickBehaviors, undefined);
+  });
+
   it("Add two blocks: Marble Block, Slate Block → 2 blocks", () => {
     const result = interpretToSpec("Add two blocks: Marble Block, Slate Block");
     assert.strictEqual(result.type, "proceed");
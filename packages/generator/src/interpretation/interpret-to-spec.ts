@@ -4,13 +4,18 @@
  * Rule: Use only the original user request (strip "Clarification Answer:" suffix); never use question phrases.
  */
 
-import type { ModSpecV1, ItemRenderIntent } from "@themodgenerator/spec";
-import { SUPPORTED_MINECRAFT_VERSION, SUPPORTED_LOADER } from "@themodgenerator/spec";
+import type { ModSpecV1, ItemRenderIntent, ModItemFood, ModItemProperties, ModBlockMining, ModBlockSettings, ModBlockStateMachine, ModBlockTickBehavior } from "@themodgenerator/spec";
+import { SUPPORTED_MINECRAFT_VERSION, SUPPORTED_LOADER, DEFAULT_MOD_ID, DEFAULT_WOOD_TREE } from "@themodgenerator/spec";
 import type { ClarificationResponse } from "./clarification.js";
 import { extractEntityList } from "./entity-list-extractor.js";
 import { extractWoodTypes } from "./wood-type-directive-extractor.js";
 import { extractCookingDirectives, parseCookingPhrases } from "./cooking-directive-extractor.js";
 import { inferItemRender } from "./infer-item-render.js";
+import { inferFood } from "./infer-food.js";
+import { inferBlockSettings } from "./infer-block-settings.js";
+import { inferBlockBehavior } from "./infer-block-behavior.js";
+import { inferItemProperties } from "./infer-item-properties.js";
+import { inferChestLoot } from "./infer-chest-loot.js";
 import { clarificationGate } from "./clarification.js";
 import { analyzePromptIntent } from "./prompt-understanding.js";
 import {
@@ -114,6 +119,12 @@ function displayNameFromOriginal(originalOnly: string, firstConcept: string, isB
   return isBlock ? `${fallback} Block` : fallback;
 }
 
+/** Final spec: rare items also get chest loot (infer-chest-loot). */
+function proceed(spec: ModSpecV1): InterpretToSpecResult {
+  const loot = inferChestLoot(spec.items);
+  return { type: "proceed", spec: loot.length > 0 ? { ...spec, loot: [...(spec.loot ?? []), ...loot] } : spec };
+}
+
 /**
  * Build Spec from interpreter analysis. IDs and displayNames from original request only (strip Clarification Answer).
  */
@@ -161,7 +172,7 @@ export function interpretToSpec(
     schemaVersion: 1,
     minecraftVersion: SUPPORTED_MINECRAFT_VERSION,
     loader: SUPPORTED_LOADER,
-    modId: "generated",
+    modId: DEFAULT_MOD_ID, // replaced per job by sanitizeSpec (deriveModId)
     modName,
     features: ["hello-world"],
     items: [],
@@ -210,12 +221,25 @@ export function interpretToSpec(
     } else if (intent === "processed") {
       (out as { itemRender?: ItemRenderIntent }).itemRender = "flat";
     }
+    if (intent !== "block") {
+      const food = inferFood(displayName);
+      if (food) (out as { food?: ModItemFood }).food = food;
+      const properties = inferItemProperties(displayName);
+      if (properties) (out as { properties?: ModItemProperties }).properties = properties;
+    } else {
+      const { blockSettings, mining } = inferBlockSettings(displayName, entity.id, profile.materialHint);
+      (out as { blockSettings?: ModBlockSettings }).blockSettings = blockSettings;
+      if (mining) (out as { mining?: ModBlockMining }).mining = mining;
+      const { tickBehaviors, stateMachine } = inferBlockBehavior(displayName);
+      if (tickBehaviors) (out as { tickBehaviors?: ModBlockTickBehavior[] }).tickBehaviors = tickBehaviors;
+      if (stateMachine) (out as { stateMachine?: ModBlockStateMachine }).stateMachine = stateMachine;
+    }
     return { entity: out };
   }
 
   if (entityExtraction.entities.length > 0) {
     if (woodExtraction.matched && woodExtraction.woodTypes.length > 0 && !entityExtraction.noBlocks) {
-      spec.woodTypes = woodExtraction.woodTypes;
+      spec.woodTypes = woodExtraction.woodTypes.map((w) => ({ ...w, tree: DEFAULT_WOOD_TREE }));
     }
     const woodTypeIds = new Set((spec.woodTypes ?? []).map((w) => w.id));
     for (const e of entityExtraction.entities) {
@@ -250,7 +274,7 @@ export function interpretToSpec(
     if (cooking.recipes.length > 0) {
       spec.recipes = [...(spec.recipes ?? []), ...cooking.recipes];
     }
-    return { type: "proceed", spec };
+    return proceed(spec);
   }
 
   const noBlocks = entityExtraction.noBlocks;
@@ -259,11 +283,11 @@ export function interpretToSpec(
   // Wood-type-only prompt: set spec.woodTypes and do NOT add a standalone item (maple bug fix).
   if (woodExtraction.matched && woodExtraction.woodTypes.length > 0 && entityExtraction.entities.length === 0) {
     if (entityExtraction.noBlocks) {
-      return { type: "proceed", spec };
+      return proceed(spec);
     }
-    spec.woodTypes = woodExtraction.woodTypes;
+    spec.woodTypes = woodExtraction.woodTypes.map((w) => ({ ...w, tree: DEFAULT_WOOD_TREE }));
     (spec as { modName?: string }).modName = `${woodExtraction.woodTypes[0].displayName} Mod`;
-    return { type: "proceed", spec };
+    return proceed(spec);
   }
 
   if (entityExtraction.entities.length === 0 && parseCookingPhrases(originalOnly).length > 0) {
@@ -279,7 +303,7 @@ export function interpretToSpec(
       if (firstName && !containsPoison(firstName)) {
         (spec as { modName?: string }).modName = `${firstName.replace(/\s+Block$/i, "").trim()} Mod`;
       }
-      return { type: "proceed", spec };
+      return proceed(spec);
     }
   }
 
@@ -379,7 +403,7 @@ export function interpretToSpec(
     spec.recipes = [...(spec.recipes ?? []), ...cooking.recipes];
   }
 
-  return { type: "proceed", spec };
+  return proceed(spec);
 }
 
 function simpleColorFromPrompt(lower: string): string | undefined {
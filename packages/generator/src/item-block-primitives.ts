@@ -121,6 +121,8 @@ export type ItemPrimitive = {
   rarity: ItemRarity;
   stackSize: number;
   durability?: number;
+  /** Survives fire and lava (netherite-like). */
+  fireproof?: boolean;
   visual: {
     model: "generated" | "handheld" | "block";
     textureHints: string[];
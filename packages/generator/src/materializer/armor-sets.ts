@@ -0,0 +1,172 @@
+/**
+ * Armor sets: ArmorMaterial registry entries, ArmorItem registration, armor-layer textures and armor tags.
+ * Stats come from balance.deriveArmorStats (rarity from worldgen + overrides); never from the spec.
+ * - Java: ModArmorMaterials registers RegistryEntry<ArmorMaterial> (1.21.1 registry-entry form) per material.
+ * - Textures: assets/<modId>/textures/models/armor/<mat>_layer_1.png / _layer_2.png (from vanilla iron layers).
+ * - Tags: data/minecraft/tags/items/<head|chest|leg|foot>_armor.json (replace:false) so armor enchantments apply.
+ */
+
+import type { ArmorKind, ExpandedSpecTier1, ModItem, ModMaterial } from "@themodgenerator/spec";
+import type { MaterializedFile } from "./types.js";
+import { computeRarityScore, deriveArmorStats, type ArmorStats } from "../balance.js";
+
+const DATA_BASE = "src/main/resources/data";
+
+/** ArmorItem.Type constant per kind. */
+const ARMOR_TYPES: Record<ArmorKind, string> = {
+  helmet: "HELMET",
+  chestplate: "CHESTPLATE",
+  leggings: "LEGGINGS",
+  boots: "BOOTS",
+};
+
+/** Vanilla item tag per armor kind (drives #minecraft:enchantable/*_armor). */
+const ARMOR_ITEM_TAGS: Record<ArmorKind, string> = {
+  helmet: "head_armor",
+  chestplate: "chest_armor",
+  leggings: "leg_armor",
+  boots: "foot_armor",
+};
+
+/** Deterministic armor stats for a spec material (balance layer only). */
+export function armorMaterialStats(material: ModMaterial): ArmorStats {
+  const rarity = computeRarityScore(material.worldgen ?? []);
+  return deriveArmorStats(material.id, rarity, {
+    powerProfile: material.powerProfile,
+    styleOverPower: material.styleOverPower,
+  });
+}
+
+/** Materials referenced by at least one armor item, in spec order. */
+function usedArmorMaterials(expanded: ExpandedSpecTier1): ModMaterial[] {
+  const used = new Set(
+    (expanded.spec.items ?? []).filter((i) => i.armor).map((i) => i.armor!.materialId)
+  );
+  return (expanded.spec.materials ?? []).filter((m) => used.has(m.id));
+}
+
+function armorItemsById(expanded: ExpandedSpecTier1): Map<string, ModItem> {
+  const map = new Map<string, ModItem>();
+  for (const item of expanded.spec.items ?? []) {
+    if (item.armor) map.set(item.id, item);
+  }
+  return map;
+}
+
+function fieldName(materialId: string): string {
+  return materialId.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+}
+
+function javaFloat(n: number): string {
+  const s = String(Math.round(n * 100) / 100);
+  return `${s.includes(".") ? s : `${s}.0`}F`;
+}
+
+function splitId(modId: string, id: string): [string, string] {
+  const i = id.indexOf(":");
+  return i >= 0 ? [id.slice(0, i), id.slice(i + 1)] : [modId, id];
+}
+
+/** True when any spec item is armor backed by a declared material. */
+export function hasArmorSets(expanded: ExpandedSpecTier1): boolean {
+  return usedArmorMaterials(expanded).length > 0;
+}
+
+/**
+ * Java expression constructing the armor item for registration, or null if the item is not armor.
+ * Durability = ArmorItem.Type base × derived durabilityMultiplier (vanilla formula).
+ */
+export function armorItemConstructorJava(expanded: ExpandedSpecTier1, itemId: string): string | null {
+  const item = armorItemsById(expanded).get(itemId);
+  if (!item?.armor) return null;
+  const material = usedArmorMaterials(expanded).find((m) => m.id === item.armor!.materialId);
+  if (!material) {
+    throw new Error(`Armor item ${itemId}: material "${item.armor.materialId}" is not declared in spec.materials.`);
+  }
+  const type = `ArmorItem.Type.${ARMOR_TYPES[item.armor.kind]}`;
+  const { durabilityMultiplier } = armorMaterialStats(material);
+  return `new ArmorItem(ModArmorMaterials.${fieldName(material.id)}, ${type}, new Item.Settings().maxDamage(${type}.getMaxDamage(${durabilityMultiplier})))`;
+}
+
+/** ModArmorMaterials.java: one registered ArmorMaterial per used material with derived stats. */
+export function armorMaterialsJava(javaPackage: string, mainClassName: string, expanded: ExpandedSpecTier1): string {
+  const modId = expanded.spec.modId;
+  const fields = usedArmorMaterials(expanded).map((m) => {
+    const stats = armorMaterialStats(m);
+    const [boots, leggings, chestplate, helmet] = stats.protectionPoints;
+    const [repairNs, repairPath] = splitId(modId, m.repairItemId);
+    return `	public static final RegistryEntry<ArmorMaterial> ${fieldName(m.id)} = register("${m.id}", ${boots}, ${leggings}, ${chestplate}, ${helmet}, ${stats.enchantability}, ${javaFloat(stats.toughness)}, ${javaFloat(stats.knockbackResistance)}, Identifier.of("${repairNs}", "${repairPath}"));`;
+  });
+  return `package net.themodgenerator.${javaPackage};
+
+import java.util.EnumMap;
+import java.util.List;
+import net.minecraft.item.ArmorItem;
+import net.minecraft.item.ArmorMaterial;
+import net.minecraft.recipe.Ingredient;
+import net.minecraft.registry.Registries;
+import net.minecraft.registry.Registry;
+import net.minecraft.registry.entry.RegistryEntry;
+import net.minecraft.sound.SoundEvents;
+import net.minecraft.util.Identifier;
+
+/** Armor materials; stats derived from ore rarity by the generator balance layer. Layer textures: textures/models/armor/<id>_layer_1/2.png. */
+public final class ModArmorMaterials {
+${fields.join("\n")}
+
+	private ModArmorMaterials() {
+	}
+
+	private static RegistryEntry<ArmorMaterial> register(String id, int boots, int leggings, int chestplate, int helmet, int enchantability, float toughness, float knockbackResistance, Identifier repairItem) {
+		EnumMap<ArmorItem.Type, Integer> defense = new EnumMap<>(ArmorItem.Type.class);
+		defense.put(ArmorItem.Type.BOOTS, boots);
+		defense.put(ArmorItem.Type.LEGGINGS, leggings);
+		defense.put(ArmorItem.Type.CHESTPLATE, chestplate);
+		defense.put(ArmorItem.Type.HELMET, helmet);
+		defense.put(ArmorItem.Type.BODY, chestplate);
+		List<ArmorMaterial.Layer> layers = List.of(new ArmorMaterial.Layer(Identifier.of(${mainClassName}.MOD_ID, id)));
+		ArmorMaterial material = new ArmorMaterial(defense, enchantability, SoundEvents.ITEM_ARMOR_EQUIP_IRON, () -> Ingredient.ofItems(Registries.ITEM.get(repairItem)), layers, toughness, knockbackResistance);
+		return Registry.registerReference(Registries.ARMOR_MATERIAL, Identifier.of(${mainClassName}.MOD_ID, id), material);
+	}
+}
+`;
+}
+
+/**
+ * Armor layer textures (worn model). Empty contents: builder draws them from vanilla iron layers
+ * (copyFromVanillaPaths) with per-path color theme, like other vanilla-default textures.
+ */
+export function armorLayerTextureFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const modId = expanded.spec.modId;
+  const files: MaterializedFile[] = [];
+  for (const m of usedArmorMaterials(expanded)) {
+    for (const layer of [1, 2]) {
+      files.push({
+        path: `src/main/resources/assets/${modId}/textures/models/armor/${m.id}_layer_${layer}.png`,
+        contents: "",
+        placeholderMaterial: "metal",
+        textureIntent: "item",
+        copyFromVanillaPaths: [`models/armor/iron_layer_${layer}`],
+      });
+    }
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Vanilla merge: armor items added to #minecraft:head_armor/chest_armor/leg_armor/foot_armor. */
+export function armorTagDataFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const modId = expanded.spec.modId;
+  const byItemTag = new Map<string, string[]>();
+  for (const item of armorItemsById(expanded).values()) {
+    const tag = ARMOR_ITEM_TAGS[item.armor!.kind];
+    byItemTag.set(tag, [...(byItemTag.get(tag) ?? []), `${modId}:${item.id}`]);
+  }
+  const files: MaterializedFile[] = [];
+  for (const [tag, values] of byItemTag) {
+    files.push({
+      path: `${DATA_BASE}/minecraft/tags/items/${tag}.json`,
+      contents: JSON.stringify({ replace: false, values: values.sort() }, null, 2),
+    });
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
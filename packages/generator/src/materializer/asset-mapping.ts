@@ -1,7 +1,11 @@
 /**
  * Plane 3: AssetKey → file mapping. Deterministic, stable ordering.
  * Items: textures/item/<contentId>.png, models/item/<id>.json, lang (merged).
- * Blocks: textures/block/<contentId>.png, models/block/<id>.json, blockstates/<id>.json, lang (merged).
+ * Blocks: textures/block/<contentId>.png, models/block/<id>.json, blockstates/<id>.json, lang (merged);
+ *   state machine blocks add a model and texture per state (block-states).
+ *   Ore blocks composite ore clusters onto a vanilla base (ore-textures) instead of copying a vanilla ore.
+ * Flat items get a generated sprite (item-sprites); other ingots, gems, nuggets and raw ores, and planks and
+ *   bricks blocks, recolor a vanilla template (palette-swap).
  * Canonical Interpretation: item/generated, block/cube_all; placeholder by material semantics.
  * Missing keys = bug (throw). No randomness.
  */
@@ -18,6 +22,14 @@ import {
   ARCHETYPES,
 } from "../canonical-interpretation.js";
 import { resolveVanillaVisualDefaults } from "../materialization/vanilla-visual-defaults.js";
+import { resolveBaseShape } from "../visual-blueprints.js";
+import { itemSpritePalette, itemSpriteShape } from "./item-sprites.js";
+import { oreComposite } from "./ore-textures.js";
+import { paletteSwapFor } from "./palette-swap.js";
+import { blockFamilyAssetFiles } from "./block-families.js";
+import { woodTreeAssetFiles } from "./wood-trees.js";
+import { defaultLangFile } from "./lang-files.js";
+import { stateMachineAssetFiles } from "./block-states.js";
 import {
   doorBlockstateJson,
   trapdoorBlockstateJson,
@@ -188,10 +200,6 @@ function blockstateJson(id: string): string {
 `;
 }
 
-function escapeJson(s: string): string {
-  return s.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
-}
-
 /** Build texture generation prompt from textureProfile (for logging and manifest). */
 export function buildTexturePrompt(profile: TextureProfile): string {
   const parts = [
@@ -207,27 +215,6 @@ export function buildTexturePrompt(profile: TextureProfile): string {
   return parts.join(", ");
 }
 
-/** Build merged en_us.json from expanded items and blocks. */
-function langEn(
-  modId: string,
-  modName: string,
-  expanded: ExpandedSpecTier1
-): string {
-  const entries: Record<string, string> = {
-    [`mod.${modId}.name`]: modName,
-  };
-  for (const item of expanded.items) {
-    entries[`item.${modId}.${item.id}`] = item.name;
-  }
-  for (const block of expanded.blocks) {
-    entries[`block.${modId}.${block.id}`] = block.name;
-  }
-  const lines = Object.entries(entries)
-    .sort(([a], [b]) => a.localeCompare(b))
-    .map(([k, v]) => `  "${escapeJson(k)}": "${escapeJson(v)}"`);
-  return `{\n${lines.join(",\n")}\n}\n`;
-}
-
 /**
  * Map AssetKeys + expanded spec to MaterializedFile list.
  * Deterministic: same inputs → same outputs. Throws on invalid/missing keys.
@@ -288,12 +275,16 @@ function semanticMetadataForTexture(
   };
 }
 
+/** Archetype translucency for a block (crystal blocks); false when the user supplied the asset. */
+export function blockTranslucencyHint(expanded: ExpandedSpecTier1, id: string): boolean {
+  return semanticMetadataForTexture(expanded, id, "block").translucencyHint === true;
+}
+
 export function assetKeysToFiles(
   expanded: ExpandedSpecTier1,
   assets: AssetKey[]
 ): MaterializedFile[] {
   const modId = expanded.spec.modId;
-  const modName = expanded.spec.modName;
   const baseAssets = `src/main/resources/assets/${modId}`;
   const files: MaterializedFile[] = [];
   const { itemIds, blockIds } = collectIds(assets);
@@ -314,6 +305,23 @@ export function assetKeysToFiles(
         ? resolveVanillaVisualDefaults({ id: itemFromExpanded.id, name: itemFromExpanded.name }, { modId })
         : null;
     const isBlockId = expanded.blocks.some((b) => b.id === id);
+    const spriteShape =
+      vanillaDefault && itemFromExpanded && !itemSpec?.tool && !itemSpec?.armor
+        ? itemSpriteShape({
+            kind: itemSpec?.kind,
+            itemRender,
+            visualKind: vanillaDefault.visualKind,
+            baseShape: resolveBaseShape(meta.archetype ?? "creative_item", "item"),
+          })
+        : null;
+    const paletteSwap =
+      vanillaDefault && itemFromExpanded && !itemSpec?.tool && !itemSpec?.armor && !spriteShape
+        ? paletteSwapFor(
+            expanded,
+            { id, name: itemFromExpanded.name, kind: itemSpec?.kind, visualKind: vanillaDefault.visualKind },
+            "item"
+          )
+        : null;
     // JAR-GATE: Block-items use block model (no item texture). Skip item texture to avoid missing texture.
     if (!isBlockId) {
       files.push({
@@ -324,10 +332,14 @@ export function assetKeysToFiles(
         textureIntent,
         ...(textureProfile && { textureProfile }),
         ...(texturePrompt && { texturePrompt }),
-        ...(vanillaDefault && {
-          copyFromVanillaPaths: vanillaDefault.copyFromVanillaPaths,
-          ...(vanillaDefault.vanillaTemplateBlockId && { vanillaTemplateBlockId: vanillaDefault.vanillaTemplateBlockId }),
-        }),
+        ...(spriteShape && itemFromExpanded
+          ? { itemSprite: { shape: spriteShape, palette: itemSpritePalette(modId, id, itemFromExpanded.name) } }
+          : paletteSwap
+            ? { copyFromVanillaPaths: [paletteSwap.template], paletteSwap }
+            : vanillaDefault && {
+                copyFromVanillaPaths: vanillaDefault.copyFromVanillaPaths,
+                ...(vanillaDefault.vanillaTemplateBlockId && { vanillaTemplateBlockId: vanillaDefault.vanillaTemplateBlockId }),
+              }),
         ...meta,
       });
     }
@@ -339,6 +351,10 @@ export function assetKeysToFiles(
         texId = id + "_bottom";
       }
       modelContents = itemModelJsonWithBlockTexture(modId, id, texId);
+    } else if (itemSpec?.tool) {
+      modelContents = itemModelJson(modId, id, "minecraft:item/handheld");
+    } else if (itemSpec?.armor) {
+      modelContents = itemModelJson(modId, id, "minecraft:item/generated");
     } else if (itemRender === "blocklike") {
       modelContents = blockAsItemModelJson(modId, id);
     } else if (itemRender === "rod" || itemRender === "chunky" || itemRender === "plate") {
@@ -355,6 +371,11 @@ export function assetKeysToFiles(
   }
   const woodTypes = expanded.spec.woodTypes ?? [];
   for (const id of blockIds) {
+    const familyFiles = blockFamilyAssetFiles(expanded, id) ?? woodTreeAssetFiles(expanded, id);
+    if (familyFiles) {
+      files.push(...familyFiles);
+      continue;
+    }
     const material = getCanonicalMaterial(materialForId(expanded, id, "block"));
     const meta = semanticMetadataForTexture(expanded, id, "block");
     const blockSpec = expanded.spec.blocks?.find((b) => b.id === id);
@@ -369,22 +390,33 @@ export function assetKeysToFiles(
       : null;
     const usesPlanksTexture = planksTextureId(id) !== null;
     const isDoorBlock = woodTypes.some((w) => id === w.id + "_door");
-    if (!usesPlanksTexture && !isDoorBlock) {
-      files.push({
-        path: `${baseAssets}/textures/block/${id}.png`,
-      contents: "",
-      placeholderMaterial: material,
-      ...(colorHint && { colorHint }),
-      textureIntent,
-      ...(textureProfile && { textureProfile }),
-      ...(texturePrompt && { texturePrompt }),
-      ...(vanillaDefault && {
-        copyFromVanillaPaths: vanillaDefault.copyFromVanillaPaths,
-        ...(vanillaDefault.vanillaTemplateBlockId && { vanillaTemplateBlockId: vanillaDefault.vanillaTemplateBlockId }),
-      }),
-      ...meta,
-    });
-    }
+    const ore = hasUserTexture ? null : oreComposite(expanded, id);
+    const paletteSwap =
+      !ore && vanillaDefault && blockFromExpanded
+        ? paletteSwapFor(expanded, { id, name: blockFromExpanded.name, visualKind: vanillaDefault.visualKind }, "block")
+        : null;
+    const baseTexture: MaterializedFile | undefined =
+      !usesPlanksTexture && !isDoorBlock
+        ? {
+            path: `${baseAssets}/textures/block/${id}.png`,
+            contents: "",
+            placeholderMaterial: material,
+            ...(colorHint && { colorHint }),
+            textureIntent,
+            ...(textureProfile && { textureProfile }),
+            ...(texturePrompt && { texturePrompt }),
+            ...(ore
+              ? { oreComposite: ore }
+              : paletteSwap
+                ? { copyFromVanillaPaths: [paletteSwap.template], paletteSwap }
+                : vanillaDefault && {
+                  copyFromVanillaPaths: vanillaDefault.copyFromVanillaPaths,
+                  ...(vanillaDefault.vanillaTemplateBlockId && { vanillaTemplateBlockId: vanillaDefault.vanillaTemplateBlockId }),
+                }),
+            ...meta,
+          }
+        : undefined;
+    if (baseTexture) files.push(baseTexture);
     const isDoor = woodTypes.some((w) => id === w.id + "_door");
     const isTrapdoor = woodTypes.some((w) => id === w.id + "_trapdoor");
     const isButton = woodTypes.some((w) => id === w.id + "_button");
@@ -578,10 +610,15 @@ export function assetKeysToFiles(
         path: `${baseAssets}/models/block/${id}.json`,
         contents: blockModelJson(modId, id, vanillaDefault?.modelParent),
       });
-      files.push({
-        path: `${baseAssets}/blockstates/${id}.json`,
-        contents: blockstateJson(`${modId}:block/${id}`),
-      });
+      if (blockSpec?.stateMachine) {
+        const parent = vanillaDefault?.modelParent ?? CANONICAL_MODEL_BLOCK;
+        files.push(...stateMachineAssetFiles(modId, id, blockSpec.stateMachine, parent, baseTexture));
+      } else {
+        files.push({
+          path: `${baseAssets}/blockstates/${id}.json`,
+          contents: blockstateJson(`${modId}:block/${id}`),
+        });
+      }
     }
     // Block-as-item: item model references block model. Door/trapdoor use bottom half.
     if (!itemIds.includes(id)) {
@@ -597,10 +634,7 @@ export function assetKeysToFiles(
     }
   }
 
-  files.push({
-    path: `${baseAssets}/lang/en_us.json`,
-    contents: langEn(modId, modName, expanded),
-  });
+  files.push(defaultLangFile(expanded));
 
   return files.sort((a, b) => a.path.localeCompare(b.path));
 }
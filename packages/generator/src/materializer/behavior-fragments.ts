@@ -0,0 +1,289 @@
+/**
+ * Primitive-level behavior codegen: each ExecutionPlan Primitive contributes a Java fragment
+ * (imports, constants, statements) that behavior-generator composes into the custom Item's use().
+ * Every constant is clamped by PRIMITIVE_REGISTRY safety (maxRange, maxEntities, cooldownTicks).
+ * The flavor (from the item name and plan systems) only picks entity, effect, particle and sound; which
+ * fragments exist depends on the primitives alone.
+ */
+
+import type { ExecutionPlan } from "../execution-plan.js";
+import type { Primitive, PrimitiveSafety } from "../primitives.js";
+import { PRIMITIVE_REGISTRY } from "../primitives.js";
+
+export type BehaviorFlavor = "lightning" | "fire" | "healing" | "explosion" | "arcane";
+
+/** Java contributed by one primitive. Statements are indented for the body of use(). */
+export interface BehaviorFragment {
+  primitive: Primitive;
+  imports: string[];
+  /** Class constants (clamped values). */
+  fields: string[];
+  /** Statements run once per use. */
+  statements: string[];
+  /** Statements run per affected entity (`LivingEntity entity`), inside the targets loop. */
+  perTarget?: string[];
+}
+
+interface FlavorDefinition {
+  particle: string;
+  sound: string;
+  /** StatusEffects constant applied to targets. */
+  targetEffect: string;
+  /** StatusEffects constant applied to the user when nothing is targeted. */
+  selfEffect: string;
+}
+
+const FLAVORS: Record<BehaviorFlavor, FlavorDefinition> = {
+  lightning: { particle: "ELECTRIC_SPARK", sound: "ENTITY_LIGHTNING_BOLT_THUNDER", targetEffect: "SLOWNESS", selfEffect: "SPEED" },
+  fire: { particle: "FLAME", sound: "ENTITY_BLAZE_SHOOT", targetEffect: "WEAKNESS", selfEffect: "FIRE_RESISTANCE" },
+  healing: { particle: "HEART", sound: "ENTITY_PLAYER_LEVELUP", targetEffect: "REGENERATION", selfEffect: "REGENERATION" },
+  explosion: { particle: "EXPLOSION", sound: "ENTITY_DRAGON_FIREBALL_EXPLODE", targetEffect: "SLOWNESS", selfEffect: "RESISTANCE" },
+  arcane: { particle: "WITCH", sound: "ENTITY_EVOKER_CAST_SPELL", targetEffect: "GLOWING", selfEffect: "ABSORPTION" },
+};
+
+/** Requested values before clamping. */
+const REQUESTED_RANGE = 64;
+const REQUESTED_AREA_RADIUS = 5;
+const REQUESTED_MAX_TARGETS = 16;
+const DAMAGE = 6;
+const AREA_DAMAGE = 4;
+const EFFECT_DURATION_TICKS = 200;
+const FIRE_SECONDS = 4;
+const PROJECTILE_SPEED = 1.5;
+
+/** Flavor from the item name, then plan systems. Deterministic. */
+export function behaviorFlavor(name: string, plan: ExecutionPlan): BehaviorFlavor {
+  const n = name.toLowerCase();
+  if (/\b(heal|healing|potion|restore|life)\b/.test(n)) return "healing";
+  if (/\b(fire|flame|flaming|burn|burning|blaze|inferno)\b/.test(n)) return "fire";
+  if (plan.systems.includes("area_effect") || /\b(explosion|explosive|blast|bomb)\b/.test(n)) return "explosion";
+  if (plan.systems.includes("chaining") || /\b(lightning|thunder|storm|shock)\b/.test(n)) return "lightning";
+  return "arcane";
+}
+
+/** requested, capped by the primitive's safety bound for key (if any). */
+export function clampToSafety(primitive: Primitive, key: keyof PrimitiveSafety, requested: number): number {
+  const limit = PRIMITIVE_REGISTRY[primitive]?.safety?.[key];
+  return limit === undefined ? requested : Math.min(requested, limit);
+}
+
+/** Cooldown after a use: the longest cooldownTicks any planned primitive requires (0 when none does). */
+export function cooldownTicksForPlan(plan: ExecutionPlan): number {
+  return Math.max(0, ...plan.primitives.map((p) => PRIMITIVE_REGISTRY[p]?.safety?.cooldownTicks ?? 0));
+}
+
+function javaFloat(n: number): string {
+  return Number.isInteger(n) ? `${n}.0F` : `${n}F`;
+}
+
+interface FragmentContext {
+  plan: ExecutionPlan;
+  flavor: FlavorDefinition;
+  flavorId: BehaviorFlavor;
+  has: (p: Primitive) => boolean;
+  /** Entities are affected: a raycast target or an area. */
+  targetsEntities: boolean;
+}
+
+type FragmentEmitter = (ctx: FragmentContext) => BehaviorFragment | undefined;
+
+/** Sets `target` (hit position or null) and `targetEntity` (living entity hit or null). */
+const raycastTarget: FragmentEmitter = () => ({
+  primitive: "raycast_target",
+  imports: [
+    "net.minecraft.entity.projectile.ProjectileUtil",
+    "net.minecraft.util.hit.EntityHitResult",
+    "net.minecraft.util.hit.HitResult",
+  ],
+  fields: [`private static final double MAX_RANGE = ${clampToSafety("raycast_target", "maxRange", REQUESTED_RANGE)};`],
+  statements: [
+    "Vec3d eye = user.getEyePos();",
+    "Vec3d reach = user.getRotationVec(1.0f).multiply(MAX_RANGE);",
+    "HitResult blockHit = user.raycast(MAX_RANGE, 1.0f, false);",
+    "Vec3d end = blockHit.getType() == HitResult.Type.MISS ? eye.add(reach) : blockHit.getPos();",
+    "EntityHitResult entityHit = ProjectileUtil.raycast(user, eye, end, user.getBoundingBox().stretch(reach).expand(1.0), e -> !e.isSpectator() && e.canHit(), MAX_RANGE * MAX_RANGE);",
+    "LivingEntity targetEntity = entityHit != null && entityHit.getEntity() instanceof LivingEntity living ? living : null;",
+    "Vec3d target = targetEntity != null ? targetEntity.getPos() : blockHit.getType() == HitResult.Type.MISS ? null : blockHit.getPos();",
+  ],
+});
+
+/** One entity per use (maxEntities 1): lightning at the target within range, else a projectile along the look direction. */
+const spawnEntity: FragmentEmitter = (ctx) => {
+  if (ctx.flavorId === "lightning" && ctx.has("raycast_target")) {
+    return {
+      primitive: "spawn_entity",
+      imports: ["net.minecraft.entity.EntityType", "net.minecraft.entity.LightningEntity"],
+      fields: [`private static final double SPAWN_RANGE = ${clampToSafety("spawn_entity", "maxRange", REQUESTED_RANGE)};`],
+      statements: [
+        "if (target != null && target.isInRange(user.getPos(), SPAWN_RANGE)) {",
+        "	LightningEntity lightning = new LightningEntity(EntityType.LIGHTNING_BOLT, world);",
+        "	lightning.setPosition(target);",
+        "	world.spawnEntity(lightning);",
+        "}",
+      ],
+    };
+  }
+  if (ctx.flavorId === "fire") {
+    return {
+      primitive: "spawn_entity",
+      imports: ["net.minecraft.entity.projectile.SmallFireballEntity"],
+      fields: [],
+      statements: [
+        `SmallFireballEntity projectile = new SmallFireballEntity(world, user, user.getRotationVec(1.0f).multiply(${PROJECTILE_SPEED}));`,
+        "projectile.setPosition(user.getX(), user.getEyeY() - 0.1, user.getZ());",
+        "world.spawnEntity(projectile);",
+      ],
+    };
+  }
+  return {
+    primitive: "spawn_entity",
+    imports: ["net.minecraft.entity.projectile.thrown.SnowballEntity"],
+    fields: [],
+    statements: [
+      "SnowballEntity projectile = new SnowballEntity(world, user);",
+      `projectile.setVelocity(user, user.getPitch(), user.getYaw(), 0.0f, ${javaFloat(PROJECTILE_SPEED)}, 1.0f);`,
+      "world.spawnEntity(projectile);",
+    ],
+  };
+};
+
+/** Living entities around the target (or the user), at most maxEntities, never the user. */
+const areaOfEffect: FragmentEmitter = (ctx) => {
+  const center = ctx.has("raycast_target") ? "target != null ? target : user.getPos()" : "user.getPos()";
+  return {
+    primitive: "area_of_effect",
+    imports: ["net.minecraft.util.math.Box"],
+    fields: [
+      `private static final double AREA_RADIUS = ${clampToSafety("area_of_effect", "maxRange", REQUESTED_AREA_RADIUS)};`,
+      `private static final int MAX_TARGETS = ${clampToSafety("area_of_effect", "maxEntities", REQUESTED_MAX_TARGETS)};`,
+    ],
+    statements: [
+      `Vec3d center = ${center};`,
+      "List<LivingEntity> targets = world.getEntitiesByClass(LivingEntity.class, Box.of(center, AREA_RADIUS * 2, AREA_RADIUS * 2, AREA_RADIUS * 2),",
+      "		e -> e != user && e.isAlive() && e.squaredDistanceTo(center) <= AREA_RADIUS * AREA_RADIUS)",
+      "	.stream().limit(MAX_TARGETS).toList();",
+    ],
+  };
+};
+
+/** Magic damage to each target within range; fire also ignites. Needs entities to hit. */
+const applyDamage: FragmentEmitter = (ctx) => {
+  if (!ctx.targetsEntities) return undefined;
+  const perTarget = [
+    "if (entity.squaredDistanceTo(user) <= DAMAGE_RANGE * DAMAGE_RANGE) {",
+    "	entity.damage(world.getDamageSources().indirectMagic(user, user), DAMAGE);",
+  ];
+  if (ctx.flavorId === "fire") perTarget.push(`	entity.setOnFireFor(${javaFloat(FIRE_SECONDS)});`);
+  perTarget.push("}");
+  return {
+    primitive: "apply_damage",
+    imports: [],
+    fields: [
+      `private static final double DAMAGE_RANGE = ${clampToSafety("apply_damage", "maxRange", REQUESTED_RANGE)};`,
+      `private static final float DAMAGE = ${javaFloat(ctx.has("area_of_effect") ? AREA_DAMAGE : DAMAGE)};`,
+    ],
+    statements: [],
+    perTarget,
+  };
+};
+
+/** Flavor effect on each target within range, or on the user when nothing is targeted. */
+const applyStatusEffect: FragmentEmitter = (ctx) => {
+  const imports = ["net.minecraft.entity.effect.StatusEffectInstance", "net.minecraft.entity.effect.StatusEffects"];
+  const fields = [`private static final int EFFECT_DURATION_TICKS = ${EFFECT_DURATION_TICKS};`];
+  if (!ctx.targetsEntities) {
+    return {
+      primitive: "apply_status_effect",
+      imports,
+      fields,
+      statements: [`user.addStatusEffect(new StatusEffectInstance(StatusEffects.${ctx.flavor.selfEffect}, EFFECT_DURATION_TICKS, 0));`],
+    };
+  }
+  return {
+    primitive: "apply_status_effect",
+    imports,
+    fields: [
+      ...fields,
+      `private static final double EFFECT_RANGE = ${clampToSafety("apply_status_effect", "maxRange", REQUESTED_RANGE)};`,
+    ],
+    statements: [],
+    perTarget: [
+      "if (entity.squaredDistanceTo(user) <= EFFECT_RANGE * EFFECT_RANGE) {",
+      `	entity.addStatusEffect(new StatusEffectInstance(StatusEffects.${ctx.flavor.targetEffect}, EFFECT_DURATION_TICKS, 0), user);`,
+      "}",
+    ],
+  };
+};
+
+/** Position for an effect clamped to range: the target when close enough, else the user. */
+function effectPosition(ctx: FragmentContext, rangeConstant: string): string {
+  return ctx.has("raycast_target")
+    ? `target != null && target.isInRange(user.getPos(), ${rangeConstant}) ? target : user.getEyePos()`
+    : "user.getEyePos()";
+}
+
+const particleEffect: FragmentEmitter = (ctx) => ({
+  primitive: "particle_effect",
+  imports: ["net.minecraft.particle.ParticleTypes"],
+  fields: [`private static final double PARTICLE_RANGE = ${clampToSafety("particle_effect", "maxRange", REQUESTED_RANGE)};`],
+  statements: [
+    `Vec3d particlePos = ${effectPosition(ctx, "PARTICLE_RANGE")};`,
+    `serverWorld.spawnParticles(ParticleTypes.${ctx.flavor.particle}, particlePos.x, particlePos.y, particlePos.z, 12, 0.4, 0.4, 0.4, 0.05);`,
+  ],
+});
+
+const soundEffect: FragmentEmitter = (ctx) => ({
+  primitive: "sound_effect",
+  imports: ["net.minecraft.sound.SoundCategory", "net.minecraft.sound.SoundEvents"],
+  fields: [`private static final double SOUND_RANGE = ${clampToSafety("sound_effect", "maxRange", REQUESTED_RANGE)};`],
+  statements: [
+    `Vec3d soundPos = ${effectPosition(ctx, "SOUND_RANGE")};`,
+    `world.playSound(null, soundPos.x, soundPos.y, soundPos.z, SoundEvents.${ctx.flavor.sound}, SoundCategory.PLAYERS, 1.0f, 1.0f);`,
+  ],
+});
+
+/**
+ * Item cooldown: the longest cooldownTicks of the planned primitives (spawn_entity 40 beats cooldown 20).
+ * Emitted for every use, with or without the cooldown primitive, so on_use's minimum always holds.
+ */
+function cooldownFragment(plan: ExecutionPlan): BehaviorFragment | undefined {
+  const ticks = cooldownTicksForPlan(plan);
+  if (ticks === 0) return undefined;
+  return {
+    primitive: "cooldown",
+    imports: [],
+    fields: [`private static final int COOLDOWN_TICKS = ${ticks};`],
+    statements: ["user.getItemCooldownManager().set(this, COOLDOWN_TICKS);"],
+  };
+}
+
+/** Emitters in use() order. on_use is the method itself; register_* and state/tick primitives add nothing here. */
+const USE_FRAGMENT_EMITTERS: ReadonlyArray<[Primitive, FragmentEmitter]> = [
+  ["raycast_target", raycastTarget],
+  ["spawn_entity", spawnEntity],
+  ["area_of_effect", areaOfEffect],
+  ["apply_damage", applyDamage],
+  ["apply_status_effect", applyStatusEffect],
+  ["particle_effect", particleEffect],
+  ["sound_effect", soundEffect],
+];
+
+/** Fragments for a plan's use(), in emit order. Empty without on_use. */
+export function useFragments(plan: ExecutionPlan, flavor: BehaviorFlavor): BehaviorFragment[] {
+  if (!plan.primitives.includes("on_use")) return [];
+  const has = (p: Primitive) => plan.primitives.includes(p);
+  const ctx: FragmentContext = {
+    plan,
+    flavor: FLAVORS[flavor],
+    flavorId: flavor,
+    has,
+    targetsEntities: has("raycast_target") || has("area_of_effect"),
+  };
+  const fragments = USE_FRAGMENT_EMITTERS.flatMap(([primitive, emit]) => {
+    if (!has(primitive)) return [];
+    const fragment = emit(ctx);
+    return fragment ? [fragment] : [];
+  });
+  const cooldown = cooldownFragment(plan);
+  return cooldown ? [...fragments, cooldown] : fragments;
+}
@@ -1,16 +1,26 @@
 /**
  * Plane 3: Fabric behavior generation from ExecutionPlan.
- * Consumes ExecutionPlan; produces Java source for on_use, spawn_entity, cooldown, raycast.
- * Safety bounds from PRIMITIVE_REGISTRY are enforced (range, cooldown).
+ * Consumes ExecutionPlan; composes the primitive fragments of behavior-fragments into one custom Item class
+ * whose use() runs them in order (raycast → spawn → area → per-target damage/effects → particles → sound → cooldown).
+ * Safety bounds from PRIMITIVE_REGISTRY are enforced by the fragments (range, entities, cooldown).
+ * Damageable items (properties.maxDamage) lose one durability per successful use.
  */
 
 import type { ExpandedSpecTier1 } from "@themodgenerator/spec";
 import type { MaterializedFile } from "./types.js";
 import type { ExecutionPlan } from "../execution-plan.js";
-import { PRIMITIVE_REGISTRY } from "../primitives.js";
-
-const MAX_RAYCAST_RANGE = 64;
-const DEFAULT_COOLDOWN_TICKS = 40;
+import { behaviorFlavor, useFragments, type BehaviorFlavor, type BehaviorFragment } from "./behavior-fragments.js";
+
+const BASE_IMPORTS = [
+  "net.minecraft.entity.player.PlayerEntity",
+  "net.minecraft.item.Item",
+  "net.minecraft.item.ItemStack",
+  "net.minecraft.server.world.ServerWorld",
+  "net.minecraft.util.Hand",
+  "net.minecraft.util.TypedActionResult",
+  "net.minecraft.util.math.Vec3d",
+  "net.minecraft.world.World",
+];
 
 function toClassName(s: string): string {
   return s
@@ -19,93 +29,93 @@ function toClassName(s: string): string {
     .join("");
 }
 
-function getCooldownTicks(plan: ExecutionPlan): number {
-  const cooldown = plan.primitives.find((p) => p === "cooldown");
-  if (!cooldown) return 0;
-  const def = PRIMITIVE_REGISTRY[cooldown];
-  return def?.safety?.cooldownTicks ?? DEFAULT_COOLDOWN_TICKS;
+function indent(lines: string[], tabs: string): string[] {
+  return lines.map((line) => `${tabs}${line}`);
 }
 
-function getMaxRange(plan: ExecutionPlan): number {
-  const raycast = plan.primitives.find((p) => p === "raycast_target");
-  if (!raycast) return MAX_RAYCAST_RANGE;
-  const def = PRIMITIVE_REGISTRY[raycast];
-  return def?.safety?.maxRange ?? MAX_RAYCAST_RANGE;
+/** use() body: fragment statements in order; all per-target statements share one loop over `targets`. */
+function useBody(fragments: BehaviorFragment[]): string[] {
+  const body: string[] = [];
+  const perTarget = fragments.flatMap((f) => f.perTarget ?? []);
+  const hasArea = fragments.some((f) => f.primitive === "area_of_effect");
+  let loopEmitted = false;
+  for (const fragment of fragments) {
+    if (fragment.perTarget && !loopEmitted) {
+      if (!hasArea) body.push("List<LivingEntity> targets = targetEntity != null ? List.of(targetEntity) : List.of();");
+      body.push("for (LivingEntity entity : targets) {", ...indent(perTarget, "\t"), "}");
+      loopEmitted = true;
+    }
+    body.push(...fragment.statements);
+  }
+  return body;
 }
 
 /**
- * Generate custom Item class Java source for "lightning wand" behavior:
- * on_use + raycast_target + spawn_entity + cooldown + particle_effect + sound_effect.
- * Bounded by PRIMITIVE_REGISTRY safety (range, cooldown).
+ * Custom Item class for a plan: constants and use() composed from the primitive fragments.
+ * Server side only; the client passes so the server result drives the swing. A damageable item wears by one per use.
  */
-function generateLightningWandItem(
-  _modId: string,
+function generateBehaviorItem(
   itemId: string,
+  flavor: BehaviorFlavor,
   plan: ExecutionPlan,
-  javaPackage: string
+  javaPackage: string,
+  damageable: boolean
 ): string {
   const className = toClassName(itemId) + "Item";
-  const cooldownTicks = getCooldownTicks(plan);
-  const maxRange = getMaxRange(plan);
+  const fragments = useFragments(plan, flavor);
+  const usesEntities = fragments.some((f) => f.primitive === "raycast_target" || f.primitive === "area_of_effect");
+  const imports = [
+    ...BASE_IMPORTS,
+    ...fragments.flatMap((f) => f.imports),
+    ...(usesEntities ? ["net.minecraft.entity.LivingEntity", "java.util.List"] : []),
+    ...(damageable ? ["net.minecraft.entity.LivingEntity"] : []),
+  ];
+  const body = [
+    ...useBody(fragments),
+    ...(damageable ? ["stack.damage(1, user, LivingEntity.getSlotForHand(hand));"] : []),
+  ];
+  const sortedImports = [...new Set(imports)].sort((a, b) => {
+    const javaA = a.startsWith("java.") ? 0 : 1;
+    const javaB = b.startsWith("java.") ? 0 : 1;
+    return javaA - javaB || a.localeCompare(b);
+  });
+  const fields = [...new Set(fragments.flatMap((f) => f.fields))];
 
   return `package net.themodgenerator.${javaPackage};
 
-import net.minecraft.entity.LightningEntity;
-import net.minecraft.entity.player.PlayerEntity;
-import net.minecraft.item.Item;
-import net.minecraft.item.ItemStack;
-import net.minecraft.server.world.ServerWorld;
-import net.minecraft.sound.SoundCategory;
-import net.minecraft.sound.SoundEvents;
-import net.minecraft.util.Hand;
-import net.minecraft.util.hit.BlockHitResult;
-import net.minecraft.util.hit.HitResult;
-import net.minecraft.util.math.BlockPos;
-import net.minecraft.util.math.Vec3d;
-import net.minecraft.world.World;
+${sortedImports.map((i) => `import ${i};`).join("\n")}
 
 public class ${className} extends Item {
-	private static final int COOLDOWN_TICKS = ${cooldownTicks};
-	private static final double MAX_RANGE = ${maxRange};
+${indent(fields, "\t").join("\n")}
 
 	public ${className}(Settings settings) {
 		super(settings);
 	}
 
 	@Override
-	public net.minecraft.util.TypedActionResult<ItemStack> use(World world, PlayerEntity user, Hand hand) {
+	public TypedActionResult<ItemStack> use(World world, PlayerEntity user, Hand hand) {
 		ItemStack stack = user.getStackInHand(hand);
-		if (!(world instanceof ServerWorld)) {
-			return net.minecraft.util.TypedActionResult.pass(stack);
-		}
-		HitResult hit = user.raycast(MAX_RANGE, 1.0f, false);
-		if (hit.getType() == HitResult.Type.BLOCK) {
-			BlockPos pos = ((BlockHitResult) hit).getBlockPos();
-			LightningEntity lightning = new LightningEntity(net.minecraft.entity.EntityType.LIGHTNING_BOLT, world);
-			lightning.setPosition(Vec3d.ofCenter(pos));
-			world.spawnEntity(lightning);
-			world.playSound(null, pos, SoundEvents.ENTITY_LIGHTNING_BOLT_THUNDER, SoundCategory.WEATHER, 1.0f, 1.0f);
-			user.getItemCooldownManager().set(this, COOLDOWN_TICKS);
+		if (!(world instanceof ServerWorld serverWorld)) {
+			return TypedActionResult.pass(stack);
 		}
-		return net.minecraft.util.TypedActionResult.success(stack, world.isClient());
+${indent(body, "\t\t").join("\n")}
+		return TypedActionResult.success(stack, world.isClient());
 	}
 }
 `;
 }
 
 /**
- * Whether the plan requires a custom item class (on_use + spawn_entity or similar).
+ * Whether the plan requires a custom item class: on_use plus at least one primitive that does something
+ * in use() (cooldown alone does not).
  */
 export function planRequiresCustomItem(plan: ExecutionPlan): boolean {
-  const hasUse = plan.primitives.includes("on_use");
-  const hasLightning =
-    plan.primitives.includes("spawn_entity") && plan.primitives.includes("raycast_target");
-  return hasUse && hasLightning;
+  return useFragments(plan, "arcane").some((f) => f.primitive !== "cooldown" && f.primitive !== "raycast_target");
 }
 
 /**
  * Generate behavior Java files from execution plans per item.
- * When plan has on_use + spawn_entity + raycast, generates custom Item class.
+ * When the plan has on_use and an effect primitive, generates a custom Item class.
  * Returns additional MaterializedFile[] to merge with scaffold + assets.
  */
 export function behaviorFilesFromPlans(
@@ -121,7 +131,8 @@ export function behaviorFilesFromPlans(
     if (!plan || !planRequiresCustomItem(plan)) return;
 
     const className = toClassName(item.id) + "Item";
-    const content = generateLightningWandItem(modId, item.id, plan, javaPackage);
+    const damageable = expanded.spec.items?.find((i) => i.id === item.id)?.properties?.maxDamage !== undefined;
+    const content = generateBehaviorItem(item.id, behaviorFlavor(item.name, plan), plan, javaPackage, damageable);
     files.push({
       path: `src/main/java/net/themodgenerator/${javaPackage}/${className}.java`,
       contents: content,
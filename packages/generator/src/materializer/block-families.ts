@@ -0,0 +1,383 @@
+/**
+ * Block families (spec.blockFamilies): registration, blockstates/models, loot tables and tags per variant.
+ * Blocks come from expandBlockFamilies (spec); this module only resolves how each variant materializes.
+ * - Java: vanilla block classes + Settings.copy(vanilla template for the family type), like vanilla-wood-family.
+ * - Assets: variants reuse the base block texture (stairs, slab, wall, ...); door/trapdoor copy vanilla textures.
+ *   Cube variants (block, polished_block, bricks) use the default cube_all path in asset-mapping.
+ * - Data: loot_table/blocks/<id>.json (slab double = 2, door lower half), mineable + vanilla variant tags.
+ */
+
+import type { BlockFamily, BlockFamilyVariant, ExpandedSpecTier1 } from "@themodgenerator/spec";
+import { blockFamilyVariantId, blockFamilyVariants } from "@themodgenerator/spec";
+import type { MaterializedFile } from "./types.js";
+import {
+  doorBlockstateJson,
+  doorModelBottom,
+  doorModelTop,
+  trapdoorBlockstateJson,
+  trapdoorModelBottom,
+  trapdoorModelTop,
+  trapdoorModelOpen,
+  buttonBlockstateJson,
+  pressurePlateBlockstateJson,
+  fenceGateBlockstateJson,
+  slabBlockstateJson,
+  stairsBlockstateJson,
+} from "./wood-blockstates.js";
+import { dropSelfLootTable, doorLootTable, slabLootTable } from "./wood-loot-tables.js";
+
+const DATA_BASE = "src/main/resources/data";
+
+/** Vanilla templates per family type: Settings.copy source, BlockSetType, and textures for door/trapdoor. */
+interface FamilyTemplate {
+  baseBlock: string;
+  blockSetType: string;
+  buttonPressTicks: number;
+  button: string;
+  pressurePlate: string;
+  door: string;
+  trapdoor: string;
+  /** Vanilla texture/template ids (e.g. iron_door) for door and trapdoor textures. */
+  vanillaDoor: string;
+  vanillaTrapdoor: string;
+  tool: "pickaxe" | "axe";
+  /** Extra vanilla mining-level tag (iron block needs a stone tool). */
+  needsTool?: string;
+}
+
+const STONE_TEMPLATE: FamilyTemplate = {
+  baseBlock: "Blocks.STONE",
+  blockSetType: "BlockSetType.STONE",
+  buttonPressTicks: 20,
+  button: "Blocks.STONE_BUTTON",
+  pressurePlate: "Blocks.STONE_PRESSURE_PLATE",
+  door: "Blocks.IRON_DOOR",
+  trapdoor: "Blocks.IRON_TRAPDOOR",
+  vanillaDoor: "iron_door",
+  vanillaTrapdoor: "iron_trapdoor",
+  tool: "pickaxe",
+};
+
+const FAMILY_TEMPLATES: Record<BlockFamily["familyType"], FamilyTemplate> = {
+  stone: STONE_TEMPLATE,
+  generic: STONE_TEMPLATE,
+  metal: {
+    baseBlock: "Blocks.IRON_BLOCK",
+    blockSetType: "BlockSetType.IRON",
+    buttonPressTicks: 20,
+    button: "Blocks.STONE_BUTTON",
+    pressurePlate: "Blocks.HEAVY_WEIGHTED_PRESSURE_PLATE",
+    door: "Blocks.IRON_DOOR",
+    trapdoor: "Blocks.IRON_TRAPDOOR",
+    vanillaDoor: "iron_door",
+    vanillaTrapdoor: "iron_trapdoor",
+    tool: "pickaxe",
+    needsTool: "needs_stone_tool",
+  },
+  wood: {
+    baseBlock: "Blocks.OAK_PLANKS",
+    blockSetType: "BlockSetType.OAK",
+    buttonPressTicks: 30,
+    button: "Blocks.OAK_BUTTON",
+    pressurePlate: "Blocks.OAK_PRESSURE_PLATE",
+    door: "Blocks.OAK_DOOR",
+    trapdoor: "Blocks.OAK_TRAPDOOR",
+    vanillaDoor: "oak_door",
+    vanillaTrapdoor: "oak_trapdoor",
+    tool: "axe",
+  },
+};
+
+/** Vanilla block + item tags per variant; wood families also join wooden_*, stone families stone_*. */
+const VARIANT_TAGS: Partial<Record<BlockFamilyVariant, { tag: string; woodTag?: string; stoneTag?: string }>> = {
+  stairs: { tag: "stairs", woodTag: "wooden_stairs" },
+  slab: { tag: "slabs", woodTag: "wooden_slabs" },
+  wall: { tag: "walls" },
+  fence: { tag: "fences", woodTag: "wooden_fences" },
+  fence_gate: { tag: "fence_gates" },
+  door: { tag: "doors", woodTag: "wooden_doors" },
+  trapdoor: { tag: "trapdoors", woodTag: "wooden_trapdoors" },
+  button: { tag: "buttons", woodTag: "wooden_buttons", stoneTag: "stone_buttons" },
+  pressure_plate: { tag: "pressure_plates", woodTag: "wooden_pressure_plates", stoneTag: "stone_pressure_plates" },
+};
+
+export interface BlockFamilyMember {
+  family: BlockFamily;
+  variant: BlockFamilyVariant;
+}
+
+/** Family + variant that produced this block id, or null if the block is not a family member. */
+export function blockFamilyMember(expanded: ExpandedSpecTier1, blockId: string): BlockFamilyMember | null {
+  for (const family of expanded.spec.blockFamilies ?? []) {
+    for (const variant of blockFamilyVariants(family)) {
+      if (blockFamilyVariantId(family.baseId, variant) === blockId) return { family, variant };
+    }
+  }
+  return null;
+}
+
+function blockVar(blockId: string): string {
+  return blockId.replace(/-/g, "_") + "Block";
+}
+
+/**
+ * WoodType for a family fence gate: vanilla oak for wood families; otherwise an unregistered WoodType whose
+ * sound group and open/close sounds come from the family's BlockSetType (stone/iron, not wooden gate creaks).
+ */
+function fenceGateWoodType(family: BlockFamily, t: FamilyTemplate): string {
+  if (family.familyType === "wood") return "WoodType.OAK";
+  const set = t.blockSetType;
+  return (
+    `new WoodType(MOD_ID + ":${family.baseId}", ${set}, ${set}.soundType(), BlockSoundGroup.HANGING_SIGN, ` +
+    `${set}.trapdoorClose(), ${set}.trapdoorOpen())`
+  );
+}
+
+/** Java registration line for a family block. Base/polished/bricks are plain Blocks; shapes use vanilla classes. */
+export function blockFamilyRegistrationJava(
+  expanded: ExpandedSpecTier1,
+  blockId: string
+): { varName: string; line: string } | null {
+  const member = blockFamilyMember(expanded, blockId);
+  if (!member) return null;
+  const t = FAMILY_TEMPLATES[member.family.familyType];
+  const copy = (vanilla: string) => `AbstractBlock.Settings.copy(${vanilla})`;
+  const base = copy(t.baseBlock);
+  let ctor: string;
+  switch (member.variant) {
+    case "block":
+    case "polished_block":
+    case "bricks":
+      ctor = `new Block(${base})`;
+      break;
+    case "stairs":
+      ctor = `new StairsBlock(${blockVar(member.family.baseId)}.getDefaultState(), ${base})`;
+      break;
+    case "slab":
+      ctor = `new SlabBlock(${base})`;
+      break;
+    case "wall":
+      ctor = `new WallBlock(${base})`;
+      break;
+    case "fence":
+      ctor = `new FenceBlock(${base})`;
+      break;
+    case "fence_gate":
+      ctor = `new FenceGateBlock(${fenceGateWoodType(member.family, t)}, ${base})`;
+      break;
+    case "door":
+      ctor = `new DoorBlock(${t.blockSetType}, ${copy(t.door)})`;
+      break;
+    case "trapdoor":
+      ctor = `new TrapdoorBlock(${t.blockSetType}, ${copy(t.trapdoor)})`;
+      break;
+    case "button":
+      ctor = `new ButtonBlock(${t.blockSetType}, ${t.buttonPressTicks}, ${copy(t.button)})`;
+      break;
+    case "pressure_plate":
+      ctor = `new PressurePlateBlock(${t.blockSetType}, ${copy(t.pressurePlate)})`;
+      break;
+  }
+  const varName = blockVar(blockId);
+  return {
+    varName,
+    line: `Block ${varName} = Registry.register(Registries.BLOCK, Identifier.of(MOD_ID, "${blockId}"), ${ctor});`,
+  };
+}
+
+function modelJson(parent: string, textures: Record<string, string>): string {
+  return JSON.stringify({ parent, textures }, null, 2);
+}
+
+/** Vanilla wall multipart: post when up, low/tall side per direction. */
+function wallBlockstateJson(modId: string, blockId: string): string {
+  const modelBase = `${modId}:block/${blockId}`;
+  const multipart: Array<{ when: Record<string, string>; apply: { model: string; y?: number; uvlock?: boolean } }> = [
+    { when: { up: "true" }, apply: { model: `${modelBase}_post` } },
+  ];
+  const directions: Array<[string, number]> = [["north", 0], ["east", 90], ["south", 180], ["west", 270]];
+  for (const [dir, y] of directions) {
+    multipart.push({ when: { [dir]: "low" }, apply: { model: `${modelBase}_side`, ...(y ? { y } : {}), uvlock: true } });
+    multipart.push({ when: { [dir]: "tall" }, apply: { model: `${modelBase}_side_tall`, ...(y ? { y } : {}), uvlock: true } });
+  }
+  return JSON.stringify({ multipart }, null, 2);
+}
+
+/** Vanilla fence multipart: post always, side per connected direction. */
+function fenceBlockstateJson(modId: string, blockId: string): string {
+  const modelBase = `${modId}:block/${blockId}`;
+  const multipart: Array<{ when?: Record<string, string>; apply: { model: string; y?: number; uvlock?: boolean } }> = [
+    { apply: { model: `${modelBase}_post` } },
+  ];
+  const directions: Array<[string, number]> = [["north", 0], ["east", 90], ["south", 180], ["west", 270]];
+  for (const [dir, y] of directions) {
+    multipart.push({ when: { [dir]: "true" }, apply: { model: `${modelBase}_side`, ...(y ? { y } : {}), uvlock: true } });
+  }
+  return JSON.stringify({ multipart }, null, 2);
+}
+
+/**
+ * Blockstate, models, textures and item model for a shaped family variant.
+ * Returns null for cube variants (block, polished_block, bricks) and non-family blocks: asset-mapping handles those.
+ */
+export function blockFamilyAssetFiles(expanded: ExpandedSpecTier1, blockId: string): MaterializedFile[] | null {
+  const member = blockFamilyMember(expanded, blockId);
+  if (!member || member.variant === "block" || member.variant === "polished_block" || member.variant === "bricks") {
+    return null;
+  }
+  const modId = expanded.spec.modId;
+  const baseAssets = `src/main/resources/assets/${modId}`;
+  const t = FAMILY_TEMPLATES[member.family.familyType];
+  const tex = `${modId}:block/${member.family.baseId}`;
+  const id = blockId;
+  const models: Record<string, string> = {};
+  let blockstate: string;
+  let itemParent = `${modId}:block/${id}`;
+  const files: MaterializedFile[] = [];
+
+  switch (member.variant) {
+    case "stairs":
+      models[id] = modelJson("minecraft:block/stairs", { bottom: tex, top: tex, side: tex });
+      models[`${id}_inner`] = modelJson("minecraft:block/inner_stairs", { bottom: tex, top: tex, side: tex });
+      models[`${id}_outer`] = modelJson("minecraft:block/outer_stairs", { bottom: tex, top: tex, side: tex });
+      blockstate = stairsBlockstateJson(modId, id);
+      break;
+    case "slab":
+      models[id] = modelJson("minecraft:block/slab", { bottom: tex, top: tex, side: tex });
+      models[`${id}_top`] = modelJson("minecraft:block/slab_top", { bottom: tex, top: tex, side: tex });
+      blockstate = slabBlockstateJson(modId, id, member.family.baseId);
+      break;
+    case "wall":
+      models[`${id}_post`] = modelJson("minecraft:block/template_wall_post", { wall: tex });
+      models[`${id}_side`] = modelJson("minecraft:block/template_wall_side", { wall: tex });
+      models[`${id}_side_tall`] = modelJson("minecraft:block/template_wall_side_tall", { wall: tex });
+      models[`${id}_inventory`] = modelJson("minecraft:block/wall_inventory", { wall: tex });
+      blockstate = wallBlockstateJson(modId, id);
+      itemParent = `${modId}:block/${id}_inventory`;
+      break;
+    case "fence":
+      models[`${id}_post`] = modelJson("minecraft:block/fence_post", { texture: tex });
+      models[`${id}_side`] = modelJson("minecraft:block/fence_side", { texture: tex });
+      models[`${id}_inventory`] = modelJson("minecraft:block/fence_inventory", { texture: tex });
+      blockstate = fenceBlockstateJson(modId, id);
+      itemParent = `${modId}:block/${id}_inventory`;
+      break;
+    case "fence_gate":
+      models[id] = modelJson("minecraft:block/template_fence_gate", { texture: tex });
+      models[`${id}_open`] = modelJson("minecraft:block/template_fence_gate_open", { texture: tex });
+      models[`${id}_wall`] = modelJson("minecraft:block/template_fence_gate_wall", { texture: tex });
+      models[`${id}_wall_open`] = modelJson("minecraft:block/template_fence_gate_wall_open", { texture: tex });
+      blockstate = fenceGateBlockstateJson(modId, id);
+      break;
+    case "button":
+      models[id] = modelJson("minecraft:block/button", { texture: tex });
+      models[`${id}_pressed`] = modelJson("minecraft:block/button_pressed", { texture: tex });
+      models[`${id}_inventory`] = modelJson("minecraft:block/button_inventory", { texture: tex });
+      blockstate = buttonBlockstateJson(modId, id);
+      itemParent = `${modId}:block/${id}_inventory`;
+      break;
+    case "pressure_plate":
+      models[`${id}_up`] = modelJson("minecraft:block/pressure_plate_up", { texture: tex });
+      models[`${id}_down`] = modelJson("minecraft:block/pressure_plate_down", { texture: tex });
+      blockstate = pressurePlateBlockstateJson(modId, id);
+      itemParent = `${modId}:block/${id}_up`;
+      break;
+    case "door":
+      for (const slot of ["bottom", "top"] as const) {
+        files.push({
+          path: `${baseAssets}/textures/block/${id}_${slot}.png`,
+          contents: "",
+          copyFromVanillaPaths: [`block/${t.vanillaDoor}_${slot}`],
+          vanillaTemplateBlockId: t.vanillaDoor,
+          vanillaTextureSlot: slot,
+        });
+      }
+      models[`${id}_bottom`] = doorModelBottom(modId, id);
+      models[`${id}_top`] = doorModelTop(modId, id);
+      blockstate = doorBlockstateJson(modId, id);
+      itemParent = `${modId}:block/${id}_bottom`;
+      break;
+    case "trapdoor":
+      files.push({
+        path: `${baseAssets}/textures/block/${id}.png`,
+        contents: "",
+        copyFromVanillaPaths: [`block/${t.vanillaTrapdoor}`],
+        vanillaTemplateBlockId: t.vanillaTrapdoor,
+      });
+      models[`${id}_bottom`] = trapdoorModelBottom(modId, id);
+      models[`${id}_top`] = trapdoorModelTop(modId, id);
+      models[`${id}_open`] = trapdoorModelOpen(modId, id);
+      blockstate = trapdoorBlockstateJson(modId, id);
+      itemParent = `${modId}:block/${id}_bottom`;
+      break;
+  }
+
+  for (const [modelId, contents] of Object.entries(models)) {
+    files.push({ path: `${baseAssets}/models/block/${modelId}.json`, contents });
+  }
+  files.push({ path: `${baseAssets}/blockstates/${id}.json`, contents: blockstate });
+  files.push({ path: `${baseAssets}/models/item/${id}.json`, contents: `{\n  "parent": "${itemParent}"\n}\n` });
+  return files;
+}
+
+function familyBlocks(expanded: ExpandedSpecTier1): Array<{ blockId: string } & BlockFamilyMember> {
+  const out: Array<{ blockId: string } & BlockFamilyMember> = [];
+  for (const block of expanded.blocks) {
+    const member = blockFamilyMember(expanded, block.id);
+    if (member) out.push({ blockId: block.id, ...member });
+  }
+  return out;
+}
+
+/** Loot tables so every family block drops itself in survival (slab double → 2, door lower half only). */
+export function blockFamilyLootTableFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const modId = expanded.spec.modId;
+  return familyBlocks(expanded)
+    .map(({ blockId, variant }) => ({
+      path: `${DATA_BASE}/${modId}/loot_table/blocks/${blockId}.json`,
+      contents:
+        variant === "slab"
+          ? slabLootTable(modId, blockId)
+          : variant === "door"
+            ? doorLootTable(modId, blockId)
+            : dropSelfLootTable(modId, blockId),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Tags: mineable/<tool> (+ needs_stone_tool for metal) so Settings.copy(requiresTool) blocks drop,
+ * and vanilla variant tags (walls, fences, ...) for connections and vanilla recipes. replace:false only.
+ */
+export function blockFamilyTagDataFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const modId = expanded.spec.modId;
+  const blockTags = new Map<string, string[]>();
+  const itemTags = new Map<string, string[]>();
+  const add = (map: Map<string, string[]>, tag: string, ref: string) => map.set(tag, [...(map.get(tag) ?? []), ref]);
+
+  for (const { blockId, family, variant } of familyBlocks(expanded)) {
+    const ref = `${modId}:${blockId}`;
+    const t = FAMILY_TEMPLATES[family.familyType];
+    add(blockTags, `mineable/${t.tool}`, ref);
+    if (t.needsTool) add(blockTags, t.needsTool, ref);
+    const tags = VARIANT_TAGS[variant];
+    if (!tags) continue;
+    const familyTag =
+      family.familyType === "wood" ? tags.woodTag : family.familyType === "stone" ? tags.stoneTag : undefined;
+    for (const tag of [tags.tag, ...(familyTag ? [familyTag] : [])]) {
+      add(blockTags, tag, ref);
+      add(itemTags, tag, ref);
+    }
+  }
+
+  const files: MaterializedFile[] = [];
+  for (const [dir, tags] of [["blocks", blockTags], ["items", itemTags]] as const) {
+    for (const [tag, values] of tags) {
+      files.push({
+        path: `${DATA_BASE}/minecraft/tags/${dir}/${tag}.json`,
+        contents: JSON.stringify({ replace: false, values: values.sort() }, null, 2),
+      });
+    }
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,45 @@
+/**
+ * Block settings (ModBlock.blockSettings, ModBlock.mining) for plain blocks. Wood blocks and block families copy
+ * vanilla settings (vanilla-wood-family, block-families) and ignore these.
+ * - Java: AbstractBlock.Settings.create() chain — mapColor, strength, sounds, luminance, requiresTool,
+ *   slipperiness, noCollision — in onInitialize's new Block(...).
+ * - Hardness falls back to mining.hardness (default 3 when mining is set); requiresTool defaults to true with
+ *   mining, so the block only drops with the tool from its mineable/needs_*_tool tags (spec-tags.ts).
+ */
+
+import type { ModBlock } from "@themodgenerator/spec";
+
+/** Hardness when a mined block sets none (iron ore). */
+const DEFAULT_MINING_HARDNESS = 3;
+
+function javaFloat(n: number): string {
+  const s = String(Math.round(n * 100) / 100);
+  return `${s.includes(".") ? s : `${s}.0`}F`;
+}
+
+/** Lower-case constant name ("amethyst_block") → Java constant (AMETHYST_BLOCK). */
+function javaConstant(name: string): string {
+  return name.replace(/^minecraft:/, "").toUpperCase();
+}
+
+/** AbstractBlock.Settings expression for a plain block; bare Settings.create() when nothing is configured. */
+export function blockSettingsJava(block: ModBlock | undefined): string {
+  const settings = block?.blockSettings ?? {};
+  const mining = block?.mining;
+  const hardness = settings.hardness ?? mining?.hardness ?? (mining ? DEFAULT_MINING_HARDNESS : undefined);
+  const calls: string[] = [];
+  if (settings.mapColor) calls.push(`.mapColor(MapColor.${javaConstant(settings.mapColor)})`);
+  if (hardness !== undefined && settings.resistance !== undefined) {
+    calls.push(`.strength(${javaFloat(hardness)}, ${javaFloat(settings.resistance)})`);
+  } else if (hardness !== undefined) {
+    calls.push(`.strength(${javaFloat(hardness)})`);
+  } else if (settings.resistance !== undefined) {
+    calls.push(`.resistance(${javaFloat(settings.resistance)})`);
+  }
+  if (settings.sound) calls.push(`.sounds(BlockSoundGroup.${javaConstant(settings.sound)})`);
+  if (settings.luminance) calls.push(`.luminance(state -> ${Math.round(settings.luminance)})`);
+  if (settings.requiresTool ?? !!mining) calls.push(".requiresTool()");
+  if (settings.slipperiness !== undefined) calls.push(`.slipperiness(${javaFloat(settings.slipperiness)})`);
+  if (settings.noCollision) calls.push(".noCollision()");
+  return `AbstractBlock.Settings.create()${calls.join("")}`;
+}
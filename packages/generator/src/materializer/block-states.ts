@@ -0,0 +1,331 @@
+/**
+ * Block state machines (ModBlock.stateMachine): "charging", "activated" and "depleted" blocks with real states.
+ * - Java: one <Block>Block class per block with a nested <Block>Block<Property> enum (StringIdentifiable, named after
+ *   the block so a property cannot shadow an imported class) and EnumProperty, appendProperties, the first state as
+ *   default. Transitions: onUse (use), neighborUpdate (powered / unpowered), scheduledTick
+ *   (delay, player_near checked every PLAYER_CHECK_TICKS). Entering a state clears the block's pending tick and
+ *   schedules the new state's timed transition; onBlockAdded schedules the placed state's.
+ * - Assets: multi-variant blockstate (<property>=<state>), the first state on the block's own model and texture,
+ *   every other state on models/block/<id>_<state>.json with textures/block/<id>_<state>.png. State textures go
+ *   through the texture pipeline with the block's profile (or a bare one from its material) plus a state motif
+ *   (STATE_VISUALS).
+ * validateBehaviorCompliance checks states and transitions.
+ */
+
+import type {
+  ExpandedSpecTier1,
+  ModBlock,
+  ModBlockStateMachine,
+  ModBlockStateTransition,
+  TextureProfile,
+} from "@themodgenerator/spec";
+import { TICK_BEHAVIOR_LIMITS } from "@themodgenerator/spec";
+import type { MaterializedFile } from "./types.js";
+
+const DEFAULT_PROPERTY = "phase";
+const DEFAULT_PLAYER_RADIUS = 4;
+/** Ticks between player_near checks. */
+const PLAYER_CHECK_TICKS = 20;
+
+/** State name → texture motif (and color) so each state looks different; unmatched states get "rings". */
+interface StateVisual {
+  pattern: RegExp;
+  motif: string;
+  colorHint?: string;
+}
+
+const STATE_VISUALS: StateVisual[] = [
+  { pattern: /charg|power|fill|heat|warm/, motif: "veins" },
+  { pattern: /activ|awake|on$|lit|open|glow|alert/, motif: "bubbles" },
+  { pattern: /deplet|empty|spent|cooldown|off$|dormant|broken|drain/, motif: "flakes", colorHint: "gray" },
+];
+
+function toClassName(s: string): string {
+  return s
+    .split(/[-_]/)
+    .map((p) => (p ? p[0].toUpperCase() + p.slice(1).toLowerCase() : ""))
+    .join("");
+}
+
+function indent(lines: string[], tabs: string): string[] {
+  return lines.map((line) => (line ? `${tabs}${line}` : line));
+}
+
+function constant(state: string): string {
+  return state.toUpperCase();
+}
+
+function propertyName(machine: ModBlockStateMachine): string {
+  return machine.property ?? DEFAULT_PROPERTY;
+}
+
+/** Class registered for a block with a state machine ("mana_battery" → ManaBatteryBlock), else undefined. */
+export function stateMachineBlockClassName(block: ModBlock | undefined): string | undefined {
+  return block?.stateMachine ? toClassName(block.id) + "Block" : undefined;
+}
+
+/** Model id of a state: the first state uses the block's own model. */
+function stateModelId(id: string, machine: ModBlockStateMachine, state: string): string {
+  return state === machine.states[0] ? id : `${id}_${state}`;
+}
+
+function transition(machine: ModBlockStateMachine, from: string, trigger: ModBlockStateTransition["trigger"]) {
+  return machine.transitions.find((t) => t.from === from && t.trigger === trigger);
+}
+
+/** Ticks until a state's timed transition (delay or the first player check), or undefined when it has none. */
+function timedDelay(machine: ModBlockStateMachine, state: string): number | undefined {
+  const delay = transition(machine, state, "delay");
+  if (delay) return Math.max(TICK_BEHAVIOR_LIMITS.minIntervalTicks, Math.round(delay.delayTicks ?? PLAYER_CHECK_TICKS));
+  return transition(machine, state, "player_near") ? PLAYER_CHECK_TICKS : undefined;
+}
+
+/** `Enum next = switch (current) { case A -> Enum.B; default -> null; };` for one trigger. */
+function nextStateSwitch(machine: ModBlockStateMachine, enumName: string, property: string, trigger: ModBlockStateTransition["trigger"]): string[] {
+  const cases = machine.states.flatMap((state) => {
+    const t = transition(machine, state, trigger);
+    return t ? [`\tcase ${constant(state)} -> ${enumName}.${constant(t.to)};`] : [];
+  });
+  return [`${enumName} next = switch (state.get(${property})) {`, ...cases, "\tdefault -> null;", "};"];
+}
+
+function stateMachineBlockJava(machine: ModBlockStateMachine, className: string, javaPackage: string): string {
+  const enumName = className + toClassName(propertyName(machine));
+  const property = constant(propertyName(machine));
+  const has = (trigger: ModBlockStateTransition["trigger"]) => machine.transitions.some((t) => t.trigger === trigger);
+  const hasTimed = has("delay") || has("player_near");
+  const hasRedstone = has("powered") || has("unpowered");
+  const imports = [
+    "net.minecraft.block.Block",
+    "net.minecraft.block.BlockState",
+    "net.minecraft.state.StateManager",
+    "net.minecraft.state.property.EnumProperty",
+    "net.minecraft.util.StringIdentifiable",
+    "net.minecraft.util.math.BlockPos",
+    "net.minecraft.world.World",
+    ...(hasTimed
+      ? ["net.minecraft.server.world.ServerWorld", "net.minecraft.util.math.BlockBox", "net.minecraft.util.math.random.Random"]
+      : []),
+    ...(has("use")
+      ? ["net.minecraft.entity.player.PlayerEntity", "net.minecraft.util.ActionResult", "net.minecraft.util.hit.BlockHitResult"]
+      : []),
+  ];
+  const enumValues = machine.states.map((s, i) => `${constant(s)}("${s}")${i === machine.states.length - 1 ? ";" : ","}`);
+
+  const methods: string[][] = [];
+  methods.push([
+    "@Override",
+    "protected void appendProperties(StateManager.Builder<Block, BlockState> builder) {",
+    `\tbuilder.add(${property});`,
+    "}",
+  ]);
+  if (hasTimed) {
+    const delays = machine.states.flatMap((state) => {
+      const ticks = timedDelay(machine, state);
+      return ticks !== undefined ? [`\tcase ${constant(state)} -> ${ticks};`] : [];
+    });
+    methods.push([
+      "/** Ticks until the state's delay or player_near transition; 0 when it has none. */",
+      `private static int timedDelay(${enumName} value) {`,
+      "\treturn switch (value) {",
+      ...indent(delays, "\t"),
+      "\t\tdefault -> 0;",
+      "\t};",
+      "}",
+    ]);
+    methods.push([
+      "@Override",
+      "protected void onBlockAdded(BlockState state, World world, BlockPos pos, BlockState oldState, boolean notify) {",
+      "\tsuper.onBlockAdded(state, world, pos, oldState, notify);",
+      `\tint delay = timedDelay(state.get(${property}));`,
+      "\tif (!oldState.isOf(this) && delay > 0) {",
+      "\t\tworld.scheduleBlockTick(pos, this, delay);",
+      "\t}",
+      "}",
+    ]);
+  }
+  methods.push([
+    "/** Switch to a state; a pending tick from the old state is dropped so only the new state's timer runs. */",
+    `private void enterState(World world, BlockPos pos, BlockState state, ${enumName} next) {`,
+    `\tworld.setBlockState(pos, state.with(${property}, next));`,
+    ...(hasTimed
+      ? [
+          "\tif (world instanceof ServerWorld serverWorld) {",
+          "\t\tserverWorld.getBlockTickScheduler().clearNextTicks(new BlockBox(pos));",
+          "\t}",
+          "\tint delay = timedDelay(next);",
+          "\tif (delay > 0) {",
+          "\t\tworld.scheduleBlockTick(pos, this, delay);",
+          "\t}",
+        ]
+      : []),
+    "}",
+  ]);
+  if (has("use")) {
+    methods.push([
+      "@Override",
+      "protected ActionResult onUse(BlockState state, World world, BlockPos pos, PlayerEntity player, BlockHitResult hit) {",
+      ...indent(nextStateSwitch(machine, enumName, property, "use"), "\t"),
+      "\tif (next == null) {",
+      "\t\treturn ActionResult.PASS;",
+      "\t}",
+      "\tif (!world.isClient) {",
+      "\t\tenterState(world, pos, state, next);",
+      "\t}",
+      "\treturn ActionResult.success(world.isClient);",
+      "}",
+    ]);
+  }
+  if (hasRedstone) {
+    const redstoneCases = machine.states.flatMap((state) => {
+      const on = transition(machine, state, "powered");
+      const off = transition(machine, state, "unpowered");
+      if (on && off) return [`\tcase ${constant(state)} -> powered ? ${enumName}.${constant(on.to)} : ${enumName}.${constant(off.to)};`];
+      if (on) return [`\tcase ${constant(state)} -> powered ? ${enumName}.${constant(on.to)} : null;`];
+      if (off) return [`\tcase ${constant(state)} -> powered ? null : ${enumName}.${constant(off.to)};`];
+      return [];
+    });
+    methods.push([
+      "@Override",
+      "protected void neighborUpdate(BlockState state, World world, BlockPos pos, Block sourceBlock, BlockPos sourcePos, boolean notify) {",
+      "\tsuper.neighborUpdate(state, world, pos, sourceBlock, sourcePos, notify);",
+      "\tif (world.isClient) {",
+      "\t\treturn;",
+      "\t}",
+      "\tboolean powered = world.isReceivingRedstonePower(pos);",
+      `\t${enumName} next = switch (state.get(${property})) {`,
+      ...indent(redstoneCases, "\t"),
+      "\t\tdefault -> null;",
+      "\t};",
+      "\tif (next != null) {",
+      "\t\tenterState(world, pos, state, next);",
+      "\t}",
+      "}",
+    ]);
+  }
+  if (hasTimed) {
+    const tickCases = machine.states.flatMap((state) => {
+      const delay = transition(machine, state, "delay");
+      if (delay) return [`case ${constant(state)} -> enterState(world, pos, state, ${enumName}.${constant(delay.to)});`];
+      const near = transition(machine, state, "player_near");
+      if (!near) return [];
+      const radius = Math.min(TICK_BEHAVIOR_LIMITS.maxRadius, near.radius ?? DEFAULT_PLAYER_RADIUS);
+      return [
+        `case ${constant(state)} -> {`,
+        `\tif (world.isPlayerInRange(pos.getX() + 0.5, pos.getY() + 0.5, pos.getZ() + 0.5, ${radius})) {`,
+        `\t\tenterState(world, pos, state, ${enumName}.${constant(near.to)});`,
+        "\t} else {",
+        "\t\tworld.scheduleBlockTick(pos, this, PLAYER_CHECK_TICKS);",
+        "\t}",
+        "}",
+      ];
+    });
+    methods.push([
+      "@Override",
+      "protected void scheduledTick(BlockState state, ServerWorld world, BlockPos pos, Random random) {",
+      `\tswitch (state.get(${property})) {`,
+      ...indent(tickCases, "\t\t"),
+      "\t\tdefault -> { }",
+      "\t}",
+      "}",
+    ]);
+  }
+
+  const fields = [
+    `public static final EnumProperty<${enumName}> ${property} = EnumProperty.of("${propertyName(machine)}", ${enumName}.class);`,
+    ...(has("player_near") ? [`private static final int PLAYER_CHECK_TICKS = ${PLAYER_CHECK_TICKS};`] : []),
+  ];
+
+  return `package net.themodgenerator.${javaPackage};
+
+${[...new Set(imports)].sort().map((i) => `import ${i};`).join("\n")}
+
+public class ${className} extends Block {
+	public enum ${enumName} implements StringIdentifiable {
+${indent(enumValues, "\t\t").join("\n")}
+
+		private final String name;
+
+		${enumName}(String name) {
+			this.name = name;
+		}
+
+		@Override
+		public String asString() {
+			return name;
+		}
+	}
+
+${indent(fields, "\t").join("\n")}
+
+	public ${className}(Settings settings) {
+		super(settings);
+		setDefaultState(getStateManager().getDefaultState().with(${property}, ${enumName}.${constant(machine.states[0])}));
+	}
+
+${methods.map((m) => indent(m, "\t").join("\n")).join("\n\n")}
+}
+`;
+}
+
+/** One Java class per spec block with a state machine (registered by fabric-scaffold via stateMachineBlockClassName). */
+export function stateMachineBlockFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const javaPackage = expanded.spec.modId.replace(/-/g, "_");
+  const expandedIds = new Set(expanded.blocks.map((b) => b.id));
+  return (expanded.spec.blocks ?? []).flatMap((block) => {
+    const className = stateMachineBlockClassName(block);
+    if (!className || !block.stateMachine || !expandedIds.has(block.id)) return [];
+    return [
+      {
+        path: `src/main/java/net/themodgenerator/${javaPackage}/${className}.java`,
+        contents: stateMachineBlockJava(block.stateMachine, className, javaPackage),
+      },
+    ];
+  });
+}
+
+function stateBlockstateJson(modId: string, id: string, machine: ModBlockStateMachine): string {
+  const variants = machine.states.map(
+    (state) => `    "${propertyName(machine)}=${state}": {\n      "model": "${modId}:block/${stateModelId(id, machine, state)}"\n    }`
+  );
+  return `{\n  "variants": {\n${variants.join(",\n")}\n  }\n}\n`;
+}
+
+/**
+ * Blockstate, per-state models and per-state textures of a state machine block. The first state keeps the block's
+ * model and texture (asset-mapping); baseTexture is that texture file, copied with a state motif for the others.
+ */
+export function stateMachineAssetFiles(
+  modId: string,
+  id: string,
+  machine: ModBlockStateMachine,
+  modelParent: string,
+  baseTexture: MaterializedFile | undefined
+): MaterializedFile[] {
+  const baseAssets = `src/main/resources/assets/${modId}`;
+  const files: MaterializedFile[] = [
+    { path: `${baseAssets}/blockstates/${id}.json`, contents: stateBlockstateJson(modId, id, machine) },
+  ];
+  for (const state of machine.states.slice(1)) {
+    const modelId = stateModelId(id, machine, state);
+    files.push({
+      path: `${baseAssets}/models/block/${modelId}.json`,
+      contents: `{\n  "parent": "${modelParent}",\n  "textures": {\n    "all": "${modId}:block/${modelId}"\n  }\n}\n`,
+    });
+    const visual: Omit<StateVisual, "pattern"> = STATE_VISUALS.find((v) => v.pattern.test(state)) ?? { motif: "rings" };
+    const profile: TextureProfile = baseTexture?.textureProfile ?? {
+      intent: "block",
+      materialHint: baseTexture?.placeholderMaterial ?? "generic",
+      physicalTraits: [],
+      surfaceStyle: [],
+    };
+    files.push({
+      ...baseTexture,
+      path: `${baseAssets}/textures/block/${modelId}.png`,
+      contents: "",
+      ...(visual.colorHint && { colorHint: visual.colorHint }),
+      textureProfile: { ...profile, visualMotifs: [...(profile.visualMotifs ?? []), visual.motif] },
+    });
+  }
+  return files;
+}
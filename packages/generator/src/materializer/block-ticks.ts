@@ -0,0 +1,260 @@
+/**
+ * Block tick behaviors (ModBlock.tickBehaviors): radioactive, melting and corrupting blocks act in game.
+ * - Java: one <Block>Block class per ticking block, registered instead of new Block(...) in onInitialize.
+ *   onBlockAdded schedules the first tick; randomTick (settings.ticksRandomly) starts the schedule for blocks
+ *   placed by world generation; each behavior runs on its own interval (world time % interval == 0) and
+ *   scheduledTick reschedules itself for the nearest next one, so 20 and 21 ticks do not tick every tick.
+ * - Effects: status_effect on living entities in a Box around the block, transform (setBlockState, then stop),
+ *   spread (one random position within radius, when it is in the tag), ambient_particle (spawnParticles).
+ * - Safety: interval, radius, entity count, effect length and amplifier from TICK_BEHAVIOR_LIMITS, which derives
+ *   the first three from the tick_behavior and area_of_effect bounds PRIMITIVE_REGISTRY also uses;
+ *   validateBehaviorCompliance rejects specs outside those bounds before the clamp matters.
+ */
+
+import type { ExpandedSpecTier1, ModBlock, ModBlockTickBehavior } from "@themodgenerator/spec";
+import { TICK_BEHAVIOR_LIMITS } from "@themodgenerator/spec";
+import type { MaterializedFile } from "./types.js";
+import { splitTagId } from "./spec-tags.js";
+
+const DEFAULT_RADIUS = 3;
+const DEFAULT_DURATION_TICKS = 100;
+/** Block light next to the block above which near_heat holds (vanilla ice melts above 11). */
+const HEAT_LIGHT_LEVEL = 11;
+/** Biome temperature above which warm_biome holds (jungle 0.95, savanna and desert 2). */
+const WARM_BIOME_TEMPERATURE = 0.9;
+
+function toClassName(s: string): string {
+  return s
+    .split(/[-_]/)
+    .map((p) => (p ? p[0].toUpperCase() + p.slice(1).toLowerCase() : ""))
+    .join("");
+}
+
+function indent(lines: string[], tabs: string): string[] {
+  return lines.map((line) => (line ? `${tabs}${line}` : line));
+}
+
+/** Tick behaviors of a block, clamped to TICK_BEHAVIOR_LIMITS. */
+export function blockTickBehaviors(block: ModBlock | undefined): ModBlockTickBehavior[] {
+  return (block?.tickBehaviors ?? []).map((b) => ({
+    ...b,
+    intervalTicks: Math.max(TICK_BEHAVIOR_LIMITS.minIntervalTicks, Math.round(b.intervalTicks)),
+    radius: Math.min(TICK_BEHAVIOR_LIMITS.maxRadius, Math.max(1, Math.round(b.radius ?? DEFAULT_RADIUS))),
+    ...(b.effect === "status_effect" && {
+      durationTicks: Math.min(TICK_BEHAVIOR_LIMITS.maxDurationTicks, Math.max(1, b.durationTicks ?? DEFAULT_DURATION_TICKS)),
+      amplifier: Math.min(TICK_BEHAVIOR_LIMITS.amplifierMax, Math.max(0, b.amplifier ?? 0)),
+    }),
+  }));
+}
+
+/** Class registered for a block with tick behaviors ("radioactive_cheese" → RadioactiveCheeseBlock), else undefined. */
+export function tickingBlockClassName(block: ModBlock | undefined): string | undefined {
+  return block && (block.tickBehaviors?.length ?? 0) > 0 ? toClassName(block.id) + "Block" : undefined;
+}
+
+/** "minecraft:water" → Blocks.WATER; other namespaces (or none: this mod) → registry lookup at tick time. */
+function blockStateJava(id: string, modId: string): string {
+  const [namespace, path] = id.includes(":") ? id.split(":") : [modId, id];
+  return namespace === "minecraft"
+    ? `Blocks.${path.toUpperCase()}.getDefaultState()`
+    : `Registries.BLOCK.get(Identifier.of("${namespace}", "${path}")).getDefaultState()`;
+}
+
+function conditionJava(condition: ModBlockTickBehavior["condition"]): string | undefined {
+  if (condition === "near_heat") return "isNearHeat(world, pos)";
+  if (condition === "warm_biome") return `world.getBiome(pos).value().getTemperature() > ${WARM_BIOME_TEMPERATURE}F`;
+  return undefined;
+}
+
+interface TickEffectJava {
+  imports: string[];
+  fields: string[];
+  statements: string[];
+}
+
+function effectJava(b: ModBlockTickBehavior, index: number, modId: string): TickEffectJava {
+  const radius = `RADIUS_${index}`;
+  switch (b.effect) {
+    case "status_effect": {
+      const effect = (b.statusEffect ?? "minecraft:poison").replace(/^minecraft:/, "").toUpperCase();
+      return {
+        imports: [
+          "net.minecraft.entity.LivingEntity",
+          "net.minecraft.entity.effect.StatusEffectInstance",
+          "net.minecraft.entity.effect.StatusEffects",
+          "net.minecraft.util.math.Box",
+        ],
+        fields: [`private static final int ${radius} = ${b.radius};`],
+        statements: [
+          `world.getEntitiesByClass(LivingEntity.class, new Box(pos).expand(${radius}), entity -> entity.isAlive() && !entity.isSpectator())`,
+          `\t.stream().limit(MAX_ENTITIES)`,
+          `\t.forEach(entity -> entity.addStatusEffect(new StatusEffectInstance(StatusEffects.${effect}, ${b.durationTicks}, ${b.amplifier})));`,
+        ],
+      };
+    }
+    case "transform":
+      return {
+        imports: b.transformInto?.startsWith("minecraft:")
+          ? ["net.minecraft.block.Blocks"]
+          : ["net.minecraft.registry.Registries", "net.minecraft.util.Identifier"],
+        fields: [],
+        statements: [`world.setBlockState(pos, ${blockStateJava(b.transformInto ?? "minecraft:air", modId)});`, "return;"],
+      };
+    case "spread": {
+      const { namespace, path } = splitTagId(b.spreadTag ?? "minecraft:dirt");
+      return {
+        imports: ["net.minecraft.registry.RegistryKeys", "net.minecraft.registry.tag.TagKey", "net.minecraft.util.Identifier"],
+        fields: [
+          `private static final int ${radius} = ${b.radius};`,
+          `private static final TagKey<Block> SPREAD_TAG_${index} = TagKey.of(RegistryKeys.BLOCK, Identifier.of("${namespace}", "${path}"));`,
+        ],
+        statements: [
+          `BlockPos spreadPos${index} = pos.add(random.nextBetween(-${radius}, ${radius}), random.nextBetween(-${radius}, ${radius}), random.nextBetween(-${radius}, ${radius}));`,
+          `if (world.isChunkLoaded(spreadPos${index}) && world.getBlockState(spreadPos${index}).isIn(SPREAD_TAG_${index})) {`,
+          `\tworld.setBlockState(spreadPos${index}, getDefaultState());`,
+          "}",
+        ],
+      };
+    }
+    case "ambient_particle":
+      return {
+        imports: ["net.minecraft.particle.ParticleTypes"],
+        fields: [],
+        statements: ["world.spawnParticles(ParticleTypes.ENCHANT, pos.getX() + 0.5, pos.getY() + 1.0, pos.getZ() + 0.5, 3, 0.3, 0.1, 0.3, 0.01);"],
+      };
+  }
+}
+
+/** Interval gate and condition of one behavior; empty when it runs on every scheduled tick (a single interval). */
+function behaviorChecks(b: ModBlockTickBehavior, intervals: number[]): string[] {
+  const condition = conditionJava(b.condition);
+  return [
+    ...(intervals.length > 1 ? [`world.getTime() % ${b.intervalTicks}L == 0`] : []),
+    ...(condition ? [condition] : []),
+  ];
+}
+
+/**
+ * scheduledTick body. Transforms replace the block and return, so they come after every other behavior;
+ * an unconditional transform ends the body (nothing after it could run).
+ */
+function tickBodyJava(behaviors: ModBlockTickBehavior[], effects: TickEffectJava[], intervals: number[]): string[] {
+  const order = behaviors
+    .map((_, i) => i)
+    .sort((a, b) => Number(behaviors[a].effect === "transform") - Number(behaviors[b].effect === "transform"));
+  const body: string[] = [];
+  for (const i of order) {
+    const checks = behaviorChecks(behaviors[i], intervals);
+    if (checks.length > 0) {
+      body.push(`if (${checks.join(" && ")}) {`, ...indent(effects[i].statements, "\t"), "}");
+    } else if (behaviors[i].effect === "transform") {
+      body.push(...effects[i].statements.filter((line) => line !== "return;"));
+      break;
+    } else {
+      body.push(...effects[i].statements);
+    }
+  }
+  return body;
+}
+
+function tickingBlockJava(block: ModBlock, className: string, javaPackage: string, modId: string): string {
+  const behaviors = blockTickBehaviors(block);
+  const intervals = [...new Set(behaviors.map((b) => b.intervalTicks))].sort((a, b) => a - b);
+  const effects = behaviors.map((b, i) => effectJava(b, i, modId));
+  const usesHeat = behaviors.some((b) => b.condition === "near_heat");
+  const imports = [
+    "net.minecraft.block.Block",
+    "net.minecraft.block.BlockState",
+    "net.minecraft.server.world.ServerWorld",
+    "net.minecraft.util.math.BlockPos",
+    "net.minecraft.util.math.random.Random",
+    "net.minecraft.world.World",
+    ...(usesHeat ? ["net.minecraft.util.math.Direction", "net.minecraft.world.LightType"] : []),
+    ...effects.flatMap((e) => e.imports),
+  ];
+  const fields = [
+    `private static final int[] INTERVALS = {${intervals.join(", ")}};`,
+    ...(behaviors.some((b) => b.effect === "status_effect")
+      ? [`private static final int MAX_ENTITIES = ${TICK_BEHAVIOR_LIMITS.maxEntities};`]
+      : []),
+    ...effects.flatMap((e) => e.fields),
+  ];
+  const tickBody = tickBodyJava(behaviors, effects, intervals);
+  const heatHelper = usesHeat
+    ? [
+        "",
+        "/** Bright block light next to the block: fire, lava or a torch up close. */",
+        "private static boolean isNearHeat(ServerWorld world, BlockPos pos) {",
+        "\tfor (Direction direction : Direction.values()) {",
+        `\t\tif (world.getLightLevel(LightType.BLOCK, pos.offset(direction)) > ${HEAT_LIGHT_LEVEL}) {`,
+        "\t\t\treturn true;",
+        "\t\t}",
+        "\t}",
+        "\treturn false;",
+        "}",
+      ]
+    : [];
+
+  return `package net.themodgenerator.${javaPackage};
+
+${[...new Set(imports)].sort().map((i) => `import ${i};`).join("\n")}
+
+public class ${className} extends Block {
+${indent(fields, "\t").join("\n")}
+
+	public ${className}(Settings settings) {
+		super(settings.ticksRandomly());
+	}
+
+	@Override
+	protected void onBlockAdded(BlockState state, World world, BlockPos pos, BlockState oldState, boolean notify) {
+		super.onBlockAdded(state, world, pos, oldState, notify);
+		if (!oldState.isOf(this)) {
+			world.scheduleBlockTick(pos, this, ticksUntilNextBehavior(world));
+		}
+	}
+
+	@Override
+	protected void randomTick(BlockState state, ServerWorld world, BlockPos pos, Random random) {
+		// World generation places blocks without onBlockAdded; the first random tick starts the schedule.
+		if (!world.getBlockTickScheduler().isQueued(pos, this)) {
+			world.scheduleBlockTick(pos, this, ticksUntilNextBehavior(world));
+		}
+	}
+
+	@Override
+	protected void scheduledTick(BlockState state, ServerWorld world, BlockPos pos, Random random) {
+		world.scheduleBlockTick(pos, this, ticksUntilNextBehavior(world));
+${indent(tickBody, "\t\t").join("\n")}
+	}
+
+	/** Ticks until the world time next reaches a multiple of one of the behavior intervals. */
+	private static int ticksUntilNextBehavior(World world) {
+		long time = world.getTime();
+		int ticks = Integer.MAX_VALUE;
+		for (int interval : INTERVALS) {
+			ticks = Math.min(ticks, interval - (int) (time % interval));
+		}
+		return ticks;
+	}
+${indent(heatHelper, "\t").join("\n")}
+}
+`;
+}
+
+/** One Java class per spec block with tick behaviors (registered by fabric-scaffold via tickingBlockClassName). */
+export function tickingBlockFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const modId = expanded.spec.modId;
+  const javaPackage = modId.replace(/-/g, "_");
+  const expandedIds = new Set(expanded.blocks.map((b) => b.id));
+  return (expanded.spec.blocks ?? []).flatMap((block) => {
+    const className = tickingBlockClassName(block);
+    if (!className || !expandedIds.has(block.id)) return [];
+    return [
+      {
+        path: `src/main/java/net/themodgenerator/${javaPackage}/${className}.java`,
+        contents: tickingBlockJava(block, className, javaPackage, modId),
+      },
+    ];
+  });
+}
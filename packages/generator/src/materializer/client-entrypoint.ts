@@ -0,0 +1,131 @@
+/**
+ * Client entrypoint: src/client/java/.../<Mod>Client.java (split environment source sets), declared under
+ * entrypoints.client in fabric.mod.json. Emitted only when the mod has client work.
+ * - Render layers (BlockRenderLayerMap): cutout for wood and block-family doors/trapdoors, saplings and potted
+ *   saplings; cutout mipped for leaves; translucent for blocks whose archetype has translucencyHint (crystal) or
+ *   glass blocks.
+ *   Without them these blocks render with black backgrounds.
+ * - Leaves: foliage color providers for the tinted minecraft:block/leaves model (block: biome, item: default).
+ * - Hanging signs: BlockEntityRendererFactories → HangingSignBlockEntityRenderer.
+ * - Boats: Terraform model layers (wood-boats.ts).
+ * Blocks are looked up by id (Registries.BLOCK), so the main class keeps its block locals.
+ * validateClientSourcesSafe (validators.ts) keeps Screen/charTyped code and client mixins out of the sources.
+ */
+
+import type { BlockFamilyVariant, ExpandedSpecTier1 } from "@themodgenerator/spec";
+import { blockTranslucencyHint } from "./asset-mapping.js";
+import { blockFamilyMember } from "./block-families.js";
+import { getWoodBlockSpec, hangingSignBlockIds } from "./vanilla-wood-family.js";
+import { woodTreeMember } from "./wood-trees.js";
+import { hasWoodBoats, woodBoatClientJava } from "./wood-boats.js";
+
+export type ClientRenderLayer = "cutout" | "cutout_mipped" | "translucent";
+
+const RENDER_LAYER_JAVA: Record<ClientRenderLayer, string> = {
+  cutout: "RenderLayer.getCutout()",
+  cutout_mipped: "RenderLayer.getCutoutMipped()",
+  translucent: "RenderLayer.getTranslucent()",
+};
+
+/** Wood family members whose vanilla oak models have transparent pixels. */
+const CUTOUT_WOOD_SUFFIXES = new Set(["_door", "_trapdoor"]);
+
+/** Block family variants whose vanilla textures have transparent pixels (iron door, iron trapdoor). */
+const CUTOUT_FAMILY_VARIANTS = new Set<BlockFamilyVariant>(["door", "trapdoor"]);
+
+/** Render layer a block needs, or null for the default solid layer. */
+export function blockRenderLayer(expanded: ExpandedSpecTier1, blockId: string): ClientRenderLayer | null {
+  const woodIds = (expanded.spec.woodTypes ?? []).map((w) => w.id);
+  const woodSpec = getWoodBlockSpec(blockId, woodIds);
+  if (woodSpec) return CUTOUT_WOOD_SUFFIXES.has(woodSpec.suffix) ? "cutout" : null;
+  const familyMember = blockFamilyMember(expanded, blockId);
+  if (familyMember) return CUTOUT_FAMILY_VARIANTS.has(familyMember.variant) ? "cutout" : null;
+  const treeMember = woodTreeMember(expanded, blockId);
+  if (treeMember) return treeMember.part === "leaves" ? "cutout_mipped" : "cutout";
+  if (blockId.split(/[-_]/).includes("glass")) return "translucent";
+  return blockTranslucencyHint(expanded, blockId) ? "translucent" : null;
+}
+
+/** Block id → render layer for every block off the solid layer, in expanded order. */
+export function blockRenderLayers(expanded: ExpandedSpecTier1): Map<string, ClientRenderLayer> {
+  const layers = new Map<string, ClientRenderLayer>();
+  for (const block of expanded.blocks) {
+    const layer = blockRenderLayer(expanded, block.id);
+    if (layer) layers.set(block.id, layer);
+  }
+  return layers;
+}
+
+/** Leaves blocks that need a foliage color provider. */
+function tintedLeavesIds(expanded: ExpandedSpecTier1): string[] {
+  return expanded.blocks.filter((b) => woodTreeMember(expanded, b.id)?.part === "leaves").map((b) => b.id);
+}
+
+/** True when the mod has anything to register on the client. */
+export function hasClientEntrypoint(expanded: ExpandedSpecTier1): boolean {
+  return (
+    blockRenderLayers(expanded).size > 0 ||
+    hangingSignBlockIds(expanded).length > 0 ||
+    hasWoodBoats(expanded)
+  );
+}
+
+/** <Mod>Client.java: render layers, leaves tint, hanging sign renderer and boat model layers. */
+export function clientEntrypointJava(expanded: ExpandedSpecTier1, javaPackage: string, mainClassName: string): string {
+  const layers = blockRenderLayers(expanded);
+  const leaves = tintedLeavesIds(expanded);
+  const hasHangingSigns = hangingSignBlockIds(expanded).length > 0;
+  const boatLines = woodBoatClientJava(expanded, mainClassName);
+  const needsBlockLookup = layers.size > 0 || leaves.length > 0;
+
+  const imports = [
+    ...(boatLines.length > 0 ? ["import com.terraformersmc.terraform.boat.api.client.TerraformBoatClientHelper;"] : []),
+    "import net.fabricmc.api.ClientModInitializer;",
+    ...(layers.size > 0 ? ["import net.fabricmc.fabric.api.blockrenderlayer.v1.BlockRenderLayerMap;"] : []),
+    ...(leaves.length > 0 ? ["import net.fabricmc.fabric.api.client.rendering.v1.ColorProviderRegistry;"] : []),
+    ...(needsBlockLookup ? ["import net.minecraft.block.Block;"] : []),
+    ...(leaves.length > 0 ? ["import net.minecraft.client.color.world.BiomeColors;"] : []),
+    ...(layers.size > 0 ? ["import net.minecraft.client.render.RenderLayer;"] : []),
+    ...(hasHangingSigns
+      ? [
+          "import net.minecraft.client.render.block.entity.BlockEntityRendererFactories;",
+          "import net.minecraft.client.render.block.entity.HangingSignBlockEntityRenderer;",
+        ]
+      : []),
+    ...(needsBlockLookup ? ["import net.minecraft.registry.Registries;"] : []),
+    ...(needsBlockLookup || boatLines.length > 0 ? ["import net.minecraft.util.Identifier;"] : []),
+    ...(leaves.length > 0 ? ["import net.minecraft.world.biome.FoliageColors;"] : []),
+  ];
+  const body = [
+    ...[...layers].map(
+      ([id, layer]) => `		BlockRenderLayerMap.INSTANCE.putBlock(block("${id}"), ${RENDER_LAYER_JAVA[layer]});`
+    ),
+    ...leaves.flatMap((id) => [
+      `		ColorProviderRegistry.BLOCK.register((state, world, pos, tintIndex) -> world != null && pos != null ? BiomeColors.getFoliageColor(world, pos) : FoliageColors.getDefaultColor(), block("${id}"));`,
+      `		ColorProviderRegistry.ITEM.register((stack, tintIndex) -> FoliageColors.getDefaultColor(), block("${id}"));`,
+    ]),
+    ...(hasHangingSigns
+      ? [`		BlockEntityRendererFactories.register(${mainClassName}.HANGING_SIGN_BLOCK_ENTITY, HangingSignBlockEntityRenderer::new);`]
+      : []),
+    ...boatLines,
+  ];
+  const blockLookup = needsBlockLookup
+    ? `
+
+	private static Block block(String id) {
+		return Registries.BLOCK.get(Identifier.of(${mainClassName}.MOD_ID, id));
+	}`
+    : "";
+  return `package net.themodgenerator.${javaPackage};
+
+${imports.join("\n")}
+
+/** Client-side: block render layers, leaves tint, hanging sign renderer, boat model layers. */
+public class ${mainClassName}Client implements ClientModInitializer {
+	@Override
+	public void onInitializeClient() {
+${body.join("\n")}
+	}${blockLookup}
+}
+`;
+}
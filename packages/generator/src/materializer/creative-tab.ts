@@ -0,0 +1,78 @@
+/**
+ * Per-mod creative tab: one ItemGroup (<modId>:main) holding every registered item, ordered by family.
+ * - Java: Registry.register(Registries.ITEM_GROUP, ..., FabricItemGroup.builder()...build()) in onInitialize.
+ *   Entries are resolved lazily by the builder, so registration order relative to items does not matter.
+ * - Order: materials/plain items, blocks, wood sets (per wood: blocks then items), tools, armor.
+ * - Icon: spec.creativeTab.iconId, else the most prominent entity (first material, wood log, family base, entry).
+ * - Lang: itemGroup.<modId>.main = modName (lang-files.ts).
+ * Vanilla tabs (ItemGroups.*) are only used in addition when spec.creativeTab.alsoVanillaTabs is set.
+ */
+
+import type { ExpandedSpecTier1 } from "@themodgenerator/spec";
+import { expandWoodType } from "@themodgenerator/spec";
+import { woodTreeBlockIdsWithoutItem } from "./wood-trees.js";
+
+const TAB_PATH = "main";
+
+/** Translation key of the mod's creative tab title. */
+export function creativeTabTranslationKey(modId: string): string {
+  return `itemGroup.${modId}.${TAB_PATH}`;
+}
+
+/** Registered item ids (items + block items) in tab order, de-duplicated. */
+export function creativeTabEntryIds(expanded: ExpandedSpecTier1): string[] {
+  const noItemBlockIds = woodTreeBlockIdsWithoutItem(expanded);
+  const specItem = (id: string) => expanded.spec.items?.find((i) => i.id === id);
+  const woodIds = new Set<string>();
+  const woodSets: string[] = [];
+  for (const wood of expanded.spec.woodTypes ?? []) {
+    const { blockSpecs, itemSpecs } = expandWoodType(wood);
+    for (const spec of [...blockSpecs, ...itemSpecs]) {
+      if (woodIds.has(spec.id)) continue;
+      woodIds.add(spec.id);
+      woodSets.push(spec.id);
+    }
+  }
+  const registered = new Set([
+    ...expanded.items.map((i) => i.id),
+    ...expanded.blocks.map((b) => b.id).filter((id) => !noItemBlockIds.has(id)),
+  ]);
+
+  const items = expanded.items.map((i) => i.id).filter((id) => !woodIds.has(id));
+  const materials = items.filter((id) => !specItem(id)?.tool && !specItem(id)?.armor);
+  const blocks = expanded.blocks.map((b) => b.id).filter((id) => !woodIds.has(id));
+  const tools = items.filter((id) => specItem(id)?.tool);
+  const armor = items.filter((id) => specItem(id)?.armor);
+
+  const ordered = [...materials, ...blocks, ...woodSets, ...tools, ...armor].filter((id) => registered.has(id));
+  return [...new Set(ordered)];
+}
+
+/** Tab icon: explicit iconId, else first material's item, first wood log, first family base, first entry. */
+export function creativeTabIconId(expanded: ExpandedSpecTier1): string | undefined {
+  const entries = creativeTabEntryIds(expanded);
+  const candidates = [
+    expanded.spec.creativeTab?.iconId,
+    expanded.spec.materials?.[0]?.repairItemId,
+    expanded.spec.woodTypes?.[0] && `${expanded.spec.woodTypes[0].id}_log`,
+    expanded.spec.blockFamilies?.[0]?.baseId,
+  ];
+  return candidates.find((id): id is string => !!id && entries.includes(id)) ?? entries[0];
+}
+
+/** onInitialize statement registering the mod's creative tab; empty when the mod registers no items. */
+export function modItemGroupJava(expanded: ExpandedSpecTier1): string {
+  const entries = creativeTabEntryIds(expanded);
+  const iconId = creativeTabIconId(expanded);
+  if (entries.length === 0 || !iconId) return "";
+  const itemRef = (id: string) => `Registries.ITEM.get(Identifier.of(MOD_ID, "${id}"))`;
+  return [
+    `		Registry.register(Registries.ITEM_GROUP, Identifier.of(MOD_ID, "${TAB_PATH}"), FabricItemGroup.builder()`,
+    `			.icon(() -> new ItemStack(${itemRef(iconId)}))`,
+    `			.displayName(Text.translatable("itemGroup." + MOD_ID + ".${TAB_PATH}"))`,
+    "			.entries((displayContext, entries) -> {",
+    ...entries.map((id) => `				entries.add(${itemRef(id)});`),
+    "			})",
+    "			.build());",
+  ].join("\n");
+}
@@ -2,13 +2,14 @@
  * Plane 3: Fabric scaffolding for Tier 1 only.
  * fabric.mod.json, ModMain.java with item and block registries.
  * Optional ExecutionPlan per item → custom item classes (e.g. lightning wand).
+ * Tool items (spec.items[].tool) → vanilla tool classes backed by ModToolMaterials.
+ * Armor items (spec.items[].armor) → ArmorItem backed by ModArmorMaterials registry entries.
+ * Wood boats (woodTypes) → Terraform Wood API boat items/types; the API is bundled via include.
  * Items and blocks are added to vanilla creative tabs so they appear in-game.
+ * Client entrypoint (render layers, hanging sign renderer, boat model layers) → client-entrypoint.ts.
  */
 
-/** TEMPORARY: Set true to isolate charTyped StackOverflow — disables all client entrypoints and BlockEntityRenderer registration. Flip to false once renderer is confirmed/fixed. */
-const DISABLE_CLIENT_ENTRYPOINT = true;
-
-import type { ExpandedSpecTier1 } from "@themodgenerator/spec";
+import type { ExpandedSpecTier1, ModItem } from "@themodgenerator/spec";
 import type { MaterializedFile } from "./types.js";
 import type { ExecutionPlan } from "../execution-plan.js";
 import { getItemClassNameForRegistration } from "./behavior-generator.js";
@@ -17,6 +18,24 @@ import {
   hangingSignBlockIds,
   getWoodBlockSpec,
 } from "./vanilla-wood-family.js";
+import { hasToolSets, toolItemConstructorJava, toolMaterialsJava } from "./tool-sets.js";
+import { hasArmorSets, armorItemConstructorJava, armorMaterialsJava } from "./armor-sets.js";
+import { oreBiomeModificationsJava } from "./ore-worldgen.js";
+import { chestLootPools, mobDropPools, lootTableEventsJava } from "./loot-injection.js";
+import { blockFamilyRegistrationJava } from "./block-families.js";
+import { itemSettingsJava } from "./food-items.js";
+import { blockSettingsJava } from "./block-settings.js";
+import { tickingBlockClassName, tickingBlockFiles } from "./block-ticks.js";
+import { stateMachineBlockClassName, stateMachineBlockFiles } from "./block-states.js";
+import { modItemGroupJava } from "./creative-tab.js";
+import { woodTreeRegistrationJava, woodTreeBiomeModificationsJava, woodTreeBlockIdsWithoutItem } from "./wood-trees.js";
+import {
+  TERRAFORM_WOOD_API_VERSION,
+  hasWoodBoats,
+  woodBoatItemIds,
+  woodBoatRegistrationJava,
+} from "./wood-boats.js";
+import { hasClientEntrypoint, clientEntrypointJava } from "./client-entrypoint.js";
 
 function toClassName(s: string): string {
   return s
@@ -33,10 +52,14 @@ function escapeJava(s: string): string {
   return s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
 }
 
-function buildGradle(modId: string, hasClientSources: boolean): string {
+function buildGradle(modId: string, hasClientSources: boolean, hasBoats: boolean): string {
   const modSourceSets = hasClientSources
     ? 'sourceSet("main")\n\t\t\tsourceSet("client")'
     : 'sourceSet("main")';
+  const boatRepository = hasBoats ? '\n\tmaven { url = "https://maven.terraformersmc.com/releases/" }' : "";
+  const boatDependencies = hasBoats
+    ? '\n\tmodImplementation "com.terraformersmc.terraform-api:terraform-wood-api-v1:\${project.terraform_wood_api_version}"\n\tinclude "com.terraformersmc.terraform-api:terraform-wood-api-v1:\${project.terraform_wood_api_version}"'
+    : "";
   return `plugins {
 	id 'java'
 	id 'fabric-loom' version '1.7-SNAPSHOT'
@@ -52,7 +75,7 @@ base {
 
 repositories {
 	mavenCentral()
-	maven { url = "https://maven.fabricmc.net/" }
+	maven { url = "https://maven.fabricmc.net/" }${boatRepository}
 }
 
 loom {
@@ -68,7 +91,7 @@ dependencies {
 	minecraft "com.mojang:minecraft:\${project.minecraft_version}"
 	mappings "net.fabricmc:yarn:\${project.yarn_mappings}:v2"
 	modImplementation "net.fabricmc:fabric-loader:\${project.loader_version}"
-	modImplementation "net.fabricmc.fabric-api:fabric-api:\${project.fabric_version}"
+	modImplementation "net.fabricmc.fabric-api:fabric-api:\${project.fabric_version}"${boatDependencies}
 }
 
 processResources {
@@ -88,16 +111,17 @@ java {
 `;
 }
 
-function gradleProperties(): string {
+function gradleProperties(modId: string, hasBoats: boolean): string {
+  const boatProperties = hasBoats ? `\nterraform_wood_api_version=${TERRAFORM_WOOD_API_VERSION}\n` : "";
   return `# Fabric 1.21.1
 minecraft_version=1.21.1
 yarn_mappings=1.21.1+build.3
 loader_version=0.16.9
 fabric_version=0.109.0+1.21.1
-
+${boatProperties}
 mod_version=1.0.0
 maven_group=net.themodgenerator
-archives_base_name=generated
+archives_base_name=${modId}
 
 # Cloud Run jobs: no daemon, foreground-only, constrained JVM
 org.gradle.daemon=false
@@ -124,15 +148,17 @@ function fabricModJson(
   modName: string,
   javaPackage: string,
   className: string,
-  hasClientEntrypoint: boolean
+  hasClientEntrypoint: boolean,
+  hasBoats: boolean
 ): string {
   const clientEntrypoint =
-    !DISABLE_CLIENT_ENTRYPOINT && hasClientEntrypoint
+    hasClientEntrypoint
       ? `,
     "client": [
       "net.themodgenerator.${javaPackage}.${className}Client"
     ]`
       : "";
+  const boatDependency = hasBoats ? `,\n    "terraform-wood-api-v1": "*"` : "";
   return `{
   "schemaVersion": 1,
   "id": "${modId}",
@@ -149,7 +175,7 @@ function fabricModJson(
     "fabricloader": ">=0.16.0",
     "minecraft": "~1.21.1",
     "java": ">=21",
-    "fabric-api": "*"
+    "fabric-api": "*"${boatDependency}
   }
 }
 `;
@@ -159,29 +185,34 @@ function toJavaId(id: string): string {
   return id.replace(/-/g, "_");
 }
 
-/**
- * AbstractBlock.Settings for non-wood blocks. Wood blocks use vanilla-wood-family (Settings.copy(vanilla)).
- */
-function defaultBlockSettings(): string {
-  return "AbstractBlock.Settings.create()";
+/** Generate Java that adds registered items to a vanilla creative tab (ItemGroups.<group>) so they appear in-game. */
+function creativeTabEntries(group: string, ids: string[]): string {
+  if (ids.length === 0) return "";
+  const addLines = ids
+    .map((id) => `			entries.add(Registries.ITEM.get(Identifier.of(MOD_ID, "${id}")));`)
+    .join("\n");
+  return `		ItemGroupEvents.modifyEntriesEvent(ItemGroups.${group}).register(entries -> {\n${addLines}\n		});`;
 }
 
 /** Generate Java that adds registered items to the INGREDIENTS creative tab so they appear in-game. */
 function creativeTabItems(itemIds: string[]): string {
-  if (itemIds.length === 0) return "";
-  const addLines = itemIds
-    .map((id) => `			entries.add(Registries.ITEM.get(Identifier.of(MOD_ID, "${id}")));`)
-    .join("\n");
-  return `		ItemGroupEvents.modifyEntriesEvent(ItemGroups.INGREDIENTS).register(entries -> {\n${addLines}\n		});`;
+  return creativeTabEntries("INGREDIENTS", itemIds);
+}
+
+/**
+ * Vanilla creative tab for a spec item: tools → TOOLS, swords and armor → COMBAT, food → FOOD_AND_DRINK,
+ * everything else → INGREDIENTS.
+ */
+function creativeTabGroup(item: ModItem | undefined): "INGREDIENTS" | "TOOLS" | "COMBAT" | "FOOD_AND_DRINK" {
+  if (item?.armor || item?.tool?.kind === "sword") return "COMBAT";
+  if (item?.tool) return "TOOLS";
+  if (item?.food) return "FOOD_AND_DRINK";
+  return "INGREDIENTS";
 }
 
 /** Generate Java that adds registered block items to the BUILDING_BLOCKS creative tab. */
 function creativeTabBlocks(blockIds: string[]): string {
-  if (blockIds.length === 0) return "";
-  const addLines = blockIds
-    .map((id) => `			entries.add(Registries.ITEM.get(Identifier.of(MOD_ID, "${id}")));`)
-    .join("\n");
-  return `		ItemGroupEvents.modifyEntriesEvent(ItemGroups.BUILDING_BLOCKS).register(entries -> {\n${addLines}\n		});`;
+  return creativeTabEntries("BUILDING_BLOCKS", blockIds);
 }
 
 function modMainJava(
@@ -197,12 +228,18 @@ function modMainJava(
   const hangingSignIds = hangingSignBlockIds(expanded);
   const hasHangingSigns = hangingSignIds.length > 0;
   const hangingSignItemIds = new Set(woodIds.map((w) => w + "_hanging_sign"));
+  const boatItemIds = woodBoatItemIds(expanded);
+  // itemPlans are indexed like expanded.items: pair before filtering out items registered elsewhere.
   const itemRegistrations = expanded.items
-    .filter((item) => !(hasHangingSigns && hangingSignItemIds.has(item.id)))
-    .map((item, i) => {
-      const plan = itemPlans?.[i];
+    .map((item, i) => ({ item, plan: itemPlans?.[i] }))
+    .filter(({ item }) => !(hasHangingSigns && hangingSignItemIds.has(item.id)) && !boatItemIds.has(item.id))
+    .map(({ item, plan }) => {
+      const setItemCtor = toolItemConstructorJava(expanded, item.id) ?? armorItemConstructorJava(expanded, item.id);
+      if (setItemCtor) {
+        return `		Registry.register(Registries.ITEM, Identifier.of(MOD_ID, "${item.id}"), ${setItemCtor});`;
+      }
       const itemClassName = getItemClassNameForRegistration(item.id, plan);
-      return `		Registry.register(Registries.ITEM, Identifier.of(MOD_ID, "${item.id}"), new ${itemClassName}(new Item.Settings()));`;
+      return `		Registry.register(Registries.ITEM, Identifier.of(MOD_ID, "${item.id}"), new ${itemClassName}(${itemSettingsJava(expanded, item.id)}));`;
     })
     .join("\n");
   const blockLines: string[] = [];
@@ -235,13 +272,19 @@ function modMainJava(
         blockLines.push(`		Registry.register(Registries.ITEM, Identifier.of(MOD_ID, "${block.id}"), new BlockItem(${varName}, new Item.Settings()));`);
       }
     } else {
-      const woodReg = woodIds.length > 0 ? woodBlockRegistrationJava(block.id, woodIds) : null;
+      const treeReg = woodTreeRegistrationJava(expanded, block.id);
+      const woodReg =
+        (woodIds.length > 0 ? woodBlockRegistrationJava(block.id, woodIds) : null) ??
+        blockFamilyRegistrationJava(expanded, block.id) ??
+        treeReg;
       if (woodReg) {
         blockLines.push(`		${woodReg.line}`);
       } else {
-        const settings = defaultBlockSettings();
-        blockLines.push(`		Block ${varName} = Registry.register(Registries.BLOCK, Identifier.of(MOD_ID, "${block.id}"), new Block(${settings}));`);
+        const specBlock = expanded.spec.blocks?.find((b) => b.id === block.id);
+        const blockClass = tickingBlockClassName(specBlock) ?? stateMachineBlockClassName(specBlock) ?? "Block";
+        blockLines.push(`		Block ${varName} = Registry.register(Registries.BLOCK, Identifier.of(MOD_ID, "${block.id}"), new ${blockClass}(${blockSettingsJava(specBlock)}));`);
       }
+      if (treeReg?.noBlockItem) continue;
       blockLines.push(`		Registry.register(Registries.ITEM, Identifier.of(MOD_ID, "${block.id}"), new BlockItem(${varName}, new Item.Settings()));`);
     }
   }
@@ -264,11 +307,25 @@ function modMainJava(
 
   const hasItems = expanded.items.length > 0;
   const hasBlocks = expanded.blocks.length > 0;
+  const boatRegistration = woodBoatRegistrationJava(expanded);
+  const boatImports =
+    boatRegistration.length > 0
+      ? [
+          "import com.terraformersmc.terraform.boat.api.TerraformBoatType;",
+          "import com.terraformersmc.terraform.boat.api.TerraformBoatTypeRegistry;",
+          "import com.terraformersmc.terraform.boat.api.item.TerraformBoatItemHelper;",
+        ]
+      : [];
   const imports: string[] = [
     "package net.themodgenerator." + javaPackage + ";",
     "",
+    ...boatImports,
     "import net.fabricmc.api.ModInitializer;",
+    "import net.fabricmc.fabric.api.biome.v1.BiomeModifications;",
+    "import net.fabricmc.fabric.api.biome.v1.BiomeSelectors;",
+    "import net.fabricmc.fabric.api.itemgroup.v1.FabricItemGroup;",
     "import net.fabricmc.fabric.api.itemgroup.v1.ItemGroupEvents;",
+    "import net.fabricmc.fabric.api.loot.v3.LootTableEvents;",
     "import net.fabricmc.fabric.api.object.builder.v1.block.entity.FabricBlockEntityTypeBuilder;",
     "import net.fabricmc.fabric.api.registry.StrippableBlockRegistry;",
     "import net.minecraft.block.AbstractBlock;",
@@ -278,24 +335,60 @@ function modMainJava(
     "import net.minecraft.block.DoorBlock;",
     "import net.minecraft.block.FenceBlock;",
     "import net.minecraft.block.FenceGateBlock;",
+    "import net.minecraft.block.FlowerPotBlock;",
     "import net.minecraft.block.HangingSignBlock;",
     "import net.minecraft.block.WallHangingSignBlock;",
+    "import net.minecraft.block.LeavesBlock;",
     "import net.minecraft.block.PillarBlock;",
     "import net.minecraft.block.PressurePlateBlock;",
+    "import net.minecraft.block.SaplingBlock;",
+    "import net.minecraft.block.SaplingGenerator;",
     "import net.minecraft.block.SlabBlock;",
     "import net.minecraft.block.StairsBlock;",
     "import net.minecraft.block.TrapdoorBlock;",
+    "import net.minecraft.block.WallBlock;",
     "import net.minecraft.block.WoodType;",
     "import net.minecraft.block.Blocks;",
+    "import net.minecraft.block.MapColor;",
     "import net.minecraft.block.entity.BlockEntityType;",
+    "import net.minecraft.component.type.FoodComponent;",
+    "import net.minecraft.entity.effect.StatusEffectInstance;",
+    "import net.minecraft.entity.effect.StatusEffects;",
     "import net.minecraft.state.property.Properties;",
+    "import net.minecraft.item.ArmorItem;",
+    "import net.minecraft.item.AxeItem;",
     "import net.minecraft.item.BlockItem;",
     "import net.minecraft.item.HangingSignItem;",
+    "import net.minecraft.item.HoeItem;",
     "import net.minecraft.item.Item;",
+    "import net.minecraft.item.ItemGroup;",
     "import net.minecraft.item.ItemGroups;",
+    "import net.minecraft.item.ItemStack;",
+    "import net.minecraft.item.MiningToolItem;",
+    "import net.minecraft.item.PickaxeItem;",
+    "import net.minecraft.item.ShovelItem;",
+    "import net.minecraft.item.SwordItem;",
+    "import net.minecraft.loot.LootPool;",
+    "import net.minecraft.loot.condition.KilledByPlayerLootCondition;",
+    "import net.minecraft.loot.condition.RandomChanceLootCondition;",
+    "import net.minecraft.loot.condition.RandomChanceWithEnchantedBonusLootCondition;",
+    "import net.minecraft.loot.entry.EmptyEntry;",
+    "import net.minecraft.loot.entry.ItemEntry;",
+    "import net.minecraft.loot.function.SetCountLootFunction;",
+    "import net.minecraft.loot.provider.number.ConstantLootNumberProvider;",
+    "import net.minecraft.loot.provider.number.UniformLootNumberProvider;",
     "import net.minecraft.registry.Registries;",
     "import net.minecraft.registry.Registry;",
+    "import net.minecraft.registry.RegistryKey;",
+    "import net.minecraft.registry.RegistryKeys;",
+    "import net.minecraft.registry.tag.TagKey;",
+    "import net.minecraft.sound.BlockSoundGroup;",
+    "import net.minecraft.text.Text;",
     "import net.minecraft.util.Identifier;",
+    "import net.minecraft.util.Rarity;",
+    "import net.minecraft.world.gen.GenerationStep;",
+    "import java.util.List;",
+    "import java.util.Optional;",
     "import org.slf4j.Logger;",
     "import org.slf4j.LoggerFactory;",
     "",
@@ -303,13 +396,32 @@ function modMainJava(
   const initBody: string[] = [];
   if (hasItems) initBody.push(itemRegistrations);
   if (hasBlocks) initBody.push(blockRegistrations);
+  if (boatRegistration.length > 0) initBody.push(boatRegistration.join("\n"));
   if (strippingRegistration) initBody.push(strippingRegistration);
-  if (hasItems) {
-    initBody.push(creativeTabItems(expanded.items.map((i) => i.id)));
+  const modItemGroup = modItemGroupJava(expanded);
+  if (modItemGroup) initBody.push(modItemGroup);
+  const alsoVanillaTabs = expanded.spec.creativeTab?.alsoVanillaTabs === true;
+  if (hasItems && alsoVanillaTabs) {
+    const groupOf = (id: string) =>
+      boatItemIds.has(id) ? "TOOLS" : creativeTabGroup(expanded.spec.items?.find((i) => i.id === id));
+    const itemIds = expanded.items.map((i) => i.id);
+    const ingredientIds = itemIds.filter((id) => groupOf(id) === "INGREDIENTS");
+    if (ingredientIds.length > 0) initBody.push(creativeTabItems(ingredientIds));
+    for (const group of ["TOOLS", "COMBAT", "FOOD_AND_DRINK"] as const) {
+      const ids = itemIds.filter((id) => groupOf(id) === group);
+      if (ids.length > 0) initBody.push(creativeTabEntries(group, ids));
+    }
   }
-  if (hasBlocks) {
-    initBody.push(creativeTabBlocks(expanded.blocks.map((b) => b.id)));
+  if (hasBlocks && alsoVanillaTabs) {
+    const noItemBlockIds = woodTreeBlockIdsWithoutItem(expanded);
+    initBody.push(creativeTabBlocks(expanded.blocks.map((b) => b.id).filter((id) => !noItemBlockIds.has(id))));
   }
+  const oreFeatures = oreBiomeModificationsJava(expanded);
+  if (oreFeatures.length > 0) initBody.push(oreFeatures.join("\n"));
+  const treeFeatures = woodTreeBiomeModificationsJava(expanded);
+  if (treeFeatures.length > 0) initBody.push(treeFeatures.join("\n"));
+  const lootInjection = lootTableEventsJava([...chestLootPools(expanded), ...mobDropPools(expanded)]);
+  if (lootInjection) initBody.push(lootInjection);
   if (buildStamp) {
     initBody.push('		LOGGER.info("GENERATED MOD BUILD STAMP: " + "' + escapeJava(buildStamp) + '");');
   }
@@ -440,23 +552,6 @@ public class ModWallHangingSignBlock extends WallHangingSignBlock {
 `;
 }
 
-function modClientJava(javaPackage: string, mainClassName: string): string {
-  return `package net.themodgenerator.${javaPackage};
-
-import net.fabricmc.api.ClientModInitializer;
-import net.minecraft.client.render.block.entity.BlockEntityRendererFactories;
-import net.minecraft.client.render.block.entity.HangingSignBlockEntityRenderer;
-
-/** Client-side: register block entity renderer for mod hanging signs. */
-public class ${mainClassName}Client implements ClientModInitializer {
-	@Override
-	public void onInitializeClient() {
-		BlockEntityRendererFactories.register(${mainClassName}.HANGING_SIGN_BLOCK_ENTITY, HangingSignBlockEntityRenderer::new);
-	}
-}
-`;
-}
-
 function mixinsJson(modId: string): string {
   const javaPackage = modId.replace(/-/g, "_");
   return `{
@@ -496,14 +591,15 @@ export function fabricScaffoldFiles(
   const buildStamp = options?.buildStamp;
 
   const hasHangingSigns = hangingSignBlockIds(expanded).length > 0;
-  const hasClientSources = !DISABLE_CLIENT_ENTRYPOINT && hasHangingSigns;
+  const hasBoats = hasWoodBoats(expanded);
+  const hasClientSources = hasClientEntrypoint(expanded);
   const files: MaterializedFile[] = [
-    { path: "build.gradle", contents: buildGradle(modId, hasClientSources) },
-    { path: "gradle.properties", contents: gradleProperties() },
+    { path: "build.gradle", contents: buildGradle(modId, hasClientSources, hasBoats) },
+    { path: "gradle.properties", contents: gradleProperties(modId, hasBoats) },
     { path: "settings.gradle", contents: settingsGradle(modId) },
     {
       path: "src/main/resources/fabric.mod.json",
-      contents: fabricModJson(modId, modName, javaPackage, className, hasHangingSigns),
+      contents: fabricModJson(modId, modName, javaPackage, className, hasClientSources, hasBoats),
     },
     {
       path: `src/main/java/net/themodgenerator/${javaPackage}/${className}.java`,
@@ -514,6 +610,20 @@ export function fabricScaffoldFiles(
       contents: mixinsJson(modId),
     },
   ];
+  if (hasToolSets(expanded)) {
+    files.push({
+      path: `src/main/java/net/themodgenerator/${javaPackage}/ModToolMaterials.java`,
+      contents: toolMaterialsJava(javaPackage, className, expanded),
+    });
+  }
+  if (hasArmorSets(expanded)) {
+    files.push({
+      path: `src/main/java/net/themodgenerator/${javaPackage}/ModArmorMaterials.java`,
+      contents: armorMaterialsJava(javaPackage, className, expanded),
+    });
+  }
+  files.push(...tickingBlockFiles(expanded));
+  files.push(...stateMachineBlockFiles(expanded));
   if (hasHangingSigns) {
     files.push({
       path: `src/main/java/net/themodgenerator/${javaPackage}/ModHangingSignBlockEntity.java`,
@@ -527,12 +637,12 @@ export function fabricScaffoldFiles(
       path: `src/main/java/net/themodgenerator/${javaPackage}/ModWallHangingSignBlock.java`,
       contents: modWallHangingSignBlockJava(javaPackage),
     });
-    if (!DISABLE_CLIENT_ENTRYPOINT) {
-      files.push({
-        path: `src/client/java/net/themodgenerator/${javaPackage}/${className}Client.java`,
-        contents: modClientJava(javaPackage, className),
-      });
-    }
+  }
+  if (hasClientSources) {
+    files.push({
+      path: `src/client/java/net/themodgenerator/${javaPackage}/${className}Client.java`,
+      contents: clientEntrypointJava(expanded, javaPackage, className),
+    });
   }
   return files.sort((a, b) => a.path.localeCompare(b.path));
 }
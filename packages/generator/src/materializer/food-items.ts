@@ -0,0 +1,52 @@
+/**
+ * Food items (ModItem.food): FoodComponent on the item settings so the item is edible.
+ * Values come from the spec (interpretation presets or ModSpecV2 food); the validator's food-balance gate
+ * keeps them within vanilla ranges.
+ * - Java: new FoodComponent(nutrition, saturation, alwaysEdible, eatSeconds, Optional.empty(), effects) — the
+ *   record form, because FoodComponent.Builder has no eat-time setter. saturation = nutrition * modifier * 2
+ *   (what the builder's saturationModifier computes).
+ * - Effects: StatusEffects.<ID> with duration in ticks and probability.
+ */
+
+import type { ExpandedSpecTier1, ModFoodEffect, ModItemFood } from "@themodgenerator/spec";
+import { itemPropertiesJava } from "./item-properties.js";
+
+/** Vanilla default eat time (FoodComponent.Builder). */
+const DEFAULT_EAT_SECONDS = 1.6;
+
+function javaFloat(n: number): string {
+  const s = String(Math.round(n * 100) / 100);
+  return `${s.includes(".") ? s : `${s}.0`}F`;
+}
+
+function statusEffectConstant(effect: string): string {
+  return `StatusEffects.${effect.replace(/^minecraft:/, "").toUpperCase()}`;
+}
+
+function effectEntryJava(e: ModFoodEffect): string {
+  const ticks = Math.round(e.durationSeconds * 20);
+  const instance = `new StatusEffectInstance(${statusEffectConstant(e.effect)}, ${ticks}, ${e.amplifier ?? 0})`;
+  return `new FoodComponent.StatusEffectEntry(${instance}, ${javaFloat(e.probability ?? 1)})`;
+}
+
+/** FoodComponent constructor expression for a food block. */
+export function foodComponentJava(food: ModItemFood): string {
+  const saturation = food.nutrition * food.saturation * 2;
+  const effects = (food.effects ?? []).map(effectEntryJava);
+  return (
+    `new FoodComponent(${food.nutrition}, ${javaFloat(saturation)}, ${food.alwaysEdible === true}, ` +
+    `${javaFloat(food.eatSeconds ?? DEFAULT_EAT_SECONDS)}, Optional.empty(), List.of(${effects.join(", ")}))`
+  );
+}
+
+/** Food block of a spec item, or undefined when the item is not edible. */
+export function itemFood(expanded: ExpandedSpecTier1, itemId: string): ModItemFood | undefined {
+  return expanded.spec.items?.find((i) => i.id === itemId)?.food;
+}
+
+/** Item.Settings expression for an item: its properties (item-properties.ts), then `.food(...)` for edible items. */
+export function itemSettingsJava(expanded: ExpandedSpecTier1, itemId: string): string {
+  const food = itemFood(expanded, itemId);
+  const properties = itemPropertiesJava(expanded.spec.items?.find((i) => i.id === itemId)?.properties);
+  return `new Item.Settings()${properties}${food ? `.food(${foodComponentJava(food)})` : ""}`;
+}
@@ -31,17 +31,49 @@ import type { AssetKey } from "../composer-stub.js";
 import type { ExecutionPlan } from "../execution-plan.js";
 import type { FabricMaterializerTier1, MaterializedFile } from "./types.js";
 import { assetKeysToFiles } from "./asset-mapping.js";
+import { localeLangFiles } from "./lang-files.js";
+import type { NameTranslator } from "../translation/index.js";
 import { fabricScaffoldFiles } from "./fabric-scaffold.js";
 import { recipeDataFiles } from "./recipe-generator.js";
 import { woodTagDataFiles } from "./wood-tags.js";
 import { woodLootTableFiles } from "./wood-loot-tables.js";
+import { toolTagDataFiles } from "./tool-sets.js";
+import { armorLayerTextureFiles, armorTagDataFiles } from "./armor-sets.js";
+import { oreWorldgenDataFiles } from "./ore-worldgen.js";
+import { blockFamilyLootTableFiles, blockFamilyTagDataFiles } from "./block-families.js";
+import { woodBoatAssetFiles } from "./wood-boats.js";
+import { woodTreeLootTableFiles, woodTreeTagDataFiles, woodTreeWorldgenDataFiles } from "./wood-trees.js";
+import { specTagDataFiles } from "./spec-tags.js";
 import { behaviorFilesFromPlans } from "./behavior-generator.js";
 import { enrichTextureFilesWithVisualMetadata } from "./visual-enrichment.js";
 import { calculateCredits } from "../execution-plan.js";
 import { creditsToVisualLevel } from "../visual-levels.js";
 
+/**
+ * Tag files from different generators can target the same vanilla tag (e.g. #minecraft:mineable/axe from wood
+ * and block families). Merge them into one file per path; values de-duplicated and sorted, replace stays false.
+ */
+function mergeTagFiles(files: MaterializedFile[]): MaterializedFile[] {
+  const byPath = new Map<string, MaterializedFile>();
+  for (const file of files) {
+    const existing = byPath.get(file.path);
+    if (existing && file.path.includes("/tags/")) {
+      const values = new Set<string>([...JSON.parse(existing.contents).values, ...JSON.parse(file.contents).values]);
+      byPath.set(file.path, {
+        ...existing,
+        contents: JSON.stringify({ replace: false, values: [...values].sort() }, null, 2),
+      });
+    } else {
+      byPath.set(file.path, file);
+    }
+  }
+  return [...byPath.values()];
+}
+
 export interface MaterializeOptions {
   buildStamp?: string;
+  /** Display name translator for spec.locales lang files (default: offline dictionary). */
+  translator?: NameTranslator;
 }
 
 /**
@@ -59,7 +91,19 @@ export function materializeTier1(
   const recipeFiles = recipeDataFiles(expanded);
   const woodTags = woodTagDataFiles(expanded);
   const woodLoot = woodLootTableFiles(expanded);
-  const all = [...scaffold, ...assetFiles, ...recipeFiles, ...woodTags, ...woodLoot];
+  const toolTags = toolTagDataFiles(expanded);
+  const armorFiles = [...armorLayerTextureFiles(expanded), ...armorTagDataFiles(expanded)];
+  const oreWorldgen = oreWorldgenDataFiles(expanded);
+  const familyFiles = [...blockFamilyLootTableFiles(expanded), ...blockFamilyTagDataFiles(expanded)];
+  const boatFiles = woodBoatAssetFiles(expanded);
+  const treeFiles = [
+    ...woodTreeLootTableFiles(expanded),
+    ...woodTreeTagDataFiles(expanded),
+    ...woodTreeWorldgenDataFiles(expanded),
+  ];
+  const specTags = specTagDataFiles(expanded);
+  const langFiles = localeLangFiles(expanded, options?.translator);
+  const all = mergeTagFiles([...scaffold, ...assetFiles, ...langFiles, ...recipeFiles, ...woodTags, ...woodLoot, ...toolTags, ...armorFiles, ...oreWorldgen, ...familyFiles, ...boatFiles, ...treeFiles, ...specTags]);
   return all.sort((a, b) => a.path.localeCompare(b.path));
 }
 
@@ -87,7 +131,19 @@ export function materializeTier1WithPlans(
   const recipeFiles = recipeDataFiles(expanded);
   const woodTags = woodTagDataFiles(expanded);
   const woodLoot = woodLootTableFiles(expanded);
-  const all = [...scaffold, ...assetFiles, ...behaviorFiles, ...recipeFiles, ...woodTags, ...woodLoot];
+  const toolTags = toolTagDataFiles(expanded);
+  const armorFiles = [...armorLayerTextureFiles(expanded), ...armorTagDataFiles(expanded)];
+  const oreWorldgen = oreWorldgenDataFiles(expanded);
+  const familyFiles = [...blockFamilyLootTableFiles(expanded), ...blockFamilyTagDataFiles(expanded)];
+  const boatFiles = woodBoatAssetFiles(expanded);
+  const treeFiles = [
+    ...woodTreeLootTableFiles(expanded),
+    ...woodTreeTagDataFiles(expanded),
+    ...woodTreeWorldgenDataFiles(expanded),
+  ];
+  const specTags = specTagDataFiles(expanded);
+  const langFiles = localeLangFiles(expanded, options?.translator);
+  const all = mergeTagFiles([...scaffold, ...assetFiles, ...langFiles, ...behaviorFiles, ...recipeFiles, ...woodTags, ...woodLoot, ...toolTags, ...armorFiles, ...oreWorldgen, ...familyFiles, ...boatFiles, ...treeFiles, ...specTags]);
   return all.sort((a, b) => a.path.localeCompare(b.path));
 }
 
@@ -97,14 +153,58 @@ export const fabricMaterializerTier1: FabricMaterializerTier1 = {
 
 export type { MaterializedFile, FabricMaterializerTier1 } from "./types.js";
 export { assetKeysToFiles } from "./asset-mapping.js";
+export { defaultLangFile, localeLangFiles, registeredLangKeys, DEFAULT_LOCALE } from "./lang-files.js";
 export { fabricScaffoldFiles } from "./fabric-scaffold.js";
+export type { ClientRenderLayer } from "./client-entrypoint.js";
+export { blockRenderLayer, blockRenderLayers, hasClientEntrypoint, clientEntrypointJava } from "./client-entrypoint.js";
+export type { ItemSprite, ItemSpriteShape, ItemSpriteShapeInput } from "./item-sprites.js";
+export { ITEM_SPRITE_SHAPES, itemSpriteShape, itemSpritePalette } from "./item-sprites.js";
+export type { OreBaseTexture, OreComposite } from "./ore-textures.js";
+export { isOreBlock, oreBaseTexture, oreComposite } from "./ore-textures.js";
+export type { PaletteSwap } from "./palette-swap.js";
+export { paletteSwapFor } from "./palette-swap.js";
 export type { FabricScaffoldOptions } from "./fabric-scaffold.js";
 export {
   behaviorFilesFromPlans,
   planRequiresCustomItem,
   getItemClassNameForRegistration,
 } from "./behavior-generator.js";
+export type { BehaviorFlavor, BehaviorFragment } from "./behavior-fragments.js";
+export { behaviorFlavor, useFragments, clampToSafety, cooldownTicksForPlan } from "./behavior-fragments.js";
 export { recipeDataFiles } from "./recipe-generator.js";
+export { toolMaterialStats, toolMaterialsJava, toolItemConstructorJava, toolTagDataFiles } from "./tool-sets.js";
+export { foodComponentJava, itemSettingsJava } from "./food-items.js";
+export { itemPropertiesJava } from "./item-properties.js";
+export type { LootTablePool } from "./loot-injection.js";
+export { chestLootPools, mobDropPools, mobLootTableId, lootTableEventsJava } from "./loot-injection.js";
+export { blockSettingsJava } from "./block-settings.js";
+export { blockTickBehaviors, tickingBlockClassName, tickingBlockFiles } from "./block-ticks.js";
+export { stateMachineBlockClassName, stateMachineBlockFiles, stateMachineAssetFiles } from "./block-states.js";
+export { modItemGroupJava, creativeTabEntryIds, creativeTabIconId } from "./creative-tab.js";
+export {
+  armorMaterialStats,
+  armorMaterialsJava,
+  armorItemConstructorJava,
+  armorLayerTextureFiles,
+  armorTagDataFiles,
+} from "./armor-sets.js";
+export { oreWorldgenDataFiles, oreBiomeModificationsJava } from "./ore-worldgen.js";
+export { woodBoatRegistrationJava, woodBoatClientJava, woodBoatAssetFiles } from "./wood-boats.js";
+export {
+  woodTreeRegistrationJava,
+  woodTreeAssetFiles,
+  woodTreeLootTableFiles,
+  woodTreeTagDataFiles,
+  woodTreeWorldgenDataFiles,
+  woodTreeBiomeModificationsJava,
+} from "./wood-trees.js";
+export {
+  blockFamilyRegistrationJava,
+  blockFamilyAssetFiles,
+  blockFamilyLootTableFiles,
+  blockFamilyTagDataFiles,
+} from "./block-families.js";
+export { specTagDataFiles, needsToolTag } from "./spec-tags.js";
 export {
   validateNoRecipesPluralFolder,
   validateRecipeJsonSchema,
@@ -112,5 +212,7 @@ export {
   validateWoodBlocksHaveLootTables,
   validateWoodRecipeCoverage,
   validateLootTableJson,
+  validateLangCoverage,
+  validateClientSourcesSafe,
   getWoodBlocksNeedingMultipartBlockstate,
 } from "./validators.js";
\ No newline at end of file
@@ -0,0 +1,22 @@
+/**
+ * Item properties (ModItem.properties): stack size, rarity, fire resistance and durability on Item.Settings.
+ * - Java: .maxCount(n), .rarity(Rarity.X), .fireproof(), .maxDamage(n) appended to new Item.Settings() for plain
+ *   items (itemSettingsJava, food-items.ts). Tool/armor set items keep their material-derived settings.
+ * - maxCount is dropped when maxDamage is set: a damageable item cannot stack (maxDamage forces a stack of 1).
+ * - Wear: behavior items (behavior-generator.ts) call stack.damage(1, ...) in use() when maxDamage is set.
+ */
+
+import type { ModItemProperties } from "@themodgenerator/spec";
+
+/** Item.Settings calls for an item's properties; empty when none are set or all are vanilla defaults. */
+export function itemPropertiesJava(properties: ModItemProperties | undefined): string {
+  if (!properties) return "";
+  const calls: string[] = [];
+  if (properties.maxCount !== undefined && properties.maxDamage === undefined && properties.maxCount !== 64) {
+    calls.push(`.maxCount(${Math.round(properties.maxCount)})`);
+  }
+  if (properties.rarity && properties.rarity !== "common") calls.push(`.rarity(Rarity.${properties.rarity.toUpperCase()})`);
+  if (properties.fireproof) calls.push(".fireproof()");
+  if (properties.maxDamage !== undefined) calls.push(`.maxDamage(${Math.round(properties.maxDamage)})`);
+  return calls.join("");
+}
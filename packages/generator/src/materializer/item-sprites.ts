@@ -0,0 +1,88 @@
+/**
+ * Item sprites: transparent, outlined silhouettes for inventory icons (vanilla diamond, raw iron, apple) instead of
+ * opaque square tiles.
+ * - Assets: textures/item/<id>.png carries itemSprite (shape + synthesized palette) and no vanilla copy; the builder
+ *   draws the silhouette at the mod's texture resolution and validateTexturePngBuffer requires transparent pixels.
+ * Only items drawn with a sprite model (itemRender "flat") get one: chunky/rod/plate element models and blocklike
+ * items wrap the texture around a cuboid, where transparent pixels would be holes. Tools, armor and vanilla
+ * family items (boats, signs) keep their vanilla copies; user textures are never replaced. Sprites take
+ * precedence over palette swaps (palette-swap.ts) for flat items.
+ */
+
+import type { ItemKind, ItemRenderIntent } from "@themodgenerator/spec";
+import type { BaseShape } from "../visual-blueprints.js";
+import { VisualKind } from "../materialization/vanilla-visual-defaults.js";
+import { generatePaletteAndMotifs } from "../texture/palette-llm.js";
+import { interpretItemOrBlock } from "../interpretation.js";
+
+export const ITEM_SPRITE_SHAPES = ["gem", "ingot", "nugget", "dust", "raw", "rod", "orb", "plate", "food"] as const;
+export type ItemSpriteShape = (typeof ITEM_SPRITE_SHAPES)[number];
+
+/** Silhouette and palette (hex, 3–6 colors) the builder draws an item sprite with. */
+export interface ItemSprite {
+  shape: ItemSpriteShape;
+  palette: string[];
+}
+
+const KIND_SHAPES: Partial<Record<ItemKind, ItemSpriteShape>> = {
+  gem: "gem",
+  raw: "raw",
+  ingot: "ingot",
+  nugget: "nugget",
+  food: "food",
+};
+
+/** Name-derived visual kind → shape. Kinds not listed (tools, armor, wood family) are not sprites. */
+const VISUAL_KIND_SHAPES: Partial<Record<VisualKind, ItemSpriteShape>> = {
+  [VisualKind.INGOT]: "ingot",
+  [VisualKind.NUGGET]: "nugget",
+  [VisualKind.RAW_ORE]: "raw",
+  [VisualKind.GEM]: "gem",
+  [VisualKind.DUST]: "dust",
+  [VisualKind.POWDER]: "dust",
+  [VisualKind.ROD]: "rod",
+  [VisualKind.PLATE]: "plate",
+  [VisualKind.FOOD]: "food",
+};
+
+/** Blueprint base shape → shape, for simple items whose name says nothing about their form. */
+const BASE_SHAPE_SHAPES: Record<BaseShape, ItemSpriteShape> = {
+  rod: "rod",
+  orb: "orb",
+  totem: "rod",
+  device: "plate",
+  artifact: "gem",
+  cube: "plate",
+};
+
+export interface ItemSpriteShapeInput {
+  kind?: ItemKind;
+  itemRender?: ItemRenderIntent;
+  visualKind: VisualKind;
+  baseShape: BaseShape;
+}
+
+/**
+ * Sprite silhouette for an item, or null when it is not drawn as a sprite. ItemKind wins, then the visual kind from
+ * the item's id/name, then the blueprint base shape for simple items.
+ */
+export function itemSpriteShape(input: ItemSpriteShapeInput): ItemSpriteShape | null {
+  if (input.itemRender !== "flat") return null;
+  if (input.kind === "tool" || input.kind === "armor") return null;
+  const byKind = input.kind ? KIND_SHAPES[input.kind] : undefined;
+  if (byKind) return byKind;
+  const byVisualKind = VISUAL_KIND_SHAPES[input.visualKind];
+  if (byVisualKind) return byVisualKind;
+  return input.visualKind === VisualKind.SIMPLE_ITEM ? BASE_SHAPE_SHAPES[input.baseShape] : null;
+}
+
+/** Synthesized palette for an item sprite (same heuristics as texture synthesis). Deterministic per mod and item. */
+export function itemSpritePalette(modId: string, id: string, name: string): string[] {
+  const interpreted = interpretItemOrBlock(name, "item");
+  return generatePaletteAndMotifs({
+    prompt: name,
+    semanticTags: interpreted.semanticTags,
+    aesthetic: interpreted.aesthetic,
+    seed: `${modId}:${id}`,
+  }).colors;
+}
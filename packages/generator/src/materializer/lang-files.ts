@@ -0,0 +1,74 @@
+/**
+ * Lang files: assets/<modId>/lang/<locale>.json.
+ * - en_us (asset-mapping): mod name, creative tab title, item.<modId>.<id> and block.<modId>.<id> display names.
+ * - spec.locales: the same keys; item/block names through a NameTranslator (default: offline dictionary),
+ *   English where it has no translation. The mod name and tab title are never translated.
+ * validateLangCoverage fails the build when a locale file misses a registered item/block key.
+ */
+
+import type { ExpandedSpecTier1 } from "@themodgenerator/spec";
+import type { MaterializedFile } from "./types.js";
+import { creativeTabEntryIds, creativeTabTranslationKey } from "./creative-tab.js";
+import { dictionaryTranslator, type NameTranslator } from "../translation/index.js";
+
+export const DEFAULT_LOCALE = "en_us";
+
+function escapeJson(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/** Translation keys of every registered item and block (block items use the block key). */
+export function registeredLangKeys(expanded: ExpandedSpecTier1): string[] {
+  const modId = expanded.spec.modId;
+  return [
+    ...expanded.items.map((item) => `item.${modId}.${item.id}`),
+    ...expanded.blocks.map((block) => `block.${modId}.${block.id}`),
+  ];
+}
+
+/** Lang entries; item/block names pass through translateName (identity for en_us). */
+function langEntries(expanded: ExpandedSpecTier1, translateName: (name: string) => string): Record<string, string> {
+  const { modId, modName } = expanded.spec;
+  const entries: Record<string, string> = {
+    [`mod.${modId}.name`]: modName,
+  };
+  if (creativeTabEntryIds(expanded).length > 0) entries[creativeTabTranslationKey(modId)] = modName;
+  for (const item of expanded.items) {
+    entries[`item.${modId}.${item.id}`] = translateName(item.name);
+  }
+  for (const block of expanded.blocks) {
+    entries[`block.${modId}.${block.id}`] = translateName(block.name);
+  }
+  return entries;
+}
+
+function langJson(entries: Record<string, string>): string {
+  const lines = Object.entries(entries)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `  "${escapeJson(k)}": "${escapeJson(v)}"`);
+  return `{\n${lines.join(",\n")}\n}\n`;
+}
+
+function langPath(modId: string, locale: string): string {
+  return `src/main/resources/assets/${modId}/lang/${locale}.json`;
+}
+
+/** en_us.json from expanded items and blocks. */
+export function defaultLangFile(expanded: ExpandedSpecTier1): MaterializedFile {
+  return {
+    path: langPath(expanded.spec.modId, DEFAULT_LOCALE),
+    contents: langJson(langEntries(expanded, (name) => name)),
+  };
+}
+
+/** One lang file per spec.locales entry (en_us and duplicates skipped), in spec order. */
+export function localeLangFiles(
+  expanded: ExpandedSpecTier1,
+  translator: NameTranslator = dictionaryTranslator
+): MaterializedFile[] {
+  const locales = [...new Set(expanded.spec.locales ?? [])].filter((locale) => locale !== DEFAULT_LOCALE);
+  return locales.map((locale) => ({
+    path: langPath(expanded.spec.modId, locale),
+    contents: langJson(langEntries(expanded, (name) => translator.translate(name, locale) ?? name)),
+  }));
+}
@@ -0,0 +1,132 @@
+/**
+ * Loot injection into vanilla loot tables: a survival source for items besides crafting.
+ * - Java: one LootTableEvents.MODIFY registration in onInitialize adding extra LootPools to builtin tables only,
+ *   so data packs replacing a table stay untouched.
+ * - Chests (ModLoot type "chest"): per target table one pool with one roll, weighted ItemEntry per ModLootEntry
+ *   (SetCount for stack ranges) and an EmptyEntry holding the rest of CHEST_LOOT_POOL_WEIGHT. Weights are clamped
+ *   to CHEST_LOOT_MAX_WEIGHT of the item's rarity (ModItemProperties.rarity); a table whose entries need more than
+ *   CHEST_LOOT_POOL_WEIGHT throws instead of dropping the entries that do not fit.
+ * - Mobs (spec.mobDrops): per drop one pool on entities/<mob>, conditioned on KilledByPlayer and a random chance
+ *   (RandomChanceWithEnchantedBonus when Looting adds to it).
+ * The validator rejects loot tables and entities vanilla does not have, weights above the rarity bound, and tables
+ * whose summed weight exceeds the pool.
+ */
+
+import type { ExpandedSpecTier1, ModLootEntry } from "@themodgenerator/spec";
+import { CHEST_LOOT_MAX_WEIGHT, CHEST_LOOT_POOL_WEIGHT } from "@themodgenerator/spec";
+import { woodTreeBlockIdsWithoutItem } from "./wood-trees.js";
+
+/** Injected pool for one vanilla loot table: table id (namespaced) and the LootPool.builder() expression. */
+export interface LootTablePool {
+  tableId: string;
+  pool: string;
+}
+
+/** Highest chest weight for an item; block items and items without a rarity count as common. */
+function maxChestWeight(expanded: ExpandedSpecTier1, itemId: string): number {
+  const rarity = expanded.spec.items?.find((i) => i.id === itemId)?.properties?.rarity ?? "common";
+  return CHEST_LOOT_MAX_WEIGHT[rarity];
+}
+
+/** Float literal keeping small chances exact (0.025F). */
+function javaChance(n: number): string {
+  const s = String(Math.round(n * 10000) / 10000);
+  return `${s.includes(".") ? s : `${s}.0`}F`;
+}
+
+function namespaced(id: string): string {
+  return id.includes(":") ? id : `minecraft:${id}`;
+}
+
+/** Registered item ids (items + block items). */
+function registeredItemIds(expanded: ExpandedSpecTier1): Set<string> {
+  const noItemBlockIds = woodTreeBlockIdsWithoutItem(expanded);
+  return new Set([
+    ...expanded.items.map((i) => i.id),
+    ...expanded.blocks.map((b) => b.id).filter((id) => !noItemBlockIds.has(id)),
+  ]);
+}
+
+/** ItemEntry builder for an item, with SetCount when the stack range is not 1–1. */
+function itemEntryJava(itemId: string, count: { minCount?: number; maxCount?: number }, weight?: number): string {
+  const min = Math.max(1, Math.round(count.minCount ?? 1));
+  const max = Math.max(min, Math.round(count.maxCount ?? min));
+  const setCount = min === 1 && max === 1 ? "" : `.apply(SetCountLootFunction.builder(UniformLootNumberProvider.create(${min}, ${max})))`;
+  const weighted = weight === undefined ? "" : `.weight(${weight})`;
+  return `.with(ItemEntry.builder(Registries.ITEM.get(Identifier.of(MOD_ID, "${itemId}")))${weighted}${setCount})`;
+}
+
+/** Extra pools for ModLoot chest entries, grouped per target table in spec order. Unregistered items are skipped. */
+export function chestLootPools(expanded: ExpandedSpecTier1): LootTablePool[] {
+  const registered = registeredItemIds(expanded);
+  const byTable = new Map<string, ModLootEntry[]>();
+  for (const loot of expanded.spec.loot ?? []) {
+    if (loot.type !== "chest") continue;
+    const tableId = namespaced(loot.targetId);
+    const entries = (loot.entries ?? []).filter((e) => registered.has(e.itemId));
+    if (entries.length > 0) byTable.set(tableId, [...(byTable.get(tableId) ?? []), ...entries]);
+  }
+
+  return [...byTable.entries()].map(([tableId, entries]) => {
+    let remaining = CHEST_LOOT_POOL_WEIGHT;
+    const withs: string[] = [];
+    for (const entry of entries) {
+      const max = maxChestWeight(expanded, entry.itemId);
+      const weight = Math.min(Math.max(1, Math.round(entry.weight ?? max)), max);
+      if (weight > remaining) {
+        throw new Error(`Chest loot for ${tableId}: entry weights exceed the pool's ${CHEST_LOOT_POOL_WEIGHT} at "${entry.itemId}".`);
+      }
+      remaining -= weight;
+      withs.push(itemEntryJava(entry.itemId, entry, weight));
+    }
+    if (remaining > 0) withs.push(`.with(EmptyEntry.builder().weight(${remaining}))`);
+    return { tableId, pool: `LootPool.builder().rolls(ConstantLootNumberProvider.create(1))${withs.join("")}` };
+  });
+}
+
+/** Loot table of a vanilla mob: minecraft:zombie → minecraft:entities/zombie. */
+export function mobLootTableId(entityId: string): string {
+  const [namespace, path] = namespaced(entityId).split(":");
+  return `${namespace}:entities/${path}`;
+}
+
+/** Extra pools for spec.mobDrops, one per drop in spec order. Unregistered items are skipped. */
+export function mobDropPools(expanded: ExpandedSpecTier1): LootTablePool[] {
+  const registered = registeredItemIds(expanded);
+  return (expanded.spec.mobDrops ?? [])
+    .filter((drop) => registered.has(drop.itemId))
+    .map((drop) => {
+      const conditions: string[] = [];
+      if (drop.killedByPlayer !== false) conditions.push(".conditionally(KilledByPlayerLootCondition.builder())");
+      conditions.push(
+        drop.lootingBonus
+          ? `.conditionally(RandomChanceWithEnchantedBonusLootCondition.builder(registries, ${javaChance(drop.chance)}, ${javaChance(drop.lootingBonus)}))`
+          : `.conditionally(RandomChanceLootCondition.builder(${javaChance(drop.chance)}))`
+      );
+      return {
+        tableId: mobLootTableId(drop.entityId),
+        pool: `LootPool.builder().rolls(ConstantLootNumberProvider.create(1))${conditions.join("")}${itemEntryJava(drop.itemId, drop)}`,
+      };
+    });
+}
+
+/** onInitialize statement adding the pools to their (builtin) loot tables; empty when there are none. */
+export function lootTableEventsJava(pools: LootTablePool[]): string {
+  if (pools.length === 0) return "";
+  const byTable = new Map<string, string[]>();
+  for (const { tableId, pool } of pools) byTable.set(tableId, [...(byTable.get(tableId) ?? []), pool]);
+  const branches = [...byTable.entries()].map(([tableId, tablePools]) =>
+    [
+      `			if (tableId.equals("${tableId}")) {`,
+      ...tablePools.map((pool) => `				tableBuilder.pool(${pool});`),
+      "			}",
+    ].join("\n")
+  );
+  return [
+    "		LootTableEvents.MODIFY.register((key, tableBuilder, source, registries) -> {",
+    "			if (!source.isBuiltin()) return;",
+    "			String tableId = key.getValue().toString();",
+    ...branches,
+    "		});",
+  ].join("\n");
+}
@@ -7,8 +7,8 @@
 
 import { describe, it } from "node:test";
 import assert from "node:assert";
-import type { ModSpecV1 } from "@themodgenerator/spec";
-import { expandSpecTier1 } from "@themodgenerator/spec";
+import type { ModItemProperties, ModSpecV1 } from "@themodgenerator/spec";
+import { expandSpecTier1, expandModSpecV2, expandedModSpecV2ToV1, deriveModId, PRIMITIVE_SAFETY_BOUNDS, TICK_BEHAVIOR_LIMITS, MAX_TIER_MODSPEC_V2 } from "@themodgenerator/spec";
 import { composeTier1Stub } from "../composer-stub.js";
 import {
   materializeTier1,
@@ -20,8 +20,18 @@ import {
   validateWoodBlocksHaveLootTables,
   validateWoodRecipeCoverage,
   validateLootTableJson,
+  validateLangCoverage,
+  validateClientSourcesSafe,
+  validateRecipeJsonSchema,
+  toolMaterialStats,
+  armorMaterialStats,
+  blockTickBehaviors,
 } from "./index.js";
+import type { MaterializedFile } from "./index.js";
 import { planFromIntent } from "../execution-plan.js";
+import { PRIMITIVE_REGISTRY } from "../primitives.js";
+import { inferBlockSettings } from "../interpretation/infer-block-settings.js";
+import { validateBlockSettings } from "@themodgenerator/validator";
 
 function minimalTier1Spec(overrides: Partial<ModSpecV1> = {}): ModSpecV1 {
   return {
@@ -87,6 +97,20 @@ describe("materializeTier1 golden tests", () => {
     assert.deepStrictEqual(paths, expected, "paths must match expected Tier 1 set");
   });
 
+  it("per-job modId namespaces resources, Java package and jar name", () => {
+    const modId = deriveModId("Ruby Ores", "0b6f7c1e-9d0a-4c55-8b61-2a1f0e3d4c5b");
+    const spec = minimalTier1Spec({ modId, modName: "Ruby Ores", items: [{ id: "ruby", name: "Ruby" }] });
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const props = files.find((f) => f.path === "gradle.properties")!.contents;
+    assert.ok(props.includes(`archives_base_name=${modId}`));
+    assert.ok(files.some((f) => f.path === `src/main/resources/assets/${modId}/models/item/ruby.json`));
+    const main = files.find((f) => f.path.startsWith(`src/main/java/net/themodgenerator/${modId}/`) && f.path.endsWith("Mod.java"));
+    assert.ok(main, "main class under the per-job package");
+    assert.ok(main!.contents.includes(`public static final String MOD_ID = "${modId}";`));
+    assert.ok(!files.some((f) => f.path.includes("/generated/")));
+  });
+
   it("empty Tier 1 spec yields valid Fabric mod with no item/block registrations", () => {
     const spec = minimalTier1Spec();
     const expanded = expandSpecTier1(spec);
@@ -333,6 +357,64 @@ describe("materializer invariants", () => {
     assert.strictEqual(typeof campfireJson.ingredient?.item, "string");
   });
 
+  it("stonecutting and smithing_transform emit MC 1.21.1 JSON; stone families get stonecutter recipes", () => {
+    const spec = minimalTier1Spec({
+      items: [{ id: "ruby_pickaxe", name: "Ruby Pickaxe" }, { id: "netherite_ruby_pickaxe", name: "Netherite Ruby Pickaxe" }],
+      blockFamilies: [{ baseId: "granite_rock", baseDisplayName: "Granite Rock", familyType: "stone", variants: ["slab", "button"] }],
+      recipes: [
+        {
+          id: "netherite_ruby_pickaxe_smithing",
+          type: "smithing_transform",
+          ingredients: [{ id: "minecraft:netherite_upgrade_smithing_template" }, { id: "ruby_pickaxe" }, { id: "minecraft:netherite_ingot" }],
+          result: { id: "netherite_ruby_pickaxe" },
+        },
+      ],
+    });
+    const recipeFiles = recipeDataFiles(expandSpecTier1(spec));
+    const cut = recipeFiles.find((f) => f.path.endsWith("/granite_rock_slab_from_granite_rock_stonecutting.json"));
+    assert.ok(cut, "stone family slab must get a stonecutting recipe");
+    assert.deepStrictEqual(JSON.parse(cut.contents), {
+      type: "minecraft:stonecutting",
+      ingredient: { item: "test_mod:granite_rock" },
+      result: { id: "test_mod:granite_rock_slab", count: 2 },
+    });
+    assert.ok(!recipeFiles.some((f) => f.path.includes("button_from_granite_rock_stonecutting")), "buttons are not cut");
+    const smithing = recipeFiles.find((f) => f.path.endsWith("/netherite_ruby_pickaxe_smithing.json"));
+    assert.ok(smithing);
+    assert.deepStrictEqual(JSON.parse(smithing.contents), {
+      type: "minecraft:smithing_transform",
+      template: { item: "minecraft:netherite_upgrade_smithing_template" },
+      base: { item: "test_mod:ruby_pickaxe" },
+      addition: { item: "minecraft:netherite_ingot" },
+      result: { id: "test_mod:netherite_ruby_pickaxe", count: 1 },
+    });
+    assert.doesNotThrow(() => validateRecipeJsonSchema(recipeFiles));
+    const missingTemplate = { path: smithing.path, contents: JSON.stringify({ ...JSON.parse(smithing.contents), template: undefined }) };
+    assert.throws(() => validateRecipeJsonSchema([missingTemplate]), /must have "template"/);
+  });
+
+  it("tag ingredients emit { tag } in shaped, shapeless and cooking JSON", () => {
+    const spec = minimalTier1Spec({
+      items: [{ id: "bronze_gear", name: "Bronze Gear" }, { id: "charred_gear", name: "Charred Gear" }],
+      recipes: [
+        {
+          id: "bronze_gear",
+          type: "crafting_shaped",
+          pattern: [" I ", "IPI", " I "],
+          key: { I: { tag: "c:ingots/iron" }, P: { tag: "#minecraft:planks" } },
+          result: { id: "bronze_gear" },
+        },
+        { id: "bronze_gear_shapeless", type: "crafting_shapeless", ingredients: [{ tag: "logs", count: 2 }], result: { id: "bronze_gear" } },
+        { id: "charred_gear", type: "smelting", ingredients: [{ tag: "minecraft:planks" }], result: { id: "charred_gear" } },
+      ],
+    });
+    const files = recipeDataFiles(expandSpecTier1(spec));
+    const json = (id: string) => JSON.parse(files.find((f) => f.path.endsWith(`/${id}.json`))!.contents);
+    assert.deepStrictEqual(json("bronze_gear").key, { I: { tag: "c:ingots/iron" }, P: { tag: "minecraft:planks" } });
+    assert.deepStrictEqual(json("bronze_gear_shapeless").ingredients, [{ tag: "minecraft:logs" }, { tag: "minecraft:logs" }]);
+    assert.deepStrictEqual(json("charred_gear").ingredient, { tag: "minecraft:planks" });
+  });
+
   it("item with itemRender rod produces item model JSON containing elements", () => {
     const spec = minimalTier1Spec({
       items: [{ id: "metal_rod", name: "Metal Rod", itemRender: "rod" }],
@@ -826,3 +908,1139 @@ describe("materializer invariants", () => {
     );
   });
 });
+
+function rubySetFiles() {
+  const v1 = expandedModSpecV2ToV1(
+    expandModSpecV2({
+      schemaVersion: 2,
+      namespace: "example",
+      modId: "rubyores",
+      modName: "Ruby Ores",
+      minecraftVersion: "1.21.1",
+      fabricVersion: "0.15",
+      materials: [{ id: "ruby", category: "gem" }],
+    })
+  );
+  const expanded = expandSpecTier1(v1);
+  const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+  return { v1, files };
+}
+
+describe("tool sets", () => {
+  it("registers ToolMaterial enum with balance-derived stats and vanilla tool classes", () => {
+    const { v1, files } = rubySetFiles();
+    const materialsJava = files.find((f) => f.path.endsWith("/ModToolMaterials.java"));
+    assert.ok(materialsJava, "ModToolMaterials.java must be generated");
+    const stats = toolMaterialStats(v1.materials![0]);
+    assert.ok(materialsJava!.contents.includes("public enum ModToolMaterials implements ToolMaterial"));
+    assert.ok(
+      materialsJava!.contents.includes(`RUBY(TagKey.of(RegistryKeys.BLOCK, Identifier.of(GeneratedMod.MOD_ID, "incorrect_for_ruby_tool")), ${stats.durability}, `),
+      "durability comes from deriveToolStats"
+    );
+    assert.ok(materialsJava!.contents.includes('Identifier.of("generated", "ruby")'), "repair item is the ruby gem");
+
+    const main = files.find((f) => f.path.endsWith("/GeneratedMod.java"))!.contents;
+    assert.ok(main.includes('Identifier.of(MOD_ID, "ruby_pickaxe"), new PickaxeItem(ModToolMaterials.RUBY, new Item.Settings().attributeModifiers(MiningToolItem.createAttributeModifiers(ModToolMaterials.RUBY, 1.0F, -2.8F))));'));
+    assert.ok(main.includes("new SwordItem(ModToolMaterials.RUBY, new Item.Settings().attributeModifiers(SwordItem.createAttributeModifiers(ModToolMaterials.RUBY, 3, -2.4F)))"));
+    assert.ok(main.includes("new AxeItem(ModToolMaterials.RUBY"));
+    assert.ok(main.includes("new ShovelItem(ModToolMaterials.RUBY"));
+    assert.ok(main.includes("new HoeItem(ModToolMaterials.RUBY"));
+    const tab = main.slice(main.indexOf("FabricItemGroup.builder()"));
+    assert.ok(tab.indexOf('"ruby_pickaxe"') > tab.indexOf('"ruby"'), "tools follow their material in the mod tab");
+    assert.ok(tab.includes('"ruby_sword"'), "sword is in the mod tab");
+  });
+
+  it("emits handheld models, shaped recipes and tool tags", () => {
+    const { files } = rubySetFiles();
+    const model = files.find((f) => f.path === "src/main/resources/assets/generated/models/item/ruby_pickaxe.json");
+    assert.ok(model);
+    assert.strictEqual(JSON.parse(model!.contents).parent, "minecraft:item/handheld");
+
+    const recipe = files.find((f) => f.path === "src/main/resources/data/generated/recipe/ruby_pickaxe.json");
+    assert.ok(recipe, "pickaxe recipe under singular recipe/");
+    const parsed = JSON.parse(recipe!.contents);
+    assert.strictEqual(parsed.type, "minecraft:crafting_shaped");
+    assert.deepStrictEqual(parsed.key, { "#": { item: "generated:ruby" }, "-": { item: "minecraft:stick" } });
+    assert.doesNotThrow(() => validateRecipeJsonSchema(files));
+
+    const incorrect = files.find((f) => f.path === "src/main/resources/data/generated/tags/blocks/incorrect_for_ruby_tool.json");
+    assert.ok(incorrect, "incorrect_for_ruby_tool tag (ToolMaterial inverse tag)");
+    assert.match(JSON.parse(incorrect!.contents).values[0], /^#minecraft:incorrect_for_[a-z]+_tool$/);
+    assert.ok(files.some((f) => f.path === "src/main/resources/data/generated/tags/blocks/needs_ruby_tool.json"));
+    const pickaxes = files.find((f) => f.path === "src/main/resources/data/minecraft/tags/items/pickaxes.json");
+    assert.deepStrictEqual(JSON.parse(pickaxes!.contents), { replace: false, values: ["generated:ruby_pickaxe"] });
+  });
+});
+
+describe("armor sets", () => {
+  it("registers ArmorMaterial registry entries with balance-derived stats and ArmorItems", () => {
+    const { v1, files } = rubySetFiles();
+    const java = files.find((f) => f.path.endsWith("/ModArmorMaterials.java"));
+    assert.ok(java, "ModArmorMaterials.java must be generated");
+    const stats = armorMaterialStats(v1.materials![0]);
+    const [boots, leggings, chestplate, helmet] = stats.protectionPoints;
+    assert.ok(
+      java!.contents.includes(
+        `public static final RegistryEntry<ArmorMaterial> RUBY = register("ruby", ${boots}, ${leggings}, ${chestplate}, ${helmet}, ${stats.enchantability}, `
+      ),
+      "protection and enchantability come from deriveArmorStats"
+    );
+    assert.ok(java!.contents.includes("Registry.registerReference(Registries.ARMOR_MATERIAL"));
+    assert.ok(java!.contents.includes("new ArmorMaterial.Layer(Identifier.of(GeneratedMod.MOD_ID, id))"));
+
+    const main = files.find((f) => f.path.endsWith("/GeneratedMod.java"))!.contents;
+    assert.ok(
+      main.includes(
+        `new ArmorItem(ModArmorMaterials.RUBY, ArmorItem.Type.HELMET, new Item.Settings().maxDamage(ArmorItem.Type.HELMET.getMaxDamage(${stats.durabilityMultiplier})))`
+      )
+    );
+    for (const type of ["CHESTPLATE", "LEGGINGS", "BOOTS"]) {
+      assert.ok(main.includes(`ArmorItem.Type.${type}, new Item.Settings()`), `${type} registered`);
+    }
+  });
+
+  it("emits armor layer textures, item icons, recipes and armor tags", () => {
+    const { files } = rubySetFiles();
+    const base = "src/main/resources/assets/generated/textures";
+    for (const layer of [1, 2]) {
+      const tex = files.find((f) => f.path === `${base}/models/armor/ruby_layer_${layer}.png`);
+      assert.ok(tex, `armor layer ${layer} texture`);
+      assert.deepStrictEqual(tex!.copyFromVanillaPaths, [`models/armor/iron_layer_${layer}`]);
+    }
+    assert.ok(files.some((f) => f.path === `${base}/item/ruby_chestplate.png`), "inventory icon");
+    const model = files.find((f) => f.path === "src/main/resources/assets/generated/models/item/ruby_boots.json");
+    assert.strictEqual(JSON.parse(model!.contents).parent, "minecraft:item/generated");
+
+    const recipe = files.find((f) => f.path === "src/main/resources/data/generated/recipe/ruby_leggings.json");
+    assert.deepStrictEqual(JSON.parse(recipe!.contents).pattern, ["###", "# #", "# #"]);
+
+    const headArmor = files.find((f) => f.path === "src/main/resources/data/minecraft/tags/items/head_armor.json");
+    assert.deepStrictEqual(JSON.parse(headArmor!.contents), { replace: false, values: ["generated:ruby_helmet"] });
+  });
+});
+
+describe("ore worldgen", () => {
+  it("emits configured/placed features with stone and deepslate ore targets", () => {
+    const { v1, files } = rubySetFiles();
+    const w = v1.worldgen![0];
+    const base = "src/main/resources/data/generated/worldgen";
+    const configured = files.find((f) => f.path === `${base}/configured_feature/ruby_ore.json`);
+    assert.ok(configured, "configured feature");
+    const config = JSON.parse(configured!.contents);
+    assert.strictEqual(config.type, "minecraft:ore");
+    assert.strictEqual(config.config.size, w.veinSize);
+    assert.deepStrictEqual(
+      config.config.targets.map((t: { target: { tag: string }; state: { Name: string } }) => [t.target.tag, t.state.Name]),
+      [
+        ["minecraft:stone_ore_replaceables", "generated:ruby_ore"],
+        ["minecraft:deepslate_ore_replaceables", "generated:deepslate_ruby_ore"],
+      ]
+    );
+
+    const placed = JSON.parse(files.find((f) => f.path === `${base}/placed_feature/ruby_ore.json`)!.contents);
+    assert.strictEqual(placed.feature, "generated:ruby_ore");
+    assert.deepStrictEqual(placed.placement[0], { type: "minecraft:count", count: w.veinsPerChunk });
+    assert.deepStrictEqual(placed.placement[2].height.min_inclusive, { absolute: w.minY });
+    assert.deepStrictEqual(placed.placement[2].height.max_inclusive, { absolute: w.maxY });
+  });
+
+  it("registers placed features through BiomeModifications in the main class", () => {
+    const { files } = rubySetFiles();
+    const main = files.find((f) => f.path.endsWith("/GeneratedMod.java"))!.contents;
+    assert.ok(
+      main.includes(
+        'BiomeModifications.addFeature(BiomeSelectors.tag(TagKey.of(RegistryKeys.BIOME, Identifier.of("minecraft", "is_overworld"))), GenerationStep.Feature.UNDERGROUND_ORES, RegistryKey.of(RegistryKeys.PLACED_FEATURE, Identifier.of(MOD_ID, "ruby_ore")));'
+      )
+    );
+  });
+
+  it("V1 specs without the ore feature emit no worldgen", () => {
+    const spec = minimalTier1Spec();
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    assert.ok(!files.some((f) => f.path.includes("/worldgen/")));
+    assert.ok(!files.find((f) => f.path.endsWith("Mod.java") && f.contents.includes("BiomeModifications.addFeature")));
+  });
+
+  it("skips ore worldgen when the spec's pipeline tier is below the ore feature's tier", () => {
+    const { v1 } = rubySetFiles();
+    assert.strictEqual(v1.maxTier, MAX_TIER_MODSPEC_V2);
+    const expanded = expandSpecTier1({ ...v1, maxTier: undefined });
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    assert.ok(!files.some((f) => f.path.includes("/worldgen/configured_feature/ruby_ore")));
+    assert.ok(!files.find((f) => f.path.endsWith("Mod.java") && f.contents.includes("UNDERGROUND_ORES")));
+  });
+});
+
+describe("block families", () => {
+  function graniteFamilyFiles() {
+    const spec = minimalTier1Spec({
+      blockFamilies: [
+        {
+          baseId: "granite_rock",
+          baseDisplayName: "Granite Rock",
+          familyType: "stone",
+          variants: ["polished_block", "stairs", "slab", "wall", "door", "button"],
+        },
+      ],
+    });
+    const expanded = expandSpecTier1(spec);
+    return materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+  }
+  const assets = "src/main/resources/assets/test_mod";
+  const data = "src/main/resources/data";
+
+  it("registers variants with vanilla block classes copied from the family template", () => {
+    const main = graniteFamilyFiles().find((f) => f.path.endsWith("Mod.java"))!.contents;
+    assert.ok(main.includes("import net.minecraft.block.WallBlock;"));
+    assert.ok(main.includes('Identifier.of(MOD_ID, "granite_rock"), new Block(AbstractBlock.Settings.copy(Blocks.STONE))'));
+    assert.ok(main.includes("new StairsBlock(granite_rockBlock.getDefaultState(), AbstractBlock.Settings.copy(Blocks.STONE))"));
+    assert.ok(main.includes("new WallBlock(AbstractBlock.Settings.copy(Blocks.STONE))"));
+    assert.ok(main.includes("new DoorBlock(BlockSetType.STONE, AbstractBlock.Settings.copy(Blocks.IRON_DOOR))"));
+    assert.ok(main.includes("new ButtonBlock(BlockSetType.STONE, 20, AbstractBlock.Settings.copy(Blocks.STONE_BUTTON))"));
+    assert.ok(main.includes('Registry.register(Registries.ITEM, Identifier.of(MOD_ID, "granite_rock_wall"), new BlockItem('));
+  });
+
+  it("fence gates take the family's sound set: oak for wood, the BlockSetType sounds otherwise", () => {
+    const gateLine = (familyType: "wood" | "metal", baseId: string) => {
+      const expanded = expandSpecTier1(
+        minimalTier1Spec({ blockFamilies: [{ baseId, baseDisplayName: "X", familyType, variants: ["fence_gate"] }] })
+      );
+      const main = materializeTier1(expanded, composeTier1Stub(expanded.descriptors)).find((f) => f.path.endsWith("Mod.java"))!.contents;
+      return main.split("\n").find((l) => l.includes(`"${baseId}_fence_gate"`) && l.includes("Registries.BLOCK"))!;
+    };
+    assert.ok(gateLine("wood", "ash_wood").includes("new FenceGateBlock(WoodType.OAK, AbstractBlock.Settings.copy(Blocks.OAK_PLANKS))"));
+    const steel = gateLine("metal", "steel_block");
+    assert.ok(
+      steel.includes(
+        'new FenceGateBlock(new WoodType(MOD_ID + ":steel_block", BlockSetType.IRON, BlockSetType.IRON.soundType(), BlockSoundGroup.HANGING_SIGN, BlockSetType.IRON.trapdoorClose(), BlockSetType.IRON.trapdoorOpen()), AbstractBlock.Settings.copy(Blocks.IRON_BLOCK))'
+      ),
+      steel
+    );
+    assert.ok(!steel.includes("WoodType.OAK"));
+  });
+
+  it("shaped variants reuse the base texture; only cube variants and doors get their own textures", () => {
+    const files = graniteFamilyFiles();
+    const textures = files.filter((f) => f.path.startsWith(`${assets}/textures/block/`)).map((f) => f.path);
+    assert.deepStrictEqual(textures.sort(), [
+      `${assets}/textures/block/granite_rock.png`,
+      `${assets}/textures/block/granite_rock_door_bottom.png`,
+      `${assets}/textures/block/granite_rock_door_top.png`,
+      `${assets}/textures/block/polished_granite_rock.png`,
+    ]);
+    const doorTop = files.find((f) => f.path === `${assets}/textures/block/granite_rock_door_top.png`)!;
+    assert.deepStrictEqual(doorTop.copyFromVanillaPaths, ["block/iron_door_top"]);
+
+    const wallState = JSON.parse(files.find((f) => f.path === `${assets}/blockstates/granite_rock_wall.json`)!.contents);
+    assert.ok(Array.isArray(wallState.multipart));
+    assert.deepStrictEqual(wallState.multipart[0], { when: { up: "true" }, apply: { model: "test_mod:block/granite_rock_wall_post" } });
+    const wallPost = JSON.parse(files.find((f) => f.path === `${assets}/models/block/granite_rock_wall_post.json`)!.contents);
+    assert.deepStrictEqual(wallPost.textures, { wall: "test_mod:block/granite_rock" });
+    const wallItem = JSON.parse(files.find((f) => f.path === `${assets}/models/item/granite_rock_wall.json`)!.contents);
+    assert.strictEqual(wallItem.parent, "test_mod:block/granite_rock_wall_inventory");
+    const stairs = JSON.parse(files.find((f) => f.path === `${assets}/models/block/granite_rock_stairs.json`)!.contents);
+    assert.strictEqual(stairs.parent, "minecraft:block/stairs");
+  });
+
+  it("emits loot tables, mineable/variant tags and crafting recipes for every variant", () => {
+    const files = graniteFamilyFiles();
+    const ids = ["granite_rock", "polished_granite_rock", "granite_rock_stairs", "granite_rock_slab", "granite_rock_wall", "granite_rock_door", "granite_rock_button"];
+    for (const id of ids) {
+      const loot = files.find((f) => f.path === `${data}/test_mod/loot_table/blocks/${id}.json`);
+      assert.ok(loot, `loot table for ${id}`);
+    }
+    assert.doesNotThrow(() => validateLootTableJson(files));
+    const slabLoot = files.find((f) => f.path === `${data}/test_mod/loot_table/blocks/granite_rock_slab.json`)!.contents;
+    assert.ok(JSON.stringify(JSON.parse(slabLoot)).includes('{"type":"double"}'));
+
+    const pickaxe = JSON.parse(files.find((f) => f.path === `${data}/minecraft/tags/blocks/mineable/pickaxe.json`)!.contents);
+    assert.deepStrictEqual(pickaxe.values, ids.map((id) => `test_mod:${id}`).sort());
+    const walls = JSON.parse(files.find((f) => f.path === `${data}/minecraft/tags/blocks/walls.json`)!.contents);
+    assert.deepStrictEqual(walls, { replace: false, values: ["test_mod:granite_rock_wall"] });
+    assert.ok(files.some((f) => f.path === `${data}/minecraft/tags/items/stone_buttons.json`));
+
+    for (const id of ids.slice(1)) {
+      assert.ok(files.some((f) => f.path === `${data}/test_mod/recipe/${id}.json`), `recipe for ${id}`);
+    }
+    const wallRecipe = JSON.parse(files.find((f) => f.path === `${data}/test_mod/recipe/granite_rock_wall.json`)!.contents);
+    assert.deepStrictEqual(wallRecipe.result, { id: "test_mod:granite_rock_wall", count: 6 });
+  });
+
+  it("merges tag files shared with wood types into one file per tag", () => {
+    const spec = minimalTier1Spec({
+      woodTypes: [{ id: "maple", displayName: "Maple" }],
+      blockFamilies: [{ baseId: "oak_tile", baseDisplayName: "Oak Tile", familyType: "wood", variants: ["stairs"] }],
+    });
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const axe = files.filter((f) => f.path === `${data}/minecraft/tags/blocks/mineable/axe.json`);
+    assert.strictEqual(axe.length, 1);
+    const values: string[] = JSON.parse(axe[0].contents).values;
+    assert.ok(values.includes("test_mod:oak_tile_stairs"));
+    assert.ok(values.includes("test_mod:maple_planks"));
+    assert.deepStrictEqual(values, [...new Set(values)].sort());
+  });
+});
+
+describe("wood boats", () => {
+  function mapleFiles() {
+    const spec = minimalTier1Spec({ woodTypes: [{ id: "maple", displayName: "Maple" }] });
+    const expanded = expandSpecTier1(spec);
+    return materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+  }
+  const assets = "src/main/resources/assets/test_mod";
+
+  it("registers boat and chest boat through the Terraform boat API after the planks block", () => {
+    const files = mapleFiles();
+    const main = files.find((f) => f.path.endsWith("Mod.java"))!.contents;
+    assert.ok(main.includes("import com.terraformersmc.terraform.boat.api.TerraformBoatType;"));
+    assert.ok(
+      main.includes(
+        'Item mapleBoatItem = TerraformBoatItemHelper.registerBoatItem(Identifier.of(MOD_ID, "maple_boat"), mapleBoatKey, false);'
+      )
+    );
+    assert.ok(main.includes('TerraformBoatItemHelper.registerBoatItem(Identifier.of(MOD_ID, "maple_chest_boat"), mapleBoatKey, true)'));
+    assert.ok(main.includes(".planks(maple_planksBlock.asItem()).build());"));
+    assert.ok(main.indexOf("mapleBoatKey =") > main.indexOf("Block maple_planksBlock ="), "boat type needs the planks block");
+    assert.ok(!main.includes('Identifier.of(MOD_ID, "maple_boat"), new Item('), "boats are not plain items");
+
+    const gradle = files.find((f) => f.path === "build.gradle")!.contents;
+    assert.ok(gradle.includes('include "com.terraformersmc.terraform-api:terraform-wood-api-v1:${project.terraform_wood_api_version}"'));
+    assert.ok(files.find((f) => f.path === "gradle.properties")!.contents.includes("terraform_wood_api_version="));
+    const modJson = JSON.parse(files.find((f) => f.path === "src/main/resources/fabric.mod.json")!.contents);
+    assert.strictEqual(modJson.depends["terraform-wood-api-v1"], "*");
+  });
+
+  it("emits boat recipes, item textures and entity textures", () => {
+    const files = mapleFiles();
+    const boatRecipe = JSON.parse(files.find((f) => f.path.endsWith("/recipe/maple_boat.json"))!.contents);
+    assert.deepStrictEqual(boatRecipe.pattern, ["# #", "###"]);
+    assert.ok(files.some((f) => f.path.endsWith("/recipe/maple_chest_boat.json")));
+    const itemTexture = files.find((f) => f.path === `${assets}/textures/item/maple_boat.png`);
+    assert.ok(itemTexture, "boat item texture");
+    const boatEntity = files.find((f) => f.path === `${assets}/textures/entity/boat/maple.png`);
+    assert.deepStrictEqual(boatEntity?.copyFromVanillaPaths, ["entity/boat/oak"]);
+    const chestEntity = files.find((f) => f.path === `${assets}/textures/entity/chest_boat/maple.png`);
+    assert.deepStrictEqual(chestEntity?.copyFromVanillaPaths, ["entity/chest_boat/oak"]);
+  });
+
+  it("specs without wood types do not depend on the Terraform API", () => {
+    const expanded = expandSpecTier1(minimalTier1Spec({ items: [{ id: "ruby", name: "Ruby" }] }));
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    assert.ok(!files.find((f) => f.path === "build.gradle")!.contents.includes("terraformersmc"));
+    assert.ok(!files.find((f) => f.path === "src/main/resources/fabric.mod.json")!.contents.includes("terraform"));
+  });
+});
+
+describe("wood trees", () => {
+  function mapleTreeFiles(tree: { biomeTags?: string[]; perChunk?: number } = { biomeTags: ["#minecraft:is_forest"], perChunk: 1 }) {
+    const spec = minimalTier1Spec({ woodTypes: [{ id: "maple", displayName: "Maple", tree }] });
+    const expanded = expandSpecTier1(spec);
+    return materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+  }
+  const data = "src/main/resources/data";
+  const assets = "src/main/resources/assets/test_mod";
+
+  it("registers leaves, sapling with a SaplingGenerator and a potted sapling without a BlockItem", () => {
+    const files = mapleTreeFiles();
+    const main = files.find((f) => f.path.endsWith("Mod.java"))!.contents;
+    assert.ok(main.includes("new LeavesBlock(AbstractBlock.Settings.copy(Blocks.OAK_LEAVES))"));
+    assert.ok(main.includes('new SaplingGenerator(MOD_ID + ":maple", Optional.empty(), Optional.of(RegistryKey.of(RegistryKeys.CONFIGURED_FEATURE, Identifier.of(MOD_ID, "maple_tree"))), Optional.empty())'));
+    assert.ok(main.includes("new FlowerPotBlock(maple_saplingBlock, AbstractBlock.Settings.copy(Blocks.POTTED_OAK_SAPLING))"));
+    assert.ok(!main.includes('Identifier.of(MOD_ID, "maple_potted_sapling"), new BlockItem('), "pot has no item");
+    assert.ok(!main.includes('entries.add(Registries.ITEM.get(Identifier.of(MOD_ID, "maple_potted_sapling")))'));
+    assert.ok(main.includes("GenerationStep.Feature.VEGETAL_DECORATION"));
+    assert.ok(main.includes("import net.minecraft.block.SaplingGenerator;") && main.includes("import java.util.Optional;"));
+  });
+
+  it("emits the tree configured/placed features using the wood's log and leaves", () => {
+    const files = mapleTreeFiles({ biomeTags: ["#minecraft:is_forest"], perChunk: 0.5 });
+    const configured = JSON.parse(files.find((f) => f.path === `${data}/test_mod/worldgen/configured_feature/maple_tree.json`)!.contents);
+    assert.strictEqual(configured.type, "minecraft:tree");
+    assert.strictEqual(configured.config.trunk_provider.state.Name, "test_mod:maple_log");
+    assert.strictEqual(configured.config.foliage_provider.state.Name, "test_mod:maple_leaves");
+    const placed = JSON.parse(files.find((f) => f.path === `${data}/test_mod/worldgen/placed_feature/maple_tree.json`)!.contents);
+    assert.strictEqual(placed.feature, "test_mod:maple_tree");
+    assert.deepStrictEqual(placed.placement[0], { type: "minecraft:rarity_filter", chance: 2 });
+
+    const saplingOnly = mapleTreeFiles({});
+    assert.ok(saplingOnly.some((f) => f.path.endsWith("/configured_feature/maple_tree.json")));
+    assert.ok(!saplingOnly.some((f) => f.path.endsWith("/placed_feature/maple_tree.json")), "no biome placement without biomeTags");
+    assert.ok(!saplingOnly.find((f) => f.path.endsWith("Mod.java"))!.contents.includes("VEGETAL_DECORATION"));
+  });
+
+  it("emits decay loot, tags and models for leaves, sapling and pot", () => {
+    const files = mapleTreeFiles();
+    assert.doesNotThrow(() => validateLootTableJson(files));
+    const leavesLoot = files.find((f) => f.path === `${data}/test_mod/loot_table/blocks/maple_leaves.json`)!.contents;
+    assert.ok(leavesLoot.includes('"name":"test_mod:maple_sapling"') && leavesLoot.includes('"name":"minecraft:stick"'));
+    const potLoot = files.find((f) => f.path === `${data}/test_mod/loot_table/blocks/maple_potted_sapling.json`)!.contents;
+    assert.ok(potLoot.includes("minecraft:flower_pot") && potLoot.includes("test_mod:maple_sapling"));
+
+    const values = (path: string) => JSON.parse(files.find((f) => f.path === path)!.contents).values as string[];
+    assert.ok(values(`${data}/minecraft/tags/blocks/leaves.json`).includes("test_mod:maple_leaves"));
+    assert.ok(values(`${data}/minecraft/tags/blocks/logs.json`).includes("test_mod:maple_log"), "leaves decay needs #logs");
+    assert.ok(values(`${data}/minecraft/tags/items/saplings.json`).includes("test_mod:maple_sapling"));
+    assert.ok(values(`${data}/minecraft/tags/blocks/flower_pots.json`).includes("test_mod:maple_potted_sapling"));
+
+    const saplingModel = JSON.parse(files.find((f) => f.path === `${assets}/models/block/maple_sapling.json`)!.contents);
+    assert.strictEqual(saplingModel.parent, "minecraft:block/cross");
+    const saplingItem = JSON.parse(files.find((f) => f.path === `${assets}/models/item/maple_sapling.json`)!.contents);
+    assert.strictEqual(saplingItem.parent, "minecraft:item/generated");
+    const potModel = JSON.parse(files.find((f) => f.path === `${assets}/models/block/maple_potted_sapling.json`)!.contents);
+    assert.deepStrictEqual(potModel, { parent: "minecraft:block/flower_pot_cross", textures: { plant: "test_mod:block/maple_sapling" } });
+    assert.ok(!files.some((f) => f.path === `${assets}/textures/block/maple_potted_sapling.png`));
+  });
+});
+
+describe("food items", () => {
+  it("registers edible items with a FoodComponent and adds them to the vanilla food tab when enabled", () => {
+    const spec = minimalTier1Spec({
+      creativeTab: { alsoVanillaTabs: true },
+      items: [
+        { id: "cheese", name: "Cheese", food: { nutrition: 4, saturation: 0.3 } },
+        {
+          id: "moldy_cheese",
+          name: "Moldy Cheese",
+          food: {
+            nutrition: 2,
+            saturation: 0.1,
+            alwaysEdible: true,
+            eatSeconds: 0.8,
+            effects: [{ effect: "minecraft:hunger", durationSeconds: 30, probability: 0.8 }],
+          },
+        },
+        { id: "ruby", name: "Ruby" },
+      ],
+    });
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const main = files.find((f) => f.path.endsWith("Mod.java"))!.contents;
+    assert.ok(
+      main.includes(
+        'Identifier.of(MOD_ID, "cheese"), new Item(new Item.Settings().food(new FoodComponent(4, 2.4F, false, 1.6F, Optional.empty(), List.of()))));'
+      )
+    );
+    assert.ok(
+      main.includes(
+        "new FoodComponent(2, 0.4F, true, 0.8F, Optional.empty(), List.of(new FoodComponent.StatusEffectEntry(new StatusEffectInstance(StatusEffects.HUNGER, 600, 0), 0.8F)))"
+      )
+    );
+    assert.ok(main.includes('Identifier.of(MOD_ID, "ruby"), new Item(new Item.Settings()));'), "non-food stays bare");
+    assert.ok(main.includes("import net.minecraft.component.type.FoodComponent;"));
+    const foodTab = main.slice(main.indexOf("ItemGroups.FOOD_AND_DRINK"));
+    assert.ok(foodTab.includes('"cheese"') && foodTab.includes('"moldy_cheese"'));
+  });
+});
+
+describe("creative tab", () => {
+  function mapleRubyFiles(creativeTab?: ModSpecV1["creativeTab"]) {
+    const spec = minimalTier1Spec({
+      modName: "Maple Things",
+      items: [{ id: "ruby", name: "Ruby" }],
+      blocks: [{ id: "ruby_block", name: "Ruby Block" }],
+      woodTypes: [{ id: "maple", displayName: "Maple" }],
+      ...(creativeTab && { creativeTab }),
+    });
+    const expanded = expandSpecTier1(spec);
+    return materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+  }
+
+  it("registers one mod ItemGroup ordered materials, blocks, wood set, with a translated title", () => {
+    const files = mapleRubyFiles();
+    const main = files.find((f) => f.path.endsWith("Mod.java"))!.contents;
+    assert.ok(main.includes('Registry.register(Registries.ITEM_GROUP, Identifier.of(MOD_ID, "main"), FabricItemGroup.builder()'));
+    assert.ok(main.includes('.icon(() -> new ItemStack(Registries.ITEM.get(Identifier.of(MOD_ID, "maple_log"))))'), "wood log is the icon");
+    assert.ok(main.includes('.displayName(Text.translatable("itemGroup." + MOD_ID + ".main"))'));
+    const order = ["ruby", "ruby_block", "maple_log", "maple_planks", "maple_boat"].map((id) =>
+      main.indexOf(`entries.add(Registries.ITEM.get(Identifier.of(MOD_ID, "${id}")));`)
+    );
+    assert.ok(order.every((i, n) => i > 0 && (n === 0 || i > order[n - 1])), `family order: ${order.join(",")}`);
+    assert.ok(!main.includes("ItemGroups.INGREDIENTS") && !main.includes("ItemGroups.BUILDING_BLOCKS"), "no vanilla tabs by default");
+    const lang = JSON.parse(files.find((f) => f.path.endsWith("/lang/en_us.json"))!.contents);
+    assert.strictEqual(lang["itemGroup.test_mod.main"], "Maple Things");
+  });
+
+  it("uses the configured icon and also fills vanilla tabs when enabled", () => {
+    const main = mapleRubyFiles({ alsoVanillaTabs: true, iconId: "ruby" }).find((f) => f.path.endsWith("Mod.java"))!.contents;
+    assert.ok(main.includes('.icon(() -> new ItemStack(Registries.ITEM.get(Identifier.of(MOD_ID, "ruby"))))'));
+    assert.ok(main.includes("ItemGroups.INGREDIENTS") && main.includes("ItemGroups.BUILDING_BLOCKS"));
+  });
+});
+
+
+describe("item properties", () => {
+  it("properties compile into Item.Settings before the food component; durability drops the stack size", () => {
+    const spec = minimalTier1Spec({
+      items: [
+        { id: "relic_wand", name: "Relic Wand", properties: { maxCount: 16, rarity: "epic", fireproof: true, maxDamage: 64 } },
+        { id: "golden_cheese", name: "Golden Cheese", properties: { maxCount: 16, rarity: "rare" }, food: { nutrition: 4, saturation: 0.3 } },
+        { id: "pebble", name: "Pebble", properties: { rarity: "common" } },
+      ],
+    });
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const main = files.find((f) => f.path.endsWith("Mod.java") && f.contents.includes("onInitialize"))!.contents;
+    assert.ok(main.includes("(new Item.Settings().rarity(Rarity.EPIC).fireproof().maxDamage(64))"), main);
+    assert.ok(main.includes("(new Item.Settings().maxCount(16).rarity(Rarity.RARE).food(new FoodComponent("));
+    assert.ok(main.includes('"pebble"), new Item(new Item.Settings()));'));
+    assert.ok(main.includes("import net.minecraft.util.Rarity;"));
+    assert.deepStrictEqual(expanded.descriptors.find((d) => d.contentId === "relic_wand"), {
+      type: "handheld_item",
+      contentId: "relic_wand",
+      material: "generic",
+      rarity: "epic",
+    });
+  });
+});
+
+describe("loot injection", () => {
+  it("chest ModLoot becomes a LootTableEvents.MODIFY pool with rarity-bounded weights and an empty remainder", () => {
+    const spec = minimalTier1Spec({
+      items: [
+        { id: "relic", name: "Relic", properties: { rarity: "epic" } },
+        { id: "coin", name: "Coin" },
+      ],
+      loot: [
+        {
+          id: "dungeon_loot",
+          type: "chest",
+          targetId: "minecraft:chests/simple_dungeon",
+          entries: [{ itemId: "relic", weight: 50 }, { itemId: "coin", minCount: 2, maxCount: 5 }],
+        },
+        { id: "city_loot", type: "chest", targetId: "chests/ancient_city", entries: [{ itemId: "relic" }] },
+      ],
+    });
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const main = files.find((f) => f.path.endsWith("Mod.java") && f.contents.includes("onInitialize"))!.contents;
+    assert.ok(main.includes("LootTableEvents.MODIFY.register((key, tableBuilder, source, registries) -> {"), main);
+    assert.ok(main.includes("if (!source.isBuiltin()) return;"));
+    assert.ok(
+      main.includes(
+        'if (tableId.equals("minecraft:chests/simple_dungeon")) {\n\t\t\t\ttableBuilder.pool(LootPool.builder().rolls(ConstantLootNumberProvider.create(1))' +
+          '.with(ItemEntry.builder(Registries.ITEM.get(Identifier.of(MOD_ID, "relic"))).weight(2))' +
+          '.with(ItemEntry.builder(Registries.ITEM.get(Identifier.of(MOD_ID, "coin"))).weight(20).apply(SetCountLootFunction.builder(UniformLootNumberProvider.create(2, 5))))' +
+          ".with(EmptyEntry.builder().weight(78)));"
+      ),
+      "epic weight clamped to 2, common default 20"
+    );
+    assert.ok(main.includes('if (tableId.equals("minecraft:chests/ancient_city")) {'));
+    assert.ok(main.includes("import net.fabricmc.fabric.api.loot.v3.LootTableEvents;"));
+  });
+
+  it("chest ModLoots merged into one table beyond the pool weight throw instead of dropping entries", () => {
+    const coins = Array.from({ length: 6 }, (_, i) => ({ id: `coin_${i}`, name: `Coin ${i}` }));
+    const spec = minimalTier1Spec({
+      items: coins,
+      loot: [
+        { id: "a", type: "chest", targetId: "chests/simple_dungeon", entries: coins.slice(0, 3).map((c) => ({ itemId: c.id })) },
+        { id: "b", type: "chest", targetId: "minecraft:chests/simple_dungeon", entries: coins.slice(3).map((c) => ({ itemId: c.id })) },
+      ],
+    });
+    const expanded = expandSpecTier1(spec);
+    assert.throws(
+      () => materializeTier1(expanded, composeTier1Stub(expanded.descriptors)),
+      /Chest loot for minecraft:chests\/simple_dungeon: entry weights exceed the pool's 100 at "coin_5"/
+    );
+  });
+
+  it("mob drops add a chance-conditioned pool to the entity loot table", () => {
+    const spec = minimalTier1Spec({
+      features: ["hello-world", "mob-drop"],
+      items: [{ id: "rotten_cheese", name: "Rotten Cheese" }],
+      mobDrops: [
+        { entityId: "minecraft:zombie", itemId: "rotten_cheese", chance: 0.025, lootingBonus: 0.01 },
+        { entityId: "husk", itemId: "rotten_cheese", chance: 0.5, killedByPlayer: false, maxCount: 3 },
+      ],
+    });
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const main = files.find((f) => f.path.endsWith("Mod.java") && f.contents.includes("onInitialize"))!.contents;
+    assert.ok(
+      main.includes(
+        'if (tableId.equals("minecraft:entities/zombie")) {\n\t\t\t\ttableBuilder.pool(LootPool.builder().rolls(ConstantLootNumberProvider.create(1))' +
+          ".conditionally(KilledByPlayerLootCondition.builder())" +
+          ".conditionally(RandomChanceWithEnchantedBonusLootCondition.builder(registries, 0.025F, 0.01F))" +
+          '.with(ItemEntry.builder(Registries.ITEM.get(Identifier.of(MOD_ID, "rotten_cheese")))));'
+      ),
+      main
+    );
+    assert.ok(
+      main.includes(
+        'if (tableId.equals("minecraft:entities/husk")) {\n\t\t\t\ttableBuilder.pool(LootPool.builder().rolls(ConstantLootNumberProvider.create(1))' +
+          ".conditionally(RandomChanceLootCondition.builder(0.5F))" +
+          '.with(ItemEntry.builder(Registries.ITEM.get(Identifier.of(MOD_ID, "rotten_cheese"))).apply(SetCountLootFunction.builder(UniformLootNumberProvider.create(1, 3)))));'
+      ),
+      "no killed-by-player condition when disabled"
+    );
+  });
+});
+
+describe("behavior codegen", () => {
+  const behaviorClass = (id: string, name: string, description?: string, properties?: ModItemProperties) => {
+    const expanded = expandSpecTier1(minimalTier1Spec({ items: [{ id, name, properties }] }));
+    const plan = planFromIntent({ name, description, category: "item" });
+    const files = materializeTier1WithPlans(expanded, composeTier1Stub(expanded.descriptors), [plan]);
+    const main = files.find((f) => f.path.endsWith("Mod.java") && f.contents.includes("onInitialize"))!.contents;
+    return { java: files.find((f) => f.path.endsWith("Item.java"))?.contents, main };
+  };
+
+  it("composes raycast, lightning, damage, particles, sound and cooldown into use()", () => {
+    const { java, main } = behaviorClass("storm_wand", "Storm Wand", "shoots lightning");
+    assert.ok(java, "custom item class");
+    assert.ok(main.includes('Identifier.of(MOD_ID, "storm_wand"), new StormWandItem('));
+    const order = [
+      "ProjectileUtil.raycast(",
+      "new LightningEntity(EntityType.LIGHTNING_BOLT, world)",
+      "for (LivingEntity entity : targets) {",
+      "entity.damage(world.getDamageSources().indirectMagic(user, user), DAMAGE);",
+      "serverWorld.spawnParticles(ParticleTypes.ELECTRIC_SPARK",
+      "SoundEvents.ENTITY_LIGHTNING_BOLT_THUNDER",
+      "user.getItemCooldownManager().set(this, COOLDOWN_TICKS);",
+    ].map((s) => java!.indexOf(s));
+    assert.ok(order.every((i, n) => i > 0 && (n === 0 || i > order[n - 1])), `fragment order: ${order.join(",")}`);
+    assert.ok(java!.includes("private static final int COOLDOWN_TICKS = 40;"), "spawn_entity raises the cooldown to its bound");
+  });
+
+  it("damageable items lose durability on each use; others do not", () => {
+    const wand = behaviorClass("storm_wand", "Storm Wand", "shoots lightning", { maxDamage: 64 }).java!;
+    const damage = wand.indexOf("stack.damage(1, user, LivingEntity.getSlotForHand(hand));");
+    assert.ok(damage > wand.indexOf("user.getItemCooldownManager().set(this, COOLDOWN_TICKS);"), "wears after the effects");
+    assert.ok(damage < wand.indexOf("return TypedActionResult.success(stack, world.isClient());"));
+    assert.ok(wand.includes("import net.minecraft.entity.LivingEntity;"));
+    const charm = behaviorClass("healing_charm", "Healing Charm").java!;
+    assert.ok(!charm.includes("stack.damage("));
+  });
+
+  it("explosions hit an area capped by maxEntities; healing buffs the user", () => {
+    const bomb = behaviorClass("bomb", "Bomb", "explosion").java!;
+    assert.ok(bomb.includes(`private static final int MAX_TARGETS = ${PRIMITIVE_REGISTRY.area_of_effect.safety.maxEntities};`));
+    assert.ok(bomb.includes(".stream().limit(MAX_TARGETS).toList();"));
+    assert.ok(!bomb.includes("LightningEntity"));
+    const charm = behaviorClass("healing_charm", "Healing Charm").java!;
+    assert.ok(charm.includes("user.addStatusEffect(new StatusEffectInstance(StatusEffects.REGENERATION, EFFECT_DURATION_TICKS, 0));"));
+    assert.ok(charm.includes("private static final int EFFECT_DURATION_TICKS = 200;"));
+    assert.ok(!charm.includes("targets"), "no targeting without raycast or area");
+  });
+
+  it("keeps every range constant within the primitive's safety bound", () => {
+    const bounds: Record<string, number | undefined> = {
+      MAX_RANGE: PRIMITIVE_REGISTRY.raycast_target.safety.maxRange,
+      SPAWN_RANGE: PRIMITIVE_REGISTRY.spawn_entity.safety.maxRange,
+      AREA_RADIUS: PRIMITIVE_REGISTRY.area_of_effect.safety.maxRange,
+      DAMAGE_RANGE: PRIMITIVE_REGISTRY.apply_damage.safety.maxRange,
+      EFFECT_RANGE: PRIMITIVE_REGISTRY.apply_status_effect.safety.maxRange,
+      PARTICLE_RANGE: PRIMITIVE_REGISTRY.particle_effect.safety.maxRange,
+      SOUND_RANGE: PRIMITIVE_REGISTRY.sound_effect.safety.maxRange,
+    };
+    const intents: Array<[string, string, string?]> = [
+      ["storm_wand", "Storm Wand", "shoots lightning"],
+      ["fire_staff", "Fire Staff"],
+      ["bomb", "Bomb", "explosion"],
+      ["spell_book", "Spell Book", "casts a spell"],
+      ["magic_wand", "Magic Wand"],
+    ];
+    for (const [id, name, description] of intents) {
+      const java = behaviorClass(id, name, description).java!;
+      for (const [, constant, value] of java.matchAll(/static final double (\w+) = ([\d.]+);/g)) {
+        assert.ok(bounds[constant] !== undefined && Number(value) <= bounds[constant]!, `${name}: ${constant} = ${value}`);
+      }
+    }
+  });
+
+  it("plain items and cooldown-only plans stay plain Items", () => {
+    assert.strictEqual(behaviorClass("vague_item", "Something vague", "does something unknown").java, undefined);
+    const { java, main } = behaviorClass("gadget", "Gadget", "use it");
+    assert.strictEqual(java, undefined);
+    assert.ok(main.includes('Identifier.of(MOD_ID, "gadget"), new Item('));
+  });
+});
+
+describe("lang files", () => {
+  it("writes a lang file per locale with translated family names and English fallback", () => {
+    const spec = minimalTier1Spec({
+      locales: ["es_es", "de_de", "pt_br"],
+      items: [{ id: "magic_wand", name: "Magic Wand" }],
+      woodTypes: [{ id: "maple", displayName: "Maple" }],
+    });
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const lang = (locale: string) =>
+      JSON.parse(files.find((f) => f.path === `src/main/resources/assets/test_mod/lang/${locale}.json`)!.contents);
+    assert.strictEqual(lang("es_es")["block.test_mod.maple_planks"], "Tablones de arce");
+    assert.strictEqual(lang("de_de")["block.test_mod.maple_stairs"], "Ahorntreppe");
+    assert.strictEqual(lang("pt_br")["item.test_mod.maple_boat"], "Barco de bordo");
+    assert.strictEqual(lang("es_es")["item.test_mod.magic_wand"], "Magic Wand", "unknown names stay English");
+    assert.strictEqual(lang("de_de")["mod.test_mod.name"], "Test Mod");
+    assert.deepStrictEqual(Object.keys(lang("pt_br")), Object.keys(lang("en_us")));
+    assert.doesNotThrow(() => validateLangCoverage(expanded, files));
+  });
+
+  it("uses a custom translator and fails coverage when a locale misses a key", () => {
+    const spec = minimalTier1Spec({ locales: ["fr_fr"], items: [{ id: "ruby", name: "Ruby" }] });
+    const expanded = expandSpecTier1(spec);
+    const translator = { translate: (name: string, locale: string) => (locale === "fr_fr" ? `${name} (fr)` : undefined) };
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors), { translator });
+    const frPath = "src/main/resources/assets/test_mod/lang/fr_fr.json";
+    const fr = files.find((f) => f.path === frPath)!;
+    assert.strictEqual(JSON.parse(fr.contents)["item.test_mod.ruby"], "Ruby (fr)");
+    const broken = files.map((f) => (f === fr ? { ...f, contents: "{}" } : f));
+    assert.throws(() => validateLangCoverage(expanded, broken), /fr_fr\.json is missing keys: item\.test_mod\.ruby/);
+  });
+});
+
+describe("spec tags", () => {
+  const tagValues = (files: { path: string; contents: string }[], path: string): string[] | undefined => {
+    const file = files.find((f) => f.path === `src/main/resources/data/${path}.json`);
+    return file ? JSON.parse(file.contents).values : undefined;
+  };
+
+  it("ore and storage blocks get mineable/needs tags, requiresTool and c: convention tags", () => {
+    const { files } = rubySetFiles();
+    const pickaxe = tagValues(files, "minecraft/tags/blocks/mineable/pickaxe") ?? [];
+    assert.ok(["generated:ruby_ore", "generated:deepslate_ruby_ore", "generated:ruby_block"].every((id) => pickaxe.includes(id)));
+    assert.deepStrictEqual(tagValues(files, "minecraft/tags/blocks/needs_stone_tool"), [
+      "generated:deepslate_ruby_ore",
+      "generated:ruby_ore",
+    ]);
+    assert.deepStrictEqual(tagValues(files, "c/tags/blocks/ores/ruby"), ["generated:deepslate_ruby_ore", "generated:ruby_ore"]);
+    assert.deepStrictEqual(tagValues(files, "c/tags/items/gems/ruby"), ["generated:ruby"]);
+    assert.deepStrictEqual(tagValues(files, "c/tags/items/storage_blocks"), ["generated:ruby_block"]);
+    assert.strictEqual(tagValues(files, "c/tags/blocks/gems/ruby"), undefined, "gems are item tags only");
+    const main = files.find((f) => f.path.endsWith("/GeneratedMod.java"))!.contents;
+    assert.ok(main.includes('Identifier.of(MOD_ID, "ruby_ore"), new Block(AbstractBlock.Settings.create().strength(3.0F).requiresTool()));'));
+  });
+
+  it("blockSettings compile into the Settings chain; hardness falls back to mining", () => {
+    const spec = minimalTier1Spec({
+      blocks: [
+        {
+          id: "glow_crystal",
+          name: "Glow Crystal",
+          mining: { tool: "pickaxe", hardness: 4 },
+          blockSettings: { resistance: 6, sound: "amethyst_block", luminance: 12, mapColor: "purple" },
+        },
+        { id: "slick_ice", name: "Slick Ice", blockSettings: { hardness: 0.5, slipperiness: 0.98, noCollision: true } },
+      ],
+    });
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const main = files.find((f) => f.path.endsWith("Mod.java") && f.contents.includes("onInitialize"))!.contents;
+    assert.ok(
+      main.includes(
+        "new Block(AbstractBlock.Settings.create().mapColor(MapColor.PURPLE).strength(4.0F, 6.0F)" +
+          ".sounds(BlockSoundGroup.AMETHYST_BLOCK).luminance(state -> 12).requiresTool())"
+      ),
+      main
+    );
+    assert.ok(main.includes("new Block(AbstractBlock.Settings.create().strength(0.5F).slipperiness(0.98F).noCollision())"));
+    assert.ok(main.includes("import net.minecraft.sound.BlockSoundGroup;") && main.includes("import net.minecraft.block.MapColor;"));
+  });
+
+  it("inferred slime settings emit the yarn MapColor constant and pass validation", () => {
+    const { blockSettings } = inferBlockSettings("Lime Jelly", "lime_jelly");
+    const spec = minimalTier1Spec({ blocks: [{ id: "lime_jelly", name: "Lime Jelly", blockSettings }] });
+    assert.deepStrictEqual(validateBlockSettings(spec.blocks ?? []).errors, []);
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const main = files.find((f) => f.path.endsWith("Mod.java") && f.contents.includes("onInitialize"))!.contents;
+    assert.ok(main.includes(".mapColor(MapColor.PALE_GREEN)"), main);
+  });
+
+  it("declared tags merge with generated tags and only list entries of their registry", () => {
+    const spec = minimalTier1Spec({
+      items: [{ id: "ruby", name: "Ruby" }],
+      blocks: [{ id: "ruby_block", name: "Ruby Block", mining: { tool: "pickaxe", requiredLevel: 2 } }],
+      woodTypes: [{ id: "maple", displayName: "Maple" }],
+      tags: [
+        { id: "minecraft:mineable/axe", registry: "blocks", values: ["ruby_block", "ruby"] },
+        { id: "beacon_payment_items", registry: "items", values: ["ruby", "ruby", "#c:gems/ruby"] },
+      ],
+    });
+    const expanded = expandSpecTier1(spec);
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    assert.deepStrictEqual(tagValues(files, "minecraft/tags/blocks/needs_iron_tool"), ["test_mod:ruby_block"]);
+    const axe = tagValues(files, "minecraft/tags/blocks/mineable/axe") ?? [];
+    assert.ok(axe.includes("test_mod:ruby_block") && axe.includes("test_mod:maple_planks"), "merged with wood mineable/axe");
+    assert.ok(!axe.includes("test_mod:ruby"), "items are dropped from block tags");
+    assert.strictEqual(files.filter((f) => f.path.endsWith("/tags/blocks/mineable/axe.json")).length, 2, "minecraft + mod namespace only");
+    assert.deepStrictEqual(tagValues(files, "minecraft/tags/items/beacon_payment_items"), ["#c:gems/ruby", "test_mod:ruby"]);
+  });
+});
+
+describe("block ticks", () => {
+  const tickingFiles = (tickBehaviors: NonNullable<ModSpecV1["blocks"]>[number]["tickBehaviors"]) => {
+    const expanded = expandSpecTier1(
+      minimalTier1Spec({ blocks: [{ id: "radioactive_cheese", name: "Radioactive Cheese", tickBehaviors }] })
+    );
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const main = files.find((f) => f.path.endsWith("Mod.java") && f.contents.includes("onInitialize"))!.contents;
+    return { java: files.find((f) => f.path.endsWith("/RadioactiveCheeseBlock.java"))?.contents, main };
+  };
+
+  it("compiles tick behaviors into a scheduledTick block class registered in place of Block", () => {
+    const { java, main } = tickingFiles([
+      { effect: "transform", intervalTicks: 40, condition: "near_heat", transformInto: "minecraft:water" },
+      { effect: "status_effect", intervalTicks: 20, radius: 3, statusEffect: "minecraft:poison", durationTicks: 100 },
+    ]);
+    assert.ok(java, "ticking block class");
+    assert.ok(main.includes('Identifier.of(MOD_ID, "radioactive_cheese"), new RadioactiveCheeseBlock(AbstractBlock.Settings.create()'));
+    assert.ok(java!.includes("private static final int[] INTERVALS = {20, 40};"), "one entry per distinct interval");
+    assert.ok(java!.includes("world.scheduleBlockTick(pos, this, ticksUntilNextBehavior(world));"));
+    assert.ok(java!.includes("super(settings.ticksRandomly());"), "world-generated blocks start ticking on a random tick");
+    const poison = java!.indexOf("new StatusEffectInstance(StatusEffects.POISON, 100, 0)");
+    const melt = java!.indexOf("if (world.getTime() % 40L == 0 && isNearHeat(world, pos)) {");
+    assert.ok(poison > 0 && melt > poison, "the transform runs last");
+    assert.ok(java!.includes("world.setBlockState(pos, Blocks.WATER.getDefaultState());"));
+  });
+
+  it("schedules each behavior on its own interval instead of their gcd", () => {
+    const { java } = tickingFiles([
+      { effect: "ambient_particle", intervalTicks: 20 },
+      { effect: "status_effect", intervalTicks: 21, radius: 3, statusEffect: "minecraft:poison" },
+    ]);
+    assert.ok(java!.includes("private static final int[] INTERVALS = {20, 21};"), java);
+    assert.ok(java!.includes("ticks = Math.min(ticks, interval - (int) (time % interval));"));
+    assert.ok(java!.includes("if (world.getTime() % 20L == 0) {"));
+    assert.ok(java!.includes("if (world.getTime() % 21L == 0) {"));
+    const single = tickingFiles([{ effect: "ambient_particle", intervalTicks: 20 }]).java!;
+    assert.ok(!single.includes("world.getTime() %"), "a single interval runs on every scheduled tick");
+  });
+
+  it("clamps radius, entities and interval to the safety registry", () => {
+    assert.strictEqual(TICK_BEHAVIOR_LIMITS.maxRadius, PRIMITIVE_REGISTRY.area_of_effect.safety.maxRange);
+    assert.strictEqual(TICK_BEHAVIOR_LIMITS.maxEntities, PRIMITIVE_REGISTRY.area_of_effect.safety.maxEntities);
+    assert.strictEqual(TICK_BEHAVIOR_LIMITS.minIntervalTicks, 20 / PRIMITIVE_REGISTRY.tick_behavior.safety.maxFrequency!);
+    assert.deepStrictEqual(PRIMITIVE_REGISTRY.tick_behavior.safety, PRIMITIVE_SAFETY_BOUNDS.tick_behavior);
+    const [clamped] = blockTickBehaviors({
+      id: "doom",
+      name: "Doom",
+      tickBehaviors: [{ effect: "status_effect", intervalTicks: 0, radius: 50, statusEffect: "minecraft:wither", durationTicks: 9999, amplifier: 9 }],
+    });
+    assert.deepStrictEqual(
+      { interval: clamped.intervalTicks, radius: clamped.radius, duration: clamped.durationTicks, amplifier: clamped.amplifier },
+      { interval: 1, radius: 8, duration: TICK_BEHAVIOR_LIMITS.maxDurationTicks, amplifier: TICK_BEHAVIOR_LIMITS.amplifierMax }
+    );
+    const { java } = tickingFiles([{ effect: "spread", intervalTicks: 200, radius: 2, spreadTag: "minecraft:dirt" }]);
+    assert.ok(java!.includes("private static final int RADIUS_0 = 2;"));
+    assert.ok(java!.includes('TagKey.of(RegistryKeys.BLOCK, Identifier.of("minecraft", "dirt"))'));
+  });
+
+  it("a bare spread tag defaults to the minecraft namespace", () => {
+    const { java } = tickingFiles([{ effect: "spread", intervalTicks: 200, radius: 2, spreadTag: "dirt" }]);
+    assert.ok(java!.includes('TagKey.of(RegistryKeys.BLOCK, Identifier.of("minecraft", "dirt"))'), java);
+  });
+
+  it("blocks without tick behaviors stay plain Blocks", () => {
+    const { java, main } = tickingFiles(undefined);
+    assert.strictEqual(java, undefined);
+    assert.ok(main.includes('Identifier.of(MOD_ID, "radioactive_cheese"), new Block('));
+  });
+});
+
+describe("block states", () => {
+  const stateMachine = {
+    states: ["idle", "charging", "depleted"],
+    transitions: [
+      { from: "idle", to: "charging", trigger: "use" as const },
+      { from: "charging", to: "depleted", trigger: "delay" as const, delayTicks: 60 },
+      { from: "depleted", to: "idle", trigger: "unpowered" as const },
+    ],
+  };
+  const expanded = expandSpecTier1(minimalTier1Spec({ blocks: [{ id: "mana_battery", name: "Mana Battery", stateMachine }] }));
+  const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+  const file = (suffix: string) => files.find((f) => f.path.endsWith(suffix));
+
+  it("generates an EnumProperty block class with use, delay and redstone transitions", () => {
+    const java = file("/ManaBatteryBlock.java")?.contents;
+    assert.ok(java, "state machine block class");
+    const main = files.find((f) => f.path.endsWith("Mod.java") && f.contents.includes("onInitialize"))!.contents;
+    assert.ok(main.includes('Identifier.of(MOD_ID, "mana_battery"), new ManaBatteryBlock('));
+    assert.ok(java!.includes('public static final EnumProperty<ManaBatteryBlockPhase> PHASE = EnumProperty.of("phase", ManaBatteryBlockPhase.class);'));
+    assert.ok(java!.includes('IDLE("idle"),') && java!.includes('DEPLETED("depleted");'));
+    assert.ok(java!.includes("builder.add(PHASE);"));
+    assert.ok(java!.includes("setDefaultState(getStateManager().getDefaultState().with(PHASE, ManaBatteryBlockPhase.IDLE));"));
+    assert.ok(java!.includes("case IDLE -> ManaBatteryBlockPhase.CHARGING;"), "use transition");
+    assert.ok(java!.includes("case CHARGING -> 60;") && java!.includes("case CHARGING -> enterState(world, pos, state, ManaBatteryBlockPhase.DEPLETED);"), "delay transition");
+    assert.ok(java!.includes("case DEPLETED -> powered ? null : ManaBatteryBlockPhase.IDLE;"), "redstone transition");
+    assert.ok(!java!.includes("isPlayerInRange"), "no player check without player_near");
+  });
+
+  it("writes a variant per state with its own model and texture", () => {
+    const blockstate = JSON.parse(file("/blockstates/mana_battery.json")!.contents);
+    assert.deepStrictEqual(blockstate.variants, {
+      "phase=idle": { model: "test_mod:block/mana_battery" },
+      "phase=charging": { model: "test_mod:block/mana_battery_charging" },
+      "phase=depleted": { model: "test_mod:block/mana_battery_depleted" },
+    });
+    const model = JSON.parse(file("/models/block/mana_battery_depleted.json")!.contents);
+    assert.strictEqual(model.textures.all, "test_mod:block/mana_battery_depleted");
+    const base = file("/textures/block/mana_battery.png")!;
+    const depleted = file("/textures/block/mana_battery_depleted.png")!;
+    assert.strictEqual(depleted.contents, "", "generated by the texture pipeline");
+    assert.strictEqual(depleted.placeholderMaterial, base.placeholderMaterial);
+    assert.deepStrictEqual(depleted.textureProfile?.visualMotifs, [...(base.textureProfile?.visualMotifs ?? []), "flakes"]);
+    assert.ok(!file("/models/block/mana_battery_idle.json"), "the first state uses the block model");
+  });
+
+  it("names the enum after the block so a property named block cannot shadow the Block import", () => {
+    const spec = minimalTier1Spec({ blocks: [{ id: "mana_battery", name: "Mana Battery", stateMachine: { ...stateMachine, property: "block" } }] });
+    const expanded = expandSpecTier1(spec);
+    const java = materializeTier1(expanded, composeTier1Stub(expanded.descriptors)).find((f) => f.path.endsWith("/ManaBatteryBlock.java"))!.contents;
+    assert.ok(java.includes("public enum ManaBatteryBlockBlock implements StringIdentifiable {"), java);
+    assert.ok(java.includes("public class ManaBatteryBlock extends Block {"));
+  });
+});
+
+describe("client entrypoint", () => {
+  const clientPath = "src/client/java/net/themodgenerator/test_mod/TestModModClient.java";
+  function materialize(overrides: Partial<ModSpecV1>) {
+    const expanded = expandSpecTier1(minimalTier1Spec(overrides));
+    return materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+  }
+
+  it("registers render layers, leaves tint and the hanging sign renderer for a wood type", () => {
+    const files = materialize({ woodTypes: [{ id: "maple", displayName: "Maple", tree: {} }] });
+    const client = files.find((f) => f.path === clientPath)?.contents;
+    assert.ok(client, "client entrypoint must be generated");
+    assert.ok(client.includes('BlockRenderLayerMap.INSTANCE.putBlock(block("maple_door"), RenderLayer.getCutout());'));
+    assert.ok(client.includes('BlockRenderLayerMap.INSTANCE.putBlock(block("maple_trapdoor"), RenderLayer.getCutout());'));
+    assert.ok(client.includes('BlockRenderLayerMap.INSTANCE.putBlock(block("maple_leaves"), RenderLayer.getCutoutMipped());'));
+    assert.ok(client.includes('BlockRenderLayerMap.INSTANCE.putBlock(block("maple_potted_sapling"), RenderLayer.getCutout());'));
+    assert.ok(!client.includes('block("maple_planks")'), "solid blocks keep the default layer");
+    assert.ok(client.includes("ColorProviderRegistry.BLOCK.register("));
+    assert.ok(client.includes("BlockEntityRendererFactories.register(TestModMod.HANGING_SIGN_BLOCK_ENTITY, HangingSignBlockEntityRenderer::new);"));
+    assert.ok(client.includes("TerraformBoatClientHelper.registerModelLayers"));
+    const modJson = JSON.parse(files.find((f) => f.path === "src/main/resources/fabric.mod.json")!.contents);
+    assert.deepStrictEqual(modJson.entrypoints.client, ["net.themodgenerator.test_mod.TestModModClient"]);
+    assert.ok(files.find((f) => f.path === "build.gradle")!.contents.includes('sourceSet("client")'));
+    assert.doesNotThrow(() => validateClientSourcesSafe(files));
+  });
+
+  it("uses the translucent layer for crystal and glass blocks and skips the entrypoint without client work", () => {
+    const files = materialize({
+      blocks: [
+        { id: "crystal_block", name: "Crystal Block" },
+        { id: "tinted_glass", name: "Tinted Glass" },
+        { id: "stone_brick", name: "Stone Brick" },
+      ],
+    });
+    const client = files.find((f) => f.path === clientPath)!.contents;
+    assert.ok(client.includes('putBlock(block("crystal_block"), RenderLayer.getTranslucent())'));
+    assert.ok(client.includes('putBlock(block("tinted_glass"), RenderLayer.getTranslucent())'));
+    assert.ok(!client.includes("stone_brick"));
+    assert.ok(!client.includes("HANGING_SIGN_BLOCK_ENTITY"));
+
+    const plain = materialize({ blocks: [{ id: "stone_brick", name: "Stone Brick" }] });
+    assert.ok(!plain.some((f) => f.path.startsWith("src/client/")));
+    const modJson = JSON.parse(plain.find((f) => f.path === "src/main/resources/fabric.mod.json")!.contents);
+    assert.strictEqual(modJson.entrypoints.client, undefined);
+  });
+
+  it("puts block-family doors and trapdoors on the cutout layer", () => {
+    const files = materialize({
+      blockFamilies: [{ baseId: "steel", baseDisplayName: "Steel", familyType: "metal", variants: ["door", "trapdoor"] }],
+    });
+    const client = files.find((f) => f.path === clientPath)?.contents;
+    assert.ok(client, "family doors need the client entrypoint");
+    assert.ok(client.includes('BlockRenderLayerMap.INSTANCE.putBlock(block("steel_door"), RenderLayer.getCutout());'), client);
+    assert.ok(client.includes('BlockRenderLayerMap.INSTANCE.putBlock(block("steel_trapdoor"), RenderLayer.getCutout());'));
+    assert.ok(!client.includes('block("steel")'), "the base block stays solid");
+  });
+
+  it("validateClientSourcesSafe rejects charTyped code, client mixins and client imports in main", () => {
+    const files = materialize({ woodTypes: [{ id: "maple", displayName: "Maple" }] });
+    const withFile = (path: string, contents: string) => [...files.filter((f) => f.path !== path), { path, contents }];
+    assert.throws(
+      () => validateClientSourcesSafe(withFile(clientPath, "public boolean charTyped(char chr, int modifiers) { return super.charTyped(chr, modifiers); }")),
+      /must not reference "charTyped"/
+    );
+    assert.throws(
+      () => validateClientSourcesSafe(withFile("src/main/resources/test_mod.mixins.json", JSON.stringify({ client: ["ScreenCharTypedMixin"] }))),
+      /client mixins must be empty/
+    );
+    assert.throws(
+      () => validateClientSourcesSafe(withFile("src/main/java/net/themodgenerator/test_mod/Bad.java", "import net.minecraft.client.render.RenderLayer;\n")),
+      /imports client classes/
+    );
+  });
+});
+
+describe("item sprites", () => {
+  function textureFor(files: MaterializedFile[], id: string) {
+    return files.find((f) => f.path.endsWith(`/textures/item/${id}.png`));
+  }
+
+  it("flat items get a sprite shape from kind, name or blueprint and a synthesized palette instead of a vanilla copy", () => {
+    const expanded = expandSpecTier1(
+      minimalTier1Spec({
+        items: [
+          { id: "ruby", name: "Ruby", kind: "gem", itemRender: "flat" },
+          { id: "tin_nugget", name: "Tin Nugget", itemRender: "flat" },
+          { id: "magic_wand", name: "Magic Wand", itemRender: "flat" },
+        ],
+      })
+    );
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    assert.strictEqual(textureFor(files, "ruby")?.itemSprite?.shape, "gem");
+    assert.strictEqual(textureFor(files, "tin_nugget")?.itemSprite?.shape, "nugget");
+    assert.strictEqual(textureFor(files, "magic_wand")?.itemSprite?.shape, "rod");
+    const ruby = textureFor(files, "ruby")!;
+    assert.strictEqual(ruby.copyFromVanillaPaths, undefined);
+    assert.ok(ruby.itemSprite!.palette.length >= 3 && ruby.itemSprite!.palette.every((c) => /^#[0-9a-f]{6}$/i.test(c)));
+    const again = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    assert.deepStrictEqual(textureFor(again, "ruby")?.itemSprite, ruby.itemSprite);
+  });
+
+  it("element-model items, tools and user textures keep their existing textures", () => {
+    const expanded = expandSpecTier1(
+      minimalTier1Spec({
+        items: [
+          { id: "ruby_chunk", name: "Ruby Chunk", kind: "gem" },
+          { id: "ruby_pickaxe", name: "Ruby Pickaxe", kind: "tool", itemRender: "flat", tool: { kind: "pickaxe", materialId: "ruby" } },
+          { id: "painted_gem", name: "Painted Gem", kind: "gem", itemRender: "flat", texturePath: "textures/item/painted_gem.png" },
+        ],
+        materials: [{ id: "ruby", repairItemId: "ruby_chunk" }],
+      })
+    );
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    assert.strictEqual(textureFor(files, "ruby_chunk")?.itemSprite, undefined);
+    assert.ok(textureFor(files, "ruby_chunk")?.copyFromVanillaPaths?.length);
+    assert.strictEqual(textureFor(files, "ruby_pickaxe")?.itemSprite, undefined);
+    assert.strictEqual(textureFor(files, "painted_gem")?.itemSprite, undefined);
+  });
+
+  it("V2 gems, raw ores and ingots become sprites", () => {
+    const expanded = expandSpecTier1(
+      expandedModSpecV2ToV1(
+        expandModSpecV2({
+          schemaVersion: 2,
+          namespace: "example",
+          modId: "rubyores",
+          modName: "Ruby Ores",
+          minecraftVersion: "1.21.1",
+          fabricVersion: "0.15",
+          materials: [
+            { id: "ruby", category: "gem" },
+            { id: "tin", category: "ingot" },
+          ],
+        })
+      )
+    );
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    assert.strictEqual(textureFor(files, "ruby")?.itemSprite?.shape, "gem");
+    assert.strictEqual(textureFor(files, "raw_ruby")?.itemSprite?.shape, "raw");
+    assert.strictEqual(textureFor(files, "tin_ingot")?.itemSprite?.shape, "ingot");
+  });
+});
+
+describe("palette swap", () => {
+  function texture(files: MaterializedFile[], category: "item" | "block", id: string) {
+    return files.find((f) => f.path.endsWith(`/textures/${category}/${id}.png`));
+  }
+
+  it("element-model ingots, gems, nuggets and raw ores copy a vanilla template; flat items stay sprites", () => {
+    const expanded = expandSpecTier1(
+      minimalTier1Spec({
+        items: [
+          { id: "ruby", name: "Ruby", kind: "gem", colorHint: "red" },
+          { id: "raw_ruby", name: "Raw Ruby", kind: "raw" },
+          { id: "tin_ingot", name: "Tin Ingot" },
+          { id: "tin_nugget", name: "Tin Nugget", itemRender: "chunky" },
+          { id: "flat_ruby", name: "Flat Ruby", kind: "gem", itemRender: "flat" },
+        ],
+      })
+    );
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const ruby = texture(files, "item", "ruby")!;
+    assert.deepStrictEqual(ruby.paletteSwap, { variant: "gem", template: "item/diamond", palette: ["red"] });
+    assert.deepStrictEqual(ruby.copyFromVanillaPaths, ["item/diamond"]);
+    assert.strictEqual(texture(files, "item", "raw_ruby")?.paletteSwap?.template, "item/raw_iron");
+    assert.strictEqual(texture(files, "item", "tin_ingot")?.paletteSwap?.template, "item/iron_ingot");
+    assert.strictEqual(texture(files, "item", "tin_nugget")?.paletteSwap?.template, "item/iron_nugget");
+    assert.ok(texture(files, "item", "tin_ingot")!.paletteSwap!.palette.length >= 3);
+    assert.strictEqual(texture(files, "item", "flat_ruby")?.paletteSwap, undefined);
+    assert.strictEqual(texture(files, "item", "flat_ruby")?.itemSprite?.shape, "gem");
+    const enriched = materializeTier1WithPlans(expanded, composeTier1Stub(expanded.descriptors), []);
+    assert.strictEqual(texture(enriched, "item", "tin_ingot")?.textureSourceKey, "swap_ingot_item-iron_ingot");
+  });
+
+  it("bricks and planks blocks recolor stone bricks and oak planks; wood types, tools and user textures do not", () => {
+    const expanded = expandSpecTier1(
+      minimalTier1Spec({
+        blocks: [
+          { id: "jade_bricks", name: "Jade Bricks", colorHint: "green" },
+          { id: "ash_planks", name: "Ash Planks" },
+          { id: "painted_bricks", name: "Painted Bricks", texturePath: "textures/block/painted_bricks.png" },
+        ],
+        items: [
+          { id: "ruby_pickaxe", name: "Ruby Pickaxe", kind: "tool", itemRender: "flat", tool: { kind: "pickaxe", materialId: "ruby" } },
+        ],
+        materials: [{ id: "ruby", repairItemId: "ruby_pickaxe" }],
+        woodTypes: [{ id: "maple", displayName: "Maple" }],
+      })
+    );
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const bricks = texture(files, "block", "jade_bricks")!;
+    assert.deepStrictEqual(bricks.paletteSwap, { variant: "bricks", template: "block/stone_bricks", palette: ["green"] });
+    assert.deepStrictEqual(bricks.copyFromVanillaPaths, ["block/stone_bricks"]);
+    assert.strictEqual(texture(files, "block", "ash_planks")?.paletteSwap?.template, "block/oak_planks");
+    assert.strictEqual(texture(files, "block", "maple_planks")?.paletteSwap, undefined);
+    assert.strictEqual(texture(files, "block", "painted_bricks")?.paletteSwap, undefined);
+    assert.strictEqual(texture(files, "item", "ruby_pickaxe")?.paletteSwap, undefined);
+  });
+});
+
+describe("ore textures", () => {
+  function blockTexture(files: MaterializedFile[], id: string) {
+    return files.find((f) => f.path.endsWith(`/textures/block/${id}.png`));
+  }
+
+  it("V2 ores composite the material palette onto stone and deepslate with one shared cluster seed", () => {
+    const expanded = expandSpecTier1(
+      expandedModSpecV2ToV1(
+        expandModSpecV2({
+          schemaVersion: 2,
+          namespace: "example",
+          modId: "rubyores",
+          modName: "Ruby Ores",
+          minecraftVersion: "1.21.1",
+          fabricVersion: "0.15",
+          materials: [{ id: "ruby", category: "gem", palette: ["red", "#9b111e"] }],
+        })
+      )
+    );
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const stone = blockTexture(files, "ruby_ore")!;
+    const deepslate = blockTexture(files, "deepslate_ruby_ore")!;
+    assert.deepStrictEqual(stone.oreComposite, {
+      base: "stone",
+      palette: ["red", "#9b111e"],
+      seed: `${expanded.spec.modId}:ruby`,
+    });
+    assert.deepStrictEqual(deepslate.oreComposite, { ...stone.oreComposite, base: "deepslate" });
+    assert.strictEqual(stone.copyFromVanillaPaths, undefined);
+    assert.strictEqual(blockTexture(files, "ruby_block")?.oreComposite, undefined);
+  });
+
+  it("*_ore ids get a composite too: netherrack for nether ores, synthesized palette without a material palette", () => {
+    const expanded = expandSpecTier1(
+      minimalTier1Spec({
+        blocks: [
+          { id: "nether_cobalt_ore", name: "Nether Cobalt Ore" },
+          { id: "tin_ore", name: "Tin Ore", colorHint: "gray" },
+          { id: "painted_ore", name: "Painted Ore", texturePath: "textures/block/painted_ore.png" },
+        ],
+      })
+    );
+    const files = materializeTier1(expanded, composeTier1Stub(expanded.descriptors));
+    const nether = blockTexture(files, "nether_cobalt_ore")!.oreComposite!;
+    assert.strictEqual(nether.base, "netherrack");
+    assert.strictEqual(nether.seed, "test_mod:cobalt");
+    assert.ok(nether.palette.length >= 3);
+    assert.deepStrictEqual(blockTexture(files, "tin_ore")?.oreComposite?.palette, ["gray"]);
+    assert.strictEqual(blockTexture(files, "painted_ore")?.oreComposite, undefined);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Ore textures: vanilla stone, deepslate or netherrack with generated ore clusters on top, like vanilla ores.
+ * - Assets: textures/block/<id>.png carries oreComposite (base layer, material palette, cluster seed) instead of a
+ *   copied vanilla ore; the builder reads the base from vanilla assets and draws the clusters.
+ * Used for ModBlock kind "ore" and *_ore ids. The seed comes from the material, so <material>_ore and its
+ * deepslate_/nether_ variants share one cluster layout on different bases. Palette: the V2 material palette, then
+ * the block's colorHint, then a synthesized palette for the material name.
+ */
+
+import type { ExpandedSpecTier1 } from "@themodgenerator/spec";
+import { generatePaletteAndMotifs } from "../texture/palette-llm.js";
+import { interpretItemOrBlock } from "../interpretation.js";
+
+export type OreBaseTexture = "stone" | "deepslate" | "netherrack";
+
+/** Base layer, palette (color names or hex) and cluster seed the builder composites an ore texture from. */
+export interface OreComposite {
+  base: OreBaseTexture;
+  palette: string[];
+  seed: string;
+}
+
+/** True for blocks declared as ore (ModSpecV2 kind) or named like one. */
+export function isOreBlock(expanded: ExpandedSpecTier1, blockId: string): boolean {
+  const block = expanded.spec.blocks?.find((b) => b.id === blockId);
+  return block?.kind === "ore" || blockId.endsWith("_ore");
+}
+
+/** Vanilla block texture under the clusters: deepslate and nether variants by id, stone otherwise. */
+export function oreBaseTexture(blockId: string): OreBaseTexture {
+  const words = blockId.split("_");
+  if (words.includes("deepslate")) return "deepslate";
+  if (words.includes("nether") || words.includes("netherrack")) return "netherrack";
+  return "stone";
+}
+
+/** Material an ore block belongs to: materialRef, else the id without variant prefix and _ore suffix. */
+function oreMaterialId(expanded: ExpandedSpecTier1, blockId: string): string {
+  const block = expanded.spec.blocks?.find((b) => b.id === blockId);
+  if (block?.materialRef) return block.materialRef;
+  return blockId.replace(/^(deepslate|nether|netherrack)_/, "").replace(/_ore$/, "") || blockId;
+}
+
+/** Composite for an ore block, or null when the block is not an ore. */
+export function oreComposite(expanded: ExpandedSpecTier1, blockId: string): OreComposite | null {
+  if (!isOreBlock(expanded, blockId)) return null;
+  const block = expanded.spec.blocks?.find((b) => b.id === blockId);
+  const materialId = oreMaterialId(expanded, blockId);
+  const seed = `${expanded.spec.modId}:${materialId}`;
+  const materialName = materialId.replace(/_/g, " ");
+  let palette = block?.materialPalette?.length ? block.materialPalette : block?.colorHint ? [block.colorHint] : [];
+  if (palette.length === 0) {
+    const interpreted = interpretItemOrBlock(materialName, "item");
+    palette = generatePaletteAndMotifs({
+      prompt: materialName,
+      semanticTags: interpreted.semanticTags,
+      aesthetic: interpreted.aesthetic,
+      seed,
+    }).colors;
+  }
+  return { base: oreBaseTexture(blockId), palette, seed };
+}
@@ -0,0 +1,112 @@
+/**
+ * Ore worldgen (Tier 3 "ore"): configured/placed feature JSON and BiomeModifications registration.
+ * Placement comes from spec.worldgen (RuleEngine defaults or explicit ModSpecV2Worldgen); never invented here.
+ * - Data: data/<modId>/worldgen/configured_feature/<ore>.json (minecraft:ore, stone + deepslate targets),
+ *   data/<modId>/worldgen/placed_feature/<ore>.json (count/rarity, in_square, uniform height_range, biome).
+ * - Java: BiomeModifications.addFeature(..., UNDERGROUND_ORES, <placed feature key>) per entry in onInitialize.
+ */
+
+import type { ExpandedSpecTier1, ModSpecV2Worldgen } from "@themodgenerator/spec";
+import { isAllowedAtTier, MAX_TIER_ALLOWED } from "@themodgenerator/spec";
+import type { MaterializedFile } from "./types.js";
+
+const DATA_BASE = "src/main/resources/data";
+
+const STONE_ORE_REPLACEABLES = "minecraft:stone_ore_replaceables";
+const DEEPSLATE_ORE_REPLACEABLES = "minecraft:deepslate_ore_replaceables";
+
+/** Worldgen entries to emit: spec.worldgen when the spec declares "ore" and its pipeline tier (spec.maxTier) allows it. */
+function oreWorldgen(expanded: ExpandedSpecTier1): ModSpecV2Worldgen[] {
+  const worldgen = expanded.spec.worldgen ?? [];
+  if (worldgen.length === 0 || !expanded.spec.features.includes("ore")) return [];
+  if (!isAllowedAtTier("ore", expanded.spec.maxTier ?? MAX_TIER_ALLOWED)) return [];
+  return worldgen;
+}
+
+/** True when the spec has ore placement to materialize. */
+export function hasOreWorldgen(expanded: ExpandedSpecTier1): boolean {
+  return oreWorldgen(expanded).length > 0;
+}
+
+function oreTarget(tag: string, blockRef: string) {
+  return {
+    target: { predicate_type: "minecraft:tag_match", tag },
+    state: { Name: blockRef },
+  };
+}
+
+/** Fractional veinsPerChunk (< 1) becomes a rarity_filter: one vein every N chunks. */
+export function frequencyModifier(veinsPerChunk: number) {
+  if (veinsPerChunk >= 1) return { type: "minecraft:count", count: Math.round(veinsPerChunk) };
+  return { type: "minecraft:rarity_filter", chance: Math.max(1, Math.round(1 / veinsPerChunk)) };
+}
+
+/** Configured + placed feature JSON per ore. Deepslate target falls back to the stone ore block. */
+export function oreWorldgenDataFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const modId = expanded.spec.modId;
+  const base = `${DATA_BASE}/${modId}/worldgen`;
+  const files: MaterializedFile[] = [];
+  for (const w of oreWorldgen(expanded)) {
+    const ore = `${modId}:${w.oreBlockId}`;
+    const deepslateOre = `${modId}:${w.deepslateOreBlockId ?? w.oreBlockId}`;
+    files.push({
+      path: `${base}/configured_feature/${w.oreBlockId}.json`,
+      contents: JSON.stringify(
+        {
+          type: "minecraft:ore",
+          config: {
+            size: w.veinSize,
+            discard_chance_on_air_exposure: 0.0,
+            targets: [oreTarget(STONE_ORE_REPLACEABLES, ore), oreTarget(DEEPSLATE_ORE_REPLACEABLES, deepslateOre)],
+          },
+        },
+        null,
+        2
+      ),
+    });
+    files.push({
+      path: `${base}/placed_feature/${w.oreBlockId}.json`,
+      contents: JSON.stringify(
+        {
+          feature: ore,
+          placement: [
+            frequencyModifier(w.veinsPerChunk),
+            { type: "minecraft:in_square" },
+            {
+              type: "minecraft:height_range",
+              height: {
+                type: "minecraft:uniform",
+                min_inclusive: { absolute: w.minY },
+                max_inclusive: { absolute: w.maxY },
+              },
+            },
+            { type: "minecraft:biome" },
+          ],
+        },
+        null,
+        2
+      ),
+    });
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Biome selector for the entry's biome tags; no tags means all overworld biomes. */
+export function biomeSelectorJava(biomeTags: string[] | undefined): string {
+  if (!biomeTags || biomeTags.length === 0) return "BiomeSelectors.foundInOverworld()";
+  return biomeTags
+    .map((tag) => {
+      const id = tag.replace(/^#/, "");
+      const [ns, path] = id.includes(":") ? id.split(":") : ["minecraft", id];
+      return `BiomeSelectors.tag(TagKey.of(RegistryKeys.BIOME, Identifier.of("${ns}", "${path}")))`;
+    })
+    .reduce((acc, selector) => `${acc}.or(${selector})`);
+}
+
+/** onInitialize lines adding each placed feature to UNDERGROUND_ORES in its biomes. */
+export function oreBiomeModificationsJava(expanded: ExpandedSpecTier1): string[] {
+  return oreWorldgen(expanded).map(
+    (w) =>
+      `		BiomeModifications.addFeature(${biomeSelectorJava(w.biomeTags)}, GenerationStep.Feature.UNDERGROUND_ORES, RegistryKey.of(RegistryKeys.PLACED_FEATURE, Identifier.of(MOD_ID, "${w.oreBlockId}")));`
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * Palette swap: recolored vanilla templates for ingots, gems, nuggets, raw ores, planks and bricks
+ * (paletteSwapTemplate, texture source "palette_swap").
+ * - Assets: textures/(item|block)/<id>.png copies the template (copyFromVanillaPaths) and carries paletteSwap; the
+ *   builder remaps the template's luminance ramp onto the palette instead of the semantic color theme and records
+ *   the template as derivedFrom in texture-manifest.json.
+ * Palette: the block's material palette, then its colorHint, then a synthesized palette for the name. Flat items
+ * get item sprites (item-sprites.ts) instead, so for items this covers element models (chunky, rod, plate); wood
+ * type members keep their copies.
+ */
+
+import type { ExpandedSpecTier1, ItemKind } from "@themodgenerator/spec";
+import type { VisualKind } from "../materialization/vanilla-visual-defaults.js";
+import type { PaletteSwapTemplate } from "../texture-sources.js";
+import { paletteSwapTemplate } from "../texture-sources.js";
+import { generatePaletteAndMotifs } from "../texture/palette-llm.js";
+import { interpretItemOrBlock } from "../interpretation.js";
+import { getWoodBlockSpec } from "./vanilla-wood-family.js";
+
+/** Template plus the palette (color names or hex) its luminance ramp is remapped onto. */
+export interface PaletteSwap extends PaletteSwapTemplate {
+  palette: string[];
+}
+
+/** Palette swap for an item or block texture, or null when no template fits (or the block is a wood type member). */
+export function paletteSwapFor(
+  expanded: ExpandedSpecTier1,
+  entity: { id: string; name: string; kind?: ItemKind; visualKind: VisualKind },
+  category: "item" | "block"
+): PaletteSwap | null {
+  if (category === "block" && getWoodBlockSpec(entity.id, (expanded.spec.woodTypes ?? []).map((w) => w.id))) return null;
+  const template = paletteSwapTemplate(entity);
+  if (!template) return null;
+  const block = category === "block" ? expanded.spec.blocks?.find((b) => b.id === entity.id) : undefined;
+  const colorHint = (category === "block" ? block : expanded.spec.items?.find((i) => i.id === entity.id))?.colorHint;
+  if (block?.materialPalette?.length) return { ...template, palette: block.materialPalette };
+  if (colorHint) return { ...template, palette: [colorHint] };
+  const interpreted = interpretItemOrBlock(entity.name, category);
+  const palette = generatePaletteAndMotifs({
+    prompt: entity.name,
+    semanticTags: interpreted.semanticTags,
+    aesthetic: interpreted.aesthetic,
+    seed: `${expanded.spec.modId}:${entity.id}`,
+  }).colors;
+  return { ...template, palette };
+}
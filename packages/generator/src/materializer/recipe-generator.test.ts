@@ -1,5 +1,5 @@
 /**
- * resolveIngredientId: stable item/tag id for recipe JSON.
+ * resolveIngredientId: stable item id for recipe JSON.
  */
 
 import { describe, it } from "node:test";
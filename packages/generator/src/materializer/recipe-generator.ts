@@ -1,12 +1,16 @@
 /**
  * Generate data/<modId>/recipe/*.json from spec (MC 1.21.1 singular folder).
  * No keyword or id-based branches; all recipes come from expanded.spec.recipes[].
- * Minecraft 1.21.1: crafting_shapeless, crafting_shaped, smelting, blasting, smoking, campfire_cooking.
+ * Minecraft 1.21.1: crafting_shapeless, crafting_shaped, smelting, blasting, smoking, campfire_cooking,
+ * stonecutting, smithing_transform.
  * Crafting result: { "id": "<modid>:<id>", "count": N }.
  * Cooking result: { "id": "<modid>:<id>", "count": N } (item stack JSON).
+ * Smithing transform: template/base/addition ingredients; the result keeps the base item's components.
+ * Ingredients: { "item": "<id>" } or, for tag ingredients, { "tag": "<namespace>:<path>" } (any item in the tag).
  */
 
-import type { ExpandedSpecTier1, ModRecipe } from "@themodgenerator/spec";
+import type { ExpandedSpecTier1, ModRecipe, ModRecipeIngredient } from "@themodgenerator/spec";
+import { hasIngredient, normalizeItemTag } from "@themodgenerator/spec";
 import type { MaterializedFile } from "./types.js";
 
 const DATA_RECIPES = "src/main/resources/data";
@@ -21,6 +25,12 @@ export function resolveIngredientId(modId: string, id: string): string {
   return `${modId}:${id}`;
 }
 
+/** Ingredient JSON: { tag } when the ingredient is a tag, else { item }. */
+function ingredientJson(modId: string, ing: ModRecipeIngredient): { item: string } | { tag: string } {
+  if (ing.tag) return { tag: normalizeItemTag(ing.tag) };
+  return { item: resolveIngredientId(modId, ing.id ?? "") };
+}
+
 /**
  * Resolve recipe result id for JSON. If id is already namespaced (e.g. "minecraft:stick"), return as-is; else prefix with modId.
  */
@@ -32,7 +42,7 @@ function resolveResultId(modId: string, id: string): string {
 /** Crafting shapeless from spec: ingredients[] MUST have at least one entry. MC 1.21.1 result uses "id". */
 function craftingShapelessFromSpec(modId: string, rec: ModRecipe): string {
   const ingredients = (rec.ingredients ?? []).flatMap((ing) =>
-    Array(ing.count ?? 1).fill(null).map(() => ({ item: resolveIngredientId(modId, ing.id) }))
+    Array(ing.count ?? 1).fill(null).map(() => ingredientJson(modId, ing))
   );
   if (ingredients.length === 0) {
     throw new Error(`Recipe ${rec.id}: crafting_shapeless must have at least one ingredient.`);
@@ -58,9 +68,9 @@ function craftingShapedFromSpec(modId: string, rec: ModRecipe): string {
   if (pattern.length === 0 || Object.keys(key).length === 0) {
     throw new Error(`Recipe ${rec.id}: crafting_shaped must have pattern and key.`);
   }
-  const keyOut: Record<string, { item: string }> = {};
+  const keyOut: Record<string, { item: string } | { tag: string }> = {};
   for (const [chr, val] of Object.entries(key)) {
-    if (val?.id) keyOut[chr] = { item: resolveIngredientId(modId, val.id) };
+    if (hasIngredient(val)) keyOut[chr] = ingredientJson(modId, val);
   }
   return JSON.stringify(
     {
@@ -80,7 +90,7 @@ function craftingShapedFromSpec(modId: string, rec: ModRecipe): string {
 /** Smelting from spec. MC 1.21.1: result is item stack { id, count }. */
 function smeltingFromSpec(modId: string, rec: ModRecipe): string {
   const ing = rec.ingredients?.[0];
-  if (!ing?.id) {
+  if (!hasIngredient(ing)) {
     throw new Error(`Recipe ${rec.id}: smelting must have at least one ingredient.`);
   }
   if (ing.id === rec.result.id) {
@@ -91,7 +101,7 @@ function smeltingFromSpec(modId: string, rec: ModRecipe): string {
   return JSON.stringify(
     {
       type: "minecraft:smelting",
-      ingredient: { item: resolveIngredientId(modId, ing.id) },
+      ingredient: ingredientJson(modId, ing),
       result: { id: resolveResultId(modId, rec.result.id), count: rec.result.count ?? 1 },
       experience,
       cookingtime,
@@ -104,12 +114,12 @@ function smeltingFromSpec(modId: string, rec: ModRecipe): string {
 /** Blasting from spec. MC 1.21.1: result { id, count }. No self-loop. */
 function blastingFromSpec(modId: string, rec: ModRecipe): string {
   const ing = rec.ingredients?.[0];
-  if (!ing?.id) throw new Error(`Recipe ${rec.id}: blasting must have at least one ingredient.`);
+  if (!hasIngredient(ing)) throw new Error(`Recipe ${rec.id}: blasting must have at least one ingredient.`);
   if (ing.id === rec.result.id) throw new Error(`Recipe ${rec.id}: blasting self-loop.`);
   const experience = rec.experience ?? 0.35;
   const cookingtime = rec.cookingtime ?? 100;
   return JSON.stringify(
-    { type: "minecraft:blasting", ingredient: { item: resolveIngredientId(modId, ing.id) }, result: { id: resolveResultId(modId, rec.result.id), count: rec.result.count ?? 1 }, experience, cookingtime },
+    { type: "minecraft:blasting", ingredient: ingredientJson(modId, ing), result: { id: resolveResultId(modId, rec.result.id), count: rec.result.count ?? 1 }, experience, cookingtime },
     null,
     2
   );
@@ -118,12 +128,12 @@ function blastingFromSpec(modId: string, rec: ModRecipe): string {
 /** Smoking from spec. MC 1.21.1: result { id, count }. */
 function smokingFromSpec(modId: string, rec: ModRecipe): string {
   const ing = rec.ingredients?.[0];
-  if (!ing?.id) throw new Error(`Recipe ${rec.id}: smoking must have at least one ingredient.`);
+  if (!hasIngredient(ing)) throw new Error(`Recipe ${rec.id}: smoking must have at least one ingredient.`);
   if (ing.id === rec.result.id) throw new Error(`Recipe ${rec.id}: smoking self-loop.`);
   const experience = rec.experience ?? 0.35;
   const cookingtime = rec.cookingtime ?? 100;
   return JSON.stringify(
-    { type: "minecraft:smoking", ingredient: { item: resolveIngredientId(modId, ing.id) }, result: { id: resolveResultId(modId, rec.result.id), count: rec.result.count ?? 1 }, experience, cookingtime },
+    { type: "minecraft:smoking", ingredient: ingredientJson(modId, ing), result: { id: resolveResultId(modId, rec.result.id), count: rec.result.count ?? 1 }, experience, cookingtime },
     null,
     2
   );
@@ -132,12 +142,43 @@ function smokingFromSpec(modId: string, rec: ModRecipe): string {
 /** Campfire cooking from spec. MC 1.21.1: result { id, count }. */
 function campfireCookingFromSpec(modId: string, rec: ModRecipe): string {
   const ing = rec.ingredients?.[0];
-  if (!ing?.id) throw new Error(`Recipe ${rec.id}: campfire_cooking must have at least one ingredient.`);
+  if (!hasIngredient(ing)) throw new Error(`Recipe ${rec.id}: campfire_cooking must have at least one ingredient.`);
   if (ing.id === rec.result.id) throw new Error(`Recipe ${rec.id}: campfire_cooking self-loop.`);
   const experience = rec.experience ?? 0.35;
   const cookingtime = rec.cookingtime ?? 600;
   return JSON.stringify(
-    { type: "minecraft:campfire_cooking", ingredient: { item: resolveIngredientId(modId, ing.id) }, result: { id: resolveResultId(modId, rec.result.id), count: rec.result.count ?? 1 }, experience, cookingtime },
+    { type: "minecraft:campfire_cooking", ingredient: ingredientJson(modId, ing), result: { id: resolveResultId(modId, rec.result.id), count: rec.result.count ?? 1 }, experience, cookingtime },
+    null,
+    2
+  );
+}
+
+/** Stonecutting from spec. MC 1.21.1: single ingredient, result { id, count }. */
+function stonecuttingFromSpec(modId: string, rec: ModRecipe): string {
+  const ing = rec.ingredients?.[0];
+  if (!hasIngredient(ing)) throw new Error(`Recipe ${rec.id}: stonecutting must have one ingredient.`);
+  if (ing.id === rec.result.id) throw new Error(`Recipe ${rec.id}: stonecutting self-loop.`);
+  return JSON.stringify(
+    { type: "minecraft:stonecutting", ingredient: ingredientJson(modId, ing), result: { id: resolveResultId(modId, rec.result.id), count: rec.result.count ?? 1 } },
+    null,
+    2
+  );
+}
+
+/** Smithing transform from spec: ingredients are [template, base, addition]. MC 1.21.1: result { id, count }. */
+function smithingTransformFromSpec(modId: string, rec: ModRecipe): string {
+  const [template, base, addition] = rec.ingredients ?? [];
+  if (!hasIngredient(template) || !hasIngredient(base) || !hasIngredient(addition)) {
+    throw new Error(`Recipe ${rec.id}: smithing_transform must have ingredients [template, base, addition].`);
+  }
+  return JSON.stringify(
+    {
+      type: "minecraft:smithing_transform",
+      template: ingredientJson(modId, template),
+      base: ingredientJson(modId, base),
+      addition: ingredientJson(modId, addition),
+      result: { id: resolveResultId(modId, rec.result.id), count: rec.result.count ?? 1 },
+    },
     null,
     2
   );
@@ -146,7 +187,8 @@ function campfireCookingFromSpec(modId: string, rec: ModRecipe): string {
 /**
  * Emit recipe JSON files under data/<modId>/recipe/ from spec.recipes only (MC 1.21.1 singular).
  * Path: src/main/resources/data/<modId>/recipe/<id>.json. modId must match registration.
- * Supported: crafting_shapeless, crafting_shaped, smelting, blasting, smoking, campfire_cooking.
+ * Supported: crafting_shapeless, crafting_shaped, smelting, blasting, smoking, campfire_cooking,
+ * stonecutting, smithing_transform.
  */
 export function recipeDataFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
   const modId = expanded.spec.modId;
@@ -168,6 +210,10 @@ export function recipeDataFiles(expanded: ExpandedSpecTier1): MaterializedFile[]
       contents = smokingFromSpec(modId, rec);
     } else if (rec.type === "campfire_cooking") {
       contents = campfireCookingFromSpec(modId, rec);
+    } else if (rec.type === "stonecutting") {
+      contents = stonecuttingFromSpec(modId, rec);
+    } else if (rec.type === "smithing_transform") {
+      contents = smithingTransformFromSpec(modId, rec);
     } else {
       continue;
     }
@@ -0,0 +1,86 @@
+/**
+ * Data-pack tags declared by the spec (ModBlock.mining, spec.tags) — everything not owned by a feature module
+ * (wood, block families, tool/armor sets, trees write their own tags).
+ * - Data: data/minecraft/tags/blocks/mineable/<tool>.json and needs_<stone|iron|diamond>_tool.json per mined block;
+ *   data/<namespace>/tags/<blocks|items>/<path>.json per spec tag (c: convention tags, ModSpecV2 tags).
+ * - replace:false only. Files for the same tag from other modules are merged by mergeTagFiles (index.ts).
+ * - Block tags list only registered blocks and item tags only registered items/block items: a tag with an
+ *   unknown entry fails to load as a whole.
+ */
+
+import type { ExpandedSpecTier1, ModTag } from "@themodgenerator/spec";
+import type { MaterializedFile } from "./types.js";
+import { woodTreeBlockIdsWithoutItem } from "./wood-trees.js";
+
+const DATA_BASE = "src/main/resources/data";
+
+/** Vanilla tier tag per ModBlockMining.requiredLevel (0 = any tool, no tag). */
+const NEEDS_TOOL_TAGS: Record<number, string> = {
+  1: "needs_stone_tool",
+  2: "needs_iron_tool",
+  3: "needs_diamond_tool",
+};
+
+/** Tag id → namespace and path; no namespace means minecraft. */
+export function splitTagId(tagId: string): { namespace: string; path: string } {
+  const bare = tagId.replace(/^#/, "");
+  const colon = bare.indexOf(":");
+  return colon === -1 ? { namespace: "minecraft", path: bare } : { namespace: bare.slice(0, colon), path: bare.slice(colon + 1) };
+}
+
+/** Needs-tool tag for a mining level, or undefined for level 0. */
+export function needsToolTag(requiredLevel: number | undefined): string | undefined {
+  return NEEDS_TOOL_TAGS[Math.min(Math.max(Math.round(requiredLevel ?? 0), 0), 3)];
+}
+
+/**
+ * Tag values as JSON references: mod-local ids become <modId>:<id> when registered in the tag's registry
+ * (others are dropped); namespaced ids and #tag references pass through.
+ */
+function tagValueRefs(expanded: ExpandedSpecTier1, tag: ModTag): string[] {
+  const modId = expanded.spec.modId;
+  const noItemBlockIds = woodTreeBlockIdsWithoutItem(expanded);
+  const blockIds = new Set(expanded.blocks.map((b) => b.id));
+  const registered =
+    tag.registry === "blocks"
+      ? blockIds
+      : new Set([...expanded.items.map((i) => i.id), ...[...blockIds].filter((id) => !noItemBlockIds.has(id))]);
+  const refs: string[] = [];
+  for (const value of tag.values) {
+    if (value.startsWith("#") || value.includes(":")) refs.push(value);
+    else if (registered.has(value)) refs.push(`${modId}:${value}`);
+  }
+  return refs;
+}
+
+/** Tag JSON files for block mining requirements and spec.tags. One file per tag; values de-duplicated and sorted. */
+export function specTagDataFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const modId = expanded.spec.modId;
+  const blockIds = new Set(expanded.blocks.map((b) => b.id));
+  const tags = new Map<string, Set<string>>();
+  const add = (namespace: string, dir: "blocks" | "items", path: string, refs: string[]) => {
+    const file = `${DATA_BASE}/${namespace}/tags/${dir}/${path}.json`;
+    tags.set(file, new Set([...(tags.get(file) ?? []), ...refs]));
+  };
+
+  for (const block of expanded.spec.blocks ?? []) {
+    if (!block.mining || !blockIds.has(block.id)) continue;
+    const ref = `${modId}:${block.id}`;
+    add("minecraft", "blocks", `mineable/${block.mining.tool}`, [ref]);
+    const needs = needsToolTag(block.mining.requiredLevel);
+    if (needs) add("minecraft", "blocks", needs, [ref]);
+  }
+  for (const tag of expanded.spec.tags ?? []) {
+    const refs = tagValueRefs(expanded, tag);
+    if (refs.length === 0) continue;
+    const { namespace, path } = splitTagId(tag.id);
+    add(namespace, tag.registry, path, refs);
+  }
+
+  return [...tags.entries()]
+    .map(([path, values]) => ({
+      path,
+      contents: JSON.stringify({ replace: false, values: [...values].sort() }, null, 2),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
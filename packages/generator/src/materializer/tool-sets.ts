@@ -0,0 +1,219 @@
+/**
+ * Tool sets: ToolMaterial enum, tool item registration and tool tags.
+ * Stats come from balance.deriveToolStats (rarity from worldgen + overrides); never from the spec.
+ * - Java: ModToolMaterials implements ToolMaterial (1.21.1 interface form, inverse tag = incorrect_for_<mat>_tool).
+ * - Tags: data/<modId>/tags/blocks/incorrect_for_<mat>_tool.json, needs_<mat>_tool.json;
+ *   data/minecraft/tags/items/<pickaxes|axes|...>.json (replace:false) so enchantments apply.
+ */
+
+import type { ExpandedSpecTier1, ModItem, ModMaterial, ToolKind } from "@themodgenerator/spec";
+import type { MaterializedFile } from "./types.js";
+import { computeRarityScore, deriveToolStats, type ToolStats } from "../balance.js";
+
+const DATA_BASE = "src/main/resources/data";
+
+/** Vanilla tool class and attribute base per kind (iron-tier base values; material adds attackDamage). */
+const TOOL_CLASSES: Record<ToolKind, { itemClass: string; attributes: string }> = {
+  pickaxe: { itemClass: "PickaxeItem", attributes: "MiningToolItem.createAttributeModifiers(%M, 1.0F, -2.8F)" },
+  axe: { itemClass: "AxeItem", attributes: "MiningToolItem.createAttributeModifiers(%M, 6.0F, -3.1F)" },
+  shovel: { itemClass: "ShovelItem", attributes: "MiningToolItem.createAttributeModifiers(%M, 1.5F, -3.0F)" },
+  hoe: { itemClass: "HoeItem", attributes: "MiningToolItem.createAttributeModifiers(%M, -2.0F, -1.0F)" },
+  sword: { itemClass: "SwordItem", attributes: "SwordItem.createAttributeModifiers(%M, 3, -2.4F)" },
+};
+
+/** Vanilla item tag per tool kind (drives enchantability via #minecraft:enchantable/*). */
+const TOOL_ITEM_TAGS: Record<ToolKind, string> = {
+  pickaxe: "pickaxes",
+  axe: "axes",
+  shovel: "shovels",
+  hoe: "hoes",
+  sword: "swords",
+};
+
+/** Vanilla incorrect_for tag per mining level (0 wood … 4 netherite). */
+const VANILLA_INCORRECT_FOR_LEVEL = [
+  "minecraft:incorrect_for_wooden_tool",
+  "minecraft:incorrect_for_stone_tool",
+  "minecraft:incorrect_for_iron_tool",
+  "minecraft:incorrect_for_diamond_tool",
+  "minecraft:incorrect_for_netherite_tool",
+] as const;
+
+/** Deterministic tool stats for a spec material (balance layer only). */
+export function toolMaterialStats(material: ModMaterial): ToolStats {
+  const rarity = computeRarityScore(material.worldgen ?? []);
+  return deriveToolStats(material.id, rarity, {
+    powerProfile: material.powerProfile,
+    styleOverPower: material.styleOverPower,
+  });
+}
+
+/** Materials referenced by at least one tool item, in spec order. */
+function usedToolMaterials(expanded: ExpandedSpecTier1): ModMaterial[] {
+  const used = new Set(
+    (expanded.spec.items ?? []).filter((i) => i.tool).map((i) => i.tool!.materialId)
+  );
+  return (expanded.spec.materials ?? []).filter((m) => used.has(m.id));
+}
+
+function toolItemsById(expanded: ExpandedSpecTier1): Map<string, ModItem> {
+  const map = new Map<string, ModItem>();
+  for (const item of expanded.spec.items ?? []) {
+    if (item.tool) map.set(item.id, item);
+  }
+  return map;
+}
+
+function enumConstant(materialId: string): string {
+  return materialId.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+}
+
+function javaFloat(n: number): string {
+  const s = String(Math.round(n * 100) / 100);
+  return `${s.includes(".") ? s : `${s}.0`}F`;
+}
+
+function splitId(modId: string, id: string): [string, string] {
+  const i = id.indexOf(":");
+  return i >= 0 ? [id.slice(0, i), id.slice(i + 1)] : [modId, id];
+}
+
+/** True when any spec item is a tool backed by a declared material. */
+export function hasToolSets(expanded: ExpandedSpecTier1): boolean {
+  return usedToolMaterials(expanded).length > 0;
+}
+
+/**
+ * Java expression constructing the tool item for registration, or null if the item is not a tool.
+ * e.g. new PickaxeItem(ModToolMaterials.RUBY, new Item.Settings().attributeModifiers(...))
+ */
+export function toolItemConstructorJava(expanded: ExpandedSpecTier1, itemId: string): string | null {
+  const item = toolItemsById(expanded).get(itemId);
+  if (!item?.tool) return null;
+  if (!usedToolMaterials(expanded).some((m) => m.id === item.tool!.materialId)) {
+    throw new Error(`Tool item ${itemId}: material "${item.tool.materialId}" is not declared in spec.materials.`);
+  }
+  const spec = TOOL_CLASSES[item.tool.kind];
+  const materialRef = `ModToolMaterials.${enumConstant(item.tool.materialId)}`;
+  const attributes = spec.attributes.replace("%M", materialRef);
+  return `new ${spec.itemClass}(${materialRef}, new Item.Settings().attributeModifiers(${attributes}))`;
+}
+
+/** ModToolMaterials.java: one enum constant per used material with derived stats. */
+export function toolMaterialsJava(javaPackage: string, mainClassName: string, expanded: ExpandedSpecTier1): string {
+  const modId = expanded.spec.modId;
+  const constants = usedToolMaterials(expanded).map((m) => {
+    const stats = toolMaterialStats(m);
+    const [repairNs, repairPath] = splitId(modId, m.repairItemId);
+    const tag = `TagKey.of(RegistryKeys.BLOCK, Identifier.of(${mainClassName}.MOD_ID, "incorrect_for_${m.id}_tool"))`;
+    return `	${enumConstant(m.id)}(${tag}, ${stats.durability}, ${javaFloat(stats.miningSpeed)}, ${javaFloat(stats.attackDamageBonus)}, ${stats.enchantability}, Identifier.of("${repairNs}", "${repairPath}"))`;
+  });
+  return `package net.themodgenerator.${javaPackage};
+
+import net.minecraft.block.Block;
+import net.minecraft.item.ToolMaterial;
+import net.minecraft.recipe.Ingredient;
+import net.minecraft.registry.Registries;
+import net.minecraft.registry.RegistryKeys;
+import net.minecraft.registry.tag.TagKey;
+import net.minecraft.util.Identifier;
+
+/** Tool materials; stats derived from ore rarity by the generator balance layer. */
+public enum ModToolMaterials implements ToolMaterial {
+${constants.join(",\n")};
+
+	private final TagKey<Block> inverseTag;
+	private final int durability;
+	private final float miningSpeed;
+	private final float attackDamage;
+	private final int enchantability;
+	private final Identifier repairItem;
+
+	ModToolMaterials(TagKey<Block> inverseTag, int durability, float miningSpeed, float attackDamage, int enchantability, Identifier repairItem) {
+		this.inverseTag = inverseTag;
+		this.durability = durability;
+		this.miningSpeed = miningSpeed;
+		this.attackDamage = attackDamage;
+		this.enchantability = enchantability;
+		this.repairItem = repairItem;
+	}
+
+	@Override
+	public int getDurability() {
+		return durability;
+	}
+
+	@Override
+	public float getMiningSpeedMultiplier() {
+		return miningSpeed;
+	}
+
+	@Override
+	public float getAttackDamage() {
+		return attackDamage;
+	}
+
+	@Override
+	public TagKey<Block> getInverseTag() {
+		return inverseTag;
+	}
+
+	@Override
+	public int getEnchantability() {
+		return enchantability;
+	}
+
+	/** Resolved lazily: items are registered after enum class init. */
+	@Override
+	public Ingredient getRepairIngredient() {
+		return Ingredient.ofItems(Registries.ITEM.get(repairItem));
+	}
+}
+`;
+}
+
+/**
+ * Tool tags. Per material:
+ * - incorrect_for_<mat>_tool: vanilla incorrect tag for its mining level + needs_<other>_tool of stronger mod materials.
+ * - needs_<mat>_tool: blocks that require at least this material (empty by default; other entities may merge in).
+ * Vanilla merge: tool items added to #minecraft:pickaxes/axes/shovels/hoes/swords.
+ */
+export function toolTagDataFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const materials = usedToolMaterials(expanded);
+  if (materials.length === 0) return [];
+
+  const modId = expanded.spec.modId;
+  const tagBase = `${DATA_BASE}/${modId}/tags`;
+  const levels = new Map(materials.map((m) => [m.id, toolMaterialStats(m).miningLevel]));
+  const files: MaterializedFile[] = [];
+
+  for (const m of materials) {
+    const level = levels.get(m.id)!;
+    const stronger = materials
+      .filter((other) => levels.get(other.id)! > level)
+      .map((other) => `#${modId}:needs_${other.id}_tool`)
+      .sort();
+    files.push({
+      path: `${tagBase}/blocks/incorrect_for_${m.id}_tool.json`,
+      contents: JSON.stringify({ replace: false, values: [`#${VANILLA_INCORRECT_FOR_LEVEL[level]}`, ...stronger] }, null, 2),
+    });
+    files.push({
+      path: `${tagBase}/blocks/needs_${m.id}_tool.json`,
+      contents: JSON.stringify({ replace: false, values: [] }, null, 2),
+    });
+  }
+
+  const byItemTag = new Map<string, string[]>();
+  for (const item of toolItemsById(expanded).values()) {
+    const tag = TOOL_ITEM_TAGS[item.tool!.kind];
+    byItemTag.set(tag, [...(byItemTag.get(tag) ?? []), `${modId}:${item.id}`]);
+  }
+  for (const [tag, values] of byItemTag) {
+    files.push({
+      path: `${DATA_BASE}/minecraft/tags/items/${tag}.json`,
+      contents: JSON.stringify({ replace: false, values: values.sort() }, null, 2),
+    });
+  }
+
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
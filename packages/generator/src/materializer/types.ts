@@ -11,6 +11,9 @@ import type { ExpandedSpecTier1 } from "@themodgenerator/spec";
 import type { AssetKey } from "../composer-stub.js";
 import type { CanonicalMaterial, ArchetypeId, ArchetypeGuarantees } from "../canonical-interpretation.js";
 import type { TextureProfile } from "@themodgenerator/spec";
+import type { ItemSprite } from "./item-sprites.js";
+import type { OreComposite } from "./ore-textures.js";
+import type { PaletteSwap } from "./palette-swap.js";
 
 export interface MaterializedFile {
   path: string;
@@ -51,6 +54,12 @@ export interface MaterializedFile {
   vanillaTemplateBlockId?: string;
   /** When set with vanillaTemplateBlockId, pick texture matching this slot (e.g. "bottom"|"top" for door). */
   vanillaTextureSlot?: "bottom" | "top";
+  /** When set, builder draws a transparent outlined item sprite of this shape and palette (item-sprites.ts). */
+  itemSprite?: ItemSprite;
+  /** When set, builder composites ore clusters in this palette onto a vanilla base texture (ore-textures.ts). */
+  oreComposite?: OreComposite;
+  /** With copyFromVanillaPaths = [template]: builder remaps the template's luminance onto this palette (palette-swap.ts). */
+  paletteSwap?: PaletteSwap;
 }
 
 export interface FabricMaterializerTier1 {
@@ -5,7 +5,9 @@
 
 import type { MaterializedFile } from "./types.js";
 import type { ExpandedSpecTier1 } from "@themodgenerator/spec";
+import { RECIPE_INGREDIENT_SLOTS } from "@themodgenerator/spec";
 import { isWoodBlock, woodBlocksNeedingMultipartBlockstate } from "./vanilla-wood-family.js";
+import { DEFAULT_LOCALE, registeredLangKeys } from "./lang-files.js";
 
 /** Throws if any recipe file is under data/<modid>/recipes/ (plural). MC 1.21.1 requires recipe/ (singular). */
 export function validateNoRecipesPluralFolder(files: MaterializedFile[]): void {
@@ -17,7 +19,10 @@ export function validateNoRecipesPluralFolder(files: MaterializedFile[]): void {
   }
 }
 
-/** Throws if any recipe JSON is invalid or missing required fields (type, result). */
+/**
+ * Throws if any recipe JSON is invalid or missing required fields (type, result; stonecutting ingredient;
+ * smithing_transform template/base/addition).
+ */
 export function validateRecipeJsonSchema(files: MaterializedFile[]): void {
   const recipeFiles = files.filter((f) => f.path.includes("/recipe/") && f.path.endsWith(".json"));
   for (const f of recipeFiles) {
@@ -34,6 +39,12 @@ export function validateRecipeJsonSchema(files: MaterializedFile[]): void {
     if (!("result" in r)) {
       throw new Error(`JAR-GATE: Recipe ${f.path} must have "result"`);
     }
+    for (const slot of RECIPE_INGREDIENT_SLOTS[r.type] ?? []) {
+      const ing = r[slot] as Record<string, unknown> | undefined;
+      if (typeof ing?.item !== "string" && typeof ing?.tag !== "string") {
+        throw new Error(`JAR-GATE: Recipe ${f.path} (${r.type}) must have "${slot}" with "item" or "tag"`);
+      }
+    }
   }
 }
 
@@ -119,6 +130,8 @@ interface LootTableStructure {
       name?: string;
       count?: number;
       conditions?: unknown[];
+      /** minecraft:alternatives (e.g. leaves: self with shears, else sapling). */
+      children?: Array<{ type?: string; name?: string }>;
     }>;
   }>;
 }
@@ -153,7 +166,8 @@ export function validateLootTableJson(files: MaterializedFile[]): void {
     if (!Array.isArray(pool.entries) || pool.entries.length === 0) {
       throw new Error(`VALIDATOR: Loot table ${f.path} pool must have at least one entry`);
     }
-    const entry = pool.entries[0];
+    const first = pool.entries[0];
+    const entry = first.type === "minecraft:alternatives" && Array.isArray(first.children) ? first.children[0] ?? {} : first;
     if (entry.type !== "minecraft:item") {
       throw new Error(`VALIDATOR: Loot table ${f.path} entry must have type "minecraft:item"`);
     }
@@ -162,3 +176,60 @@ export function validateLootTableJson(files: MaterializedFile[]): void {
     }
   }
 }
+
+/**
+ * Throws if a lang file (en_us or a spec.locales entry) is missing, is invalid JSON, or lacks a registered
+ * item/block key; a missing key shows the raw key in-game.
+ */
+export function validateLangCoverage(expanded: ExpandedSpecTier1, files: MaterializedFile[]): void {
+  const modId = expanded.spec.modId;
+  const keys = registeredLangKeys(expanded);
+  for (const locale of new Set([DEFAULT_LOCALE, ...(expanded.spec.locales ?? [])])) {
+    const path = `src/main/resources/assets/${modId}/lang/${locale}.json`;
+    const file = files.find((f) => f.path === path);
+    if (!file) throw new Error(`VALIDATOR: Lang file ${path} is missing for locale "${locale}"`);
+    let entries: Record<string, unknown>;
+    try {
+      entries = JSON.parse(file.contents) as Record<string, unknown>;
+    } catch (e) {
+      throw new Error(`VALIDATOR: Lang file ${path} is invalid JSON: ${e}`);
+    }
+    const missing = keys.filter((key) => typeof entries[key] !== "string" || entries[key] === "");
+    if (missing.length > 0) {
+      throw new Error(`VALIDATOR: Lang file ${path} is missing keys: ${missing.join(", ")}`);
+    }
+  }
+}
+
+/** Source patterns behind the inventory search StackOverflow (a Screen charTyped override re-entering itself). */
+const FORBIDDEN_CLIENT_PATTERNS = ["charTyped", "net.minecraft.client.gui.screen", "org.spongepowered.asm.mixin"] as const;
+
+/**
+ * Throws if generated sources could bring back the charTyped recursion: Java that touches charTyped, Screen
+ * classes or mixins, a non-empty client mixin list, or client-only classes imported from the main source set
+ * (which crash dedicated servers).
+ */
+export function validateClientSourcesSafe(files: MaterializedFile[]): void {
+  for (const f of files) {
+    if (f.path.endsWith(".java")) {
+      const pattern = FORBIDDEN_CLIENT_PATTERNS.find((p) => f.contents.includes(p));
+      if (pattern) {
+        throw new Error(`VALIDATOR: ${f.path} must not reference "${pattern}" (Screen/charTyped recursion)`);
+      }
+      if (f.path.startsWith("src/main/") && /^import net\.minecraft\.client\./m.test(f.contents)) {
+        throw new Error(`VALIDATOR: ${f.path} imports client classes; client code belongs under src/client/`);
+      }
+    }
+    if (f.path.endsWith(".mixins.json")) {
+      let client: unknown;
+      try {
+        client = (JSON.parse(f.contents) as { client?: unknown }).client;
+      } catch (e) {
+        throw new Error(`VALIDATOR: ${f.path} is invalid JSON: ${e}`);
+      }
+      if (Array.isArray(client) && client.length > 0) {
+        throw new Error(`VALIDATOR: ${f.path} client mixins must be empty; found: ${client.join(", ")}`);
+      }
+    }
+  }
+}
@@ -76,7 +76,7 @@ export function enrichTextureFilesWithVisualMetadata(
       category,
     });
     const recipe = recipeFromBlueprint(blueprint, visualLevel);
-    const source = selectTextureSource(recipe, visualLevel);
+    const source = selectTextureSource(recipe, visualLevel, null, file.paletteSwap);
     const features = visualFeaturesFromLevel(visualLevel);
     return {
       ...file,
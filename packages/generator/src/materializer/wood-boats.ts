@@ -0,0 +1,80 @@
+/**
+ * Wood boats: <wood>_boat and <wood>_chest_boat items per woodType, backed by the Terraform Wood API
+ * (com.terraformersmc.terraform-api:terraform-wood-api-v1, bundled via include). Vanilla BoatEntity.Type is a
+ * closed enum, so custom wood boats need the API's TerraformBoatType registry + boat entities.
+ * - Java (main): boat/chest boat items via TerraformBoatItemHelper, then TerraformBoatType(item, chestItem, planks).
+ *   Emitted after block registration (planks block var must exist).
+ * - Java (client): TerraformBoatClientHelper.registerModelLayers per wood (raft = false), in the client entrypoint.
+ * - Assets: textures/entity/boat/<wood>.png and textures/entity/chest_boat/<wood>.png (copied from vanilla oak).
+ *   Item textures/models come from the default item path (vanilla oak_boat / oak_chest_boat).
+ */
+
+import type { ExpandedSpecTier1 } from "@themodgenerator/spec";
+import type { MaterializedFile } from "./types.js";
+
+/** Terraform Wood API for MC 1.21.1 (gradle.properties: terraform_wood_api_version). */
+export const TERRAFORM_WOOD_API_VERSION = "11.0.0";
+
+/** Wood ids whose boat items were expanded (woodTypes with <wood>_boat in expanded.items). */
+export function woodBoatIds(expanded: ExpandedSpecTier1): string[] {
+  const itemIds = new Set(expanded.items.map((i) => i.id));
+  return (expanded.spec.woodTypes ?? []).map((w) => w.id).filter((id) => itemIds.has(`${id}_boat`));
+}
+
+export function hasWoodBoats(expanded: ExpandedSpecTier1): boolean {
+  return woodBoatIds(expanded).length > 0;
+}
+
+/** Boat + chest boat item ids (registered by the boat helper, not the generic item loop). */
+export function woodBoatItemIds(expanded: ExpandedSpecTier1): Set<string> {
+  return new Set(woodBoatIds(expanded).flatMap((w) => [`${w}_boat`, `${w}_chest_boat`]));
+}
+
+function javaId(id: string): string {
+  return id.replace(/-/g, "_");
+}
+
+/** onInitialize lines registering boat items and boat types. Must run after the planks blocks are registered. */
+export function woodBoatRegistrationJava(expanded: ExpandedSpecTier1): string[] {
+  const lines: string[] = [];
+  for (const woodId of woodBoatIds(expanded)) {
+    const key = `${javaId(woodId)}BoatKey`;
+    const boat = `${javaId(woodId)}BoatItem`;
+    const chestBoat = `${javaId(woodId)}ChestBoatItem`;
+    const planks = `${javaId(woodId)}_planksBlock`;
+    lines.push(
+      `		RegistryKey<TerraformBoatType> ${key} = TerraformBoatTypeRegistry.createKey(Identifier.of(MOD_ID, "${woodId}"));`,
+      `		Item ${boat} = TerraformBoatItemHelper.registerBoatItem(Identifier.of(MOD_ID, "${woodId}_boat"), ${key}, false);`,
+      `		Item ${chestBoat} = TerraformBoatItemHelper.registerBoatItem(Identifier.of(MOD_ID, "${woodId}_chest_boat"), ${key}, true);`,
+      `		Registry.register(TerraformBoatTypeRegistry.INSTANCE, ${key}, new TerraformBoatType.Builder().item(${boat}).chestItem(${chestBoat}).planks(${planks}.asItem()).build());`
+    );
+  }
+  return lines;
+}
+
+/** onInitializeClient lines registering boat + chest boat model layers. */
+export function woodBoatClientJava(expanded: ExpandedSpecTier1, mainClassName: string): string[] {
+  return woodBoatIds(expanded).map(
+    (woodId) =>
+      `		TerraformBoatClientHelper.registerModelLayers(Identifier.of(${mainClassName}.MOD_ID, "${woodId}"), false);`
+  );
+}
+
+/** Entity textures the Terraform boat renderer loads for <modId>:<wood>. */
+export function woodBoatAssetFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const baseAssets = `src/main/resources/assets/${expanded.spec.modId}`;
+  const files: MaterializedFile[] = [];
+  for (const woodId of woodBoatIds(expanded)) {
+    files.push({
+      path: `${baseAssets}/textures/entity/boat/${woodId}.png`,
+      contents: "",
+      copyFromVanillaPaths: ["entity/boat/oak"],
+    });
+    files.push({
+      path: `${baseAssets}/textures/entity/chest_boat/${woodId}.png`,
+      contents: "",
+      copyFromVanillaPaths: ["entity/chest_boat/oak"],
+    });
+  }
+  return files;
+}
@@ -12,7 +12,7 @@ import { isWoodBlock } from "./vanilla-wood-family.js";
 const DATA_BASE = "src/main/resources/data";
 
 /** Vanilla-safe drop-self loot table with survives_explosion condition. */
-function dropSelfLootTable(modId: string, blockId: string): string {
+export function dropSelfLootTable(modId: string, blockId: string): string {
   const obj: Record<string, unknown> = {
     type: "minecraft:block",
     pools: [
@@ -32,7 +32,7 @@ function dropSelfLootTable(modId: string, blockId: string): string {
 }
 
 /** Door: drop only from lower half so we get exactly 1 door per double-block. */
-function doorLootTable(modId: string, blockId: string): string {
+export function doorLootTable(modId: string, blockId: string): string {
   const blockRef = `${modId}:${blockId}`;
   const obj: Record<string, unknown> = {
     type: "minecraft:block",
@@ -56,7 +56,7 @@ function doorLootTable(modId: string, blockId: string): string {
 }
 
 /** Slab: drop 1 for single (bottom/top), 2 for double. Vanilla-safe with survives_explosion. */
-function slabLootTable(modId: string, blockId: string): string {
+export function slabLootTable(modId: string, blockId: string): string {
   const blockRef = `${modId}:${blockId}`;
   const survives = { condition: "minecraft:survives_explosion" };
   const obj: Record<string, unknown> = {
@@ -0,0 +1,356 @@
+/**
+ * Wood trees (WoodType.tree): leaves, sapling, potted sapling and the tree feature per wood type.
+ * Blocks come from expandWoodType (spec); this module only resolves how they materialize.
+ * - Java: LeavesBlock / SaplingBlock(SaplingGenerator → <wood>_tree) / FlowerPotBlock, Settings.copy(vanilla oak).
+ *   The potted sapling has no BlockItem (vanilla FlowerPotBlock maps sapling → pot in its constructor).
+ *   Tree placement: BiomeModifications.addFeature(..., VEGETAL_DECORATION, <wood>_tree) when biomeTags is set.
+ * - Assets: leaves (minecraft:block/leaves, tinted by the client entrypoint's foliage color provider),
+ *   sapling cross + generated item model, flower_pot_cross. Textures copy vanilla oak.
+ * - Data: loot (leaves: shears/silk touch or sapling/stick chances; pot: flower pot + sapling), tags
+ *   (leaves, saplings, flower_pots, mineable/hoe; logs so leaves do not decay), configured/placed features.
+ */
+
+import type { ExpandedSpecTier1, WoodType } from "@themodgenerator/spec";
+import type { MaterializedFile } from "./types.js";
+import { dropSelfLootTable } from "./wood-loot-tables.js";
+import { biomeSelectorJava, frequencyModifier } from "./ore-worldgen.js";
+
+const DATA_BASE = "src/main/resources/data";
+
+export type WoodTreePart = "leaves" | "sapling" | "potted_sapling";
+
+const TREE_PARTS: WoodTreePart[] = ["leaves", "sapling", "potted_sapling"];
+
+/** Log-like wood members that keep leaves alive (#minecraft:logs) and burn (#minecraft:logs_that_burn). */
+const LOG_SUFFIXES = ["_log", "_stripped_log", "_wood", "_stripped_wood"] as const;
+
+/** Vanilla leaves fortune chances (BlockLootTableGenerator.SAPLING_DROP_CHANCE / LEAVES_STICK_DROP_CHANCE). */
+const SAPLING_CHANCES = [0.05, 0.0625, 0.083333336, 0.1];
+const STICK_CHANCES = [0.02, 0.022222223, 0.025, 0.033333335, 0.1];
+
+export interface WoodTreeMember {
+  wood: WoodType;
+  part: WoodTreePart;
+}
+
+/** Wood types that expanded tree members. */
+function treeWoods(expanded: ExpandedSpecTier1): WoodType[] {
+  return (expanded.spec.woodTypes ?? []).filter((w) => w.tree);
+}
+
+/** Wood + part that produced this block id, or null if the block is not a tree member. */
+export function woodTreeMember(expanded: ExpandedSpecTier1, blockId: string): WoodTreeMember | null {
+  for (const wood of treeWoods(expanded)) {
+    for (const part of TREE_PARTS) {
+      if (`${wood.id}_${part}` === blockId) return { wood, part };
+    }
+  }
+  return null;
+}
+
+function blockVar(blockId: string): string {
+  return blockId.replace(/-/g, "_") + "Block";
+}
+
+/**
+ * Java registration line for a tree block. noBlockItem: the potted sapling is placed by using the sapling
+ * on a flower pot, so it registers no item.
+ */
+export function woodTreeRegistrationJava(
+  expanded: ExpandedSpecTier1,
+  blockId: string
+): { varName: string; line: string; noBlockItem: boolean } | null {
+  const member = woodTreeMember(expanded, blockId);
+  if (!member) return null;
+  const woodId = member.wood.id;
+  let ctor: string;
+  switch (member.part) {
+    case "leaves":
+      ctor = "new LeavesBlock(AbstractBlock.Settings.copy(Blocks.OAK_LEAVES))";
+      break;
+    case "sapling":
+      ctor =
+        `new SaplingBlock(new SaplingGenerator(MOD_ID + ":${woodId}", Optional.empty(), ` +
+        `Optional.of(RegistryKey.of(RegistryKeys.CONFIGURED_FEATURE, Identifier.of(MOD_ID, "${woodId}_tree"))), Optional.empty()), ` +
+        "AbstractBlock.Settings.copy(Blocks.OAK_SAPLING))";
+      break;
+    case "potted_sapling":
+      ctor = `new FlowerPotBlock(${blockVar(`${woodId}_sapling`)}, AbstractBlock.Settings.copy(Blocks.POTTED_OAK_SAPLING))`;
+      break;
+  }
+  const varName = blockVar(blockId);
+  return {
+    varName,
+    line: `Block ${varName} = Registry.register(Registries.BLOCK, Identifier.of(MOD_ID, "${blockId}"), ${ctor});`,
+    noBlockItem: member.part === "potted_sapling",
+  };
+}
+
+/** Block ids registered without a BlockItem (kept out of creative tabs). */
+export function woodTreeBlockIdsWithoutItem(expanded: ExpandedSpecTier1): Set<string> {
+  return new Set(treeWoods(expanded).map((w) => `${w.id}_potted_sapling`));
+}
+
+function modelJson(parent: string, textures: Record<string, string>): string {
+  return JSON.stringify({ parent, textures }, null, 2);
+}
+
+/** Blockstate, model, texture and item model for a tree block; null for non-tree blocks. */
+export function woodTreeAssetFiles(expanded: ExpandedSpecTier1, blockId: string): MaterializedFile[] | null {
+  const member = woodTreeMember(expanded, blockId);
+  if (!member) return null;
+  const modId = expanded.spec.modId;
+  const baseAssets = `src/main/resources/assets/${modId}`;
+  const id = blockId;
+  const saplingTex = `${modId}:block/${member.wood.id}_sapling`;
+  const files: MaterializedFile[] = [];
+  let model: string;
+  let itemModel = `{\n  "parent": "${modId}:block/${id}"\n}\n`;
+
+  switch (member.part) {
+    case "leaves":
+      files.push({
+        path: `${baseAssets}/textures/block/${id}.png`,
+        contents: "",
+        copyFromVanillaPaths: ["block/oak_leaves"],
+        vanillaTemplateBlockId: "oak_leaves",
+      });
+      model = modelJson("minecraft:block/leaves", { all: `${modId}:block/${id}` });
+      break;
+    case "sapling":
+      files.push({
+        path: `${baseAssets}/textures/block/${id}.png`,
+        contents: "",
+        copyFromVanillaPaths: ["block/oak_sapling"],
+        vanillaTemplateBlockId: "oak_sapling",
+      });
+      model = modelJson("minecraft:block/cross", { cross: saplingTex });
+      itemModel = modelJson("minecraft:item/generated", { layer0: saplingTex });
+      break;
+    case "potted_sapling":
+      // Item model still points at the block model so block-as-item asset checks pass; no item is registered.
+      model = modelJson("minecraft:block/flower_pot_cross", { plant: saplingTex });
+      break;
+  }
+
+  files.push({ path: `${baseAssets}/models/block/${id}.json`, contents: model });
+  files.push({
+    path: `${baseAssets}/blockstates/${id}.json`,
+    contents: JSON.stringify({ variants: { "": { model: `${modId}:block/${id}` } } }, null, 2),
+  });
+  files.push({ path: `${baseAssets}/models/item/${id}.json`, contents: itemModel });
+  return files;
+}
+
+const SHEARS_OR_SILK_TOUCH = {
+  condition: "minecraft:any_of",
+  terms: [
+    { condition: "minecraft:match_tool", predicate: { items: "minecraft:shears" } },
+    {
+      condition: "minecraft:match_tool",
+      predicate: {
+        predicates: { "minecraft:enchantments": [{ enchantments: "minecraft:silk_touch", levels: { min: 1 } }] },
+      },
+    },
+  ],
+};
+
+/** Vanilla oak leaves: self with shears/silk touch, else sapling (fortune chances) and 1–2 sticks. */
+function leavesLootTable(modId: string, leavesId: string, saplingId: string): string {
+  return JSON.stringify({
+    type: "minecraft:block",
+    pools: [
+      {
+        rolls: 1,
+        bonus_rolls: 0,
+        entries: [
+          {
+            type: "minecraft:alternatives",
+            children: [
+              { type: "minecraft:item", name: `${modId}:${leavesId}`, conditions: [SHEARS_OR_SILK_TOUCH] },
+              {
+                type: "minecraft:item",
+                name: `${modId}:${saplingId}`,
+                conditions: [
+                  { condition: "minecraft:survives_explosion" },
+                  { condition: "minecraft:table_bonus", enchantment: "minecraft:fortune", chances: SAPLING_CHANCES },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        rolls: 1,
+        bonus_rolls: 0,
+        conditions: [{ condition: "minecraft:inverted", term: SHEARS_OR_SILK_TOUCH }],
+        entries: [
+          {
+            type: "minecraft:item",
+            name: "minecraft:stick",
+            conditions: [
+              { condition: "minecraft:table_bonus", enchantment: "minecraft:fortune", chances: STICK_CHANCES },
+            ],
+            functions: [
+              { function: "minecraft:set_count", count: { type: "minecraft:uniform", min: 1, max: 2 }, add: false },
+              { function: "minecraft:explosion_decay" },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+}
+
+/** Potted sapling: the flower pot and the sapling, like vanilla potted plants. */
+function pottedLootTable(modId: string, saplingId: string): string {
+  const pool = (name: string) => ({
+    rolls: 1,
+    bonus_rolls: 0,
+    entries: [{ type: "minecraft:item", name }],
+    conditions: [{ condition: "minecraft:survives_explosion" }],
+  });
+  return JSON.stringify({ type: "minecraft:block", pools: [pool("minecraft:flower_pot"), pool(`${modId}:${saplingId}`)] });
+}
+
+/** Loot tables for leaves, sapling and potted sapling. */
+export function woodTreeLootTableFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const modId = expanded.spec.modId;
+  const files: MaterializedFile[] = [];
+  for (const block of expanded.blocks) {
+    const member = woodTreeMember(expanded, block.id);
+    if (!member) continue;
+    const saplingId = `${member.wood.id}_sapling`;
+    files.push({
+      path: `${DATA_BASE}/${modId}/loot_table/blocks/${block.id}.json`,
+      contents:
+        member.part === "leaves"
+          ? leavesLootTable(modId, block.id, saplingId)
+          : member.part === "potted_sapling"
+            ? pottedLootTable(modId, saplingId)
+            : dropSelfLootTable(modId, block.id),
+    });
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Vanilla tags for tree blocks (leaves, saplings, flower_pots, mineable/hoe) and the wood's logs in
+ * #minecraft:logs / logs_that_burn, which LeavesBlock uses for its distance-to-log decay check. replace:false only.
+ */
+export function woodTreeTagDataFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const modId = expanded.spec.modId;
+  const blockIds = new Set(expanded.blocks.map((b) => b.id));
+  const blockTags = new Map<string, string[]>();
+  const itemTags = new Map<string, string[]>();
+  const add = (map: Map<string, string[]>, tag: string, ref: string) => map.set(tag, [...(map.get(tag) ?? []), ref]);
+
+  for (const wood of treeWoods(expanded)) {
+    const ref = (suffix: string) => `${modId}:${wood.id}${suffix}`;
+    for (const suffix of LOG_SUFFIXES) {
+      if (!blockIds.has(`${wood.id}${suffix}`)) continue;
+      for (const tag of ["logs", "logs_that_burn"]) {
+        add(blockTags, tag, ref(suffix));
+        add(itemTags, tag, ref(suffix));
+      }
+    }
+    add(blockTags, "leaves", ref("_leaves"));
+    add(itemTags, "leaves", ref("_leaves"));
+    add(blockTags, "mineable/hoe", ref("_leaves"));
+    add(blockTags, "saplings", ref("_sapling"));
+    add(itemTags, "saplings", ref("_sapling"));
+    add(blockTags, "flower_pots", ref("_potted_sapling"));
+  }
+
+  const files: MaterializedFile[] = [];
+  for (const [dir, tags] of [["blocks", blockTags], ["items", itemTags]] as const) {
+    for (const [tag, values] of tags) {
+      files.push({
+        path: `${DATA_BASE}/minecraft/tags/${dir}/${tag}.json`,
+        contents: JSON.stringify({ replace: false, values: values.sort() }, null, 2),
+      });
+    }
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function stateProvider(name: string, properties: Record<string, string>) {
+  return { type: "minecraft:simple_state_provider", state: { Name: name, Properties: properties } };
+}
+
+/** Wood types with natural placement (non-empty tree.biomeTags). */
+function placedTreeWoods(expanded: ExpandedSpecTier1): WoodType[] {
+  return treeWoods(expanded).filter((w) => (w.tree?.biomeTags ?? []).length > 0);
+}
+
+/**
+ * worldgen/configured_feature/<wood>_tree.json (oak shape with the wood's log/leaves, grown by the sapling) and,
+ * with biomeTags, worldgen/placed_feature/<wood>_tree.json (count/rarity, surface, sapling survival check).
+ */
+export function woodTreeWorldgenDataFiles(expanded: ExpandedSpecTier1): MaterializedFile[] {
+  const modId = expanded.spec.modId;
+  const base = `${DATA_BASE}/${modId}/worldgen`;
+  const files: MaterializedFile[] = [];
+  for (const wood of treeWoods(expanded)) {
+    files.push({
+      path: `${base}/configured_feature/${wood.id}_tree.json`,
+      contents: JSON.stringify(
+        {
+          type: "minecraft:tree",
+          config: {
+            decorators: [],
+            dirt_provider: stateProvider("minecraft:dirt", {}),
+            foliage_placer: { type: "minecraft:blob_foliage_placer", height: 3, offset: 0, radius: 2 },
+            foliage_provider: stateProvider(`${modId}:${wood.id}_leaves`, {
+              distance: "7",
+              persistent: "false",
+              waterlogged: "false",
+            }),
+            force_dirt: false,
+            ignore_vines: true,
+            minimum_size: { type: "minecraft:two_layers_feature_size", limit: 1, lower_size: 0, upper_size: 1 },
+            trunk_placer: { type: "minecraft:straight_trunk_placer", base_height: 4, height_rand_a: 2, height_rand_b: 0 },
+            trunk_provider: stateProvider(`${modId}:${wood.id}_log`, { axis: "y" }),
+          },
+        },
+        null,
+        2
+      ),
+    });
+  }
+  for (const wood of placedTreeWoods(expanded)) {
+    files.push({
+      path: `${base}/placed_feature/${wood.id}_tree.json`,
+      contents: JSON.stringify(
+        {
+          feature: `${modId}:${wood.id}_tree`,
+          placement: [
+            frequencyModifier(wood.tree?.perChunk ?? 1),
+            { type: "minecraft:in_square" },
+            { type: "minecraft:surface_water_depth_filter", max_water_depth: 0 },
+            { type: "minecraft:heightmap", heightmap: "OCEAN_FLOOR" },
+            { type: "minecraft:biome" },
+            {
+              type: "minecraft:block_predicate_filter",
+              predicate: {
+                type: "minecraft:would_survive",
+                state: { Name: `${modId}:${wood.id}_sapling`, Properties: { stage: "0" } },
+              },
+            },
+          ],
+        },
+        null,
+        2
+      ),
+    });
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** onInitialize lines adding each placed tree feature to VEGETAL_DECORATION in its biomes. */
+export function woodTreeBiomeModificationsJava(expanded: ExpandedSpecTier1): string[] {
+  return placedTreeWoods(expanded).map(
+    (wood) =>
+      `		BiomeModifications.addFeature(${biomeSelectorJava(wood.tree?.biomeTags)}, GenerationStep.Feature.VEGETAL_DECORATION, RegistryKey.of(RegistryKeys.PLACED_FEATURE, Identifier.of(MOD_ID, "${wood.id}_tree")));`
+  );
+}
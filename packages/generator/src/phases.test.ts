@@ -36,6 +36,25 @@ describe("rasterization", () => {
     }
     assert.ok(maxR - minR > 0, "texture must have pixel variance (not flat)");
   });
+
+  it("scales detail with the visual-level resolution", () => {
+    const interpreted = interpretItemOrBlock("radioactive cheese");
+    const plan = synthesizeTexture("radioactive cheese", interpreted, "seed3");
+    const small = rasterizeTexture(plan, 16, "rseed3");
+    const large = rasterizeTexture(plan, 128, "rseed3");
+    assert.strictEqual(large.pixels.length, 128 * 128 * 4);
+    // Upscaling would repeat each 16px pixel in an 8x8 block; native detail varies inside those blocks.
+    let varyingBlocks = 0;
+    for (let by = 0; by < 16; by++) {
+      for (let bx = 0; bx < 16; bx++) {
+        const first = large.pixels[(by * 8 * 128 + bx * 8) * 4];
+        const last = large.pixels[((by * 8 + 7) * 128 + bx * 8 + 7) * 4];
+        if (first !== last) varyingBlocks++;
+      }
+    }
+    assert.ok(varyingBlocks > 16, `128px texture must not be an upscaled 16px one (${varyingBlocks} varying blocks)`);
+    assert.notStrictEqual(small.hash, large.hash);
+  });
 });
 
 describe("behavior intelligence", () => {
@@ -4,9 +4,8 @@
  */
 
 import type { ModSpecV1, PlanSpec, WoodType } from "@themodgenerator/spec";
-import { SUPPORTED_MINECRAFT_VERSION, SUPPORTED_LOADER } from "@themodgenerator/spec";
+import { SUPPORTED_MINECRAFT_VERSION, SUPPORTED_LOADER, DEFAULT_MOD_ID, DEFAULT_WOOD_TREE } from "@themodgenerator/spec";
 
-const MOD_ID = "generated";
 const MAX_ID_LEN = 32;
 
 function slug(name: string): string {
@@ -32,7 +31,7 @@ function titleCase(name: string): string {
 
 /**
  * Map PlanSpec to ModSpecV1. Deterministic and testable.
- * - add_wood_type + entities.woodTypes -> spec.woodTypes (respect noBlocks / noRecipes)
+ * - add_wood_type + entities.woodTypes -> spec.woodTypes with a forest tree (respect noBlocks / noRecipes)
  * - add_ores + entities.ores -> items (raw_*, *_ingot), blocks (*_ore, deepslate_*_ore), smelting if implied
  * - add_items / add_blocks -> items / blocks arrays
  */
@@ -44,7 +43,7 @@ export function planToModSpec(plan: PlanSpec): ModSpecV1 {
     schemaVersion: 1,
     minecraftVersion: SUPPORTED_MINECRAFT_VERSION,
     loader: SUPPORTED_LOADER,
-    modId: MOD_ID,
+    modId: DEFAULT_MOD_ID, // replaced per job by sanitizeSpec (deriveModId)
     modName: "Generated Mod",
     features: ["hello-world"],
     items: [],
@@ -65,7 +64,7 @@ export function planToModSpec(plan: PlanSpec): ModSpecV1 {
   ) {
     spec.woodTypes = entities.woodTypes.map((name) => {
       const id = slug(name);
-      return { id, displayName: titleCase(name) } as WoodType;
+      return { id, displayName: titleCase(name), tree: DEFAULT_WOOD_TREE } as WoodType;
     });
     const first = spec.woodTypes[0];
     if (first) spec.modName = `${first.displayName} Mod`;
@@ -10,6 +10,8 @@
  * - Items and blocks MUST always fully materialize
  */
 
+import { PRIMITIVE_SAFETY_BOUNDS } from "@themodgenerator/spec";
+
 export type Primitive =
   | "register_item"
   | "register_block"
@@ -83,7 +85,7 @@ export const PRIMITIVE_REGISTRY: Record<Primitive, PrimitiveDefinition> = {
   area_of_effect: {
     id: "area_of_effect",
     creditCost: 4,
-    safety: { maxRange: 8, maxEntities: 16 },
+    safety: { ...PRIMITIVE_SAFETY_BOUNDS.area_of_effect },
   },
   particle_effect: {
     id: "particle_effect",
@@ -103,6 +105,6 @@ export const PRIMITIVE_REGISTRY: Record<Primitive, PrimitiveDefinition> = {
   tick_behavior: {
     id: "tick_behavior",
     creditCost: 4,
-    safety: { maxFrequency: 20 },
+    safety: { ...PRIMITIVE_SAFETY_BOUNDS.tick_behavior },
   },
 };
@@ -46,7 +46,7 @@ export function emitHelloWorld(spec: ModSpecV1, outDir: string): void {
   }
 
   writeFileSync(join(outDir, "build.gradle"), buildGradle(id), "utf8");
-  writeFileSync(join(outDir, "gradle.properties"), gradleProperties(), "utf8");
+  writeFileSync(join(outDir, "gradle.properties"), gradleProperties(id), "utf8");
   writeFileSync(join(outDir, "settings.gradle"), settingsGradle(id), "utf8");
   writeFileSync(
     join(outDir, "src", "main", "resources", "fabric.mod.json"),
@@ -130,7 +130,7 @@ java {
 `;
 }
 
-function gradleProperties(): string {
+function gradleProperties(modId: string): string {
   return `# Fabric 1.21.1
 minecraft_version=1.21.1
 yarn_mappings=1.21.1+build.3
@@ -139,7 +139,7 @@ fabric_version=0.109.0+1.21.1
 
 mod_version=1.0.0
 maven_group=net.themodgenerator
-archives_base_name=generated
+archives_base_name=${modId}
 
 # Cloud Run jobs: no daemon, foreground-only, constrained JVM
 org.gradle.daemon=false
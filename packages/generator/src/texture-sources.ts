@@ -1,13 +1,62 @@
 /**
  * Visual Fidelity Pipeline — Phase 4.
- * Texture source selection. Priority: user-provided (future) → curated pack → procedural fallback.
+ * Texture source selection. Priority: user-provided (future) → palette swap → curated pack → procedural fallback.
+ * Palette swap: a vanilla template per ItemKind/variant (ingot, gem, nugget, raw, planks, bricks) whose luminance
+ * ramp the builder remaps onto the generated palette.
  * Same recipe → same chosen source. No random or abstract textures. Deterministic.
  */
 
+import type { ItemKind } from "@themodgenerator/spec";
 import type { TextureRecipe } from "./texture-recipe.js";
 import type { VisualLevel } from "./visual-levels.js";
+import { VisualKind } from "./materialization/vanilla-visual-defaults.js";
 
-export type TextureSourceKind = "user_provided" | "curated" | "procedural_fallback";
+export type TextureSourceKind = "user_provided" | "palette_swap" | "curated" | "procedural_fallback";
+
+export type PaletteSwapVariant = "ingot" | "gem" | "nugget" | "raw" | "planks" | "bricks";
+
+/** Vanilla template per variant: path relative to assets/minecraft/textures (no .png). */
+export const PALETTE_SWAP_TEMPLATES: Record<PaletteSwapVariant, string> = {
+  ingot: "item/iron_ingot",
+  gem: "item/diamond",
+  nugget: "item/iron_nugget",
+  raw: "item/raw_iron",
+  planks: "block/oak_planks",
+  bricks: "block/stone_bricks",
+};
+
+export interface PaletteSwapTemplate {
+  variant: PaletteSwapVariant;
+  /** Vanilla texture the builder recolors (PALETTE_SWAP_TEMPLATES). */
+  template: string;
+}
+
+const KIND_VARIANTS: Partial<Record<ItemKind, PaletteSwapVariant>> = {
+  ingot: "ingot",
+  gem: "gem",
+  nugget: "nugget",
+  raw: "raw",
+};
+
+const VISUAL_KIND_VARIANTS: Partial<Record<VisualKind, PaletteSwapVariant>> = {
+  [VisualKind.INGOT]: "ingot",
+  [VisualKind.GEM]: "gem",
+  [VisualKind.NUGGET]: "nugget",
+  [VisualKind.RAW_ORE]: "raw",
+  [VisualKind.PLANKS]: "planks",
+};
+
+/**
+ * Palette swap template for an entity, or null when no vanilla template fits. ItemKind wins, then the visual kind
+ * from the entity's id/name; *_bricks ids use stone bricks.
+ */
+export function paletteSwapTemplate(input: { id: string; kind?: ItemKind; visualKind: VisualKind }): PaletteSwapTemplate | null {
+  const variant =
+    (input.kind ? KIND_VARIANTS[input.kind] : undefined) ??
+    VISUAL_KIND_VARIANTS[input.visualKind] ??
+    (/(^|_)bricks$/.test(input.id) ? "bricks" : undefined);
+  return variant ? { variant, template: PALETTE_SWAP_TEMPLATES[variant] } : null;
+}
 
 export interface TextureSourceResult {
   kind: TextureSourceKind;
@@ -20,14 +69,16 @@ export interface TextureSourceResult {
 /**
  * Select texture source for a recipe and visual level.
  * 1. User-provided asset (future: when present, return user_provided).
- * 2. Curated internal texture pack (human-made, indexed by deterministic key).
- * 3. Procedural fallback (simple gradient/noise; respects recipe description).
+ * 2. Palette swap, when the entity has a vanilla template (paletteSwapTemplate).
+ * 3. Curated internal texture pack (human-made, indexed by deterministic key).
+ * 4. Procedural fallback (simple gradient/noise; respects recipe description).
  * Same recipe + level → same sourceKey. No randomness.
  */
 export function selectTextureSource(
   recipe: TextureRecipe,
   visualLevel: VisualLevel,
-  _userProvidedKey?: string | null
+  _userProvidedKey?: string | null,
+  paletteSwap?: PaletteSwapTemplate | null
 ): TextureSourceResult {
   if (_userProvidedKey != null && _userProvidedKey.length > 0) {
     return {
@@ -37,6 +88,14 @@ export function selectTextureSource(
     };
   }
 
+  if (paletteSwap) {
+    return {
+      kind: "palette_swap",
+      sourceKey: `swap_${paletteSwap.variant}_${paletteSwap.template.replace(/\//g, "-")}`,
+      label: "Palette swap: " + paletteSwap.template,
+    };
+  }
+
   const curatedKey = getCuratedSourceKey(recipe, visualLevel);
   if (curatedKey !== null) {
     return {
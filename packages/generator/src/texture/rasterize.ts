@@ -6,6 +6,7 @@
  */
 
 import type { FinalTexturePlan } from "./synthesize.js";
+import type { TextureResolution } from "../visual-levels.js";
 
 export type RasterizedTexture = {
   size: number;
@@ -80,17 +81,20 @@ function contentHash(pixels: Uint8ClampedArray): string {
 /**
  * Rasterize FinalTexturePlan to pixels. Deterministic per (plan + size + seed).
  * Uses proceduralSpec.baseNoise, detailLayers, palette; glowMask as alpha/emissive.
+ * size is the VisualLevel textureResolution; noise and detail-layer frequencies scale with it, so larger
+ * sizes add detail instead of enlarging the 16px pattern.
  * NEVER produces flat or uniform textures.
  */
 export function rasterizeTexture(
   plan: FinalTexturePlan,
-  size: 16 | 32,
+  size: TextureResolution,
   seed: string
 ): RasterizedTexture {
   const { palette, proceduralSpec, styledSpec } = plan;
   const colors = palette.colors.length >= 3 ? palette.colors : ["#9370DB", "#8A2BE2", "#4A3728"];
   const rgbPalette = colors.map(hexToRgb);
-  const scale = proceduralSpec.scale * (size / 16);
+  const detail = size / 16;
+  const scale = proceduralSpec.scale * detail;
   const contrast = proceduralSpec.contrast;
   const glowMask = proceduralSpec.postProcess.glowMask ?? false;
   const vanillaClamp = styledSpec.vanillaColorClamp ?? false;
@@ -109,12 +113,12 @@ export function rasterizeTexture(
 
       for (const layer of proceduralSpec.detailLayers) {
         const layerSeed = noiseSeed + layer.type;
-        const lv = noise(layerSeed, nx * 2, ny * 2, 3) * layer.intensity;
+        const lv = noise(layerSeed, nx * 2, ny * 2, 3 * detail) * layer.intensity;
         if (layer.type === "drip") v = v * (1 - 0.3 * lv) + (ny * lv) * 0.3;
-        else if (layer.type === "veins") v = v + (noise(layerSeed, nx * 5, ny * 5, 2) - 0.5) * layer.intensity;
+        else if (layer.type === "veins") v = v + (noise(layerSeed, nx * 5, ny * 5, 2 * detail) - 0.5) * layer.intensity;
         else if (layer.type === "sparkles") v = v + (v > 0.6 ? layer.intensity * 0.3 : 0);
         else if (layer.type === "swirl") v = v + (Math.sin(nx * 10 + ny * 10) * 0.5 + 0.5) * layer.intensity * 0.2;
-        else v = v + (noise(layerSeed, nx, ny, 6) - 0.5) * layer.intensity * 0.5;
+        else v = v + (noise(layerSeed, nx, ny, 6 * detail) - 0.5) * layer.intensity * 0.5;
       }
 
       v = Math.max(0, Math.min(1, v));
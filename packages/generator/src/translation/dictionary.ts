@@ -0,0 +1,240 @@
+/**
+ * Offline translation dictionary: material words and name forms (family variants, ore/tool/armor members)
+ * for the languages the dictionary translator knows. Keys are lower-case English.
+ * Forms hold {base} where the (translated) base name goes; a letter directly next to {base} marks a compound
+ * (German "{base}erz" → Rubinerz, or Maple-Erz when the base is not in the dictionary).
+ */
+
+export interface LanguageDictionary {
+  /** Base words and phrases (materials, woods) as written inside a name. */
+  words: Readonly<Record<string, string>>;
+  /** Name forms: "{base} planks", "polished {base}", ... → translated template. */
+  forms: Readonly<Record<string, string>>;
+}
+
+/** Dictionary per language (locale prefix: es_es and es_mx both use "es"). */
+export type TranslationDictionary = Readonly<Record<string, LanguageDictionary>>;
+
+const ES: LanguageDictionary = {
+  words: {
+    ruby: "rubí",
+    sapphire: "zafiro",
+    emerald: "esmeralda",
+    diamond: "diamante",
+    amethyst: "amatista",
+    topaz: "topacio",
+    jade: "jade",
+    crystal: "cristal",
+    gold: "oro",
+    iron: "hierro",
+    copper: "cobre",
+    silver: "plata",
+    tin: "estaño",
+    stone: "piedra",
+    granite: "granito",
+    marble: "mármol",
+    basalt: "basalto",
+    obsidian: "obsidiana",
+    oak: "roble",
+    "dark oak": "roble oscuro",
+    birch: "abedul",
+    spruce: "abeto",
+    maple: "arce",
+    cherry: "cerezo",
+    willow: "sauce",
+    pine: "pino",
+    cedar: "cedro",
+  },
+  forms: {
+    "{base} log": "tronco de {base}",
+    "{base} stripped log": "tronco de {base} sin corteza",
+    "{base} wood": "madera de {base}",
+    "{base} stripped wood": "madera de {base} sin corteza",
+    "{base} planks": "tablones de {base}",
+    "{base} stairs": "escaleras de {base}",
+    "{base} slab": "losa de {base}",
+    "{base} fence": "valla de {base}",
+    "{base} fence gate": "puerta de valla de {base}",
+    "{base} door": "puerta de {base}",
+    "{base} trapdoor": "trampilla de {base}",
+    "{base} pressure plate": "placa de presión de {base}",
+    "{base} button": "botón de {base}",
+    "{base} sign": "cartel de {base}",
+    "{base} hanging sign": "cartel colgante de {base}",
+    "{base} wall hanging sign": "cartel colgante de pared de {base}",
+    "{base} boat": "bote de {base}",
+    "{base} chest boat": "bote de {base} con cofre",
+    "{base} leaves": "hojas de {base}",
+    "{base} sapling": "brote de {base}",
+    "{base} potted sapling": "brote de {base} en maceta",
+    "polished {base}": "{base} pulido",
+    "{base} bricks": "ladrillos de {base}",
+    "{base} wall": "muro de {base}",
+    "{base} ore": "mena de {base}",
+    "deepslate {base} ore": "mena de {base} de pizarra profunda",
+    "{base} block": "bloque de {base}",
+    "raw {base}": "{base} en bruto",
+    "{base} ingot": "lingote de {base}",
+    "{base} nugget": "pepita de {base}",
+    "{base} dust": "polvo de {base}",
+    "{base} pickaxe": "pico de {base}",
+    "{base} axe": "hacha de {base}",
+    "{base} shovel": "pala de {base}",
+    "{base} hoe": "azada de {base}",
+    "{base} sword": "espada de {base}",
+    "{base} helmet": "casco de {base}",
+    "{base} chestplate": "peto de {base}",
+    "{base} leggings": "grebas de {base}",
+    "{base} boots": "botas de {base}",
+  },
+};
+
+const DE: LanguageDictionary = {
+  words: {
+    ruby: "Rubin",
+    sapphire: "Saphir",
+    emerald: "Smaragd",
+    diamond: "Diamant",
+    amethyst: "Amethyst",
+    topaz: "Topas",
+    jade: "Jade",
+    crystal: "Kristall",
+    gold: "Gold",
+    iron: "Eisen",
+    copper: "Kupfer",
+    silver: "Silber",
+    tin: "Zinn",
+    stone: "Stein",
+    granite: "Granit",
+    marble: "Marmor",
+    basalt: "Basalt",
+    obsidian: "Obsidian",
+    oak: "Eichen",
+    "dark oak": "Schwarzeichen",
+    birch: "Birken",
+    spruce: "Fichten",
+    maple: "Ahorn",
+    cherry: "Kirsch",
+    willow: "Weiden",
+    pine: "Kiefern",
+    cedar: "Zedern",
+  },
+  forms: {
+    "{base} log": "{base}stamm",
+    "{base} stripped log": "Entrindeter {base}stamm",
+    "{base} wood": "{base}holz",
+    "{base} stripped wood": "Entrindetes {base}holz",
+    "{base} planks": "{base}bretter",
+    "{base} stairs": "{base}treppe",
+    "{base} slab": "{base}stufe",
+    "{base} fence": "{base}zaun",
+    "{base} fence gate": "{base}zauntor",
+    "{base} door": "{base}tür",
+    "{base} trapdoor": "{base}falltür",
+    "{base} pressure plate": "{base}druckplatte",
+    "{base} button": "{base}knopf",
+    "{base} sign": "{base}schild",
+    "{base} hanging sign": "{base}hängeschild",
+    "{base} wall hanging sign": "{base}wandhängeschild",
+    "{base} boat": "{base}boot",
+    "{base} chest boat": "{base}truhenboot",
+    "{base} leaves": "{base}laub",
+    "{base} sapling": "{base}setzling",
+    "{base} potted sapling": "Eingetopfter {base}setzling",
+    "polished {base}": "Polierter {base}",
+    "{base} bricks": "{base}ziegel",
+    "{base} wall": "{base}mauer",
+    "{base} ore": "{base}erz",
+    "deepslate {base} ore": "Tiefenschiefer-{base}erz",
+    "{base} block": "{base}block",
+    "raw {base}": "Roh{base}",
+    "{base} ingot": "{base}barren",
+    "{base} nugget": "{base}klumpen",
+    "{base} dust": "{base}staub",
+    "{base} pickaxe": "{base}spitzhacke",
+    "{base} axe": "{base}axt",
+    "{base} shovel": "{base}schaufel",
+    "{base} hoe": "{base}hacke",
+    "{base} sword": "{base}schwert",
+    "{base} helmet": "{base}helm",
+    "{base} chestplate": "{base}brustpanzer",
+    "{base} leggings": "{base}beinschutz",
+    "{base} boots": "{base}stiefel",
+  },
+};
+
+const PT: LanguageDictionary = {
+  words: {
+    ruby: "rubi",
+    sapphire: "safira",
+    emerald: "esmeralda",
+    diamond: "diamante",
+    amethyst: "ametista",
+    topaz: "topázio",
+    jade: "jade",
+    crystal: "cristal",
+    gold: "ouro",
+    iron: "ferro",
+    copper: "cobre",
+    silver: "prata",
+    tin: "estanho",
+    stone: "pedra",
+    granite: "granito",
+    marble: "mármore",
+    basalt: "basalto",
+    obsidian: "obsidiana",
+    oak: "carvalho",
+    "dark oak": "carvalho-escuro",
+    birch: "bétula",
+    spruce: "pinheiro",
+    maple: "bordo",
+    cherry: "cerejeira",
+    willow: "salgueiro",
+    pine: "pinho",
+    cedar: "cedro",
+  },
+  forms: {
+    "{base} log": "tronco de {base}",
+    "{base} stripped log": "tronco de {base} descascado",
+    "{base} wood": "madeira de {base}",
+    "{base} stripped wood": "madeira de {base} descascada",
+    "{base} planks": "tábuas de {base}",
+    "{base} stairs": "escada de {base}",
+    "{base} slab": "laje de {base}",
+    "{base} fence": "cerca de {base}",
+    "{base} fence gate": "portão de {base}",
+    "{base} door": "porta de {base}",
+    "{base} trapdoor": "alçapão de {base}",
+    "{base} pressure plate": "placa de pressão de {base}",
+    "{base} button": "botão de {base}",
+    "{base} sign": "placa de {base}",
+    "{base} hanging sign": "placa suspensa de {base}",
+    "{base} wall hanging sign": "placa suspensa de parede de {base}",
+    "{base} boat": "barco de {base}",
+    "{base} chest boat": "barco de {base} com baú",
+    "{base} leaves": "folhas de {base}",
+    "{base} sapling": "muda de {base}",
+    "{base} potted sapling": "muda de {base} em vaso",
+    "polished {base}": "{base} polido",
+    "{base} bricks": "tijolos de {base}",
+    "{base} wall": "muro de {base}",
+    "{base} ore": "minério de {base}",
+    "deepslate {base} ore": "minério de {base} de ardósia",
+    "{base} block": "bloco de {base}",
+    "raw {base}": "{base} bruto",
+    "{base} ingot": "lingote de {base}",
+    "{base} nugget": "pepita de {base}",
+    "{base} dust": "pó de {base}",
+    "{base} pickaxe": "picareta de {base}",
+    "{base} axe": "machado de {base}",
+    "{base} shovel": "pá de {base}",
+    "{base} hoe": "enxada de {base}",
+    "{base} sword": "espada de {base}",
+    "{base} helmet": "capacete de {base}",
+    "{base} chestplate": "peitoral de {base}",
+    "{base} leggings": "calças de {base}",
+    "{base} boots": "botas de {base}",
+  },
+};
+
+export const OFFLINE_DICTIONARY: TranslationDictionary = { es: ES, de: DE, pt: PT };
@@ -0,0 +1,6 @@
+/**
+ * Display name translation for lang files (ModSpecV1.locales).
+ */
+
+export { createDictionaryTranslator, dictionaryTranslator, type NameTranslator } from "./translator.js";
+export { OFFLINE_DICTIONARY, type LanguageDictionary, type TranslationDictionary } from "./dictionary.js";
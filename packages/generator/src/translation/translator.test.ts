@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { createDictionaryTranslator, dictionaryTranslator } from "./translator.js";
+
+describe("dictionaryTranslator", () => {
+  const t = (name: string, locale: string) => dictionaryTranslator.translate(name, locale);
+
+  it("composes family names with a known base per language", () => {
+    assert.strictEqual(t("Maple Planks", "es_es"), "Tablones de arce");
+    assert.strictEqual(t("Maple Planks", "de_de"), "Ahornbretter");
+    assert.strictEqual(t("Maple Planks", "pt_br"), "Tábuas de bordo");
+    assert.strictEqual(t("Ruby Ore", "de_de"), "Rubinerz");
+    assert.strictEqual(t("Raw Ruby", "de_de"), "Rohrubin");
+    assert.strictEqual(t("deepslate ruby ore", "es_mx"), "Mena de rubí de pizarra profunda", "V2 lower-case names, es_mx uses es");
+  });
+
+  it("prefers the longest form and nests forms", () => {
+    assert.strictEqual(t("Maple Wall Hanging Sign", "pt_br"), "Placa suspensa de parede de bordo");
+    assert.strictEqual(t("Maple Stripped Log", "es_es"), "Tronco de arce sin corteza");
+    assert.strictEqual(t("Polished Granite Stairs", "es_es"), "Escaleras de granito pulido");
+    assert.strictEqual(t("Polished Granite Stairs", "de_de"), "Polierter Granit-Treppe");
+  });
+
+  it("keeps an unknown base as written, hyphenated in German compounds", () => {
+    assert.strictEqual(t("Zorbium Block", "es_es"), "Bloque de Zorbium");
+    assert.strictEqual(t("Zorbium Block", "de_de"), "Zorbium-Block");
+    assert.strictEqual(t("Raw Zorbium", "de_de"), "Roh-Zorbium");
+  });
+
+  it("returns undefined for unknown names and languages", () => {
+    assert.strictEqual(t("Magic Wand", "es_es"), undefined);
+    assert.strictEqual(t("Ruby Ore", "ja_jp"), undefined);
+    assert.strictEqual(createDictionaryTranslator({}).translate("Ruby Ore", "es_es"), undefined);
+  });
+});
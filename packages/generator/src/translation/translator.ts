@@ -0,0 +1,79 @@
+/**
+ * Display name translation for lang files. Pluggable: the materializer takes any NameTranslator;
+ * the default is the deterministic offline dictionary backend (no network, same input → same output).
+ * Family and set names compose per language: "Maple Planks" is parsed as form "{base} planks" with base "Maple",
+ * and forms nest ("Polished Granite Stairs" → stairs of "Polished Granite").
+ */
+
+import { OFFLINE_DICTIONARY, type LanguageDictionary, type TranslationDictionary } from "./dictionary.js";
+
+export interface NameTranslator {
+  /** Display name in the Minecraft locale (e.g. "es_es"), or undefined when unknown (the caller keeps English). */
+  translate(name: string, locale: string): string | undefined;
+}
+
+/** Translated text; known = it came from the dictionary (an unknown base stays as written). */
+interface Translated {
+  text: string;
+  known: boolean;
+}
+
+function capitalize(s: string): string {
+  return s.length > 0 ? s[0].toUpperCase() + s.slice(1) : s;
+}
+
+/**
+ * Put the base into a form. A letter next to {base} makes a compound: a known one-word base joins directly
+ * (Roh{base} + Rubin → Rohrubin), anything else is hyphenated (Maple-Erz).
+ */
+function fillForm(template: string, base: Translated): string {
+  const [before, after] = template.split("{base}");
+  const joins = base.known && !/\s/.test(base.text);
+  let text = base.text;
+  let head = before;
+  let tail = after;
+  if (/\p{L}$/u.test(before)) {
+    if (joins) text = text[0].toLowerCase() + text.slice(1);
+    else head = `${before}-`;
+  }
+  if (/^\p{L}/u.test(after) && !joins) tail = `-${capitalize(after)}`;
+  return `${head}${text}${tail}`;
+}
+
+/** Whole phrase from the words table, else the form matching the most words around a non-empty base. */
+function translateWords(language: LanguageDictionary, words: string[]): Translated | undefined {
+  const lower = words.map((w) => w.toLowerCase());
+  const word = language.words[lower.join(" ")];
+  if (word !== undefined) return { text: word, known: true };
+
+  let best: { template: string; pre: number; post: number } | undefined;
+  for (const [form, template] of Object.entries(language.forms)) {
+    const [pre, post] = form.split("{base}").map((part) => part.trim().split(/\s+/).filter(Boolean));
+    if (pre.length + post.length >= words.length) continue;
+    const matches =
+      pre.every((w, i) => lower[i] === w) && post.every((w, i) => lower[words.length - post.length + i] === w);
+    if (matches && (!best || pre.length + post.length > best.pre + best.post)) {
+      best = { template, pre: pre.length, post: post.length };
+    }
+  }
+  if (!best) return undefined;
+  const baseWords = words.slice(best.pre, words.length - best.post);
+  const base = translateWords(language, baseWords) ?? { text: baseWords.join(" "), known: false };
+  return { text: fillForm(best.template, base), known: true };
+}
+
+/** Translator backed by a word/form dictionary; locales resolve by exact code, then language prefix. */
+export function createDictionaryTranslator(dictionary: TranslationDictionary = OFFLINE_DICTIONARY): NameTranslator {
+  return {
+    translate(name, locale) {
+      const language = dictionary[locale] ?? dictionary[locale.split("_")[0]];
+      const words = name.trim().split(/\s+/).filter(Boolean);
+      if (!language || words.length === 0) return undefined;
+      const translated = translateWords(language, words);
+      return translated ? capitalize(translated.text) : undefined;
+    },
+  };
+}
+
+/** Default translator: the offline dictionary. */
+export const dictionaryTranslator: NameTranslator = createDictionaryTranslator();
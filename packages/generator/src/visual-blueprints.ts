@@ -56,7 +56,7 @@ export function resolveVisualBlueprint(input: ResolveBlueprintInput): VisualBlue
   };
 }
 
-function resolveBaseShape(archetype: ArchetypeId, category: "item" | "block"): BaseShape {
+export function resolveBaseShape(archetype: ArchetypeId, category: "item" | "block"): BaseShape {
   if (category === "block") {
     if (archetype === "crystal_object" || archetype === "mystical_block") return "orb";
     if (archetype === "industrial_block") return "device";
@@ -0,0 +1,168 @@
+/**
+ * Block family expansion: one BlockFamily → base block + requested variant BlockSpecs and crafting recipes.
+ * Stone families also get vanilla stonecutter recipes (base → each cuttable variant).
+ * Variant blocks register a BlockItem only (no separate ItemSpec), like any other block.
+ * The base block (baseId) is always implied: every variant is crafted from it, except bricks, which are crafted
+ * from the polished block when the family has one (vanilla stone → polished → bricks).
+ * Deterministic order: base block first, then variants in BLOCK_FAMILY_VARIANTS order.
+ */
+
+import type { BlockFamily, ModRecipe } from "./types.js";
+import type { BlockSpec } from "./specs.js";
+import { TIER_1 } from "./tier.js";
+
+/** Variants the family expander and materializer resolve (validator source of truth). */
+export const BLOCK_FAMILY_VARIANTS = [
+  "block",
+  "polished_block",
+  "bricks",
+  "stairs",
+  "slab",
+  "wall",
+  "fence",
+  "fence_gate",
+  "door",
+  "trapdoor",
+  "button",
+  "pressure_plate",
+] as const;
+
+export type BlockFamilyVariant = (typeof BLOCK_FAMILY_VARIANTS)[number];
+
+/** Registry id of a family variant (e.g. granite_rock + polished_block → polished_granite_rock). */
+export function blockFamilyVariantId(baseId: string, variant: BlockFamilyVariant): string {
+  if (variant === "block") return baseId;
+  if (variant === "polished_block") return `polished_${baseId}`;
+  return `${baseId}_${variant}`;
+}
+
+function variantDisplayName(baseDisplayName: string, variant: BlockFamilyVariant): string {
+  if (variant === "block") return baseDisplayName;
+  if (variant === "polished_block") return `Polished ${baseDisplayName}`;
+  const suffix = variant
+    .split("_")
+    .map((p) => p[0].toUpperCase() + p.slice(1))
+    .join(" ");
+  return `${baseDisplayName} ${suffix}`;
+}
+
+function isFamilyVariant(v: string): v is BlockFamilyVariant {
+  return (BLOCK_FAMILY_VARIANTS as readonly string[]).includes(v);
+}
+
+/** Requested variants in canonical order, always including the base block. Unknown variants are skipped (validator rejects them). */
+export function blockFamilyVariants(family: BlockFamily): BlockFamilyVariant[] {
+  const requested = new Set(family.variants.filter(isFamilyVariant));
+  return BLOCK_FAMILY_VARIANTS.filter((v) => v === "block" || requested.has(v));
+}
+
+/** Expand all block families. Blocks already declared explicitly (e.g. the base block) are not duplicated. */
+export function expandBlockFamilies(families: BlockFamily[], existingBlockIds: Set<string>): BlockSpec[] {
+  const blockSpecs: BlockSpec[] = [];
+  const seen = new Set(existingBlockIds);
+  for (const family of families) {
+    for (const variant of blockFamilyVariants(family)) {
+      const id = blockFamilyVariantId(family.baseId, variant);
+      if (seen.has(id)) continue;
+      seen.add(id);
+      blockSpecs.push({
+        id,
+        name: variantDisplayName(family.baseDisplayName, variant),
+        tier: TIER_1,
+        material: family.familyType,
+      });
+    }
+  }
+  return blockSpecs;
+}
+
+/** Vanilla crafting shape per variant ("#" = base block, "/" = stick). */
+function variantRecipe(family: BlockFamily, variant: BlockFamilyVariant): Omit<ModRecipe, "id"> | null {
+  const base = { id: family.baseId };
+  const result = (count: number) => ({ id: blockFamilyVariantId(family.baseId, variant), count });
+  switch (variant) {
+    case "block":
+      return null;
+    case "polished_block":
+      return { type: "crafting_shaped", pattern: ["##", "##"], key: { "#": base }, result: result(4) };
+    case "bricks": {
+      // Same 2x2 shape as polished_block, so chain from it rather than competing for the base block.
+      const from = blockFamilyVariants(family).includes("polished_block")
+        ? { id: blockFamilyVariantId(family.baseId, "polished_block") }
+        : base;
+      return { type: "crafting_shaped", pattern: ["##", "##"], key: { "#": from }, result: result(4) };
+    }
+    case "stairs":
+      return { type: "crafting_shaped", pattern: ["#  ", "## ", "###"], key: { "#": base }, result: result(4) };
+    case "slab":
+      return { type: "crafting_shaped", pattern: ["###"], key: { "#": base }, result: result(6) };
+    case "wall":
+      return { type: "crafting_shaped", pattern: ["###", "###"], key: { "#": base }, result: result(6) };
+    case "fence":
+      return {
+        type: "crafting_shaped",
+        pattern: ["#/#", "#/#"],
+        key: { "#": base, "/": { id: "minecraft:stick" } },
+        result: result(3),
+      };
+    case "fence_gate":
+      return {
+        type: "crafting_shaped",
+        pattern: ["/#/", "/#/"],
+        key: { "#": base, "/": { id: "minecraft:stick" } },
+        result: result(1),
+      };
+    case "door":
+      return { type: "crafting_shaped", pattern: ["##", "##", "##"], key: { "#": base }, result: result(3) };
+    case "trapdoor":
+      // Wooden trapdoors: 6 → 2; iron-style (stone/metal/generic): 4 → 1.
+      return family.familyType === "wood"
+        ? { type: "crafting_shaped", pattern: ["###", "###"], key: { "#": base }, result: result(2) }
+        : { type: "crafting_shaped", pattern: ["##", "##"], key: { "#": base }, result: result(1) };
+    case "button":
+      return { type: "crafting_shapeless", ingredients: [{ id: family.baseId }], result: result(1) };
+    case "pressure_plate":
+      return { type: "crafting_shaped", pattern: ["##"], key: { "#": base }, result: result(1) };
+  }
+}
+
+/** Stonecutter output count per variant (vanilla stone: slab 2, everything else 1). Other variants are not cut. */
+const STONECUTTING_COUNTS: Partial<Record<BlockFamilyVariant, number>> = {
+  polished_block: 1,
+  bricks: 1,
+  stairs: 1,
+  slab: 2,
+  wall: 1,
+};
+
+/** Stonecutting recipe id, vanilla-style (e.g. granite_rock_slab_from_granite_rock_stonecutting). */
+export function stonecuttingRecipeId(resultId: string, inputId: string): string {
+  return `${resultId}_from_${inputId}_stonecutting`;
+}
+
+/**
+ * Vanilla-style crafting recipes for every requested variant, crafted from the family base block,
+ * plus stonecutting recipes for stone families. MC 1.21.1 format.
+ */
+export function blockFamilyRecipes(families: BlockFamily[]): ModRecipe[] {
+  const recipes: ModRecipe[] = [];
+  for (const family of families) {
+    for (const variant of blockFamilyVariants(family)) {
+      const recipe = variantRecipe(family, variant);
+      if (recipe) recipes.push({ id: blockFamilyVariantId(family.baseId, variant), ...recipe });
+    }
+    if (family.familyType !== "stone") continue;
+    for (const variant of blockFamilyVariants(family)) {
+      const count = STONECUTTING_COUNTS[variant];
+      if (count === undefined) continue;
+      const resultId = blockFamilyVariantId(family.baseId, variant);
+      recipes.push({
+        id: stonecuttingRecipeId(resultId, family.baseId),
+        type: "stonecutting",
+        ingredients: [{ id: family.baseId }],
+        result: { id: resultId, count },
+      });
+    }
+  }
+  return recipes;
+}
@@ -32,7 +32,15 @@ const WOOD_FAMILY_MEMBERS: ReadonlyArray<{
   { idSuffix: "_sign", displaySuffix: " Sign", kind: "both", material: "wood" },
   { idSuffix: "_hanging_sign", displaySuffix: " Hanging Sign", kind: "both", material: "wood" },
   { idSuffix: "_wall_hanging_sign", displaySuffix: " Wall Hanging Sign", kind: "block", material: "wood" },
-  // Boat/chest_boat omitted until entity+renderer implemented
+  { idSuffix: "_boat", displaySuffix: " Boat", kind: "item", material: "wood" },
+  { idSuffix: "_chest_boat", displaySuffix: " Chest Boat", kind: "item", material: "wood" },
+];
+
+/** Tree members, only when WoodType.tree is set. Block-only: the block registers its BlockItem (none for the pot). */
+const WOOD_TREE_MEMBERS: ReadonlyArray<{ idSuffix: string; displaySuffix: string }> = [
+  { idSuffix: "_leaves", displaySuffix: " Leaves" },
+  { idSuffix: "_sapling", displaySuffix: " Sapling" },
+  { idSuffix: "_potted_sapling", displaySuffix: " Potted Sapling" },
 ];
 
 export interface WoodExpansionResult {
@@ -62,7 +70,7 @@ function toItemSpec(wood: WoodType, idSuffix: string, displaySuffix: string, mat
   };
 }
 
-/** Expand a single WoodType into the full wood family. Order: by WOOD_FAMILY_MEMBERS. */
+/** Expand a single WoodType into the full wood family. Order: by WOOD_FAMILY_MEMBERS, then WOOD_TREE_MEMBERS. */
 export function expandWoodType(wood: WoodType): WoodExpansionResult {
   const itemSpecs: ItemSpec[] = [];
   const blockSpecs: BlockSpec[] = [];
@@ -77,6 +85,11 @@ export function expandWoodType(wood: WoodType): WoodExpansionResult {
       itemSpecs.push(toItemSpec(wood, member.idSuffix, member.displaySuffix, material));
     }
   }
+  if (wood.tree) {
+    for (const member of WOOD_TREE_MEMBERS) {
+      blockSpecs.push(toBlockSpec(wood, member.idSuffix, member.displaySuffix, "wood"));
+    }
+  }
 
   return { itemSpecs, blockSpecs };
 }
@@ -202,6 +215,19 @@ export function woodRecipesFromWoodTypes(woodTypes: WoodType[]): ModRecipe[] {
       },
       result: { id: `${woodId}_hanging_sign`, count: 6 },
     });
+    recipes.push({
+      id: `${woodId}_boat`,
+      type: "crafting_shaped",
+      pattern: ["# #", "###"],
+      key: { "#": { id: planks } },
+      result: { id: `${woodId}_boat`, count: 1 },
+    });
+    recipes.push({
+      id: `${woodId}_chest_boat`,
+      type: "crafting_shapeless",
+      ingredients: [{ id: "minecraft:chest" }, { id: `${woodId}_boat` }],
+      result: { id: `${woodId}_chest_boat`, count: 1 },
+    });
     // Vanilla-equivalent recipes using generated planks only (no #minecraft:planks)
     recipes.push({
       id: `wooden_sword_from_${woodId}_planks`,
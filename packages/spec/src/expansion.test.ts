@@ -86,6 +86,8 @@ describe("expandSpecTier1", () => {
     assert.ok(recipeIds.includes("maple_pressure_plate"));
     assert.ok(recipeIds.includes("maple_sign"));
     assert.ok(recipeIds.includes("maple_hanging_sign"));
+    assert.ok(recipeIds.includes("maple_boat"));
+    assert.ok(recipeIds.includes("maple_chest_boat"));
     assert.ok(recipeIds.includes("wooden_sword_from_maple_planks"));
     assert.ok(recipeIds.includes("wooden_pickaxe_from_maple_planks"));
     assert.ok(recipeIds.includes("barrel_from_maple_planks"));
@@ -116,10 +118,25 @@ describe("expandSpecTier1", () => {
       "maple_sign",
       "maple_hanging_sign",
       "maple_wall_hanging_sign",
+      "maple_boat",
+      "maple_chest_boat",
     ];
     for (const id of expected) {
       assert.ok(allIds.includes(id), `expansion must include ${id}`);
     }
+    const blockIds = expanded.blocks.map((b) => b.id);
+    assert.ok(!blockIds.includes("maple_boat") && !blockIds.includes("maple_chest_boat"), "boats are items only");
+  });
+
+  it("woodTypes with tree expand leaves, sapling and potted sapling as blocks only", () => {
+    const withTree = expandSpecTier1(minimalSpec({ woodTypes: [{ id: "maple", displayName: "Maple", tree: {} }] }));
+    const blockIds = withTree.blocks.map((b) => b.id);
+    for (const id of ["maple_leaves", "maple_sapling", "maple_potted_sapling"]) {
+      assert.ok(blockIds.includes(id), `expansion must include ${id}`);
+      assert.ok(!withTree.items.some((i) => i.id === id), `${id} has no separate item spec`);
+    }
+    const withoutTree = expandSpecTier1(minimalSpec({ woodTypes: [{ id: "maple", displayName: "Maple" }] }));
+    assert.ok(!withoutTree.blocks.some((b) => b.id === "maple_leaves"));
   });
 
   it("woodTypes with constraints.noRecipes: blocks/items created but no wood recipes added", () => {
@@ -133,4 +150,62 @@ describe("expandSpecTier1", () => {
     const recipeIds = (expanded.spec.recipes ?? []).map((r) => r.id);
     assert.strictEqual(recipeIds.filter((id) => id.startsWith("maple_")).length, 0, "no wood recipes when noRecipes");
   });
+
+  it("blockFamilies expand to base block + variant blocks (no separate items) and crafting recipes", () => {
+    const spec = minimalSpec({
+      blockFamilies: [
+        {
+          baseId: "granite_rock",
+          baseDisplayName: "Granite Rock",
+          familyType: "stone",
+          variants: ["stairs", "slab", "wall", "polished_block", "button"],
+        },
+      ],
+    });
+    const expanded = expandSpecTier1(spec);
+    assert.deepStrictEqual(
+      expanded.blocks.map((b) => b.id),
+      ["granite_rock", "polished_granite_rock", "granite_rock_stairs", "granite_rock_slab", "granite_rock_wall", "granite_rock_button"]
+    );
+    assert.strictEqual(expanded.blocks.find((b) => b.id === "polished_granite_rock")?.name, "Polished Granite Rock");
+    assert.ok(expanded.blocks.every((b) => b.material === "stone"));
+    assert.strictEqual(expanded.items.length, 0);
+    const slab = (expanded.spec.recipes ?? []).find((r) => r.id === "granite_rock_slab");
+    assert.deepStrictEqual(slab?.pattern, ["###"]);
+    assert.deepStrictEqual(slab?.key, { "#": { id: "granite_rock" } });
+    assert.strictEqual(slab?.result.count, 6);
+    const cut = (expanded.spec.recipes ?? []).filter((r) => r.type === "stonecutting");
+    assert.deepStrictEqual(
+      cut.map((r) => [r.id, r.result.count]),
+      [
+        ["polished_granite_rock_from_granite_rock_stonecutting", 1],
+        ["granite_rock_stairs_from_granite_rock_stonecutting", 1],
+        ["granite_rock_slab_from_granite_rock_stonecutting", 2],
+        ["granite_rock_wall_from_granite_rock_stonecutting", 1],
+      ]
+    );
+    assert.deepStrictEqual(cut[0].ingredients, [{ id: "granite_rock" }]);
+  });
+
+  it("blockFamilies craft bricks from the polished block, so the two 2x2 recipes do not collide", () => {
+    const family = { baseId: "granite_rock", baseDisplayName: "Granite Rock", familyType: "stone" as const };
+    const recipes = (variants: string[]) => expandSpecTier1(minimalSpec({ blockFamilies: [{ ...family, variants }] })).spec.recipes ?? [];
+    const both = recipes(["polished_block", "bricks"]);
+    assert.deepStrictEqual(both.find((r) => r.id === "polished_granite_rock")?.key, { "#": { id: "granite_rock" } });
+    assert.deepStrictEqual(both.find((r) => r.id === "granite_rock_bricks")?.key, { "#": { id: "polished_granite_rock" } });
+    const bricksOnly = recipes(["bricks"]);
+    assert.deepStrictEqual(bricksOnly.find((r) => r.id === "granite_rock_bricks")?.key, { "#": { id: "granite_rock" } });
+  });
+
+  it("blockFamilies reuse an explicitly declared base block", () => {
+    const spec = minimalSpec({
+      blocks: [{ id: "steel_block", name: "Block of Steel" }],
+      blockFamilies: [{ baseId: "steel_block", baseDisplayName: "Steel", familyType: "metal", variants: ["door", "trapdoor"] }],
+    });
+    const expanded = expandSpecTier1(spec);
+    assert.deepStrictEqual(expanded.blocks.map((b) => b.id), ["steel_block", "steel_block_door", "steel_block_trapdoor"]);
+    const trapdoor = (expanded.spec.recipes ?? []).find((r) => r.id === "steel_block_trapdoor");
+    assert.deepStrictEqual(trapdoor?.pattern, ["##", "##"]);
+    assert.ok((expanded.spec.recipes ?? []).every((r) => r.type !== "stonecutting"), "only stone families are cut");
+  });
 });
@@ -15,6 +15,7 @@ import { itemSpecFromModItem, blockSpecFromModBlock } from "./specs.js";
 import { TIER_1 } from "./tier.js";
 import type { VisualDescriptorTier1, HandheldItemDescriptor, CubeBlockDescriptor } from "./descriptor.js";
 import { expandWoodTypes, woodRecipesFromWoodTypes } from "./expand-wood-type.js";
+import { expandBlockFamilies, blockFamilyRecipes } from "./expand-block-family.js";
 
 export interface ExpandedSpecTier1 {
   /** Original spec. */
@@ -61,18 +62,26 @@ export function expandSpecTier1(spec: ModSpecV1): ExpandedSpecTier1 {
     blockSpecFromModBlock(m, TIER_1)
   );
   const wood = expandWoodTypes(spec.woodTypes ?? []);
+  const familyBlocks = expandBlockFamilies(
+    spec.blockFamilies ?? [],
+    new Set([...explicitBlocks, ...wood.blockSpecs].map((b) => b.id))
+  );
   const items: ItemSpec[] = [...explicitItems, ...wood.itemSpecs];
-  const blocks: BlockSpec[] = [...explicitBlocks, ...wood.blockSpecs];
+  const blocks: BlockSpec[] = [...explicitBlocks, ...wood.blockSpecs, ...familyBlocks];
   const descriptors: VisualDescriptorTier1[] = [
     ...items.map(itemToDescriptor),
     ...blocks.map(blockToDescriptor),
   ];
 
-  const woodRecipes = woodRecipesFromWoodTypes(spec.woodTypes ?? []);
-  const skipWoodRecipes = (spec.constraints as { noRecipes?: boolean } | undefined)?.noRecipes === true;
+  const explicitRecipeIds = new Set((spec.recipes ?? []).map((r) => r.id));
+  const impliedRecipes = [
+    ...woodRecipesFromWoodTypes(spec.woodTypes ?? []),
+    ...blockFamilyRecipes(spec.blockFamilies ?? []).filter((r) => !explicitRecipeIds.has(r.id)),
+  ];
+  const skipImpliedRecipes = (spec.constraints as { noRecipes?: boolean } | undefined)?.noRecipes === true;
   const specWithRecipes =
-    woodRecipes.length > 0 && !skipWoodRecipes
-      ? { ...spec, recipes: [...(spec.recipes ?? []), ...woodRecipes] }
+    impliedRecipes.length > 0 && !skipImpliedRecipes
+      ? { ...spec, recipes: [...(spec.recipes ?? []), ...impliedRecipes] }
       : spec;
 
   return {
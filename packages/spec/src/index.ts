@@ -1,23 +1,39 @@
 export type {
   ModSpecV1,
   ModSpecConstraints,
+  ModCreativeTab,
   PlanSpec,
   SpecDecision,
   SmeltingDecision,
   BlockFamily,
   WoodType,
+  WoodTree,
   TextureIntent,
   TextureProfile,
   TextureMaterialClass,
   ItemRenderIntent,
   FeatureKey,
   ModItem,
+  ModItemTool,
+  ModItemArmor,
+  ModItemFood,
+  ModFoodEffect,
+  ModItemProperties,
+  ModMaterial,
   ModBlock,
+  ModBlockMining,
+  ModBlockSettings,
+  ModBlockTickBehavior,
+  ModBlockStateMachine,
+  ModBlockStateTransition,
   ModOre,
   CookingKind,
   ModRecipe,
   ModRecipeIngredient,
   ModLoot,
+  ModLootEntry,
+  ModMobDrop,
+  ModTag,
   AssetRef,
   ConstraintsReport,
 } from "./types.js";
@@ -25,6 +41,13 @@ export {
   SUPPORTED_MINECRAFT_VERSION,
   SUPPORTED_LOADER,
   createHelloWorldSpec,
+  DEFAULT_WOOD_TREE,
+  DEFAULT_ITEM_FOOD,
+  CHEST_LOOT_POOL_WEIGHT,
+  CHEST_LOOT_MAX_WEIGHT,
+  PRIMITIVE_SAFETY_BOUNDS,
+  TICK_BEHAVIOR_LIMITS,
+  BLOCK_STATE_MACHINE_MAX_STATES,
 } from "./types.js";
 
 export type { Tier } from "./tier.js";
@@ -36,10 +59,12 @@ export {
   TIER_5,
   TIER_LABELS,
   MAX_TIER_ALLOWED,
+  MAX_TIER_MODSPEC_V2,
   FEATURE_TIER,
   getTierForFeature,
   requireTierForFeature,
   isAllowedAtTier1,
+  isAllowedAtTier,
 } from "./tier.js";
 
 export type { BaseSpec, ItemSpec, BlockSpec } from "./specs.js";
@@ -63,6 +88,15 @@ export { expandSpecTier1 } from "./expansion.js";
 
 export type { WoodExpansionResult } from "./expand-wood-type.js";
 export { expandWoodType, expandWoodTypes, woodRecipesFromWoodTypes } from "./expand-wood-type.js";
+export type { BlockFamilyVariant } from "./expand-block-family.js";
+export {
+  BLOCK_FAMILY_VARIANTS,
+  blockFamilyVariantId,
+  blockFamilyVariants,
+  expandBlockFamilies,
+  blockFamilyRecipes,
+  stonecuttingRecipeId,
+} from "./expand-block-family.js";
 
 export type {
   ModSpecV2,
@@ -75,12 +109,18 @@ export type {
   MaterialCategory,
   PowerProfile,
   BlockKind,
+  ItemKind,
   RecipeType,
+  ToolKind,
+  ArmorKind,
 } from "./modspec-v2.js";
 export { MODSPEC_V2_VERSION, SUPPORTED_MINECRAFT_V2, SUPPORTED_FABRIC_V2, isModSpecV2 } from "./modspec-v2.js";
 export type { ExpandedModSpecV2 } from "./rule-engine.js";
 export { expandModSpecV2 } from "./rule-engine.js";
+export type { ModSpecV2ToV1Options } from "./modspec-v2-to-v1.js";
 export { expandedModSpecV2ToV1 } from "./modspec-v2-to-v1.js";
+export { MOD_ID_PATTERN, DEFAULT_MOD_ID, deriveModId } from "./mod-id.js";
+export { RECIPE_INGREDIENT_SLOTS, hasIngredient, normalizeItemTag } from "./recipe-ingredients.js";
 
 import { readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
@@ -0,0 +1,44 @@
+/**
+ * Per-job mod ids. Every generated mod gets its own namespace so mods from different jobs can be
+ * installed side by side (registry ids, lang keys, resource paths, Java package and jar name).
+ * Deterministic: the same modName + jobId always yields the same modId.
+ */
+
+/** Fabric mod id shape used across the pipeline: lowercase letter first, then [a-z0-9_], max 64 chars. */
+export const MOD_ID_PATTERN = /^[a-z][a-z0-9_]{1,63}$/;
+
+const MAX_SLUG_LEN = 24;
+
+/** Placeholder when no job context exists (examples, tests). Builds always use deriveModId. */
+export const DEFAULT_MOD_ID = "generated";
+
+/** FNV-1a 32-bit hash as 8 hex chars. Not cryptographic; only spreads job ids across namespaces. */
+function shortHash(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+/** Lowercase [a-z0-9_] slug of the mod name, starting with a letter. Falls back to "mod". */
+function modNameSlug(modName: string): string {
+  const slug = modName
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, MAX_SLUG_LEN)
+    .replace(/_+$/, "");
+  if (!slug) return "mod";
+  return /^[a-z]/.test(slug) ? slug : `mod_${slug}`.slice(0, MAX_SLUG_LEN).replace(/_+$/, "");
+}
+
+/**
+ * Collision-resistant modId for a job: "<modName slug>_<job hash>" (e.g. "ruby_ores_3f2a9c01").
+ * The hash suffix keeps the id out of reserved namespaces (minecraft, fabric, c, ...).
+ */
+export function deriveModId(modName: string, jobId: string): string {
+  return `${modNameSlug(modName)}_${shortHash(jobId)}`;
+}
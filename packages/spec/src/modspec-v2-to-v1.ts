@@ -4,9 +4,81 @@
  * Attaches textureProfile so texture pipeline validators pass.
  */
 
-import type { ModSpecV1, ModItem, ModBlock, ModOre, ModRecipe, TextureProfile } from "./types.js";
-import { SUPPORTED_MINECRAFT_VERSION, SUPPORTED_LOADER } from "./types.js";
+import type {
+  ModSpecV1,
+  ModItem,
+  ModBlock,
+  ModOre,
+  ModRecipe,
+  ModRecipeIngredient,
+  ModMaterial,
+  ModTag,
+  TextureProfile,
+} from "./types.js";
+import { SUPPORTED_MINECRAFT_VERSION, SUPPORTED_LOADER, DEFAULT_ITEM_FOOD } from "./types.js";
 import type { ExpandedModSpecV2 } from "./rule-engine.js";
+import type { ItemKind, ModSpecV2Tag, RecipeIngredient, RecipeType } from "./modspec-v2.js";
+import { DEFAULT_MOD_ID } from "./mod-id.js";
+import { MAX_TIER_MODSPEC_V2 } from "./tier.js";
+
+/** V2 recipe types whose 1.21.1 recipe type id differs; the rest map 1:1. */
+const V1_RECIPE_TYPES: Partial<Record<RecipeType, string>> = {
+  campfire: "campfire_cooking",
+  smithing: "smithing_transform",
+};
+
+/** Registries a V2 tag is written to (see ModSpecV2Tag.category). */
+function v2TagRegistries(tag: ModSpecV2Tag): ModTag["registry"][] {
+  const category = tag.category.toLowerCase();
+  if (category === "blocks" || category === "block") return ["blocks"];
+  if (category === "items" || category === "item") return ["items"];
+  const path = tag.tagId.replace(/^#/, "").replace(/^[a-z0-9_.-]+:/, "");
+  if (/^(mineable\/|needs_)/.test(path) || /^(mineable\/|needs_)/.test(category)) return ["blocks"];
+  return ["blocks", "items"];
+}
+
+/**
+ * Tags for V1: Fabric convention tags from the V2 kinds (c:ores, c:ingots, c:gems, c:storage_blocks, each with its
+ * c:<group>/<material> child) plus every declared V2 tag. Same tag id + registry → one tag, values de-duplicated.
+ */
+function specTags(expanded: ExpandedModSpecV2): ModTag[] {
+  const byKey = new Map<string, ModTag>();
+  const add = (id: string, registry: ModTag["registry"], values: string[]) => {
+    const key = `${registry}|${id}`;
+    const tag = byKey.get(key) ?? { id, registry, values: [] };
+    tag.values = [...new Set([...tag.values, ...values])];
+    byKey.set(key, tag);
+  };
+  const addConvention = (group: string, materialId: string, id: string, registries: ModTag["registry"][]) => {
+    for (const registry of registries) {
+      add(`c:${group}`, registry, [id]);
+      add(`c:${group}/${materialId}`, registry, [id]);
+    }
+  };
+  for (const b of expanded.blocks ?? []) {
+    if (!b.materialRef) continue;
+    if (b.kind === "ore") addConvention("ores", b.materialRef, b.id, ["blocks", "items"]);
+    else if (b.id === `${b.materialRef}_block`) addConvention("storage_blocks", b.materialRef, b.id, ["blocks", "items"]);
+  }
+  for (const i of expanded.items ?? []) {
+    if (i.kind === "ingot") addConvention("ingots", i.materialRef, i.id, ["items"]);
+    if (i.kind === "gem") addConvention("gems", i.materialRef, i.id, ["items"]);
+  }
+  for (const tag of expanded.tags ?? []) {
+    for (const registry of v2TagRegistries(tag)) add(tag.tagId.replace(/^#/, ""), registry, tag.values);
+  }
+  return [...byKey.values()];
+}
+
+/** V2 ingredient → V1 item or tag reference; a tag wins over the (then informational) id. */
+function recipeIngredientRef(ing: RecipeIngredient): ModRecipeIngredient {
+  return ing.tag ? { tag: ing.tag.replace(/^#/, "") } : { id: ing.id };
+}
+
+export interface ModSpecV2ToV1Options {
+  /** Per-job modId (deriveModId). Defaults to DEFAULT_MOD_ID when there is no job context. */
+  modId?: string;
+}
 
 /** Minimal texture profile from display name and intent (V2→V1; materialHint from name). */
 function textureProfileFromName(displayName: string, intent: "block" | "item" | "processed"): TextureProfile {
@@ -24,10 +96,14 @@ function textureProfileFromName(displayName: string, intent: "block" | "item" |
   };
 }
 
-export function expandedModSpecV2ToV1(expanded: ExpandedModSpecV2): ModSpecV1 {
+/** Item kinds drawn as flat inventory sprites (vanilla diamond, raw iron, apple) rather than element models. */
+const SPRITE_ITEM_KINDS = new Set<ItemKind>(["gem", "raw", "ingot", "nugget", "food"]);
+
+export function expandedModSpecV2ToV1(expanded: ExpandedModSpecV2, options: ModSpecV2ToV1Options = {}): ModSpecV1 {
   const features: ModSpecV1["features"] = ["hello-world"];
   if ((expanded.blocks ?? []).some((b) => b.kind === "ore")) features.push("ore");
   if ((expanded.items ?? []).some((i) => i.kind === "ingot" || i.kind === "gem")) features.push("ingot");
+  if ((expanded.items ?? []).some((i) => i.kind === "tool")) features.push("tools");
 
   const items: ModItem[] = (expanded.items ?? []).map((i) => {
     const name = i.name ?? i.id.replace(/_/g, " ");
@@ -36,16 +112,61 @@ export function expandedModSpecV2ToV1(expanded: ExpandedModSpecV2): ModSpecV1 {
       name,
       textureIntent: "item" as const,
       textureProfile: textureProfileFromName(name, "item"),
+      kind: i.kind,
+      ...(SPRITE_ITEM_KINDS.has(i.kind) && { itemRender: "flat" as const }),
+      ...(i.kind === "tool" &&
+        i.toolKind && {
+          itemRender: "flat" as const,
+          tool: { kind: i.toolKind, materialId: i.materialRef },
+        }),
+      ...(i.kind === "armor" &&
+        i.armorKind && {
+          itemRender: "flat" as const,
+          armor: { kind: i.armorKind, materialId: i.materialRef },
+        }),
+      ...(i.kind === "food" && { food: i.food ?? DEFAULT_ITEM_FOOD }),
     };
   });
 
+  const setMaterialIds = new Set(
+    (expanded.items ?? [])
+      .filter((i) => (i.kind === "tool" && i.toolKind) || (i.kind === "armor" && i.armorKind))
+      .map((i) => i.materialRef)
+  );
+  const materials: ModMaterial[] = (expanded.materials ?? [])
+    .filter((m) => setMaterialIds.has(m.id))
+    .map((m) => {
+      const craftItem = (expanded.items ?? []).find(
+        (i) => i.materialRef === m.id && (i.kind === "gem" || i.kind === "ingot")
+      );
+      const oreBlockIds = new Set(
+        (expanded.blocks ?? []).filter((b) => b.kind === "ore" && b.materialRef === m.id).map((b) => b.id)
+      );
+      return {
+        id: m.id,
+        repairItemId: craftItem?.id ?? m.id,
+        worldgen: (expanded.worldgen ?? []).filter((w) => oreBlockIds.has(w.oreBlockId)),
+        ...(m.powerProfile && { powerProfile: m.powerProfile }),
+        ...(m.styleOverPower != null && { styleOverPower: m.styleOverPower }),
+      };
+    });
+
   const blocks: ModBlock[] = (expanded.blocks ?? []).map((b) => {
     const name = b.name ?? b.id.replace(/_/g, " ");
+    const material = (expanded.materials ?? []).find((m) => m.id === b.materialRef);
+    const materialPalette = material?.palette?.length ? material.palette : material?.colorHints;
     return {
       id: b.id,
       name,
       textureIntent: "block" as const,
       textureProfile: textureProfileFromName(name, "block"),
+      kind: b.kind,
+      ...(b.materialRef && { materialRef: b.materialRef }),
+      ...(materialPalette?.length && { materialPalette }),
+      ...(b.miningSpec &&
+        b.miningSpec.toolTag !== "none" && {
+          mining: { tool: b.miningSpec.toolTag, requiredLevel: b.miningSpec.requiredLevel, hardness: b.miningSpec.hardness },
+        }),
     };
   });
 
@@ -58,20 +179,38 @@ export function expandedModSpecV2ToV1(expanded: ExpandedModSpecV2): ModSpecV1 {
 
   const recipes: ModRecipe[] = (expanded.recipes ?? []).map((r) => ({
     id: r.id,
-    type: r.type,
+    type: V1_RECIPE_TYPES[r.type] ?? r.type,
+    ...(r.type !== "crafting_shaped" && {
+      ingredients: r.inputs
+        .filter((ing) => ing.id || ing.tag)
+        .map((ing) => ({ ...recipeIngredientRef(ing), count: ing.count ?? 1 })),
+    }),
+    ...(r.pattern && { pattern: r.pattern }),
+    ...(r.key && {
+      key: Object.fromEntries(Object.entries(r.key).map(([chr, ing]) => [chr, recipeIngredientRef(ing)])),
+    }),
     result: { id: r.result.id, count: r.result.count ?? 1 },
+    ...(r.experience != null && { experience: r.experience }),
+    ...(r.cookTimeTicks != null && { cookingtime: r.cookTimeTicks }),
   }));
 
+  const tags = specTags(expanded);
+
   return {
     schemaVersion: 1,
     minecraftVersion: SUPPORTED_MINECRAFT_VERSION,
     loader: SUPPORTED_LOADER,
-    modId: "generated",
+    modId: options.modId ?? DEFAULT_MOD_ID,
     modName: expanded.modName,
     features,
     items,
     blocks,
     ores: ores.length > 0 ? ores : undefined,
     recipes: recipes.length > 0 ? recipes : undefined,
+    materials: materials.length > 0 ? materials : undefined,
+    worldgen: (expanded.worldgen ?? []).length > 0 ? expanded.worldgen : undefined,
+    maxTier: MAX_TIER_MODSPEC_V2,
+    tags: tags.length > 0 ? tags : undefined,
+    locales: (expanded.locales ?? []).length > 0 ? expanded.locales : undefined,
   };
 }
@@ -4,6 +4,8 @@
  * Stats (tool/armor) are derived deterministically from rarity + overrides, never invented by LLM.
  */
 
+import type { ModItemFood } from "./types.js";
+
 export const MODSPEC_V2_VERSION = 2 as const;
 export const SUPPORTED_MINECRAFT_V2 = "1.21.1" as const;
 export const SUPPORTED_FABRIC_V2 = "0.15" as const;
@@ -43,6 +45,12 @@ export interface TextureSpec {
 
 export type ToolTag = "pickaxe" | "axe" | "shovel" | "hoe" | "none";
 
+/** Tool in a generated tool set; maps 1:1 to the vanilla tool item classes. */
+export type ToolKind = "pickaxe" | "axe" | "shovel" | "hoe" | "sword";
+
+/** Armor piece in a generated armor set; maps to ArmorItem.Type. */
+export type ArmorKind = "helmet" | "chestplate" | "leggings" | "boots";
+
 export interface MiningSpec {
   toolTag: ToolTag;
   requiredLevel: number;
@@ -71,6 +79,8 @@ export interface ModSpecV2Block {
 
 export interface ModSpecV2Worldgen {
   oreBlockId: string;
+  /** Deepslate variant; replaces #minecraft:deepslate_ore_replaceables. Without it the ore block is used for both targets. */
+  deepslateOreBlockId?: string;
   minY: number;
   maxY: number;
   veinSize: number;
@@ -94,6 +104,12 @@ export interface ModSpecV2Item {
   name?: string;
   kind: ItemKind;
   materialRef: string;
+  /** Required for kind "tool": which tool of the material's set this is. */
+  toolKind?: ToolKind;
+  /** Required for kind "armor": which piece of the material's set this is. */
+  armorKind?: ArmorKind;
+  /** For kind "food": hunger/saturation/effects. Missing → DEFAULT_ITEM_FOOD. */
+  food?: ModItemFood;
 }
 
 export type RecipeType =
@@ -109,13 +125,19 @@ export type RecipeType =
 export interface RecipeIngredient {
   id: string;
   count?: number;
+  /** Item tag (e.g. "minecraft:planks", "c:ingots/iron"); when set, any item in the tag matches and id is ignored. */
   tag?: string;
 }
 
 export interface ModSpecV2Recipe {
   id: string;
   type: RecipeType;
+  /** Cooking and stonecutting use the first input; smithing is [template, base, addition]. */
   inputs: RecipeIngredient[];
+  /** Required for crafting_shaped: row strings (e.g. ["###", " - ", " - "]). */
+  pattern?: string[];
+  /** Required for crafting_shaped: pattern char → ingredient. */
+  key?: Record<string, RecipeIngredient>;
   result: { id: string; count?: number };
   /** Optional for smelting/blasting: experience. */
   experience?: number;
@@ -124,9 +146,14 @@ export interface ModSpecV2Recipe {
 }
 
 export interface ModSpecV2Tag {
+  /** Tag id without "#" (e.g. "c:gems/ruby", "minecraft:beacon_payment_items"); no namespace means minecraft. */
   tagId: string;
-  /** e.g. "mineable/pickaxe", "fabric:item_group" */
+  /**
+   * "blocks" or "items" selects the tag registry. Other values (e.g. "mineable/pickaxe") are descriptive:
+   * mineable/* and needs_*_tool tags are block tags, anything else is written as both a block and an item tag.
+   */
   category: string;
+  /** Item/block ids in the spec, namespaced ids, or "#tag" references. */
   values: string[];
 }
 
@@ -143,8 +170,10 @@ export interface ModSpecV2 {
   items?: ModSpecV2Item[];
   recipes?: ModSpecV2Recipe[];
   tags?: ModSpecV2Tag[];
-  /** If true, RuleEngine may add tool/armor sets for ore materials (later). */
+  /** RuleEngine adds tool sets (pickaxe, axe, shovel, hoe, sword) and armor sets for gem/ingot materials unless this is false. */
   autoExpandSets?: boolean;
+  /** Extra lang files besides en_us (ModSpecV1.locales). */
+  locales?: string[];
 }
 
 export function isModSpecV2(spec: { schemaVersion?: number }): spec is ModSpecV2 {
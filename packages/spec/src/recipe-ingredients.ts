@@ -0,0 +1,22 @@
+/**
+ * Recipe ingredient helpers shared by the generator (recipe JSON, jar gate) and the validator.
+ */
+
+import type { ModRecipeIngredient } from "./types.js";
+
+/** Ingredient fields that must hold an ingredient object, per recipe type without a pattern/ingredients list. */
+export const RECIPE_INGREDIENT_SLOTS: Record<string, readonly string[]> = {
+  "minecraft:stonecutting": ["ingredient"],
+  "minecraft:smithing_transform": ["template", "base", "addition"],
+};
+
+/** True if the ingredient references an item or a tag. */
+export function hasIngredient(ing: ModRecipeIngredient | undefined): ing is ModRecipeIngredient {
+  return !!(ing?.id || ing?.tag);
+}
+
+/** Tag id as written in recipe JSON: no leading "#", default namespace minecraft. */
+export function normalizeItemTag(tag: string): string {
+  const bare = tag.replace(/^#/, "");
+  return bare.includes(":") ? bare : `minecraft:${bare}`;
+}
@@ -1,6 +1,9 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
 import { expandModSpecV2 } from "./rule-engine.js";
+import { expandedModSpecV2ToV1 } from "./modspec-v2-to-v1.js";
+import { deriveModId, MOD_ID_PATTERN } from "./mod-id.js";
+import { DEFAULT_ITEM_FOOD } from "./types.js";
 import { rubyOreModSpecV2 } from "./examples/ruby-ore-modspec-v2.js";
 import { cheeseBlockModSpecV2 } from "./examples/cheese-block-modspec-v2.js";
 
@@ -14,6 +17,7 @@ describe("RuleEngine", () => {
     assert.ok(itemIds.includes("ruby"), "gem ruby item");
     assert.ok(itemIds.includes("raw_ruby"), "raw_ruby item");
     assert.ok(blockIds.includes("ruby_ore"), "ruby_ore block");
+    assert.ok(blockIds.includes("deepslate_ruby_ore"), "deepslate_ruby_ore block");
     assert.ok(blockIds.includes("ruby_block"), "ruby_block storage");
     assert.ok(
       recipeTypes.some((r) => r.type === "smelting" && r.id.includes("raw_ruby")),
@@ -33,6 +37,7 @@ describe("RuleEngine", () => {
     );
     assert.strictEqual((expanded.worldgen ?? []).length, 1);
     assert.strictEqual((expanded.worldgen ?? [])[0].oreBlockId, "ruby_ore");
+    assert.strictEqual((expanded.worldgen ?? [])[0].deepslateOreBlockId, "deepslate_ruby_ore");
   });
 
   it("cheese block keeps food texture and does not add ore worldgen", () => {
@@ -43,4 +48,203 @@ describe("RuleEngine", () => {
     assert.strictEqual((expanded.worldgen ?? []).length, 0);
     assert.ok((expanded.recipes ?? []).some((r) => r.result.id === "cheese_block"));
   });
+
+  it("expands ruby gem into pickaxe, axe, shovel, hoe, sword with shaped recipes", () => {
+    const expanded = expandModSpecV2(rubyOreModSpecV2);
+    for (const kind of ["pickaxe", "axe", "shovel", "hoe", "sword"] as const) {
+      const tool = (expanded.items ?? []).find((i) => i.id === `ruby_${kind}`);
+      assert.ok(tool, `ruby_${kind} item`);
+      assert.strictEqual(tool.kind, "tool");
+      assert.strictEqual(tool.toolKind, kind);
+      assert.strictEqual(tool.materialRef, "ruby");
+      const recipe = (expanded.recipes ?? []).find((r) => r.result.id === `ruby_${kind}`);
+      assert.ok(recipe, `recipe for ruby_${kind}`);
+      assert.strictEqual(recipe.type, "crafting_shaped");
+      assert.deepStrictEqual(recipe.key?.["#"], { id: "ruby" });
+      assert.deepStrictEqual(recipe.key?.["-"], { id: "minecraft:stick" });
+    }
+    const pickaxe = (expanded.recipes ?? []).find((r) => r.id === "ruby_pickaxe");
+    assert.deepStrictEqual(pickaxe?.pattern, ["###", " - ", " - "]);
+  });
+
+  it("autoExpandSets false skips tool sets; ingot material gets an ingot item to craft with", () => {
+    const noSets = expandModSpecV2({ ...rubyOreModSpecV2, autoExpandSets: false });
+    assert.ok(!(noSets.items ?? []).some((i) => i.kind === "tool"));
+
+    const tin = expandModSpecV2({
+      ...rubyOreModSpecV2,
+      materials: [{ id: "tin", category: "ingot" }],
+    });
+    assert.ok((tin.items ?? []).some((i) => i.id === "tin_ingot" && i.kind === "ingot"));
+    const sword = (tin.recipes ?? []).find((r) => r.id === "tin_sword");
+    assert.deepStrictEqual(sword?.key?.["#"], { id: "tin_ingot" });
+  });
+
+  it("V1 adapter carries tool metadata, materials and shaped recipe pattern/key", () => {
+    const v1 = expandedModSpecV2ToV1(expandModSpecV2(rubyOreModSpecV2));
+    assert.ok(v1.features.includes("tools"));
+    const pickaxe = (v1.items ?? []).find((i) => i.id === "ruby_pickaxe");
+    assert.deepStrictEqual(pickaxe?.tool, { kind: "pickaxe", materialId: "ruby" });
+    const ruby = (v1.materials ?? []).find((m) => m.id === "ruby");
+    assert.ok(ruby);
+    assert.strictEqual(ruby.repairItemId, "ruby");
+    assert.strictEqual(ruby.worldgen?.[0]?.oreBlockId, "ruby_ore");
+    const recipe = (v1.recipes ?? []).find((r) => r.id === "ruby_pickaxe");
+    assert.deepStrictEqual(recipe?.pattern, ["###", " - ", " - "]);
+    assert.deepStrictEqual(recipe?.key, { "#": { id: "ruby" }, "-": { id: "minecraft:stick" } });
+    const compress = (v1.recipes ?? []).find((r) => r.id.startsWith("compress_"));
+    assert.strictEqual(compress?.ingredients?.length, 9);
+  });
+
+  it("V1 adapter makes food items edible (default food values unless given)", () => {
+    const v1 = expandedModSpecV2ToV1(expandModSpecV2(cheeseBlockModSpecV2));
+    assert.deepStrictEqual(v1.items?.find((i) => i.id === "cheese_slice")?.food, DEFAULT_ITEM_FOOD);
+    const ruby = expandedModSpecV2ToV1(expandModSpecV2(rubyOreModSpecV2));
+    assert.ok((ruby.items ?? []).every((i) => !i.food), "non-food items stay inedible");
+  });
+
+  it("V1 adapter keeps the item kind and renders material/food kinds as flat sprites", () => {
+    const v1 = expandedModSpecV2ToV1(expandModSpecV2(rubyOreModSpecV2));
+    const ruby = v1.items?.find((i) => i.id === "ruby");
+    assert.strictEqual(ruby?.kind, "gem");
+    assert.strictEqual(ruby?.itemRender, "flat");
+    assert.strictEqual(v1.items?.find((i) => i.id === "raw_ruby")?.kind, "raw");
+    assert.strictEqual(v1.items?.find((i) => i.id === "ruby_pickaxe")?.kind, "tool");
+  });
+
+  it("V1 adapter marks ore blocks with their kind, material and material palette", () => {
+    const v1 = expandedModSpecV2ToV1(
+      expandModSpecV2({ ...rubyOreModSpecV2, materials: [{ id: "ruby", category: "gem", palette: ["red", "#9b111e"] }] })
+    );
+    const deepslate = v1.blocks?.find((b) => b.id === "deepslate_ruby_ore");
+    assert.strictEqual(deepslate?.kind, "ore");
+    assert.strictEqual(deepslate?.materialRef, "ruby");
+    assert.deepStrictEqual(deepslate?.materialPalette, ["red", "#9b111e"]);
+    assert.strictEqual(v1.blocks?.find((b) => b.id === "ruby_block")?.kind, "basic");
+  });
+
+  it("V1 adapter maps campfire and smithing to their 1.21.1 recipe types", () => {
+    const v1 = expandedModSpecV2ToV1(
+      expandModSpecV2({
+        ...rubyOreModSpecV2,
+        recipes: [
+          ...(rubyOreModSpecV2.recipes ?? []),
+          { id: "roasted_ruby", type: "campfire", inputs: [{ id: "raw_ruby" }], result: { id: "ruby" } },
+          {
+            id: "ruby_upgrade",
+            type: "smithing",
+            inputs: [{ id: "minecraft:netherite_upgrade_smithing_template" }, { id: "ruby_pickaxe" }, { id: "minecraft:netherite_ingot" }],
+            result: { id: "ruby_pickaxe" },
+          },
+        ],
+      })
+    );
+    assert.strictEqual(v1.recipes?.find((r) => r.id === "roasted_ruby")?.type, "campfire_cooking");
+    const smithing = v1.recipes?.find((r) => r.id === "ruby_upgrade");
+    assert.strictEqual(smithing?.type, "smithing_transform");
+    assert.deepStrictEqual(
+      smithing?.ingredients?.map((i) => i.id),
+      ["minecraft:netherite_upgrade_smithing_template", "ruby_pickaxe", "minecraft:netherite_ingot"]
+    );
+  });
+
+  it("V1 adapter carries tag ingredients as { tag } (id ignored)", () => {
+    const v1 = expandedModSpecV2ToV1(
+      expandModSpecV2({
+        ...rubyOreModSpecV2,
+        recipes: [
+          ...(rubyOreModSpecV2.recipes ?? []),
+          {
+            id: "ruby_frame",
+            type: "crafting_shaped",
+            inputs: [],
+            pattern: ["P#P"],
+            key: { "#": { id: "ruby" }, P: { id: "", tag: "#minecraft:planks" } },
+            result: { id: "ruby_block" },
+          },
+          { id: "ruby_dust", type: "crafting_shapeless", inputs: [{ id: "iron_ingot", tag: "c:ingots/iron" }], result: { id: "ruby" } },
+        ],
+      })
+    );
+    assert.deepStrictEqual(v1.recipes?.find((r) => r.id === "ruby_frame")?.key, { "#": { id: "ruby" }, P: { tag: "minecraft:planks" } });
+    assert.deepStrictEqual(v1.recipes?.find((r) => r.id === "ruby_dust")?.ingredients, [{ tag: "c:ingots/iron", count: 1 }]);
+  });
+
+  it("V1 adapter carries mining specs, c: convention tags and declared tags", () => {
+    const v1 = expandedModSpecV2ToV1(
+      expandModSpecV2({
+        ...rubyOreModSpecV2,
+        tags: [
+          { tagId: "minecraft:beacon_payment_items", category: "items", values: ["ruby"] },
+          { tagId: "c:gems/ruby", category: "items", values: ["ruby"] },
+          { tagId: "minecraft:mineable/pickaxe", category: "mineable/pickaxe", values: ["ruby_block"] },
+        ],
+      })
+    );
+    assert.deepStrictEqual(v1.blocks?.find((b) => b.id === "ruby_ore")?.mining, { tool: "pickaxe", requiredLevel: 1, hardness: 3 });
+    const tag = (id: string, registry: "blocks" | "items") => v1.tags?.find((t) => t.id === id && t.registry === registry);
+    assert.deepStrictEqual(tag("c:ores/ruby", "blocks")?.values, ["ruby_ore", "deepslate_ruby_ore"]);
+    assert.deepStrictEqual(tag("c:ores", "items")?.values, ["ruby_ore", "deepslate_ruby_ore"]);
+    assert.deepStrictEqual(tag("c:storage_blocks/ruby", "blocks")?.values, ["ruby_block"]);
+    assert.deepStrictEqual(tag("c:gems/ruby", "items")?.values, ["ruby"], "declared tag merges with the convention tag");
+    assert.strictEqual(tag("c:gems/ruby", "blocks"), undefined, "gems are items only");
+    assert.deepStrictEqual(tag("minecraft:beacon_payment_items", "items")?.values, ["ruby"]);
+    assert.ok(tag("minecraft:mineable/pickaxe", "blocks") && !tag("minecraft:mineable/pickaxe", "items"));
+  });
+
+  it("V1 adapter carries ore worldgen with the ore feature", () => {
+    const v1 = expandedModSpecV2ToV1(expandModSpecV2(rubyOreModSpecV2));
+    assert.ok(v1.features.includes("ore"));
+    assert.strictEqual(v1.worldgen?.length, 1);
+    assert.strictEqual(v1.worldgen?.[0].deepslateOreBlockId, "deepslate_ruby_ore");
+    assert.ok((v1.ores ?? []).some((o) => o.blockId === "deepslate_ruby_ore"));
+  });
+
+  it("V1 adapter carries locales", () => {
+    const v1 = expandedModSpecV2ToV1(expandModSpecV2({ ...rubyOreModSpecV2, locales: ["es_es", "pt_br"] }));
+    assert.deepStrictEqual(v1.locales, ["es_es", "pt_br"]);
+    assert.strictEqual(expandedModSpecV2ToV1(expandModSpecV2(rubyOreModSpecV2)).locales, undefined);
+  });
+
+  it("expands ruby gem into helmet, chestplate, leggings, boots with vanilla armor shapes", () => {
+    const expanded = expandModSpecV2(rubyOreModSpecV2);
+    for (const kind of ["helmet", "chestplate", "leggings", "boots"] as const) {
+      const piece = (expanded.items ?? []).find((i) => i.id === `ruby_${kind}`);
+      assert.ok(piece, `ruby_${kind} item`);
+      assert.strictEqual(piece.kind, "armor");
+      assert.strictEqual(piece.armorKind, kind);
+      const recipe = (expanded.recipes ?? []).find((r) => r.id === `ruby_${kind}`);
+      assert.deepStrictEqual(recipe?.key, { "#": { id: "ruby" } });
+    }
+    const chestplate = (expanded.recipes ?? []).find((r) => r.id === "ruby_chestplate");
+    assert.deepStrictEqual(chestplate?.pattern, ["# #", "###", "###"]);
+
+    const v1 = expandedModSpecV2ToV1(expanded);
+    const helmet = (v1.items ?? []).find((i) => i.id === "ruby_helmet");
+    assert.deepStrictEqual(helmet?.armor, { kind: "helmet", materialId: "ruby" });
+  });
+});
+
+describe("deriveModId", () => {
+  it("is deterministic per job and differs across jobs", () => {
+    const a = deriveModId("Ruby Ores", "0b6f7c1e-9d0a-4c55-8b61-2a1f0e3d4c5b");
+    assert.strictEqual(a, deriveModId("Ruby Ores", "0b6f7c1e-9d0a-4c55-8b61-2a1f0e3d4c5b"));
+    assert.match(a, /^ruby_ores_[0-9a-f]{8}$/);
+    assert.notStrictEqual(a, deriveModId("Ruby Ores", "5d2e8a40-1c3b-4f6e-9a7d-0e1f2a3b4c5d"));
+  });
+
+  it("always yields a valid mod id, even for empty or non-letter names", () => {
+    for (const name of ["", "  ", "123 Blocks", "Über Cool Mod!!", "A".repeat(200), "minecraft", "c"]) {
+      const id = deriveModId(name, "job-1");
+      assert.match(id, MOD_ID_PATTERN, `${JSON.stringify(name)} -> ${id}`);
+      assert.notStrictEqual(id, "minecraft");
+      assert.notStrictEqual(id, "c");
+    }
+  });
+
+  it("V2 adapter uses the per-job modId when given", () => {
+    const modId = deriveModId(rubyOreModSpecV2.modName, "job-42");
+    const v1 = expandedModSpecV2ToV1(expandModSpecV2(rubyOreModSpecV2), { modId });
+    assert.strictEqual(v1.modId, modId);
+  });
 });
@@ -1,6 +1,8 @@
 /**
  * RuleEngine — deterministic expansion of ModSpecV2.
  * - Ore material → gem/raw item, ore block, smelting/blasting, 9↔storage_block.
+ * - Gem/ingot material → pickaxe, axe, shovel, hoe, sword + helmet, chestplate, leggings, boots
+ *   with shaped recipes (unless autoExpandSets is false).
  * - Food/cosmetic blocks → palette/texture rules, ensure at least one recipe.
  * No LLM; same input → same output.
  */
@@ -13,6 +15,8 @@ import type {
   ModSpecV2Recipe,
   ModSpecV2Worldgen,
   ModSpecV2Tag,
+  ToolKind,
+  ArmorKind,
 } from "./modspec-v2.js";
 
 export interface ExpandedModSpecV2 extends ModSpecV2 {
@@ -28,7 +32,7 @@ function hasId<T extends { id: string }>(arr: T[] | undefined, id: string): bool
   return (arr ?? []).some((x) => x.id === id);
 }
 
-/** Expand ore material: gem, raw, ore block, storage block, smelting, blasting, 9↔block. */
+/** Expand ore material: gem, raw, ore + deepslate ore blocks, storage block, smelting, blasting, 9↔block, worldgen. */
 function expandOreMaterial(
   _ns: string,
   materialId: string,
@@ -50,6 +54,7 @@ function expandOreMaterial(
   const gemId = materialId;
   const rawId = `raw_${materialId}`;
   const oreBlockId = `${materialId}_ore`;
+  const deepslateOreBlockId = `deepslate_${materialId}_ore`;
   const storageBlockId = `${materialId}_block`;
 
   if (!hasId(existingItems, gemId)) {
@@ -76,6 +81,16 @@ function expandOreMaterial(
       materialRef: materialId,
     });
   }
+  if (!hasId(existingBlocks, deepslateOreBlockId)) {
+    blocks.push({
+      id: deepslateOreBlockId,
+      kind: "ore",
+      textureSpec: { base: "gem", palette: ["deepslate"] },
+      miningSpec: { toolTag: "pickaxe", requiredLevel: 1, hardness: 4.5 },
+      dropsSpec: { itemId: rawId, countMin: 1, countMax: 1, fortuneMultiplier: 1 },
+      materialRef: materialId,
+    });
+  }
   if (!hasId(existingBlocks, storageBlockId)) {
     blocks.push({
       id: storageBlockId,
@@ -129,9 +144,12 @@ function expandOreMaterial(
   }
 
   const oreExists = hasId(existingBlocks, oreBlockId) || blocks.some((b) => b.id === oreBlockId);
+  const deepslateExists =
+    hasId(existingBlocks, deepslateOreBlockId) || blocks.some((b) => b.id === deepslateOreBlockId);
   if (oreExists && !existingWorldgen.some((w) => w.oreBlockId === oreBlockId)) {
     worldgen.push({
       oreBlockId,
+      ...(deepslateExists && { deepslateOreBlockId }),
       minY: -64,
       maxY: 64,
       veinSize: 4,
@@ -144,6 +162,123 @@ function expandOreMaterial(
   return { blocks, items, recipes, worldgen };
 }
 
+/** Vanilla tool recipe shapes: "#" = material item, "-" = stick. */
+const TOOL_PATTERNS: Record<ToolKind, string[]> = {
+  pickaxe: ["###", " - ", " - "],
+  axe: ["##", "#-", " -"],
+  shovel: ["#", "-", "-"],
+  hoe: ["##", " -", " -"],
+  sword: ["#", "#", "-"],
+};
+
+const TOOL_KINDS: ToolKind[] = ["pickaxe", "axe", "shovel", "hoe", "sword"];
+
+const ARMOR_PATTERNS: Record<ArmorKind, string[]> = {
+  helmet: ["###", "# #"],
+  chestplate: ["# #", "###", "###"],
+  leggings: ["###", "# #", "# #"],
+  boots: ["# #", "# #"],
+};
+
+const ARMOR_KINDS: ArmorKind[] = ["helmet", "chestplate", "leggings", "boots"];
+
+/**
+ * Crafting item of a gem/ingot material: its declared gem/ingot item, else `<id>` (gem) / `<id>_ingot` (ingot).
+ * Returns the item to add when it does not exist yet.
+ */
+function materialCraftItem(
+  material: ModSpecV2Material,
+  existingItems: ModSpecV2Item[]
+): { craftItemId: string; newItem?: ModSpecV2Item } {
+  const declared = existingItems.find(
+    (i) => i.materialRef === material.id && (i.kind === "gem" || i.kind === "ingot")
+  );
+  if (declared) return { craftItemId: declared.id };
+  const craftItemId = material.category === "ingot" ? `${material.id}_ingot` : material.id;
+  if (hasId(existingItems, craftItemId)) return { craftItemId };
+  return {
+    craftItemId,
+    newItem: { id: craftItemId, kind: material.category === "ingot" ? "ingot" : "gem", materialRef: material.id },
+  };
+}
+
+/** Occurrences of a pattern char (for recipe inputs summary). */
+function countInPattern(pattern: string[], chr: string): number {
+  return pattern.join("").split(chr).length - 1;
+}
+
+/**
+ * Expand tool set for a gem/ingot material: one item per ToolKind plus its shaped recipe.
+ * Crafting item is the material's gem/ingot item; ingot materials without one get `<id>_ingot`.
+ */
+function expandToolSet(
+  material: ModSpecV2Material,
+  existingItems: ModSpecV2Item[],
+  existingRecipes: ModSpecV2Recipe[]
+): { items: ModSpecV2Item[]; recipes: ModSpecV2Recipe[] } {
+  const items: ModSpecV2Item[] = [];
+  const recipes: ModSpecV2Recipe[] = [];
+
+  const { craftItemId, newItem } = materialCraftItem(material, existingItems);
+  if (newItem) items.push(newItem);
+
+  for (const toolKind of TOOL_KINDS) {
+    const toolId = `${material.id}_${toolKind}`;
+    if (!hasId(existingItems, toolId)) {
+      items.push({ id: toolId, kind: "tool", materialRef: material.id, toolKind });
+    }
+    if (!existingRecipes.some((r) => r.id === toolId)) {
+      const pattern = TOOL_PATTERNS[toolKind];
+      recipes.push({
+        id: toolId,
+        type: "crafting_shaped",
+        inputs: [
+          { id: craftItemId, count: countInPattern(pattern, "#") },
+          { id: "minecraft:stick", count: countInPattern(pattern, "-") },
+        ],
+        pattern,
+        key: { "#": { id: craftItemId }, "-": { id: "minecraft:stick" } },
+        result: { id: toolId, count: 1 },
+      });
+    }
+  }
+
+  return { items, recipes };
+}
+
+/** Expand armor set for a gem/ingot material: helmet, chestplate, leggings, boots plus shaped recipes. */
+function expandArmorSet(
+  material: ModSpecV2Material,
+  existingItems: ModSpecV2Item[],
+  existingRecipes: ModSpecV2Recipe[]
+): { items: ModSpecV2Item[]; recipes: ModSpecV2Recipe[] } {
+  const items: ModSpecV2Item[] = [];
+  const recipes: ModSpecV2Recipe[] = [];
+
+  const { craftItemId, newItem } = materialCraftItem(material, existingItems);
+  if (newItem) items.push(newItem);
+
+  for (const armorKind of ARMOR_KINDS) {
+    const armorId = `${material.id}_${armorKind}`;
+    if (!hasId(existingItems, armorId)) {
+      items.push({ id: armorId, kind: "armor", materialRef: material.id, armorKind });
+    }
+    if (!existingRecipes.some((r) => r.id === armorId)) {
+      const pattern = ARMOR_PATTERNS[armorKind];
+      recipes.push({
+        id: armorId,
+        type: "crafting_shaped",
+        inputs: [{ id: craftItemId, count: countInPattern(pattern, "#") }],
+        pattern,
+        key: { "#": { id: craftItemId } },
+        result: { id: armorId, count: 1 },
+      });
+    }
+  }
+
+  return { items, recipes };
+}
+
 /** Enforce food block: texture category food; palette/yellow-ish enforced by validator. */
 function enforceFoodBlockTexture(block: ModSpecV2Block): ModSpecV2Block {
   if (block.textureSpec?.base === "food") return block;
@@ -172,6 +307,14 @@ export function expandModSpecV2(spec: ModSpecV2): ExpandedModSpecV2 {
       recipes = [...recipes, ...ore.recipes];
       worldgen = [...worldgen, ...ore.worldgen];
     }
+    if (spec.autoExpandSets !== false && (mat.category === "gem" || mat.category === "ingot")) {
+      const tools = expandToolSet(mat, items, recipes);
+      items = [...items, ...tools.items];
+      recipes = [...recipes, ...tools.recipes];
+      const armor = expandArmorSet(mat, items, recipes);
+      items = [...items, ...armor.items];
+      recipes = [...recipes, ...armor.recipes];
+    }
   }
 
   blocks = blocks.map((b) =>
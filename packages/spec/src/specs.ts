@@ -30,7 +30,13 @@ export interface BlockSpec extends BaseSpec {
 
 /** Convert ModItem to ItemSpec (logic layer). */
 export function itemSpecFromModItem(
-  item: { id: string; name: string; translationKey?: string; itemRender?: "flat" | "blocklike" | "chunky" | "rod" | "plate" },
+  item: {
+    id: string;
+    name: string;
+    translationKey?: string;
+    itemRender?: "flat" | "blocklike" | "chunky" | "rod" | "plate";
+    properties?: { rarity?: ItemSpec["rarity"] };
+  },
   tier: Tier = 1
 ): ItemSpec {
   return {
@@ -38,6 +44,7 @@ export function itemSpecFromModItem(
     name: item.name,
     tier,
     material: "generic",
+    ...(item.properties?.rarity != null && { rarity: item.properties.rarity }),
     ...(item.itemRender != null && { itemRender: item.itemRender }),
   };
 }
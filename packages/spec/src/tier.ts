@@ -1,7 +1,7 @@
 /**
  * Tier engine — Plane 1 logic only.
  * Higher tiers implicitly require lower-tier constructs.
- * DO NOT implement above Tier 1 yet.
+ * DO NOT implement above Tier 1 yet (V1 specs). The ModSpecV2 pipeline allows ore worldgen (Tier 3).
  */
 
 export const TIER_1 = 1 as const;
@@ -23,13 +23,19 @@ export const TIER_LABELS: Record<Tier, string> = {
 /** Maximum tier allowed in the current implementation. */
 export const MAX_TIER_ALLOWED: Tier = TIER_1;
 
+/** Maximum tier for the ModSpecV2 pipeline (RuleEngine output): ore worldgen is emitted as placed features. */
+export const MAX_TIER_MODSPEC_V2: Tier = TIER_3;
+
 /** Feature key to minimum tier required. Tier 2+ features are stubbed/deferred. */
 export const FEATURE_TIER: Record<string, Tier> = {
   "hello-world": TIER_1,
   "ingot": TIER_1,
   "ore": TIER_3,
   "tools": TIER_2,
-  "mob-drop": TIER_4,
+  /** Extra drops on vanilla mobs (spec.mobDrops): loot-table modification only, no entity of our own. */
+  "mob-drop": TIER_1,
+  /** Custom mobs (entity type, model, renderer, AI). */
+  "custom-entity": TIER_4,
   "structure-spawn": TIER_3,
   "advancement": TIER_2,
 };
@@ -38,20 +44,24 @@ export function getTierForFeature(featureKey: string): Tier | undefined {
   return FEATURE_TIER[featureKey];
 }
 
-/** Require that a feature is allowed at the current max tier. Throws if above Tier 1. */
-export function requireTierForFeature(featureKey: string): void {
+/** Require that a feature is allowed at the given max tier (default: Tier 1). Throws otherwise. */
+export function requireTierForFeature(featureKey: string, maxTier: Tier = MAX_TIER_ALLOWED): void {
   const tier = getTierForFeature(featureKey);
   if (tier === undefined) {
     throw new Error(`Unknown feature: ${featureKey}`);
   }
-  if (tier > MAX_TIER_ALLOWED) {
+  if (tier > maxTier) {
     throw new Error(
-      `Feature "${featureKey}" requires Tier ${tier}. Only Tier ${MAX_TIER_ALLOWED} (${TIER_LABELS[MAX_TIER_ALLOWED]}) is allowed.`
+      `Feature "${featureKey}" requires Tier ${tier}. Only Tier ${maxTier} (${TIER_LABELS[maxTier]}) is allowed.`
     );
   }
 }
 
 export function isAllowedAtTier1(featureKey: string): boolean {
+  return isAllowedAtTier(featureKey, MAX_TIER_ALLOWED);
+}
+
+export function isAllowedAtTier(featureKey: string, maxTier: Tier): boolean {
   const tier = getTierForFeature(featureKey);
-  return tier !== undefined && tier <= MAX_TIER_ALLOWED;
+  return tier !== undefined && tier <= maxTier;
 }
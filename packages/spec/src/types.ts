@@ -3,6 +3,9 @@
  * Minecraft 1.21.1, Fabric only. Survival-safe features only.
  */
 
+import type { ArmorKind, BlockKind, ItemKind, ModSpecV2Worldgen, PowerProfile, ToolKind } from "./modspec-v2.js";
+import type { Tier } from "./tier.js";
+
 export const SUPPORTED_MINECRAFT_VERSION = "1.21.1" as const;
 export const SUPPORTED_LOADER = "fabric" as const;
 
@@ -30,13 +33,47 @@ export type ModSpecV1 = {
   decisions?: SpecDecision[];
   /** Structured smelting defaults: input type and ids. Materializer uses this only. */
   smelting?: SmeltingDecision[];
-  /** Block families (variants). Generation driven by variant registry. */
+  /** Block families: base block + variants (BLOCK_FAMILY_VARIANTS) with crafting recipes; see expand-block-family. */
   blockFamilies?: BlockFamily[];
   /** Wood types to expand into full vanilla wood family (log, planks, stairs, slab, fence, door, boat, etc.). */
   woodTypes?: WoodType[];
+  /** Gem/ingot materials backing generated tool/armor sets. Stats are derived by the generator balance layer. */
+  materials?: ModMaterial[];
+  /** Ore placement (Tier 3 "ore"). Materialized as configured/placed features + BiomeModifications. */
+  worldgen?: ModSpecV2Worldgen[];
+  /** Highest tier the producing pipeline allows; missing = MAX_TIER_ALLOWED. The ModSpecV2 adapter sets MAX_TIER_MODSPEC_V2. */
+  maxTier?: Tier;
+  /** Options for the mod's own creative tab (always generated when the mod has items or blocks). */
+  creativeTab?: ModCreativeTab;
+  /** Data-pack tags (ModSpecV2 tags, c: convention tags). Merged with generated tags of the same id. */
+  tags?: ModTag[];
+  /** Extra drops on vanilla mobs (feature "mob-drop"), e.g. zombies sometimes drop rotten cheese. */
+  mobDrops?: ModMobDrop[];
+  /**
+   * Extra Minecraft language codes to write lang files for (e.g. "es_es", "de_de", "pt_br").
+   * en_us is always written; item/block names are translated where the translator knows them, else kept in English.
+   */
+  locales?: string[];
 };
 
-/** Declares a wood type; expansion generates the full craftable set (no worldgen unless added later). */
+/** A block or item tag written to the data pack (replace: false). */
+export interface ModTag {
+  /** Tag id without "#" (e.g. "c:ingots/ruby", "minecraft:mineable/pickaxe"); no namespace means minecraft. */
+  id: string;
+  /** Block tags may only list blocks; item tags list items and block items. */
+  registry: "blocks" | "items";
+  /** Spec ids (mod-local), namespaced ids (minecraft:stone) or tag references (#c:ores). */
+  values: string[];
+}
+
+export interface ModCreativeTab {
+  /** Also add entries to the matching vanilla tabs (INGREDIENTS, BUILDING_BLOCKS, TOOLS, ...). Default false. */
+  alsoVanillaTabs?: boolean;
+  /** Item/block id shown as the tab icon. Default: the spec's most prominent entity (first material, wood, family). */
+  iconId?: string;
+}
+
+/** Declares a wood type; expansion generates the full craftable set (no worldgen unless tree.biomeTags is set). */
 export interface WoodType {
   /** Display name (e.g. "Maple", "Cherry"). */
   displayName: string;
@@ -44,6 +81,35 @@ export interface WoodType {
   id: string;
   /** Optional flags (e.g. no recipes, no boats). Not used in initial implementation. */
   familyOptions?: Record<string, unknown>;
+  /**
+   * Leaves, sapling, potted sapling and a tree configured feature using this wood's log/leaves.
+   * Without natural placement (biomeTags) or a recipe/loot source, the wood is unobtainable in survival.
+   */
+  tree?: WoodTree;
+}
+
+export interface WoodTree {
+  /** Biome tags the tree generates in (e.g. "#minecraft:is_forest"). Missing/empty: sapling-grown only. */
+  biomeTags?: string[];
+  /** Trees per chunk in those biomes; fractional values become a rarity filter. Default 1. */
+  perChunk?: number;
+}
+
+/** Tree defaults for prompt-derived wood types: forests, one tree per chunk. */
+export const DEFAULT_WOOD_TREE: WoodTree = { biomeTags: ["#minecraft:is_forest"], perChunk: 1 };
+
+/**
+ * Material for a generated tool/armor set. Carries only the inputs of balance.deriveToolStats/deriveArmorStats
+ * (worldgen rarity + overrides); stats themselves are never stored in the spec.
+ */
+export interface ModMaterial {
+  id: string;
+  /** Item that repairs and crafts the set (e.g. "ruby", "tin_ingot"). */
+  repairItemId: string;
+  /** Ore worldgen for the material; empty or missing = default rarity. */
+  worldgen?: ModSpecV2Worldgen[];
+  powerProfile?: PowerProfile;
+  styleOverPower?: boolean;
 }
 
 export interface SmeltingDecision {
@@ -100,6 +166,7 @@ export type FeatureKey =
   | "ingot"
   | "tools"
   | "mob-drop"
+  | "custom-entity"
   | "structure-spawn"
   | "advancement";
 
@@ -135,6 +202,66 @@ export interface ModItem {
   textureProfile?: TextureProfile;
   /** How to render in-world/inventory: flat (default), blocklike, chunky, rod, plate. */
   itemRender?: ItemRenderIntent;
+  /** ModSpecV2 item kind (gem, ingot, raw, ...). Picks the silhouette of a generated inventory sprite. */
+  kind?: ItemKind;
+  /** Registers the item as a vanilla tool class backed by spec.materials[materialId]. */
+  tool?: ModItemTool;
+  /** Registers the item as an ArmorItem backed by spec.materials[materialId]. */
+  armor?: ModItemArmor;
+  /** Makes the item edible (FoodComponent on the item settings). */
+  food?: ModItemFood;
+  /** Stack size, rarity, fire resistance and durability (Item.Settings). Ignored for tool/armor set items. */
+  properties?: ModItemProperties;
+}
+
+/** Item.Settings properties. Unset fields keep the vanilla defaults (stack of 64, common, burns in lava). */
+export interface ModItemProperties {
+  /** Max stack size, 1–99 (ender pearl 16). Must be 1 or unset when maxDamage is set. */
+  maxCount?: number;
+  /** Name color: common white, uncommon yellow, rare aqua, epic light purple. */
+  rarity?: "common" | "uncommon" | "rare" | "epic";
+  /** Survives fire and lava as a dropped item (netherite). */
+  fireproof?: boolean;
+  /** Durability: uses before the item breaks (flint and steel 64, iron tools 250). Makes the item unstackable. */
+  maxDamage?: number;
+}
+
+/** Food values in vanilla units (FoodComponent.Builder); validator keeps them within vanilla food ranges. */
+export interface ModItemFood {
+  /** Hunger points restored (half shanks), e.g. apple 4, cooked beef 8. */
+  nutrition: number;
+  /** Saturation modifier, e.g. apple 0.3, bread 0.6, golden carrot 1.2. */
+  saturation: number;
+  /** Edible with a full hunger bar (golden apple). */
+  alwaysEdible?: boolean;
+  /** Eat time in seconds. Default 1.6; snacks (dried kelp) 0.8. */
+  eatSeconds?: number;
+  effects?: ModFoodEffect[];
+}
+
+export interface ModFoodEffect {
+  /** Vanilla status effect id (e.g. "minecraft:poison" or "poison"). */
+  effect: string;
+  durationSeconds: number;
+  /** 0 = level I. Default 0. */
+  amplifier?: number;
+  /** Chance the effect is applied when eaten, 0–1. Default 1. */
+  probability?: number;
+}
+
+/** Food values for items without explicit ones (vanilla apple). */
+export const DEFAULT_ITEM_FOOD: ModItemFood = { nutrition: 4, saturation: 0.3 };
+
+export interface ModItemTool {
+  kind: ToolKind;
+  /** Id of an entry in spec.materials. */
+  materialId: string;
+}
+
+export interface ModItemArmor {
+  kind: ArmorKind;
+  /** Id of an entry in spec.materials. */
+  materialId: string;
 }
 
 export interface ModBlock {
@@ -147,6 +274,132 @@ export interface ModBlock {
   textureIntent?: TextureIntent;
   /** Semantic profile for texture generation (intent, material, traits). Required for pipeline. */
   textureProfile?: TextureProfile;
+  /** ModSpecV2 block kind. Ore blocks (and *_ore ids) get vanilla stone/deepslate/netherrack with ore clusters. */
+  kind?: BlockKind;
+  /** ModSpecV2 material of the block; ore variants of one material share their cluster layout. */
+  materialRef?: string;
+  /** Material palette (color names or "#RRGGBB") for generated ore clusters. */
+  materialPalette?: string[];
+  /** Tool needed to harvest the block (ModSpecV2 miningSpec). Without it the block breaks by hand and has no tool tag. */
+  mining?: ModBlockMining;
+  /** AbstractBlock.Settings overrides. Without it the block uses Settings.create() (plus mining hardness). */
+  blockSettings?: ModBlockSettings;
+  /** Periodic behaviors (radioactive, melting, corrupting). The block gets its own class with a scheduledTick override. */
+  tickBehaviors?: ModBlockTickBehavior[];
+  /** Visual and behavioral states (idle → active → cooldown). Not combined with tickBehaviors. */
+  stateMachine?: ModBlockStateMachine;
+}
+
+/**
+ * Block states from a BehaviorPlan state machine: an EnumProperty with one value per state, a model and texture
+ * per state, and transitions on use, after a delay, on redstone or when a player comes near.
+ */
+export interface ModBlockStateMachine {
+  /** Block state property, lower case. Default "phase". */
+  property?: string;
+  /** State names, lower case (e.g. ["idle", "charging", "activated", "depleted"]); the first is the placed state. */
+  states: string[];
+  transitions: ModBlockStateTransition[];
+}
+
+export interface ModBlockStateTransition {
+  from: string;
+  to: string;
+  /**
+   * use: right-click. delay: delayTicks after entering `from`. powered / unpowered: the block starts / stops
+   * receiving redstone power. player_near: a player within radius (checked once a second).
+   * A state has at most one transition per trigger, and at most one of delay / player_near.
+   */
+  trigger: "use" | "delay" | "powered" | "unpowered" | "player_near";
+  /** delay: ticks spent in `from` (20 = one second). */
+  delayTicks?: number;
+  /** player_near: reach in blocks. Default 4. */
+  radius?: number;
+}
+
+/** States per state machine: each is a blockstate variant with its own model and texture. */
+export const BLOCK_STATE_MACHINE_MAX_STATES = 8;
+
+/**
+ * One periodic block behavior, run from scheduledTick every intervalTicks (server side).
+ * Bounded by TICK_BEHAVIOR_LIMITS; validateBehaviorCompliance rejects anything outside them.
+ */
+export interface ModBlockTickBehavior {
+  /**
+   * status_effect: statusEffect on living entities within radius. transform: the block turns into transformInto.
+   * spread: one random block in spreadTag within radius turns into this block. ambient_particle: particles above it.
+   */
+  effect: "status_effect" | "transform" | "spread" | "ambient_particle";
+  /** Ticks between runs (20 = once a second). */
+  intervalTicks: number;
+  /**
+   * Run only while near_heat (block light above 11 next to the block: fire, lava, a torch up close, like vanilla ice)
+   * or in a warm_biome (temperature above 0.9: desert, savanna, jungle, badlands, nether). Default: always.
+   */
+  condition?: "near_heat" | "warm_biome";
+  /** status_effect / spread reach in blocks. Default 3. */
+  radius?: number;
+  /** status_effect: vanilla effect id (e.g. "minecraft:poison"). */
+  statusEffect?: string;
+  /** status_effect: effect length in ticks. Default 100. */
+  durationTicks?: number;
+  /** status_effect: 0 = level I. Default 0. */
+  amplifier?: number;
+  /** transform: replacement block id (e.g. "minecraft:water", "minecraft:air"). */
+  transformInto?: string;
+  /** spread: block tag the block spreads into (e.g. "minecraft:dirt"). */
+  spreadTag?: string;
+}
+
+/**
+ * Safety bounds of the primitives block ticks are built from; the generator's PRIMITIVE_REGISTRY uses these.
+ * tick_behavior runs at most maxFrequency times a second; area_of_effect reaches maxRange blocks and maxEntities.
+ */
+export const PRIMITIVE_SAFETY_BOUNDS = {
+  tick_behavior: { maxFrequency: 20 },
+  area_of_effect: { maxRange: 8, maxEntities: 16 },
+} as const;
+
+/** Safety bounds for ModBlockTickBehavior, derived from PRIMITIVE_SAFETY_BOUNDS (20 game ticks a second). */
+export const TICK_BEHAVIOR_LIMITS = {
+  minIntervalTicks: Math.max(1, Math.ceil(20 / PRIMITIVE_SAFETY_BOUNDS.tick_behavior.maxFrequency)),
+  maxRadius: PRIMITIVE_SAFETY_BOUNDS.area_of_effect.maxRange,
+  maxEntities: PRIMITIVE_SAFETY_BOUNDS.area_of_effect.maxEntities,
+  /** Longest status effect a tick applies (30 seconds). */
+  maxDurationTicks: 600,
+  amplifierMax: 3,
+} as const;
+
+/**
+ * Block physics, sound and light (AbstractBlock.Settings). All optional; unset fields keep the vanilla
+ * Settings.create() default, except hardness, which falls back to mining.hardness.
+ */
+export interface ModBlockSettings {
+  /** Break time factor (dirt 0.5, stone 1.5, iron block 5, obsidian 50). */
+  hardness?: number;
+  /** Blast resistance (stone 6, obsidian 1200). Default: same as hardness. */
+  resistance?: number;
+  /** BlockSoundGroup constant, lower case (e.g. "stone", "glass", "amethyst_block", "metal"). */
+  sound?: string;
+  /** Light level emitted, 0–15 (glowstone 15, amethyst cluster 5). */
+  luminance?: number;
+  /** Drops only when mined with the right tool. Default: true when mining is set. Needs mining for the tool tags. */
+  requiresTool?: boolean;
+  /** Surface friction, 0–1 (normal 0.6, ice 0.98). */
+  slipperiness?: number;
+  /** Entities pass through the block. */
+  noCollision?: boolean;
+  /** MapColor constant, lower case (e.g. "stone_gray", "diamond_blue", "red"). */
+  mapColor?: string;
+}
+
+/** Harvest requirement: mineable/<tool> and needs_<level>_tool tags; the block requires the tool to drop. */
+export interface ModBlockMining {
+  tool: "pickaxe" | "axe" | "shovel" | "hoe";
+  /** Minimum tool tier: 0 any (wood), 1 stone, 2 iron, 3 diamond. Default 0. */
+  requiredLevel?: number;
+  /** Block hardness (stone 1.5, iron ore 3, obsidian 50). Default 3. */
+  hardness?: number;
 }
 
 export interface ModOre {
@@ -159,20 +412,31 @@ export interface ModOre {
 /** Cooking recipe type for 1.21.1 (smelting, blasting, smoking, campfire_cooking). */
 export type CookingKind = "smelting" | "blasting" | "smoking" | "campfire_cooking";
 
+/** One recipe ingredient: an item (id) or any item in a tag (tag). Exactly one of id / tag is set. */
 export interface ModRecipeIngredient {
-  id: string;
+  /** Spec item/block id, or a namespaced id (e.g. "minecraft:stick"). */
+  id?: string;
+  /** Item tag without "#" (e.g. "minecraft:planks", "c:ingots/iron"); no namespace means minecraft. */
+  tag?: string;
   count?: number;
 }
 
 export interface ModRecipe {
   id: string;
+  /**
+   * crafting_shapeless, crafting_shaped, smelting, blasting, smoking, campfire_cooking, stonecutting
+   * or smithing_transform.
+   */
   type: string;
-  /** Required for crafting_shapeless; each entry references a spec item/block id. */
+  /**
+   * Required for crafting_shapeless; each entry references a spec item/block id.
+   * Cooking and stonecutting use the first entry; smithing_transform is [template, base, addition].
+   */
   ingredients?: ModRecipeIngredient[];
   /** Required for crafting_shaped: row strings (e.g. ["###", "# #", "###"]). */
   pattern?: string[];
-  /** Required for crafting_shaped: map pattern char to spec id (e.g. { "#": { id: "ingot" } }). */
-  key?: Record<string, { id: string }>;
+  /** Required for crafting_shaped: map pattern char to ingredient (e.g. { "#": { id: "ingot" }, "P": { tag: "minecraft:planks" } }). */
+  key?: Record<string, ModRecipeIngredient>;
   result: { id: string; count?: number };
   /** Optional for cooking recipes (smelting/blasting/smoking/campfire_cooking). Defaults applied in generator. */
   experience?: number;
@@ -183,9 +447,54 @@ export interface ModRecipe {
 export interface ModLoot {
   id: string;
   type: "block" | "entity" | "chest";
+  /** Block/entity id, or for "chest" the vanilla chest loot table (e.g. "minecraft:chests/simple_dungeon"). */
   targetId: string;
+  /** Chest loot: items injected into targetId as one extra pool (one roll; the rest of the pool is empty). */
+  entries?: ModLootEntry[];
+}
+
+/** One weighted item in an injected chest pool. */
+export interface ModLootEntry {
+  /** Spec item (or block item) id. */
+  itemId: string;
+  /** Weight out of CHEST_LOOT_POOL_WEIGHT; at most CHEST_LOOT_MAX_WEIGHT[rarity]. Default: that maximum. */
+  weight?: number;
+  /** Stack size range. Default 1–1. */
+  minCount?: number;
+  maxCount?: number;
 }
 
+/** Extra drop added to a vanilla mob's loot table (entities/<mob>) as its own pool. */
+export interface ModMobDrop {
+  /** Vanilla entity id (e.g. "minecraft:zombie"); no namespace means minecraft. */
+  entityId: string;
+  /** Spec item (or block item) id. */
+  itemId: string;
+  /** Drop chance per kill, 0–1 (wither skeleton skull 0.025). */
+  chance: number;
+  /** Extra chance per Looting level (wither skeleton skull 0.01). Default 0. */
+  lootingBonus?: number;
+  /** Drop only when a player (or tamed wolf) kills the mob, like vanilla rare drops. Default true. */
+  killedByPlayer?: boolean;
+  /** Stack size range. Default 1–1. */
+  minCount?: number;
+  maxCount?: number;
+}
+
+/** Total weight of an injected chest pool; what the entries leave is an empty entry (no extra item). */
+export const CHEST_LOOT_POOL_WEIGHT = 100;
+
+/**
+ * Highest chest weight per item rarity (ModItemProperties.rarity, default common): an epic item turns up in
+ * at most 2% of chests, a common one in 20%.
+ */
+export const CHEST_LOOT_MAX_WEIGHT: Record<NonNullable<ModItemProperties["rarity"]>, number> = {
+  common: 20,
+  uncommon: 10,
+  rare: 5,
+  epic: 2,
+};
+
 export interface AssetRef {
   path: string;
   /** e.g. 16 for 16x16 item texture */
@@ -9,6 +9,12 @@ import { validateSpecHygiene } from "./validate-spec-hygiene.js";
 import { validateBehaviorCompliance } from "./validate-behavior-compliance.js";
 import { validateBlockFamilies } from "./validate-block-families.js";
 import { validateTextureProfile } from "./validate-texture-profile.js";
+import { validateFoodItems } from "./validate-food.js";
+import { validateBlockSettings } from "./validate-block-settings.js";
+import { validateItemProperties } from "./validate-item-properties.js";
+import { validateChestLoot } from "./validate-chest-loot.js";
+import { validateMobDrops } from "./validate-mob-drops.js";
+import { validateLocales } from "./validate-locales.js";
 import {
   validateTier1,
   TIER1_NO_FEATURES,
@@ -64,6 +70,48 @@ export function validateSpec(spec: ModSpecV1, options?: { prompt?: string; specF
         return { valid: r.valid, reason: r.errors.join("; ") };
       },
     },
+    {
+      name: "food-balance",
+      fn: () => {
+        const r = validateFoodItems(spec.items);
+        return { valid: r.valid, reason: r.errors.join("; ") };
+      },
+    },
+    {
+      name: "item-properties",
+      fn: () => {
+        const r = validateItemProperties(spec.items);
+        return { valid: r.valid, reason: r.errors.join("; ") };
+      },
+    },
+    {
+      name: "block-settings",
+      fn: () => {
+        const r = validateBlockSettings(spec.blocks);
+        return { valid: r.valid, reason: r.errors.join("; ") };
+      },
+    },
+    {
+      name: "chest-loot",
+      fn: () => {
+        const r = validateChestLoot(spec);
+        return { valid: r.valid, reason: r.errors.join("; ") };
+      },
+    },
+    {
+      name: "mob-drops",
+      fn: () => {
+        const r = validateMobDrops(spec);
+        return { valid: r.valid, reason: r.errors.join("; ") };
+      },
+    },
+    {
+      name: "locales",
+      fn: () => {
+        const r = validateLocales(spec.locales);
+        return { valid: r.valid, reason: r.errors.join("; ") };
+      },
+    },
     { name: "spec-consistency", fn: () => validateSpecConsistency(spec) },
     { name: "fabric-version", fn: () => validateFabricVersion(spec) },
     { name: "forbidden-mechanics", fn: () => validateForbiddenMechanics(spec, options?.prompt) },
@@ -100,9 +148,31 @@ export type { ValidateSpecHygieneResult } from "./validate-spec-hygiene.js";
 export { validateSpecHygiene } from "./validate-spec-hygiene.js";
 export type { ValidateBehaviorComplianceResult } from "./validate-behavior-compliance.js";
 export { validateBehaviorCompliance } from "./validate-behavior-compliance.js";
+export type { ValidateModIdResult } from "./validate-mod-id.js";
+export { validateModId, RESERVED_NAMESPACES } from "./validate-mod-id.js";
 export type { ValidateBlockFamiliesResult } from "./validate-block-families.js";
 export { validateBlockFamilies, SUPPORTED_VARIANTS } from "./validate-block-families.js";
 export type { ValidateTextureProfileResult } from "./validate-texture-profile.js";
 export { validateTextureProfile } from "./validate-texture-profile.js";
 export type { ValidateGeneratedRecipeJsonResult } from "./validate-generated-recipe-json.js";
 export { validateGeneratedRecipeJson } from "./validate-generated-recipe-json.js";
+export type { ValidateFoodResult } from "./validate-food.js";
+export { validateFood, validateFoodItems, FOOD_LIMITS, FOOD_STATUS_EFFECTS } from "./validate-food.js";
+export type { ValidateBlockSettingsResult } from "./validate-block-settings.js";
+export {
+  validateBlockSettings,
+  validateBlockSettingsEntry,
+  BLOCK_SETTINGS_LIMITS,
+  BLOCK_SOUND_GROUPS,
+  MAP_COLORS,
+} from "./validate-block-settings.js";
+export type { ValidateItemPropertiesResult } from "./validate-item-properties.js";
+export { validateItemProperties, validateItemPropertiesEntry, ITEM_PROPERTY_LIMITS } from "./validate-item-properties.js";
+export type { ValidateChestLootResult } from "./validate-chest-loot.js";
+export { validateChestLoot, VANILLA_CHEST_LOOT_TABLES } from "./validate-chest-loot.js";
+export type { ValidateMobDropsResult } from "./validate-mob-drops.js";
+export { validateMobDrops, VANILLA_MOB_LOOT_ENTITIES } from "./validate-mob-drops.js";
+export type { ValidateLocalesResult } from "./validate-locales.js";
+export { validateLocales, LOCALE_CODE_PATTERN } from "./validate-locales.js";
+export { VANILLA_ITEM_TAGS, COMMON_ITEM_TAGS, modItemTags, isKnownItemTag } from "./item-tags.js";
+export { VANILLA_BLOCKS, VANILLA_BLOCK_TAGS, modBlockTags, isKnownBlockId, isKnownBlockTag } from "./vanilla-blocks.js";
@@ -0,0 +1,123 @@
+/**
+ * Item tags a recipe may reference: vanilla item tags, the common (c:) convention tags shipped with
+ * Fabric API, and the tags the mod's own data pack generates. A tag outside these would leave the
+ * recipe uncraftable (an empty tag matches nothing).
+ */
+
+import type { ModSpecV1 } from "@themodgenerator/spec";
+import { normalizeItemTag } from "@themodgenerator/spec";
+
+/** Vanilla 1.21.1 item tags commonly used as recipe ingredients. */
+export const VANILLA_ITEM_TAGS = new Set<string>([
+  "minecraft:planks",
+  "minecraft:logs",
+  "minecraft:logs_that_burn",
+  "minecraft:oak_logs",
+  "minecraft:birch_logs",
+  "minecraft:spruce_logs",
+  "minecraft:jungle_logs",
+  "minecraft:acacia_logs",
+  "minecraft:dark_oak_logs",
+  "minecraft:mangrove_logs",
+  "minecraft:cherry_logs",
+  "minecraft:crimson_stems",
+  "minecraft:warped_stems",
+  "minecraft:bamboo_blocks",
+  "minecraft:wooden_slabs",
+  "minecraft:wooden_stairs",
+  "minecraft:wooden_fences",
+  "minecraft:wooden_buttons",
+  "minecraft:wooden_pressure_plates",
+  "minecraft:wooden_doors",
+  "minecraft:wooden_trapdoors",
+  "minecraft:slabs",
+  "minecraft:stairs",
+  "minecraft:walls",
+  "minecraft:leaves",
+  "minecraft:saplings",
+  "minecraft:wool",
+  "minecraft:wool_carpets",
+  "minecraft:sand",
+  "minecraft:smelts_to_glass",
+  "minecraft:terracotta",
+  "minecraft:candles",
+  "minecraft:coals",
+  "minecraft:fishes",
+  "minecraft:arrows",
+  "minecraft:boats",
+  "minecraft:chest_boats",
+  "minecraft:stone_crafting_materials",
+  "minecraft:stone_tool_materials",
+  "minecraft:soul_fire_base_blocks",
+  "minecraft:decorated_pot_ingredients",
+  "minecraft:trim_materials",
+  "minecraft:trim_templates",
+  "minecraft:flowers",
+  "minecraft:small_flowers",
+]);
+
+/** Common convention (c:) item tags from Fabric API 1.21.1. */
+export const COMMON_ITEM_TAGS = new Set<string>([
+  "c:ingots",
+  "c:ingots/iron",
+  "c:ingots/gold",
+  "c:ingots/copper",
+  "c:ingots/netherite",
+  "c:nuggets",
+  "c:nuggets/iron",
+  "c:nuggets/gold",
+  "c:gems",
+  "c:gems/diamond",
+  "c:gems/emerald",
+  "c:gems/lapis",
+  "c:gems/quartz",
+  "c:gems/amethyst",
+  "c:dusts",
+  "c:dusts/redstone",
+  "c:dusts/glowstone",
+  "c:raw_materials",
+  "c:raw_materials/iron",
+  "c:raw_materials/gold",
+  "c:raw_materials/copper",
+  "c:ores",
+  "c:storage_blocks",
+  "c:rods/wooden",
+  "c:rods/blaze",
+  "c:chests",
+  "c:chests/wooden",
+  "c:cobblestones",
+  "c:stones",
+  "c:glass_blocks",
+  "c:glass_panes",
+  "c:strings",
+  "c:leathers",
+  "c:slime_balls",
+  "c:ender_pearls",
+  "c:feathers",
+  "c:gunpowders",
+  "c:bones",
+  "c:eggs",
+  "c:crops",
+  "c:seeds",
+  "c:foods",
+  "c:dyes",
+]);
+
+/** Item tags the mod's own data pack writes (wood-tags: <modId>:planks, <modId>:logs; spec.tags item tags). */
+export function modItemTags(spec: ModSpecV1): Set<string> {
+  const tags = new Set<string>();
+  if ((spec.woodTypes ?? []).length > 0) {
+    tags.add(`${spec.modId}:planks`);
+    tags.add(`${spec.modId}:logs`);
+  }
+  for (const tag of spec.tags ?? []) {
+    if (tag.registry === "items" && tag.values.length > 0) tags.add(normalizeItemTag(tag.id));
+  }
+  return tags;
+}
+
+/** True if tag is vanilla, a common c: tag, or generated by this mod. */
+export function isKnownItemTag(tag: string, spec: ModSpecV1): boolean {
+  const id = normalizeItemTag(tag);
+  return VANILLA_ITEM_TAGS.has(id) || COMMON_ITEM_TAGS.has(id) || modItemTags(spec).has(id);
+}
@@ -0,0 +1,59 @@
+/**
+ * Survival integration gate: ores need loot and a recipe; wood types need a source of logs.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import type { ModSpecV1 } from "@themodgenerator/spec";
+import { validateSurvivalIntegration } from "./survival-integration.js";
+import { validateSpec } from "./index.js";
+
+function minimalSpec(overrides: Partial<ModSpecV1> = {}): ModSpecV1 {
+  return {
+    schemaVersion: 1,
+    minecraftVersion: "1.21.1",
+    loader: "fabric",
+    modId: "test_mod",
+    modName: "Test Mod",
+    features: ["hello-world"],
+    ...overrides,
+  };
+}
+
+describe("validateSurvivalIntegration", () => {
+  it("wood type with an unplaced tree and no log recipe is unobtainable", () => {
+    const result = validateSurvivalIntegration(minimalSpec({ woodTypes: [{ id: "maple", displayName: "Maple", tree: {} }] }));
+    assert.strictEqual(result.valid, false);
+    assert.ok(result.reason?.includes("maple"), result.reason);
+  });
+
+  it("wood type with biome-placed tree or a sapling recipe passes", () => {
+    const placed = minimalSpec({
+      woodTypes: [{ id: "maple", displayName: "Maple", tree: { biomeTags: ["#minecraft:is_forest"] } }],
+    });
+    assert.strictEqual(validateSurvivalIntegration(placed).valid, true);
+    const crafted = minimalSpec({
+      woodTypes: [{ id: "maple", displayName: "Maple", tree: {} }],
+      recipes: [{ id: "maple_sapling", type: "crafting_shapeless", ingredients: [{ id: "minecraft:oak_sapling" }], result: { id: "maple_sapling" } }],
+    });
+    assert.strictEqual(validateSurvivalIntegration(crafted).valid, true);
+  });
+
+  it("wood type without a tree (no sapling or tree feature) is reported unless its log is craftable", () => {
+    const spec = minimalSpec({ woodTypes: [{ id: "maple", displayName: "Maple" }] });
+    const result = validateSurvivalIntegration(spec);
+    assert.strictEqual(result.valid, false);
+    assert.ok(result.reason?.includes("has no tree"), result.reason);
+    assert.strictEqual(validateSpec(spec).gate, "survival-integration");
+    const sapling = minimalSpec({
+      woodTypes: [{ id: "maple", displayName: "Maple" }],
+      recipes: [{ id: "maple_sapling", type: "crafting_shapeless", ingredients: [{ id: "minecraft:oak_sapling" }], result: { id: "maple_sapling" } }],
+    });
+    assert.strictEqual(validateSurvivalIntegration(sapling).valid, false, "a tree-less wood has no sapling");
+    const log = minimalSpec({
+      woodTypes: [{ id: "maple", displayName: "Maple" }],
+      recipes: [{ id: "maple_log", type: "crafting_shapeless", ingredients: [{ id: "minecraft:oak_log" }], result: { id: "maple_log" } }],
+    });
+    assert.strictEqual(validateSurvivalIntegration(log).valid, true);
+  });
+});
@@ -7,7 +7,8 @@ export interface ValidationResult {
 
 /**
  * Survival integration gate: if ore/block exists, it must have loot + recipe + use.
- * For hello-world we have no ores; this is a stub for future expansion.
+ * Wood types need a source of logs: a tree placed in biomes, or a recipe for the log (or the sapling, when the
+ * wood has a tree). Wood types without a tree have no sapling or tree feature, so only a log recipe makes them obtainable.
  */
 export function validateSurvivalIntegration(spec: ModSpecV1): ValidationResult {
   if (spec.ores && spec.ores.length > 0) {
@@ -23,5 +24,22 @@ export function validateSurvivalIntegration(spec: ModSpecV1): ValidationResult {
       }
     }
   }
+  for (const wood of spec.woodTypes ?? []) {
+    const placedTree = (wood.tree?.biomeTags ?? []).length > 0;
+    const sources = new Set(wood.tree ? [`${wood.id}_log`, `${wood.id}_sapling`] : [`${wood.id}_log`]);
+    const crafted = (spec.recipes ?? []).some((r) => sources.has(r.result.id.replace(/^[a-z0-9_.-]+:/, "")));
+    if (!wood.tree && !crafted) {
+      return {
+        valid: false,
+        reason: `Wood type "${wood.id}" has no tree (no sapling or tree feature), so its logs never spawn: set tree.biomeTags or add a recipe for ${wood.id}_log.`,
+      };
+    }
+    if (!placedTree && !crafted) {
+      return {
+        valid: false,
+        reason: `Wood type "${wood.id}" is unobtainable in survival: set tree.biomeTags or add a recipe for ${wood.id}_log or ${wood.id}_sapling.`,
+      };
+    }
+  }
   return { valid: true };
 }
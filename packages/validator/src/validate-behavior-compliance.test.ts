@@ -0,0 +1,130 @@
+/**
+ * Behavior compliance validation: block tick behaviors within the primitive safety limits, block state machines.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import type { ModSpecV1 } from "@themodgenerator/spec";
+import { validateBehaviorCompliance } from "./validate-behavior-compliance.js";
+
+function minimalSpec(overrides: Partial<ModSpecV1> = {}): ModSpecV1 {
+  return {
+    schemaVersion: 1,
+    minecraftVersion: "1.21.1",
+    loader: "fabric",
+    modId: "test_mod",
+    modName: "Test Mod",
+    features: ["hello-world"],
+    ...overrides,
+  };
+}
+
+describe("validateBehaviorCompliance", () => {
+  it("accepts block tick behaviors within the safety limits", () => {
+    const spec = minimalSpec({
+      blocks: [
+        {
+          id: "radioactive_cheese",
+          name: "Radioactive Cheese",
+          tickBehaviors: [
+            { effect: "status_effect", intervalTicks: 20, radius: 3, statusEffect: "minecraft:poison", durationTicks: 100 },
+            { effect: "transform", intervalTicks: 40, condition: "near_heat", transformInto: "minecraft:water" },
+          ],
+        },
+      ],
+    });
+    assert.deepStrictEqual(validateBehaviorCompliance(spec), { valid: true, errors: [] });
+  });
+
+  it("rejects tick behaviors past the radius and frequency limits or missing their target", () => {
+    const spec = minimalSpec({
+      blocks: [
+        {
+          id: "bad_block",
+          name: "Bad Block",
+          tickBehaviors: [
+            { effect: "status_effect", intervalTicks: 0, radius: 20, statusEffect: "glowing_doom", durationTicks: 6000 },
+            { effect: "spread", intervalTicks: 200 },
+          ],
+        },
+      ],
+    });
+    assert.deepStrictEqual(validateBehaviorCompliance(spec).errors, [
+      'Block "bad_block" tickBehaviors[0]: intervalTicks must be an integer of at least 1.',
+      'Block "bad_block" tickBehaviors[0]: radius must be 1–8 blocks.',
+      'Block "bad_block" tickBehaviors[0]: unknown status effect "glowing_doom" (vanilla effects only).',
+      'Block "bad_block" tickBehaviors[0]: durationTicks must be 1–600.',
+      'Block "bad_block" tickBehaviors[1]: spread needs a spreadTag block tag id.',
+    ]);
+  });
+
+  it("rejects transform targets and spread tags that are neither vanilla nor of this mod", () => {
+    const spec = minimalSpec({
+      blocks: [
+        { id: "ash", name: "Ash" },
+        {
+          id: "ember",
+          name: "Ember",
+          tickBehaviors: [
+            { effect: "transform", intervalTicks: 40, transformInto: "minecraft:molten_rock" },
+            { effect: "transform", intervalTicks: 40, transformInto: "cinder" },
+            { effect: "spread", intervalTicks: 200, spreadTag: "minecraft:burnables" },
+          ],
+        },
+        {
+          id: "glow_moss",
+          name: "Glow Moss",
+          tickBehaviors: [
+            { effect: "transform", intervalTicks: 40, transformInto: "test_mod:ash" },
+            { effect: "spread", intervalTicks: 200, spreadTag: "#minecraft:dirt" },
+            { effect: "spread", intervalTicks: 200, spreadTag: "test_mod:mossy" },
+          ],
+        },
+      ],
+      tags: [{ id: "test_mod:mossy", registry: "blocks", values: ["minecraft:stone"] }],
+    });
+    assert.deepStrictEqual(validateBehaviorCompliance(spec).errors, [
+      'Block "ember" tickBehaviors[0]: transformInto "minecraft:molten_rock" is not a vanilla block or a block of this mod.',
+      'Block "ember" tickBehaviors[1]: transformInto "cinder" is not a vanilla block or a block of this mod.',
+      'Block "ember" tickBehaviors[2]: spreadTag "minecraft:burnables" is not a vanilla block tag or a block tag of this mod.',
+    ]);
+  });
+
+  it("accepts a block state machine and rejects unknown states, duplicate triggers and bad delays", () => {
+    const machine = {
+      states: ["idle", "charging", "depleted"],
+      transitions: [
+        { from: "idle", to: "charging", trigger: "use" as const },
+        { from: "charging", to: "depleted", trigger: "delay" as const, delayTicks: 40 },
+        { from: "depleted", to: "idle", trigger: "player_near" as const, radius: 4 },
+      ],
+    };
+    const ok = minimalSpec({ blocks: [{ id: "battery", name: "Battery", stateMachine: machine }] });
+    assert.deepStrictEqual(validateBehaviorCompliance(ok), { valid: true, errors: [] });
+
+    const bad = minimalSpec({
+      blocks: [
+        {
+          id: "battery",
+          name: "Battery",
+          stateMachine: {
+            states: ["idle", "Charging"],
+            transitions: [
+              { from: "idle", to: "active", trigger: "use" },
+              { from: "idle", to: "Charging", trigger: "delay", delayTicks: 0 },
+              { from: "idle", to: "Charging", trigger: "player_near" },
+            ],
+          },
+          tickBehaviors: [{ effect: "ambient_particle", intervalTicks: 20 }],
+        },
+      ],
+    });
+    assert.deepStrictEqual(validateBehaviorCompliance(bad).errors, [
+      'Block "battery" stateMachine: state "Charging" must be a lower-case name.',
+      'Block "battery" stateMachine idle → active: transitions must go between two different listed states.',
+      'Block "battery" stateMachine idle → Charging: delay needs integer delayTicks of at least 1.',
+      'Block "battery" stateMachine idle → Charging: "idle" already has a delay or player_near transition.',
+      'Block "battery": stateMachine and tickBehaviors cannot be combined (both drive scheduledTick).',
+    ]);
+  });
+});
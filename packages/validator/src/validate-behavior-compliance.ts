@@ -2,9 +2,17 @@
  * Behavior compliance: fail if spec violates constraints from interpreter.
  * - forbidToolsWeapons: no "tools" feature, no tool/weapon-like item ids
  * - requirePickaxeMining: at least one block when set (mining tags emitted by materializer)
+ * - block tickBehaviors (always): interval, radius, effect length and amplifier within TICK_BEHAVIOR_LIMITS;
+ *   each effect has what it needs (vanilla status effect; transform target and spread tag vanilla or of this mod)
+ * - block stateMachine (always): 2–BLOCK_STATE_MACHINE_MAX_STATES unique lower-case states, transitions between
+ *   known states, one transition per state and trigger, at most one timed (delay / player_near) per state,
+ *   delay and reach within TICK_BEHAVIOR_LIMITS; not combined with tickBehaviors (both drive scheduledTick)
  */
 
-import type { ModSpecV1, ModSpecConstraints } from "@themodgenerator/spec";
+import type { ModBlockStateMachine, ModBlockTickBehavior, ModSpecV1, ModSpecConstraints } from "@themodgenerator/spec";
+import { BLOCK_STATE_MACHINE_MAX_STATES, TICK_BEHAVIOR_LIMITS } from "@themodgenerator/spec";
+import { FOOD_STATUS_EFFECTS } from "./validate-food.js";
+import { isKnownBlockId, isKnownBlockTag } from "./vanilla-blocks.js";
 
 const TOOL_WEAPON_ID_PATTERNS = [
   /sword$/,
@@ -29,13 +37,101 @@ function isToolOrWeaponId(id: string): boolean {
   return TOOL_WEAPON_ID_PATTERNS.some((re) => re.test(lower)) || lower === "sword" || lower === "pickaxe" || lower === "axe" || lower === "shovel" || lower === "hoe";
 }
 
+function tickBehaviorErrors(label: string, b: ModBlockTickBehavior, spec: ModSpecV1): string[] {
+  const errors: string[] = [];
+  const limits = TICK_BEHAVIOR_LIMITS;
+  if (!Number.isInteger(b.intervalTicks) || b.intervalTicks < limits.minIntervalTicks) {
+    errors.push(`${label}: intervalTicks must be an integer of at least ${limits.minIntervalTicks}.`);
+  }
+  if (b.radius !== undefined && !(b.radius > 0 && b.radius <= limits.maxRadius)) {
+    errors.push(`${label}: radius must be 1–${limits.maxRadius} blocks.`);
+  }
+  if (b.effect === "status_effect") {
+    if (!b.statusEffect || !FOOD_STATUS_EFFECTS.has(b.statusEffect.replace(/^minecraft:/, ""))) {
+      errors.push(`${label}: unknown status effect "${b.statusEffect ?? ""}" (vanilla effects only).`);
+    }
+    if (b.durationTicks !== undefined && !(b.durationTicks > 0 && b.durationTicks <= limits.maxDurationTicks)) {
+      errors.push(`${label}: durationTicks must be 1–${limits.maxDurationTicks}.`);
+    }
+    const amplifier = b.amplifier ?? 0;
+    if (!Number.isInteger(amplifier) || amplifier < 0 || amplifier > limits.amplifierMax) {
+      errors.push(`${label}: amplifier must be an integer 0..${limits.amplifierMax}.`);
+    }
+  }
+  if (b.effect === "transform") {
+    if (!b.transformInto) errors.push(`${label}: transform needs a transformInto block id.`);
+    else if (!isKnownBlockId(b.transformInto, spec)) {
+      errors.push(`${label}: transformInto "${b.transformInto}" is not a vanilla block or a block of this mod.`);
+    }
+  }
+  if (b.effect === "spread") {
+    if (!b.spreadTag) errors.push(`${label}: spread needs a spreadTag block tag id.`);
+    else if (!isKnownBlockTag(b.spreadTag, spec)) {
+      errors.push(`${label}: spreadTag "${b.spreadTag}" is not a vanilla block tag or a block tag of this mod.`);
+    }
+  }
+  return errors;
+}
+
+const STATE_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+const TIMED_TRIGGERS = new Set(["delay", "player_near"]);
+
+function stateMachineErrors(label: string, machine: ModBlockStateMachine): string[] {
+  const errors: string[] = [];
+  const states = new Set(machine.states);
+  if (machine.property !== undefined && !STATE_NAME_PATTERN.test(machine.property)) {
+    errors.push(`${label}: property "${machine.property}" must be a lower-case name.`);
+  }
+  if (machine.states.length < 2 || machine.states.length > BLOCK_STATE_MACHINE_MAX_STATES) {
+    errors.push(`${label}: needs 2–${BLOCK_STATE_MACHINE_MAX_STATES} states.`);
+  }
+  for (const state of machine.states) {
+    if (!STATE_NAME_PATTERN.test(state)) errors.push(`${label}: state "${state}" must be a lower-case name.`);
+  }
+  if (states.size !== machine.states.length) errors.push(`${label}: states must be unique.`);
+  const seen = new Set<string>();
+  const timed = new Set<string>();
+  for (const t of machine.transitions) {
+    const name = `${label} ${t.from} → ${t.to}`;
+    if (!states.has(t.from) || !states.has(t.to) || t.from === t.to) {
+      errors.push(`${name}: transitions must go between two different listed states.`);
+    }
+    if (seen.has(`${t.from}:${t.trigger}`)) errors.push(`${name}: "${t.from}" already has a ${t.trigger} transition.`);
+    seen.add(`${t.from}:${t.trigger}`);
+    if (TIMED_TRIGGERS.has(t.trigger)) {
+      if (timed.has(t.from)) errors.push(`${name}: "${t.from}" already has a delay or player_near transition.`);
+      timed.add(t.from);
+    }
+    const delay = t.delayTicks;
+    if (t.trigger === "delay" && !(delay !== undefined && Number.isInteger(delay) && delay >= TICK_BEHAVIOR_LIMITS.minIntervalTicks)) {
+      errors.push(`${name}: delay needs integer delayTicks of at least ${TICK_BEHAVIOR_LIMITS.minIntervalTicks}.`);
+    }
+    if (t.radius !== undefined && !(t.radius > 0 && t.radius <= TICK_BEHAVIOR_LIMITS.maxRadius)) {
+      errors.push(`${name}: radius must be 1–${TICK_BEHAVIOR_LIMITS.maxRadius} blocks.`);
+    }
+  }
+  return errors;
+}
+
 export function validateBehaviorCompliance(
   spec: ModSpecV1,
   constraints?: ModSpecConstraints | null
 ): ValidateBehaviorComplianceResult {
   const errors: string[] = [];
+  for (const block of spec.blocks ?? []) {
+    (block.tickBehaviors ?? []).forEach((b, i) => {
+      errors.push(...tickBehaviorErrors(`Block "${block.id}" tickBehaviors[${i}]`, b, spec));
+    });
+    if (block.stateMachine) {
+      errors.push(...stateMachineErrors(`Block "${block.id}" stateMachine`, block.stateMachine));
+      if ((block.tickBehaviors?.length ?? 0) > 0) {
+        errors.push(`Block "${block.id}": stateMachine and tickBehaviors cannot be combined (both drive scheduledTick).`);
+      }
+    }
+  }
+
   const c = constraints ?? spec.constraints;
-  if (!c) return { valid: true, errors: [] };
+  if (!c) return { valid: errors.length === 0, errors };
 
   if (c.forbidToolsWeapons) {
     if (spec.features?.includes("tools")) {
@@ -1,30 +1,13 @@
 /**
  * Block families: fail fast if any requested variant is not in the registry.
- * No material-specific logic; extensible via SUPPORTED_VARIANTS.
+ * No material-specific logic; extensible via BLOCK_FAMILY_VARIANTS in the spec family expander.
  */
 
 import type { ModSpecV1 } from "@themodgenerator/spec";
+import { BLOCK_FAMILY_VARIANTS } from "@themodgenerator/spec";
 
-/** Variants that the materializer can resolve. Extended as generation is implemented. */
-export const SUPPORTED_VARIANTS = new Set<string>([
-  "block",
-  "polished_block",
-  "bricks",
-  "stairs",
-  "slab",
-  "wall",
-  "door",
-  "trapdoor",
-  "fence",
-  "fence_gate",
-  "button",
-  "pressure_plate",
-  "sign",
-  "hanging_sign",
-  "post",
-  "rod",
-  "path_block",
-]);
+/** Variants that the materializer can resolve (family expander registry). Signs come from woodTypes. */
+export const SUPPORTED_VARIANTS = new Set<string>(BLOCK_FAMILY_VARIANTS);
 
 export interface ValidateBlockFamiliesResult {
   valid: boolean;
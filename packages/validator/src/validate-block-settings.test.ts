@@ -0,0 +1,38 @@
+/**
+ * Block settings validation: vanilla sound group and map color constants, value ranges,
+ * requiresTool only with a mining requirement.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { validateBlockSettings } from "./validate-block-settings.js";
+
+describe("validateBlockSettings", () => {
+  it("vanilla sound, map color and ranges pass", () => {
+    const result = validateBlockSettings([
+      {
+        id: "glow_crystal",
+        mining: { tool: "pickaxe" },
+        blockSettings: { hardness: 1.5, sound: "amethyst_block", luminance: 15, mapColor: "purple", requiresTool: true },
+      },
+    ]);
+    assert.deepStrictEqual(result, { valid: true, errors: [] });
+    assert.strictEqual(validateBlockSettings([{ id: "slime", blockSettings: { mapColor: "pale_green" } }]).valid, true);
+    assert.strictEqual(validateBlockSettings([{ id: "slime", blockSettings: { mapColor: "palette_grass" } }]).valid, false);
+  });
+
+  it("rejects unknown constants, out-of-range values and requiresTool without mining", () => {
+    const result = validateBlockSettings([
+      { id: "bad_block", blockSettings: { hardness: -1, luminance: 20, slipperiness: 2, sound: "crystal", mapColor: "violet", requiresTool: true } },
+    ]);
+    assert.strictEqual(result.valid, false);
+    assert.deepStrictEqual(result.errors, [
+      'Block "bad_block": blockSettings.hardness must be 0..100.',
+      'Block "bad_block": blockSettings.luminance must be an integer light level 0..15.',
+      'Block "bad_block": blockSettings.slipperiness must be 0..1 (normal 0.6, ice 0.98).',
+      'Block "bad_block": unknown block sound group "crystal" (BlockSoundGroup constants only).',
+      'Block "bad_block": unknown map color "violet" (MapColor constants only).',
+      'Block "bad_block": blockSettings.requiresTool needs mining (tool tag), otherwise the block never drops.',
+    ]);
+  });
+});
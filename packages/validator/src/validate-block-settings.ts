@@ -0,0 +1,164 @@
+/**
+ * Block settings gate: ModBlock.blockSettings must compile to a valid AbstractBlock.Settings chain
+ * (BlockSoundGroup / MapColor constants that exist, vanilla value ranges) and requiresTool needs a
+ * mining requirement, or the block never drops (no mineable tag marks a tool as suitable).
+ */
+
+import type { ModBlockSettings } from "@themodgenerator/spec";
+
+/** Vanilla bounds (bedrock -1 is not allowed: generated blocks must be breakable). */
+export const BLOCK_SETTINGS_LIMITS = {
+  hardnessMax: 100,
+  resistanceMax: 3600000,
+  luminanceMax: 15,
+} as const;
+
+/** BlockSoundGroup constants (1.21.1 yarn), lower case. */
+export const BLOCK_SOUND_GROUPS = new Set<string>([
+  "wood",
+  "gravel",
+  "grass",
+  "stone",
+  "metal",
+  "glass",
+  "wool",
+  "sand",
+  "snow",
+  "powder_snow",
+  "ladder",
+  "anvil",
+  "slime",
+  "honey",
+  "coral",
+  "bamboo",
+  "netherrack",
+  "nether_bricks",
+  "soul_sand",
+  "bone",
+  "netherite",
+  "lodestone",
+  "chain",
+  "lantern",
+  "amethyst_block",
+  "amethyst_cluster",
+  "calcite",
+  "tuff",
+  "copper",
+  "dripstone_block",
+  "moss_block",
+  "mud",
+  "mud_bricks",
+  "deepslate",
+  "deepslate_bricks",
+  "polished_deepslate",
+  "sculk",
+  "cherry_wood",
+  "bamboo_wood",
+  "nether_wood",
+  "decorated_pot",
+]);
+
+/** MapColor constants (1.21.1 yarn), lower case. */
+export const MAP_COLORS = new Set<string>([
+  "clear",
+  "pale_green",
+  "pale_yellow",
+  "white_gray",
+  "bright_red",
+  "pale_purple",
+  "iron_gray",
+  "dark_green",
+  "white",
+  "light_blue_gray",
+  "dirt_brown",
+  "stone_gray",
+  "water_blue",
+  "oak_tan",
+  "off_white",
+  "orange",
+  "magenta",
+  "light_blue",
+  "yellow",
+  "lime",
+  "pink",
+  "gray",
+  "light_gray",
+  "cyan",
+  "purple",
+  "blue",
+  "brown",
+  "green",
+  "red",
+  "black",
+  "gold",
+  "diamond_blue",
+  "lapis_blue",
+  "emerald_green",
+  "spruce_brown",
+  "dark_red",
+  "terracotta_white",
+  "terracotta_orange",
+  "terracotta_black",
+  "dull_red",
+  "dull_pink",
+  "dark_crimson",
+  "teal",
+  "dark_aqua",
+  "dark_dull_pink",
+  "bright_teal",
+  "deepslate_gray",
+  "raw_iron_pink",
+  "lichen_green",
+]);
+
+export interface ValidateBlockSettingsResult {
+  valid: boolean;
+  errors: string[];
+}
+
+function inRange(n: number | undefined, min: number, max: number): boolean {
+  return n === undefined || (Number.isFinite(n) && n >= min && n <= max);
+}
+
+/** Errors for one settings block; label prefixes each message (e.g. 'Block "ruby_block"'). */
+export function validateBlockSettingsEntry(label: string, settings: ModBlockSettings, hasMining: boolean): string[] {
+  const errors: string[] = [];
+  if (!inRange(settings.hardness, 0, BLOCK_SETTINGS_LIMITS.hardnessMax)) {
+    errors.push(`${label}: blockSettings.hardness must be 0..${BLOCK_SETTINGS_LIMITS.hardnessMax}.`);
+  }
+  if (!inRange(settings.resistance, 0, BLOCK_SETTINGS_LIMITS.resistanceMax)) {
+    errors.push(`${label}: blockSettings.resistance must be 0..${BLOCK_SETTINGS_LIMITS.resistanceMax}.`);
+  }
+  if (
+    settings.luminance !== undefined &&
+    !(Number.isInteger(settings.luminance) && inRange(settings.luminance, 0, BLOCK_SETTINGS_LIMITS.luminanceMax))
+  ) {
+    errors.push(`${label}: blockSettings.luminance must be an integer light level 0..${BLOCK_SETTINGS_LIMITS.luminanceMax}.`);
+  }
+  if (!inRange(settings.slipperiness, 0, 1)) {
+    errors.push(`${label}: blockSettings.slipperiness must be 0..1 (normal 0.6, ice 0.98).`);
+  }
+  if (settings.sound !== undefined && !BLOCK_SOUND_GROUPS.has(settings.sound.replace(/^minecraft:/, ""))) {
+    errors.push(`${label}: unknown block sound group "${settings.sound}" (BlockSoundGroup constants only).`);
+  }
+  if (settings.mapColor !== undefined && !MAP_COLORS.has(settings.mapColor.replace(/^minecraft:/, ""))) {
+    errors.push(`${label}: unknown map color "${settings.mapColor}" (MapColor constants only).`);
+  }
+  if (settings.requiresTool === true && !hasMining) {
+    errors.push(`${label}: blockSettings.requiresTool needs mining (tool tag), otherwise the block never drops.`);
+  }
+  return errors;
+}
+
+/** Block settings for every block with a blockSettings section. */
+export function validateBlockSettings(
+  blocks: Array<{ id: string; blockSettings?: ModBlockSettings; mining?: unknown }> | undefined
+): ValidateBlockSettingsResult {
+  const errors: string[] = [];
+  for (const block of blocks ?? []) {
+    if (block.blockSettings) {
+      errors.push(...validateBlockSettingsEntry(`Block "${block.id}"`, block.blockSettings, !!block.mining));
+    }
+  }
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,68 @@
+/**
+ * Chest loot validation: vanilla chest loot tables, registered items, weights bounded by item rarity.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import type { ModSpecV1 } from "@themodgenerator/spec";
+import { validateChestLoot } from "./validate-chest-loot.js";
+import { validateTier1 } from "./validate-tier1.js";
+
+function minimalSpec(overrides: Partial<ModSpecV1> = {}): ModSpecV1 {
+  return {
+    schemaVersion: 1,
+    minecraftVersion: "1.21.1",
+    loader: "fabric",
+    modId: "test_mod",
+    modName: "Test Mod",
+    features: ["hello-world"],
+    ...overrides,
+  };
+}
+
+describe("validateChestLoot", () => {
+  const relicSpec = (loot: ModSpecV1["loot"]) =>
+    minimalSpec({ items: [{ id: "relic", name: "Relic", properties: { rarity: "epic" } }], loot });
+
+  it("chest loot into a vanilla chest within the rarity weight passes and is allowed in Tier 1", () => {
+    const spec = relicSpec([
+      { id: "relic_dungeon", type: "chest", targetId: "minecraft:chests/simple_dungeon", entries: [{ itemId: "relic", weight: 2 }] },
+    ]);
+    assert.deepStrictEqual(validateChestLoot(spec), { valid: true, errors: [] });
+    assert.strictEqual(validateTier1(spec).valid, true);
+  });
+
+  it("rejects unknown loot tables, unregistered items and weights above the rarity bound", () => {
+    const result = validateChestLoot(
+      relicSpec([
+        {
+          id: "bad",
+          type: "chest",
+          targetId: "minecraft:chests/dungeon",
+          entries: [{ itemId: "relic", weight: 10 }, { itemId: "missing" }],
+        },
+      ])
+    );
+    assert.deepStrictEqual(result.errors, [
+      'Loot "bad": "minecraft:chests/dungeon" is not a vanilla chest loot table (e.g. minecraft:chests/simple_dungeon).',
+      'Loot "bad": weight of "relic" must be an integer 1..2 (epic item).',
+      'Loot "bad": item "missing" is not an item or block of this mod.',
+    ]);
+  });
+
+  it("sums weights per target table across ModLoots, since the generator merges them into one pool", () => {
+    const coins = Array.from({ length: 6 }, (_, i) => ({ id: `coin_${i}`, name: `Coin ${i}` }));
+    const result = validateChestLoot(
+      minimalSpec({
+        items: coins,
+        loot: [
+          { id: "a", type: "chest", targetId: "chests/simple_dungeon", entries: coins.slice(0, 3).map((c) => ({ itemId: c.id })) },
+          { id: "b", type: "chest", targetId: "minecraft:chests/simple_dungeon", entries: coins.slice(3).map((c) => ({ itemId: c.id })) },
+        ],
+      })
+    );
+    assert.deepStrictEqual(result.errors, [
+      'Chest loot for "minecraft:chests/simple_dungeon": entry weights add up to 120, more than the pool\'s 100.',
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Chest loot gate: ModLoot "chest" entries must target a vanilla chest loot table (a misspelled id is silently
+ * never modified), inject registered items, and keep weights within the item's rarity bound
+ * (CHEST_LOOT_MAX_WEIGHT) so rare items stay rare. The generator merges every ModLoot of a table into one pool,
+ * so the weight total is checked per target table.
+ */
+
+import type { ModSpecV1 } from "@themodgenerator/spec";
+import { CHEST_LOOT_MAX_WEIGHT, CHEST_LOOT_POOL_WEIGHT } from "@themodgenerator/spec";
+
+/** Vanilla 1.21.1 chest loot tables (data/minecraft/loot_table/chests/). */
+export const VANILLA_CHEST_LOOT_TABLES = new Set<string>([
+  "minecraft:chests/abandoned_mineshaft",
+  "minecraft:chests/ancient_city",
+  "minecraft:chests/ancient_city_ice_box",
+  "minecraft:chests/bastion_bridge",
+  "minecraft:chests/bastion_hoglin_stable",
+  "minecraft:chests/bastion_other",
+  "minecraft:chests/bastion_treasure",
+  "minecraft:chests/buried_treasure",
+  "minecraft:chests/desert_pyramid",
+  "minecraft:chests/end_city_treasure",
+  "minecraft:chests/igloo_chest",
+  "minecraft:chests/jungle_temple",
+  "minecraft:chests/jungle_temple_dispenser",
+  "minecraft:chests/nether_bridge",
+  "minecraft:chests/pillager_outpost",
+  "minecraft:chests/ruined_portal",
+  "minecraft:chests/shipwreck_map",
+  "minecraft:chests/shipwreck_supply",
+  "minecraft:chests/shipwreck_treasure",
+  "minecraft:chests/simple_dungeon",
+  "minecraft:chests/spawn_bonus_chest",
+  "minecraft:chests/stronghold_corridor",
+  "minecraft:chests/stronghold_crossing",
+  "minecraft:chests/stronghold_library",
+  "minecraft:chests/trial_chambers/corridor",
+  "minecraft:chests/trial_chambers/entrance",
+  "minecraft:chests/trial_chambers/intersection",
+  "minecraft:chests/trial_chambers/intersection_barrel",
+  "minecraft:chests/trial_chambers/reward",
+  "minecraft:chests/trial_chambers/reward_common",
+  "minecraft:chests/trial_chambers/reward_ominous",
+  "minecraft:chests/trial_chambers/reward_rare",
+  "minecraft:chests/trial_chambers/supply",
+  "minecraft:chests/underwater_ruin_big",
+  "minecraft:chests/underwater_ruin_small",
+  "minecraft:chests/village/village_armorer",
+  "minecraft:chests/village/village_butcher",
+  "minecraft:chests/village/village_cartographer",
+  "minecraft:chests/village/village_desert_house",
+  "minecraft:chests/village/village_fisher",
+  "minecraft:chests/village/village_fletcher",
+  "minecraft:chests/village/village_mason",
+  "minecraft:chests/village/village_plains_house",
+  "minecraft:chests/village/village_savanna_house",
+  "minecraft:chests/village/village_shepherd",
+  "minecraft:chests/village/village_snowy_house",
+  "minecraft:chests/village/village_taiga_house",
+  "minecraft:chests/village/village_tannery",
+  "minecraft:chests/village/village_temple",
+  "minecraft:chests/village/village_toolsmith",
+  "minecraft:chests/village/village_weaponsmith",
+  "minecraft:chests/woodland_mansion",
+]);
+
+export interface ValidateChestLootResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/** Chest loot entries of the spec; other ModLoot types are the tier gate's concern. */
+export function validateChestLoot(spec: ModSpecV1): ValidateChestLootResult {
+  const errors: string[] = [];
+  const itemRarity = new Map((spec.items ?? []).map((i) => [i.id, i.properties?.rarity ?? "common"] as const));
+  const blockIds = new Set((spec.blocks ?? []).map((b) => b.id));
+  const tableWeights = new Map<string, number>();
+  for (const loot of spec.loot ?? []) {
+    if (loot.type !== "chest") continue;
+    const tableId = loot.targetId.includes(":") ? loot.targetId : `minecraft:${loot.targetId}`;
+    if (!VANILLA_CHEST_LOOT_TABLES.has(tableId)) {
+      errors.push(`Loot "${loot.id}": "${loot.targetId}" is not a vanilla chest loot table (e.g. minecraft:chests/simple_dungeon).`);
+    }
+    if ((loot.entries ?? []).length === 0) errors.push(`Loot "${loot.id}": chest loot needs at least one entry.`);
+    for (const entry of loot.entries ?? []) {
+      if (!itemRarity.has(entry.itemId) && !blockIds.has(entry.itemId)) {
+        errors.push(`Loot "${loot.id}": item "${entry.itemId}" is not an item or block of this mod.`);
+        continue;
+      }
+      const rarity = itemRarity.get(entry.itemId) ?? "common";
+      const max = CHEST_LOOT_MAX_WEIGHT[rarity];
+      const weight = entry.weight ?? max;
+      tableWeights.set(tableId, (tableWeights.get(tableId) ?? 0) + weight);
+      if (!(Number.isInteger(weight) && weight >= 1 && weight <= max)) {
+        errors.push(`Loot "${loot.id}": weight of "${entry.itemId}" must be an integer 1..${max} (${rarity} item).`);
+      }
+      const min = entry.minCount ?? 1;
+      if (!(Number.isInteger(min) && min >= 1 && min <= (entry.maxCount ?? min) && (entry.maxCount ?? min) <= 64)) {
+        errors.push(`Loot "${loot.id}": count of "${entry.itemId}" must be 1 ≤ minCount ≤ maxCount ≤ 64.`);
+      }
+    }
+  }
+  for (const [tableId, total] of tableWeights) {
+    if (total > CHEST_LOOT_POOL_WEIGHT) {
+      errors.push(`Chest loot for "${tableId}": entry weights add up to ${total}, more than the pool's ${CHEST_LOOT_POOL_WEIGHT}.`);
+    }
+  }
+  return { valid: errors.length === 0, errors };
+}
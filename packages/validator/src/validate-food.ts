@@ -0,0 +1,104 @@
+/**
+ * Food balance gate: generated foods must stay within the range of vanilla foods
+ * (rabbit stew 10 nutrition, golden carrot 1.2 saturation, enchanted golden apple effects).
+ */
+
+import type { ModFoodEffect, ModItemFood } from "@themodgenerator/spec";
+
+/** Vanilla food bounds. Effects may be stronger than a plain food's only up to the golden apples. */
+export const FOOD_LIMITS = {
+  nutritionMax: 10,
+  saturationMax: 1.2,
+  eatSecondsMin: 0.8,
+  eatSecondsMax: 3.2,
+  effectSecondsMax: 300,
+  amplifierMax: 3,
+} as const;
+
+/** Status effects a food may apply (vanilla ids; the materializer emits StatusEffects.<ID>). */
+export const FOOD_STATUS_EFFECTS = new Set<string>([
+  "speed",
+  "slowness",
+  "haste",
+  "mining_fatigue",
+  "strength",
+  "instant_health",
+  "instant_damage",
+  "jump_boost",
+  "nausea",
+  "regeneration",
+  "resistance",
+  "fire_resistance",
+  "water_breathing",
+  "invisibility",
+  "blindness",
+  "night_vision",
+  "hunger",
+  "weakness",
+  "poison",
+  "wither",
+  "health_boost",
+  "absorption",
+  "saturation",
+  "glowing",
+  "levitation",
+  "luck",
+  "unluck",
+  "slow_falling",
+  "conduit_power",
+  "dolphins_grace",
+  "darkness",
+]);
+
+export interface ValidateFoodResult {
+  valid: boolean;
+  errors: string[];
+}
+
+function validateEffect(label: string, e: ModFoodEffect): string[] {
+  const errors: string[] = [];
+  const id = e.effect.replace(/^minecraft:/, "");
+  if (!FOOD_STATUS_EFFECTS.has(id)) {
+    errors.push(`${label}: unknown status effect "${e.effect}" (vanilla effects only).`);
+  }
+  if (!(e.durationSeconds > 0 && e.durationSeconds <= FOOD_LIMITS.effectSecondsMax)) {
+    errors.push(`${label}: effect "${e.effect}" duration must be 0–${FOOD_LIMITS.effectSecondsMax} seconds.`);
+  }
+  const amplifier = e.amplifier ?? 0;
+  if (!Number.isInteger(amplifier) || amplifier < 0 || amplifier > FOOD_LIMITS.amplifierMax) {
+    errors.push(`${label}: effect "${e.effect}" amplifier must be an integer 0..${FOOD_LIMITS.amplifierMax}.`);
+  }
+  const probability = e.probability ?? 1;
+  if (!(probability > 0 && probability <= 1)) {
+    errors.push(`${label}: effect "${e.effect}" probability must be in (0, 1].`);
+  }
+  return errors;
+}
+
+/** Errors for one food block; label prefixes each message (e.g. 'Item "cheese"'). */
+export function validateFood(label: string, food: ModItemFood): string[] {
+  const errors: string[] = [];
+  if (!Number.isInteger(food.nutrition) || food.nutrition < 1 || food.nutrition > FOOD_LIMITS.nutritionMax) {
+    errors.push(`${label}: food nutrition must be an integer 1..${FOOD_LIMITS.nutritionMax} (vanilla range).`);
+  }
+  if (!(food.saturation >= 0 && food.saturation <= FOOD_LIMITS.saturationMax)) {
+    errors.push(`${label}: food saturation must be 0..${FOOD_LIMITS.saturationMax} (vanilla range).`);
+  }
+  if (
+    food.eatSeconds !== undefined &&
+    !(food.eatSeconds >= FOOD_LIMITS.eatSecondsMin && food.eatSeconds <= FOOD_LIMITS.eatSecondsMax)
+  ) {
+    errors.push(`${label}: food eatSeconds must be ${FOOD_LIMITS.eatSecondsMin}..${FOOD_LIMITS.eatSecondsMax}.`);
+  }
+  for (const effect of food.effects ?? []) errors.push(...validateEffect(label, effect));
+  return errors;
+}
+
+/** Food balance for every item with a food block. */
+export function validateFoodItems(items: Array<{ id: string; food?: ModItemFood }> | undefined): ValidateFoodResult {
+  const errors: string[] = [];
+  for (const item of items ?? []) {
+    if (item.food) errors.push(...validateFood(`Item "${item.id}"`, item.food));
+  }
+  return { valid: errors.length === 0, errors };
+}
@@ -3,10 +3,15 @@
  * Fail fast if Minecraft would ignore a recipe.
  * - crafting_shapeless / crafting_shaped: result MUST be { id: "modid:id", count: N }
  * - cooking: result MUST be { id: "modid:id", count: N }
+ * - stonecutting: one "ingredient" + result { id, count }
+ * - smithing_transform: "template", "base", "addition" ingredients + result { id }
  * - ingredients non-empty where required; mod ids must be in (expanded) spec; minecraft:* allowed; no self-loop.
+ * - tag ingredients ({ "tag": ... }) must name a vanilla, common (c:) or mod-generated item tag.
  */
 
 import type { ModSpecV1 } from "@themodgenerator/spec";
+import { RECIPE_INGREDIENT_SLOTS } from "@themodgenerator/spec";
+import { isKnownItemTag } from "./item-tags.js";
 
 export interface ValidateGeneratedRecipeJsonResult {
   valid: boolean;
@@ -42,12 +47,23 @@ function idOkForJson(itemStr: string, ids: Set<string>, allowVanilla: boolean):
   return local != null && ids.has(local);
 }
 
+/** Tag of an ingredient object ({ "tag": "c:ingots/iron" }), or undefined for item ingredients. */
+function ingredientTag(ing: unknown): string | undefined {
+  const tag = ing != null && typeof ing === "object" && !Array.isArray(ing) ? (ing as Record<string, unknown>).tag : undefined;
+  return typeof tag === "string" && tag ? tag : undefined;
+}
+
+function tagError(recipeId: string, tag: string, spec: ModSpecV1): string[] {
+  return isKnownItemTag(tag, spec) ? [] : [`Recipe ${recipeId}: tag "#${tag}" is not a vanilla, common (c:) or generated item tag.`];
+}
+
 /**
  * Validate one parsed recipe JSON object. type is e.g. "minecraft:crafting_shapeless".
  */
 function validateOneRecipe(
   recipeId: string,
   data: Record<string, unknown>,
+  spec: ModSpecV1,
   ids: Set<string>,
   allowVanilla: boolean
 ): string[] {
@@ -77,10 +93,13 @@ function validateOneRecipe(
       errors.push(`Recipe ${recipeId}: result count must be a number.`);
     }
     let ingredientItems: string[] = [];
+    const ingredientTags: string[] = [];
     if (type === "minecraft:crafting_shaped" && data.key && typeof data.key === "object" && !Array.isArray(data.key)) {
       const key = data.key as Record<string, { item?: string }>;
       for (const v of Object.values(key)) {
         if (v?.item && typeof v.item === "string") ingredientItems.push(v.item);
+        const tag = ingredientTag(v);
+        if (tag) ingredientTags.push(tag);
       }
     } else {
       const ingredients = data.ingredients ?? data.ingredient;
@@ -88,9 +107,12 @@ function validateOneRecipe(
       for (const ing of arr) {
         const item = (ing as Record<string, unknown>)?.item;
         if (typeof item === "string") ingredientItems.push(item);
+        const tag = ingredientTag(ing);
+        if (tag) ingredientTags.push(tag);
       }
     }
-    if (ingredientItems.length === 0) {
+    for (const tag of ingredientTags) errors.push(...tagError(recipeId, tag, spec));
+    if (ingredientItems.length === 0 && ingredientTags.length === 0) {
       errors.push(`Recipe ${recipeId}: crafting must have at least one ingredient.`);
     }
     for (const item of ingredientItems) {
@@ -135,8 +157,11 @@ function validateOneRecipe(
       Array.isArray(ingredientsArr) && ingredientsArr.length > 0 ? (ingredientsArr[0] as Record<string, unknown>) : undefined;
     const ing = ingredientRaw ?? firstIngredient;
     const item = ing?.item;
-    if (typeof item !== "string" || !item) {
-      errors.push(`Recipe ${recipeId}: cooking must have one ingredient with "item" string.`);
+    const tag = ingredientTag(ing);
+    if (tag) {
+      errors.push(...tagError(recipeId, tag, spec));
+    } else if (typeof item !== "string" || !item) {
+      errors.push(`Recipe ${recipeId}: cooking must have one ingredient with "item" or "tag" string.`);
     } else {
       if (!idOkForJson(item, ids, allowVanilla)) {
         errors.push(`Recipe ${recipeId}: ingredient "${item}" is not in spec.`);
@@ -150,6 +175,38 @@ function validateOneRecipe(
     return errors;
   }
 
+  if (type === "minecraft:stonecutting" || type === "minecraft:smithing_transform") {
+    const result = data.result;
+    const resultIdStr =
+      result != null && typeof result === "object" && !Array.isArray(result)
+        ? (result as Record<string, unknown>).id
+        : undefined;
+    if (typeof resultIdStr !== "string" || !resultIdStr) {
+      errors.push(`Recipe ${recipeId}: ${type} result must be object { id, count } (MC 1.21.1).`);
+    } else if (!idOkForJson(resultIdStr, ids, allowVanilla)) {
+      errors.push(`Recipe ${recipeId}: result "${resultIdStr}" is not in spec.`);
+    }
+    for (const slot of RECIPE_INGREDIENT_SLOTS[type]) {
+      const ing = data[slot];
+      const item = ing != null && typeof ing === "object" && !Array.isArray(ing) ? (ing as Record<string, unknown>).item : undefined;
+      const tag = ingredientTag(ing);
+      if (tag) {
+        errors.push(...tagError(recipeId, tag, spec));
+      } else if (typeof item !== "string" || !item) {
+        errors.push(`Recipe ${recipeId}: ${type} must have "${slot}" with "item" or "tag" string.`);
+      } else if (!idOkForJson(item, ids, allowVanilla)) {
+        errors.push(`Recipe ${recipeId}: ${slot} "${item}" is not in spec.`);
+      }
+    }
+    if (type === "minecraft:stonecutting") {
+      const item = (data.ingredient as Record<string, unknown> | undefined)?.item;
+      if (typeof item === "string" && typeof resultIdStr === "string" && item === resultIdStr) {
+        errors.push(`Recipe ${recipeId}: self-loop (ingredient equals result).`);
+      }
+    }
+    return errors;
+  }
+
   return errors;
 }
 
@@ -173,7 +230,7 @@ export function validateGeneratedRecipeJson(
     }
     const data = raw as Record<string, unknown>;
     const recipeId = path.replace(/^.*\//, "").replace(/\.json$/, "");
-    const one = validateOneRecipe(recipeId, data, ids, allowVanilla);
+    const one = validateOneRecipe(recipeId, data, spec, ids, allowVanilla);
     errors.push(...one.map((e) => `${path}: ${e}`));
   }
 
@@ -0,0 +1,24 @@
+/**
+ * Item properties validation: stack size, rarity, fireproof and durability bounds.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { validateItemProperties } from "./validate-item-properties.js";
+
+describe("validateItemProperties", () => {
+  it("rarity, fireproof and durability pass; a damageable item may not stack", () => {
+    assert.strictEqual(
+      validateItemProperties([{ id: "relic_wand", properties: { rarity: "epic", fireproof: true, maxDamage: 64 } }]).valid,
+      true
+    );
+    const result = validateItemProperties([
+      { id: "bad_wand", properties: { maxCount: 16, maxDamage: 64 } },
+      { id: "big_stack", properties: { maxCount: 128 } },
+    ]);
+    assert.deepStrictEqual(result.errors, [
+      'Item "bad_wand": an item with maxDamage cannot stack (maxCount must be 1 or unset).',
+      'Item "big_stack": properties.maxCount must be an integer 1..99.',
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Item properties gate: ModItem.properties must be loadable Item.Settings. Stack sizes above 99 fail the
+ * max_stack_size component codec, and a damageable item that stacks is rejected at item registration.
+ */
+
+import type { ModItemProperties } from "@themodgenerator/spec";
+
+/** Item component bounds (1.21.1). */
+export const ITEM_PROPERTY_LIMITS = {
+  maxCountMax: 99,
+  maxDamageMax: 100000,
+} as const;
+
+const RARITIES = new Set(["common", "uncommon", "rare", "epic"]);
+
+export interface ValidateItemPropertiesResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/** Errors for one properties block; label prefixes each message (e.g. 'Item "wand"'). */
+export function validateItemPropertiesEntry(label: string, properties: ModItemProperties): string[] {
+  const errors: string[] = [];
+  const { maxCount, maxDamage, rarity } = properties;
+  if (maxCount !== undefined && !(Number.isInteger(maxCount) && maxCount >= 1 && maxCount <= ITEM_PROPERTY_LIMITS.maxCountMax)) {
+    errors.push(`${label}: properties.maxCount must be an integer 1..${ITEM_PROPERTY_LIMITS.maxCountMax}.`);
+  }
+  if (
+    maxDamage !== undefined &&
+    !(Number.isInteger(maxDamage) && maxDamage >= 1 && maxDamage <= ITEM_PROPERTY_LIMITS.maxDamageMax)
+  ) {
+    errors.push(`${label}: properties.maxDamage must be an integer 1..${ITEM_PROPERTY_LIMITS.maxDamageMax}.`);
+  }
+  if (maxDamage !== undefined && maxCount !== undefined && maxCount > 1) {
+    errors.push(`${label}: an item with maxDamage cannot stack (maxCount must be 1 or unset).`);
+  }
+  if (rarity !== undefined && !RARITIES.has(rarity)) {
+    errors.push(`${label}: properties.rarity must be common, uncommon, rare or epic.`);
+  }
+  return errors;
+}
+
+/** Item properties for every item with a properties block. */
+export function validateItemProperties(
+  items: Array<{ id: string; properties?: ModItemProperties }> | undefined
+): ValidateItemPropertiesResult {
+  const errors: string[] = [];
+  for (const item of items ?? []) {
+    if (item.properties) errors.push(...validateItemPropertiesEntry(`Item "${item.id}"`, item.properties));
+  }
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,17 @@
+/**
+ * Locale validation: Minecraft language codes, no duplicates.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { validateLocales } from "./validate-locales.js";
+
+describe("validateLocales", () => {
+  it("accepts Minecraft language codes and rejects other spellings and duplicates", () => {
+    assert.deepStrictEqual(validateLocales(["es_es", "de_de", "pt_br"]), { valid: true, errors: [] });
+    assert.deepStrictEqual(validateLocales(["pt-BR", "es_es", "es_es"]).errors, [
+      'Locale "pt-BR" must be a lower-case Minecraft language code (e.g. es_es, de_de, pt_br).',
+      'Locale "es_es" is listed more than once.',
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Locales gate: spec.locales must be Minecraft language codes (lang/<code>.json is looked up by exact,
+ * lower-case file name, so "es-ES" or "pt_BR" would never load) and list each code once.
+ */
+
+/** Minecraft language code: language_region, lower case (en_us, es_es, pt_br, fil_ph). */
+export const LOCALE_CODE_PATTERN = /^[a-z]{2,3}_[a-z]{2,3}$/;
+
+export interface ValidateLocalesResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export function validateLocales(locales: string[] | undefined): ValidateLocalesResult {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const locale of locales ?? []) {
+    if (!LOCALE_CODE_PATTERN.test(locale)) {
+      errors.push(`Locale "${locale}" must be a lower-case Minecraft language code (e.g. es_es, de_de, pt_br).`);
+    } else if (seen.has(locale)) {
+      errors.push(`Locale "${locale}" is listed more than once.`);
+    }
+    seen.add(locale);
+  }
+  return { valid: errors.length === 0, errors };
+}
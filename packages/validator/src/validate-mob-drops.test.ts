@@ -0,0 +1,51 @@
+/**
+ * Mob drop validation: vanilla mobs with loot tables, registered items, chances in (0, 1].
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import type { ModSpecV1 } from "@themodgenerator/spec";
+import { validateMobDrops } from "./validate-mob-drops.js";
+import { validateTier1, TIER1_FORBIDDEN_FEATURE } from "./validate-tier1.js";
+
+function minimalSpec(overrides: Partial<ModSpecV1> = {}): ModSpecV1 {
+  return {
+    schemaVersion: 1,
+    minecraftVersion: "1.21.1",
+    loader: "fabric",
+    modId: "test_mod",
+    modName: "Test Mod",
+    features: ["hello-world"],
+    ...overrides,
+  };
+}
+
+describe("validateMobDrops", () => {
+  it("mob-drop is a Tier 1 feature; drops on vanilla mobs pass", () => {
+    const spec = minimalSpec({
+      features: ["hello-world", "mob-drop"],
+      items: [{ id: "rotten_cheese", name: "Rotten Cheese" }],
+      mobDrops: [{ entityId: "minecraft:zombie", itemId: "rotten_cheese", chance: 0.05, lootingBonus: 0.01 }],
+    });
+    assert.strictEqual(validateTier1(spec).valid, true);
+    assert.deepStrictEqual(validateMobDrops(spec), { valid: true, errors: [] });
+    assert.strictEqual(validateTier1(minimalSpec({ features: ["custom-entity"] })).code, TIER1_FORBIDDEN_FEATURE);
+  });
+
+  it("rejects unknown mobs, unregistered items and chances outside (0, 1]", () => {
+    const result = validateMobDrops(
+      minimalSpec({
+        items: [{ id: "rotten_cheese", name: "Rotten Cheese" }],
+        mobDrops: [
+          { entityId: "minecraft:zombi", itemId: "rotten_cheese", chance: 0.05 },
+          { entityId: "zombie", itemId: "cheese", chance: 5 },
+        ],
+      })
+    );
+    assert.deepStrictEqual(result.errors, [
+      'Mob drop "rotten_cheese" from "minecraft:zombi": "minecraft:zombi" is not a vanilla mob with a loot table.',
+      'Mob drop "cheese" from "zombie": "cheese" is not an item or block of this mod.',
+      'Mob drop "cheese" from "zombie": chance must be in (0, 1].',
+    ]);
+  });
+});
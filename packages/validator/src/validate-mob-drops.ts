@@ -0,0 +1,118 @@
+/**
+ * Mob drop gate: spec.mobDrops must target a vanilla mob that has a loot table (a wrong id is silently never
+ * modified), drop a registered item, and keep chances and counts in vanilla-like ranges.
+ */
+
+import type { ModSpecV1 } from "@themodgenerator/spec";
+
+/** Vanilla 1.21.1 mobs with an entities/<id> loot table. */
+export const VANILLA_MOB_LOOT_ENTITIES = new Set<string>([
+  "minecraft:allay",
+  "minecraft:armadillo",
+  "minecraft:axolotl",
+  "minecraft:bat",
+  "minecraft:bee",
+  "minecraft:blaze",
+  "minecraft:bogged",
+  "minecraft:breeze",
+  "minecraft:camel",
+  "minecraft:cat",
+  "minecraft:cave_spider",
+  "minecraft:chicken",
+  "minecraft:cod",
+  "minecraft:cow",
+  "minecraft:creeper",
+  "minecraft:dolphin",
+  "minecraft:donkey",
+  "minecraft:drowned",
+  "minecraft:elder_guardian",
+  "minecraft:ender_dragon",
+  "minecraft:enderman",
+  "minecraft:endermite",
+  "minecraft:evoker",
+  "minecraft:fox",
+  "minecraft:frog",
+  "minecraft:ghast",
+  "minecraft:glow_squid",
+  "minecraft:goat",
+  "minecraft:guardian",
+  "minecraft:hoglin",
+  "minecraft:horse",
+  "minecraft:husk",
+  "minecraft:iron_golem",
+  "minecraft:llama",
+  "minecraft:magma_cube",
+  "minecraft:mooshroom",
+  "minecraft:mule",
+  "minecraft:ocelot",
+  "minecraft:panda",
+  "minecraft:parrot",
+  "minecraft:phantom",
+  "minecraft:pig",
+  "minecraft:piglin",
+  "minecraft:piglin_brute",
+  "minecraft:pillager",
+  "minecraft:polar_bear",
+  "minecraft:pufferfish",
+  "minecraft:rabbit",
+  "minecraft:ravager",
+  "minecraft:salmon",
+  "minecraft:sheep",
+  "minecraft:shulker",
+  "minecraft:silverfish",
+  "minecraft:skeleton",
+  "minecraft:skeleton_horse",
+  "minecraft:slime",
+  "minecraft:sniffer",
+  "minecraft:snow_golem",
+  "minecraft:spider",
+  "minecraft:squid",
+  "minecraft:stray",
+  "minecraft:strider",
+  "minecraft:tadpole",
+  "minecraft:trader_llama",
+  "minecraft:tropical_fish",
+  "minecraft:turtle",
+  "minecraft:vex",
+  "minecraft:villager",
+  "minecraft:vindicator",
+  "minecraft:wandering_trader",
+  "minecraft:warden",
+  "minecraft:witch",
+  "minecraft:wither",
+  "minecraft:wither_skeleton",
+  "minecraft:wolf",
+  "minecraft:zoglin",
+  "minecraft:zombie",
+  "minecraft:zombie_horse",
+  "minecraft:zombie_villager",
+  "minecraft:zombified_piglin",
+]);
+
+export interface ValidateMobDropsResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/** Mob drops of the spec. */
+export function validateMobDrops(spec: ModSpecV1): ValidateMobDropsResult {
+  const errors: string[] = [];
+  const registered = new Set([...(spec.items ?? []).map((i) => i.id), ...(spec.blocks ?? []).map((b) => b.id)]);
+  for (const drop of spec.mobDrops ?? []) {
+    const entityId = drop.entityId.includes(":") ? drop.entityId : `minecraft:${drop.entityId}`;
+    const label = `Mob drop "${drop.itemId}" from "${drop.entityId}"`;
+    if (!VANILLA_MOB_LOOT_ENTITIES.has(entityId)) {
+      errors.push(`${label}: "${drop.entityId}" is not a vanilla mob with a loot table.`);
+    }
+    if (!registered.has(drop.itemId)) errors.push(`${label}: "${drop.itemId}" is not an item or block of this mod.`);
+    if (!(drop.chance > 0 && drop.chance <= 1)) errors.push(`${label}: chance must be in (0, 1].`);
+    if (drop.lootingBonus !== undefined && !(drop.lootingBonus >= 0 && drop.lootingBonus <= 1)) {
+      errors.push(`${label}: lootingBonus must be 0..1.`);
+    }
+    const min = drop.minCount ?? 1;
+    if (!(Number.isInteger(min) && min >= 1 && min <= (drop.maxCount ?? min) && (drop.maxCount ?? min) <= 64)) {
+      errors.push(`${label}: count must be 1 ≤ minCount ≤ maxCount ≤ 64.`);
+    }
+  }
+  return { valid: errors.length === 0, errors };
+}
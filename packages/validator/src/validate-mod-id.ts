@@ -0,0 +1,38 @@
+/**
+ * Mod id / namespace gate: reject ids that would register into namespaces owned by Minecraft,
+ * the mod loaders or the shared convention tags. Generated mods must stay in their own namespace.
+ */
+
+import { MOD_ID_PATTERN } from "@themodgenerator/spec";
+
+/** Namespaces a generated mod must never use as its modId. */
+export const RESERVED_NAMESPACES = new Set<string>([
+  "minecraft",
+  "realms",
+  "brigadier",
+  "java",
+  "fabric",
+  "fabricloader",
+  "fabric_api",
+  "c",
+  "forge",
+  "neoforge",
+  "quilt",
+  "mixinextras",
+]);
+
+export interface ValidateModIdResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export function validateModId(modId: string, label = "modId"): ValidateModIdResult {
+  const errors: string[] = [];
+  if (!MOD_ID_PATTERN.test(modId)) {
+    errors.push(`${label} "${modId}" must be 2–64 lowercase letters, numbers or underscores, starting with a letter.`);
+  }
+  if (RESERVED_NAMESPACES.has(modId)) {
+    errors.push(`${label} "${modId}" is a reserved namespace.`);
+  }
+  return { valid: errors.length === 0, errors };
+}
@@ -1,6 +1,7 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
 import { validateModSpecV2 } from "./validate-modspec-v2.js";
+import { expandModSpecV2, TIER_1 } from "@themodgenerator/spec";
 import type { ExpandedModSpecV2 } from "@themodgenerator/spec";
 
 describe("validateModSpecV2", () => {
@@ -67,4 +68,181 @@ describe("validateModSpecV2", () => {
     assert.strictEqual(result.valid, false);
     assert.ok(result.errors.some((e) => e.includes("missing_ore")));
   });
+
+  it("expanded ruby tool and armor sets pass (minecraft:stick key is external)", () => {
+    const expanded = expandModSpecV2({
+      schemaVersion: 2,
+      namespace: "test",
+      modId: "test",
+      modName: "Test",
+      minecraftVersion: "1.21.1",
+      fabricVersion: "0.15",
+      materials: [{ id: "ruby", category: "gem" }],
+    });
+    const result = validateModSpecV2(expanded);
+    assert.strictEqual(result.valid, true, result.errors.join("; "));
+  });
+
+  it("fails when tool item has no toolKind", () => {
+    const spec: ExpandedModSpecV2 = {
+      schemaVersion: 2,
+      namespace: "test",
+      modId: "test",
+      modName: "Test",
+      minecraftVersion: "1.21.1",
+      fabricVersion: "0.15",
+      materials: [{ id: "gem", category: "gem" }],
+      blocks: [],
+      items: [{ id: "gem_pickaxe", kind: "tool", materialRef: "gem" }],
+      recipes: [],
+      worldgen: [],
+      tags: [],
+    };
+    const result = validateModSpecV2(spec);
+    assert.strictEqual(result.valid, false);
+    assert.ok(result.errors.some((e) => e.includes("toolKind")));
+  });
+
+  it("fails when armor item has no armorKind", () => {
+    const spec: ExpandedModSpecV2 = {
+      schemaVersion: 2,
+      namespace: "test",
+      modId: "test",
+      modName: "Test",
+      minecraftVersion: "1.21.1",
+      fabricVersion: "0.15",
+      materials: [{ id: "gem", category: "gem" }],
+      blocks: [],
+      items: [{ id: "gem_helmet", kind: "armor", materialRef: "gem" }],
+      recipes: [],
+      worldgen: [],
+      tags: [],
+    };
+    const result = validateModSpecV2(spec);
+    assert.strictEqual(result.valid, false);
+    assert.ok(result.errors.some((e) => e.includes("armorKind")));
+  });
+
+  it("fails when ore worldgen is outside world bounds", () => {
+    const spec: ExpandedModSpecV2 = {
+      schemaVersion: 2,
+      namespace: "test",
+      modId: "test",
+      modName: "Test",
+      minecraftVersion: "1.21.1",
+      fabricVersion: "0.15",
+      materials: [{ id: "gem", category: "gem" }],
+      blocks: [{ id: "gem_ore", kind: "ore", textureSpec: { base: "gem" }, materialRef: "gem" }],
+      items: [],
+      recipes: [],
+      worldgen: [{ oreBlockId: "gem_ore", minY: -128, maxY: 64, veinSize: 100, veinsPerChunk: 0 }],
+      tags: [],
+    };
+    const result = validateModSpecV2(spec);
+    assert.strictEqual(result.valid, false);
+    assert.ok(result.errors.some((e) => e.includes("height range")));
+    assert.ok(result.errors.some((e) => e.includes("veinSize")));
+    assert.ok(result.errors.some((e) => e.includes("veinsPerChunk")));
+  });
+
+  it("rejects ore worldgen when the pipeline tier is below the ore feature's tier", () => {
+    const spec: ExpandedModSpecV2 = {
+      schemaVersion: 2,
+      namespace: "test",
+      modId: "test",
+      modName: "Test",
+      minecraftVersion: "1.21.1",
+      fabricVersion: "0.15",
+      materials: [{ id: "gem", category: "gem" }],
+      blocks: [{ id: "gem_ore", kind: "ore", textureSpec: { base: "gem" }, materialRef: "gem" }],
+      items: [],
+      recipes: [],
+      worldgen: [{ oreBlockId: "gem_ore", minY: 0, maxY: 64, veinSize: 8, veinsPerChunk: 4 }],
+      tags: [],
+    };
+    assert.strictEqual(validateModSpecV2(spec).valid, true);
+    const result = validateModSpecV2(spec, { maxTier: TIER_1 });
+    assert.strictEqual(result.valid, false);
+    assert.ok(result.errors.some((e) => e.includes("requires Tier 3")), result.errors.join("; "));
+  });
+
+  it("fails when modId or namespace is a reserved namespace", () => {
+    const spec: ExpandedModSpecV2 = {
+      schemaVersion: 2,
+      namespace: "c",
+      modId: "minecraft",
+      modName: "Test",
+      minecraftVersion: "1.21.1",
+      fabricVersion: "0.15",
+      materials: [],
+      blocks: [],
+      items: [],
+      recipes: [],
+      worldgen: [],
+      tags: [],
+    };
+    const result = validateModSpecV2(spec);
+    assert.strictEqual(result.valid, false);
+    assert.ok(result.errors.some((e) => e.includes('modId "minecraft" is a reserved namespace')));
+    assert.ok(result.errors.some((e) => e.includes('namespace "c"')));
+  });
+
+  it("fails when a tag lists undeclared ids or a mining level is not a vanilla tier", () => {
+    const spec: ExpandedModSpecV2 = {
+      schemaVersion: 2,
+      namespace: "test",
+      modId: "test",
+      modName: "Test",
+      minecraftVersion: "1.21.1",
+      fabricVersion: "0.15",
+      materials: [{ id: "ruby", category: "gem" }],
+      blocks: [
+        { id: "ruby_block", kind: "basic", textureSpec: { base: "gem" }, miningSpec: { toolTag: "pickaxe", requiredLevel: 5, hardness: 5 } },
+      ],
+      items: [{ id: "ruby", kind: "gem", materialRef: "ruby" }],
+      recipes: [],
+      worldgen: [],
+      tags: [{ tagId: "c:gems/ruby", category: "items", values: ["ruby", "minecraft:emerald", "#c:gems", "sapphire"] }],
+    };
+    const result = validateModSpecV2(spec);
+    assert.deepStrictEqual(result.errors, [
+      'Block "ruby_block": miningSpec.requiredLevel must be 0 (any), 1 (stone), 2 (iron) or 3 (diamond).',
+      'Tag "c:gems/ruby" value "sapphire" is not a defined item or block.',
+    ]);
+  });
+
+  it("fails when a food item is stronger than vanilla foods", () => {
+    const spec: ExpandedModSpecV2 = {
+      schemaVersion: 2,
+      namespace: "test",
+      modId: "test",
+      modName: "Test",
+      minecraftVersion: "1.21.1",
+      fabricVersion: "0.15",
+      materials: [{ id: "cheese", category: "food" }],
+      blocks: [],
+      items: [
+        { id: "cheese", kind: "food", materialRef: "cheese", food: { nutrition: 4, saturation: 0.3 } },
+        {
+          id: "mega_cheese",
+          kind: "food",
+          materialRef: "cheese",
+          food: {
+            nutrition: 20,
+            saturation: 3,
+            effects: [{ effect: "minecraft:regeneration", durationSeconds: 600, amplifier: 9 }, { effect: "flight", durationSeconds: 5 }],
+          },
+        },
+      ],
+      recipes: [],
+      worldgen: [],
+      tags: [],
+    };
+    const result = validateModSpecV2(spec);
+    assert.strictEqual(result.valid, false);
+    assert.ok(!result.errors.some((e) => e.includes('"cheese"')), "vanilla-range food passes");
+    for (const expected of ["nutrition", "saturation", "duration", "amplifier", 'unknown status effect "flight"']) {
+      assert.ok(result.errors.some((e) => e.includes("mega_cheese") && e.includes(expected)), expected);
+    }
+  });
 });
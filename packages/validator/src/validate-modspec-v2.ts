@@ -1,9 +1,14 @@
 /**
  * Validator for ModSpecV2 / ExpandedModSpecV2.
- * Fail job if: refs missing, recipe types violated, tool/armor out of bounds.
+ * Fail job if: reserved modId/namespace, refs missing, recipe types violated, tool/armor out of bounds,
+ * worldgen above the pipeline tier or out of world bounds.
  */
 
-import type { ExpandedModSpecV2, ModSpecV2Item } from "@themodgenerator/spec";
+import type { ExpandedModSpecV2, ModSpecV2Item, Tier } from "@themodgenerator/spec";
+import { getTierForFeature, MAX_TIER_MODSPEC_V2 } from "@themodgenerator/spec";
+import { validateModId } from "./validate-mod-id.js";
+import { validateFoodItems } from "./validate-food.js";
+import { validateLocales } from "./validate-locales.js";
 
 export interface ValidateModSpecV2Result {
   valid: boolean;
@@ -55,8 +60,11 @@ function validateRefs(spec: ExpandedModSpecV2): string[] {
     if (!itemIds.has(r.result.id) && !blockIds.has(r.result.id)) {
       errors.push(`Recipe "${r.id}" result "${r.result.id}" is not a defined item or block.`);
     }
-    for (const ing of r.inputs ?? []) {
-      if (ing.id && !itemIds.has(ing.id) && !blockIds.has(ing.id)) {
+    const ingredients = [...(r.inputs ?? []), ...Object.values(r.key ?? {})];
+    for (const ing of ingredients) {
+      // Namespaced ids (e.g. minecraft:stick) are vanilla/external and not declared in the spec;
+      // tag inputs ignore id (tags are checked by validateRecipes after the V1 adapter).
+      if (!ing.tag && ing.id && !ing.id.includes(":") && !itemIds.has(ing.id) && !blockIds.has(ing.id)) {
         errors.push(`Recipe "${r.id}" input "${ing.id}" is not a defined item or block.`);
       }
     }
@@ -66,12 +74,18 @@ function validateRefs(spec: ExpandedModSpecV2): string[] {
     if (!blockIds.has(w.oreBlockId)) {
       errors.push(`Worldgen oreBlockId "${w.oreBlockId}" is not a defined block.`);
     }
+    if (w.deepslateOreBlockId && !blockIds.has(w.deepslateOreBlockId)) {
+      errors.push(`Worldgen deepslateOreBlockId "${w.deepslateOreBlockId}" is not a defined block.`);
+    }
   }
 
   return errors;
 }
 
-/** Ore inputs: only smelting and blasting allowed; no smoking. Smoker only for food. Stonecutting only for blocks. */
+/**
+ * Ore inputs: only smelting and blasting allowed; no smoking. Smoker only for food. Stonecutting only for blocks.
+ * Smithing takes exactly [template, base, addition].
+ */
 function validateRecipeTypes(spec: ExpandedModSpecV2): string[] {
   const errors: string[] = [];
   const blockIds = allBlockIds(spec);
@@ -108,6 +122,9 @@ function validateRecipeTypes(spec: ExpandedModSpecV2): string[] {
         errors.push(`Recipe "${r.id}": stonecutting result must be a block, not "${resultId}".`);
       }
     }
+    if (r.type === "smithing" && (r.inputs ?? []).filter((x) => x.id).length !== 3) {
+      errors.push(`Recipe "${r.id}": smithing needs exactly three inputs (template, base, addition).`);
+    }
   }
 
   return errors;
@@ -122,6 +139,12 @@ function validateToolArmorBounds(spec: ExpandedModSpecV2): string[] {
       if (!mat) {
         errors.push(`Item "${i.id}" (${i.kind}) has missing materialRef "${i.materialRef}".`);
       }
+      if (i.kind === "tool" && !i.toolKind) {
+        errors.push(`Item "${i.id}" (tool) must declare toolKind (pickaxe, axe, shovel, hoe, sword).`);
+      }
+      if (i.kind === "armor" && !i.armorKind) {
+        errors.push(`Item "${i.id}" (armor) must declare armorKind (helmet, chestplate, leggings, boots).`);
+      }
       if (i.kind === "armor") {
         const m = spec.materials?.find((mm) => mm.id === i.materialRef);
         if (m && (m.powerProfile === "cosmetic" || m.styleOverPower)) {
@@ -132,11 +155,72 @@ function validateToolArmorBounds(spec: ExpandedModSpecV2): string[] {
   return errors;
 }
 
-export function validateModSpecV2(spec: ExpandedModSpecV2): ValidateModSpecV2Result {
+/** Overworld build limits and vanilla ore feature bounds (OreFeatureConfig size 0–64). */
+const WORLD_MIN_Y = -64;
+const WORLD_MAX_Y = 319;
+const MAX_VEIN_SIZE = 64;
+
+/** Ore worldgen is Tier 3 "ore": gate on the pipeline's max tier, then placement bounds. */
+function validateWorldgen(spec: ExpandedModSpecV2, maxTier: Tier): string[] {
+  const worldgen = spec.worldgen ?? [];
+  if (worldgen.length === 0) return [];
+  const tier = getTierForFeature("ore");
+  if (tier === undefined || tier > maxTier) {
+    return [`Ore worldgen requires Tier ${tier}; this pipeline allows up to Tier ${maxTier}.`];
+  }
+  const errors: string[] = [];
+  for (const w of worldgen) {
+    if (w.minY > w.maxY) {
+      errors.push(`Worldgen "${w.oreBlockId}": minY ${w.minY} is above maxY ${w.maxY}.`);
+    }
+    if (w.minY < WORLD_MIN_Y || w.maxY > WORLD_MAX_Y) {
+      errors.push(`Worldgen "${w.oreBlockId}": height range must be within ${WORLD_MIN_Y}..${WORLD_MAX_Y}.`);
+    }
+    if (!Number.isInteger(w.veinSize) || w.veinSize < 1 || w.veinSize > MAX_VEIN_SIZE) {
+      errors.push(`Worldgen "${w.oreBlockId}": veinSize must be an integer 1..${MAX_VEIN_SIZE}.`);
+    }
+    if (!(w.veinsPerChunk > 0)) {
+      errors.push(`Worldgen "${w.oreBlockId}": veinsPerChunk must be greater than 0.`);
+    }
+  }
+  return errors;
+}
+
+/** Mining levels map to vanilla needs_stone/iron/diamond_tool; tag values must be declared ids or namespaced. */
+function validateMiningAndTags(spec: ExpandedModSpecV2): string[] {
+  const errors: string[] = [];
+  const known = new Set([...allBlockIds(spec), ...allItemIds(spec)]);
+  for (const b of spec.blocks ?? []) {
+    const level = b.miningSpec?.requiredLevel;
+    if (level !== undefined && (!Number.isInteger(level) || level < 0 || level > 3)) {
+      errors.push(`Block "${b.id}": miningSpec.requiredLevel must be 0 (any), 1 (stone), 2 (iron) or 3 (diamond).`);
+    }
+  }
+  for (const tag of spec.tags ?? []) {
+    if (!/^#?([a-z0-9_.-]+:)?[a-z0-9_./-]+$/.test(tag.tagId)) {
+      errors.push(`Tag "${tag.tagId}": tag id must be a lowercase resource location (e.g. "c:gems/ruby").`);
+    }
+    for (const value of tag.values) {
+      if (!value.startsWith("#") && !value.includes(":") && !known.has(value)) {
+        errors.push(`Tag "${tag.tagId}" value "${value}" is not a defined item or block.`);
+      }
+    }
+  }
+  return errors;
+}
+
+/** maxTier: highest tier the calling pipeline allows (default MAX_TIER_MODSPEC_V2). */
+export function validateModSpecV2(spec: ExpandedModSpecV2, options?: { maxTier?: Tier }): ValidateModSpecV2Result {
   const errors: string[] = [];
+  errors.push(...validateModId(spec.modId).errors);
+  errors.push(...validateModId(spec.namespace, "namespace").errors);
   errors.push(...validateRefs(spec));
   errors.push(...validateRecipeTypes(spec));
   errors.push(...validateToolArmorBounds(spec));
+  errors.push(...validateWorldgen(spec, options?.maxTier ?? MAX_TIER_MODSPEC_V2));
+  errors.push(...validateMiningAndTags(spec));
+  errors.push(...validateFoodItems(spec.items).errors);
+  errors.push(...validateLocales(spec.locales).errors);
 
   if (errors.length > 0) {
     return { valid: false, errors, code: "MODSPEC_V2_VALIDATION_FAILED" };
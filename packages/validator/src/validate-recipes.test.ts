@@ -3,12 +3,14 @@
  * - Wood type expansion yields recipes that validate against expanded items/blocks.
  * - Recipes with minecraft:stick and minecraft:chest do not fail validation.
  * - Ore with smelting: validation passes with minecraft:* ingredients allowed.
+ * - Stonecutting and smithing_transform: spec recipes and generated JSON are checked per slot.
+ * - Tag ingredients: vanilla, common (c:) and mod-generated tags pass; unknown tags fail.
  */
 
 import { describe, it } from "node:test";
 import assert from "node:assert";
 import type { ModSpecV1 } from "@themodgenerator/spec";
-import { expandSpecTier1 } from "@themodgenerator/spec";
+import { expandSpecTier1, normalizeItemTag } from "@themodgenerator/spec";
 import { validateRecipes } from "./validate-recipes.js";
 import { validateGeneratedRecipeJson } from "./validate-generated-recipe-json.js";
 
@@ -87,6 +89,76 @@ describe("validateRecipes", () => {
     assert.ok(!result.valid, "Should fail when vanilla ingredients not allowed");
     assert.ok(result.errors.some((e) => e.includes("minecraft:stick")), "Error should mention minecraft:stick");
   });
+
+  it("smithing_transform needs [template, base, addition]; stonecutting needs one ingredient", () => {
+    const spec = minimalSpec({
+      items: [
+        { id: "ruby_pickaxe", name: "Ruby Pickaxe" },
+        { id: "netherite_ruby_pickaxe", name: "Netherite Ruby Pickaxe" },
+      ],
+      blocks: [
+        { id: "granite_rock", name: "Granite Rock" },
+        { id: "granite_rock_slab", name: "Granite Rock Slab" },
+      ],
+      recipes: [
+        {
+          id: "netherite_ruby_pickaxe",
+          type: "smithing_transform",
+          ingredients: [{ id: "minecraft:netherite_upgrade_smithing_template" }, { id: "ruby_pickaxe" }, { id: "minecraft:netherite_ingot" }],
+          result: { id: "netherite_ruby_pickaxe" },
+        },
+        {
+          id: "granite_rock_slab_from_granite_rock_stonecutting",
+          type: "stonecutting",
+          ingredients: [{ id: "granite_rock" }],
+          result: { id: "granite_rock_slab", count: 2 },
+        },
+      ],
+    });
+    assert.ok(validateRecipes(spec).valid, validateRecipes(spec).errors.join("; "));
+    const broken = minimalSpec({
+      ...spec,
+      recipes: [
+        { id: "bad_smithing", type: "smithing_transform", ingredients: [{ id: "ruby_pickaxe" }], result: { id: "netherite_ruby_pickaxe" } },
+        { id: "bad_cut", type: "stonecutting", ingredients: [], result: { id: "granite_rock_slab", count: 2 } },
+      ],
+    });
+    const result = validateRecipes(broken);
+    assert.ok(result.errors.some((e) => e.includes("bad_smithing") && e.includes("[template, base, addition]")));
+    assert.ok(result.errors.some((e) => e.includes("bad_cut") && e.includes("exactly one ingredient")));
+  });
+
+  it("tag ingredients must be vanilla, common (c:) or generated by the mod", () => {
+    const spec = minimalSpec({
+      items: [{ id: "bronze_gear", name: "Bronze Gear" }, { id: "wrench", name: "Wrench" }],
+      woodTypes: [{ id: "maple", displayName: "Maple" }],
+      recipes: [
+        {
+          id: "bronze_gear",
+          type: "crafting_shaped",
+          pattern: [" I ", "IPI", " I "],
+          key: { I: { tag: "c:ingots/iron" }, P: { tag: "#minecraft:planks" } },
+          result: { id: "bronze_gear" },
+        },
+        { id: "wrench", type: "crafting_shapeless", ingredients: [{ tag: "test_mod:logs" }, { id: "bronze_gear" }], result: { id: "wrench" } },
+        { id: "smelted_gear", type: "smelting", ingredients: [{ tag: "planks" }], result: { id: "bronze_gear" } },
+      ],
+    });
+    const ok = validateRecipes(spec);
+    assert.ok(ok.valid, ok.errors.join("; "));
+
+    const unknown = validateRecipes({
+      ...spec,
+      recipes: [{ id: "wrench", type: "crafting_shapeless", ingredients: [{ tag: "c:ingots/unobtainium" }], result: { id: "wrench" } }],
+    });
+    assert.ok(unknown.errors.some((e) => e.includes('"#c:ingots/unobtainium"')));
+    const declared = validateRecipes({
+      ...spec,
+      tags: [{ id: "c:ingots/unobtainium", registry: "items", values: ["bronze_gear"] }],
+      recipes: [{ id: "wrench", type: "crafting_shapeless", ingredients: [{ tag: "c:ingots/unobtainium" }], result: { id: "wrench" } }],
+    });
+    assert.ok(declared.valid, "spec.tags item tags count as generated tags");
+  });
 });
 
 describe("validateGeneratedRecipeJson", () => {
@@ -113,4 +185,83 @@ describe("validateGeneratedRecipeJson", () => {
     });
     assert.ok(result.valid, `Generated recipe JSON with minecraft:stick should validate. Errors: ${result.errors.join("; ")}`);
   });
+
+  it("stonecutting and smithing_transform JSON validate per slot", () => {
+    const spec = minimalSpec({
+      items: [{ id: "ruby_pickaxe", name: "Ruby Pickaxe" }, { id: "netherite_ruby_pickaxe", name: "Netherite Ruby Pickaxe" }],
+      blocks: [{ id: "granite_rock", name: "Granite Rock" }, { id: "granite_rock_slab", name: "Granite Rock Slab" }],
+    });
+    const valid = new Map<string, unknown>([
+      [
+        "data/test_mod/recipe/granite_rock_slab_from_granite_rock_stonecutting.json",
+        {
+          type: "minecraft:stonecutting",
+          ingredient: { item: "test_mod:granite_rock" },
+          result: { id: "test_mod:granite_rock_slab", count: 2 },
+        },
+      ],
+      [
+        "data/test_mod/recipe/netherite_ruby_pickaxe.json",
+        {
+          type: "minecraft:smithing_transform",
+          template: { item: "minecraft:netherite_upgrade_smithing_template" },
+          base: { item: "test_mod:ruby_pickaxe" },
+          addition: { item: "minecraft:netherite_ingot" },
+          result: { id: "test_mod:netherite_ruby_pickaxe", count: 1 },
+        },
+      ],
+    ]);
+    const ok = validateGeneratedRecipeJson(spec, valid);
+    assert.ok(ok.valid, ok.errors.join("; "));
+
+    const invalid = new Map<string, unknown>([
+      [
+        "data/test_mod/recipe/bad_smithing.json",
+        {
+          type: "minecraft:smithing_transform",
+          base: { item: "test_mod:ruby_pickaxe" },
+          addition: { item: "test_mod:missing_ingot" },
+          result: { id: "test_mod:netherite_ruby_pickaxe", count: 1 },
+        },
+      ],
+    ]);
+    const bad = validateGeneratedRecipeJson(spec, invalid);
+    assert.ok(bad.errors.some((e) => e.includes('"template"')));
+    assert.ok(bad.errors.some((e) => e.includes('addition "test_mod:missing_ingot" is not in spec')));
+  });
+
+  it("tag ingredient JSON counts as an ingredient and must be a known tag", () => {
+    const spec = minimalSpec({ items: [{ id: "bronze_gear", name: "Bronze Gear" }] });
+    const recipes = new Map<string, unknown>([
+      [
+        "data/test_mod/recipe/bronze_gear.json",
+        {
+          type: "minecraft:crafting_shaped",
+          pattern: [" I ", "I I", " I "],
+          key: { I: { tag: "c:ingots/iron" } },
+          result: { id: "test_mod:bronze_gear", count: 1 },
+        },
+      ],
+      [
+        "data/test_mod/recipe/bronze_gear_from_mystery.json",
+        {
+          type: "minecraft:smelting",
+          ingredient: { tag: "test_mod:mystery" },
+          result: { id: "test_mod:bronze_gear", count: 1 },
+        },
+      ],
+    ]);
+    const result = validateGeneratedRecipeJson(spec, recipes);
+    assert.deepStrictEqual(result.errors, [
+      'data/test_mod/recipe/bronze_gear_from_mystery.json: Recipe bronze_gear_from_mystery: tag "#test_mod:mystery" is not a vanilla, common (c:) or generated item tag.',
+    ]);
+  });
+});
+
+describe("normalizeItemTag", () => {
+  it("strips the # prefix and defaults to the minecraft namespace (shared with the recipe generator)", () => {
+    assert.strictEqual(normalizeItemTag("#minecraft:planks"), "minecraft:planks");
+    assert.strictEqual(normalizeItemTag("planks"), "minecraft:planks");
+    assert.strictEqual(normalizeItemTag("c:ingots/iron"), "c:ingots/iron");
+  });
 });
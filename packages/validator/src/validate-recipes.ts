@@ -2,11 +2,15 @@
  * Recipe validation: fail fast if recipes are invalid for Minecraft 1.21.1.
  * - crafting_shapeless must have at least one ingredient
  * - smelting/blasting: ingredient must not equal result (no self-loop)
+ * - stonecutting: exactly one ingredient; smithing_transform: [template, base, addition]
  * - every ingredient and result id that belongs to our mod must be in the (expanded) spec;
  *   minecraft:* and other vanilla/external ids are allowed.
+ * - tag ingredients must name a vanilla, common (c:) or mod-generated item tag (item-tags.ts)
  */
 
-import type { ModSpecV1 } from "@themodgenerator/spec";
+import type { ModSpecV1, ModRecipeIngredient } from "@themodgenerator/spec";
+import { hasIngredient, normalizeItemTag } from "@themodgenerator/spec";
+import { isKnownItemTag } from "./item-tags.js";
 
 export interface ValidateRecipesResult {
   valid: boolean;
@@ -49,10 +53,31 @@ function idOk(id: string, ids: Set<string>, allowVanilla: boolean): boolean {
   return false;
 }
 
+/** Tag ingredients must name a known item tag; item ingredients must be in spec (or vanilla). */
+function ingredientError(
+  spec: ModSpecV1,
+  recipeId: string,
+  ing: ModRecipeIngredient,
+  ids: Set<string>,
+  allowVanilla: boolean,
+  notFound: (id: string) => string
+): string | null {
+  if (ing.tag) {
+    return isKnownItemTag(ing.tag, spec)
+      ? null
+      : `Recipe ${recipeId}: tag "#${normalizeItemTag(ing.tag)}" is not a vanilla, common (c:) or generated item tag.`;
+  }
+  return ing.id && !idOk(ing.id, ids, allowVanilla) ? `Recipe ${recipeId}: ${notFound(ing.id)}` : null;
+}
+
 export function validateRecipes(spec: ModSpecV1, options?: ValidateRecipesOptions): ValidateRecipesResult {
   const errors: string[] = [];
   const ids = allIds(spec);
   const allowVanilla = options?.allowVanillaIngredients !== false;
+  const checkIngredient = (recipeId: string, ing: ModRecipeIngredient, notFound: (id: string) => string) => {
+    const err = ingredientError(spec, recipeId, ing, ids, allowVanilla, notFound);
+    if (err) errors.push(err);
+  };
 
   const cookingTypes = ["smelting", "blasting", "smoking", "campfire_cooking"];
   for (const rec of spec.recipes ?? []) {
@@ -60,25 +85,42 @@ export function validateRecipes(spec: ModSpecV1, options?: ValidateRecipesOption
       const count = rec.ingredients?.length ?? 0;
       if (count === 0) errors.push(`Recipe ${rec.id}: crafting_shapeless must have at least one ingredient.`);
       for (const ing of rec.ingredients ?? []) {
-        if (!idOk(ing.id, ids, allowVanilla)) errors.push(`Recipe ${rec.id}: ingredient "${ing.id}" is not an item or block in the spec.`);
+        checkIngredient(rec.id, ing, (id) => `ingredient "${id}" is not an item or block in the spec.`);
       }
       if (!idOk(rec.result.id, ids, allowVanilla)) errors.push(`Recipe ${rec.id}: result "${rec.result.id}" is not an item or block in the spec.`);
     } else if (rec.type === "crafting_shaped") {
-      const pattern = (rec as { pattern?: string[] }).pattern ?? [];
-      const key = (rec as { key?: Record<string, { id: string }> }).key ?? {};
+      const pattern = rec.pattern ?? [];
+      const key = rec.key ?? {};
       if (pattern.length === 0) errors.push(`Recipe ${rec.id}: crafting_shaped must have pattern.`);
       if (Object.keys(key).length === 0) errors.push(`Recipe ${rec.id}: crafting_shaped must have key.`);
       for (const entry of Object.values(key)) {
-        if (entry?.id && !idOk(entry.id, ids, allowVanilla)) errors.push(`Recipe ${rec.id}: key ingredient "${entry.id}" is not in spec.`);
+        if (entry) checkIngredient(rec.id, entry, (id) => `key ingredient "${id}" is not in spec.`);
         if (entry?.id === rec.result.id) errors.push(`Recipe ${rec.id}: crafting_shaped self-loop.`);
       }
       if (!idOk(rec.result.id, ids, allowVanilla)) errors.push(`Recipe ${rec.id}: result "${rec.result.id}" is not an item or block in the spec.`);
     } else if (cookingTypes.includes(rec.type)) {
       const ing = rec.ingredients?.[0];
-      if (!ing?.id) errors.push(`Recipe ${rec.id}: ${rec.type} must have at least one ingredient.`);
+      if (!hasIngredient(ing)) errors.push(`Recipe ${rec.id}: ${rec.type} must have at least one ingredient.`);
       else {
         if (ing.id === rec.result.id) errors.push(`Recipe ${rec.id}: ${rec.type} self-loop.`);
-        if (!idOk(ing.id, ids, allowVanilla)) errors.push(`Recipe ${rec.id}: ingredient "${ing.id}" is not in spec.`);
+        checkIngredient(rec.id, ing, (id) => `ingredient "${id}" is not in spec.`);
+      }
+      if (!idOk(rec.result.id, ids, allowVanilla)) errors.push(`Recipe ${rec.id}: result "${rec.result.id}" is not in spec.`);
+    } else if (rec.type === "stonecutting") {
+      const ing = rec.ingredients?.[0];
+      if (rec.ingredients?.length !== 1 || !hasIngredient(ing)) errors.push(`Recipe ${rec.id}: stonecutting must have exactly one ingredient.`);
+      else {
+        if (ing.id === rec.result.id) errors.push(`Recipe ${rec.id}: stonecutting self-loop.`);
+        checkIngredient(rec.id, ing, (id) => `ingredient "${id}" is not in spec.`);
+      }
+      if (!idOk(rec.result.id, ids, allowVanilla)) errors.push(`Recipe ${rec.id}: result "${rec.result.id}" is not in spec.`);
+    } else if (rec.type === "smithing_transform") {
+      const ings = rec.ingredients ?? [];
+      if (ings.length !== 3 || ings.some((i) => !hasIngredient(i))) {
+        errors.push(`Recipe ${rec.id}: smithing_transform must have ingredients [template, base, addition].`);
+      }
+      for (const ing of ings) {
+        if (ing) checkIngredient(rec.id, ing, (id) => `ingredient "${id}" is not in spec.`);
       }
       if (!idOk(rec.result.id, ids, allowVanilla)) errors.push(`Recipe ${rec.id}: result "${rec.result.id}" is not in spec.`);
     }
@@ -0,0 +1,492 @@
+/**
+ * Blocks and block tags a tick behavior may reference: vanilla ids, the mod's own blocks and the block tags its
+ * data pack writes. An unknown minecraft: block fails the Java compile (Blocks.<ID>); an unknown mod block or tag
+ * resolves to air or an empty tag at runtime.
+ */
+
+import type { ModSpecV1 } from "@themodgenerator/spec";
+import { normalizeItemTag } from "@themodgenerator/spec";
+
+/** Vanilla 1.21.1 blocks commonly used as transform targets (natural, building and colored blocks). */
+export const VANILLA_BLOCKS = new Set<string>([
+  "minecraft:air",
+  "minecraft:cave_air",
+  "minecraft:void_air",
+  "minecraft:water",
+  "minecraft:lava",
+  "minecraft:fire",
+  "minecraft:soul_fire",
+  "minecraft:stone",
+  "minecraft:cobblestone",
+  "minecraft:mossy_cobblestone",
+  "minecraft:smooth_stone",
+  "minecraft:stone_bricks",
+  "minecraft:mossy_stone_bricks",
+  "minecraft:cracked_stone_bricks",
+  "minecraft:chiseled_stone_bricks",
+  "minecraft:granite",
+  "minecraft:polished_granite",
+  "minecraft:diorite",
+  "minecraft:polished_diorite",
+  "minecraft:andesite",
+  "minecraft:polished_andesite",
+  "minecraft:deepslate",
+  "minecraft:cobbled_deepslate",
+  "minecraft:polished_deepslate",
+  "minecraft:deepslate_bricks",
+  "minecraft:cracked_deepslate_bricks",
+  "minecraft:deepslate_tiles",
+  "minecraft:cracked_deepslate_tiles",
+  "minecraft:chiseled_deepslate",
+  "minecraft:tuff",
+  "minecraft:polished_tuff",
+  "minecraft:tuff_bricks",
+  "minecraft:chiseled_tuff",
+  "minecraft:calcite",
+  "minecraft:dripstone_block",
+  "minecraft:pointed_dripstone",
+  "minecraft:bedrock",
+  "minecraft:obsidian",
+  "minecraft:crying_obsidian",
+  "minecraft:dirt",
+  "minecraft:coarse_dirt",
+  "minecraft:rooted_dirt",
+  "minecraft:grass_block",
+  "minecraft:podzol",
+  "minecraft:mycelium",
+  "minecraft:dirt_path",
+  "minecraft:farmland",
+  "minecraft:mud",
+  "minecraft:packed_mud",
+  "minecraft:mud_bricks",
+  "minecraft:clay",
+  "minecraft:moss_block",
+  "minecraft:moss_carpet",
+  "minecraft:sand",
+  "minecraft:red_sand",
+  "minecraft:gravel",
+  "minecraft:sandstone",
+  "minecraft:chiseled_sandstone",
+  "minecraft:cut_sandstone",
+  "minecraft:smooth_sandstone",
+  "minecraft:red_sandstone",
+  "minecraft:chiseled_red_sandstone",
+  "minecraft:cut_red_sandstone",
+  "minecraft:smooth_red_sandstone",
+  "minecraft:suspicious_sand",
+  "minecraft:suspicious_gravel",
+  "minecraft:snow",
+  "minecraft:snow_block",
+  "minecraft:powder_snow",
+  "minecraft:ice",
+  "minecraft:packed_ice",
+  "minecraft:blue_ice",
+  "minecraft:frosted_ice",
+  "minecraft:netherrack",
+  "minecraft:crimson_nylium",
+  "minecraft:warped_nylium",
+  "minecraft:soul_sand",
+  "minecraft:soul_soil",
+  "minecraft:magma_block",
+  "minecraft:glowstone",
+  "minecraft:shroomlight",
+  "minecraft:basalt",
+  "minecraft:polished_basalt",
+  "minecraft:smooth_basalt",
+  "minecraft:blackstone",
+  "minecraft:polished_blackstone",
+  "minecraft:polished_blackstone_bricks",
+  "minecraft:cracked_polished_blackstone_bricks",
+  "minecraft:chiseled_polished_blackstone",
+  "minecraft:gilded_blackstone",
+  "minecraft:nether_bricks",
+  "minecraft:cracked_nether_bricks",
+  "minecraft:chiseled_nether_bricks",
+  "minecraft:red_nether_bricks",
+  "minecraft:nether_wart_block",
+  "minecraft:warped_wart_block",
+  "minecraft:quartz_block",
+  "minecraft:chiseled_quartz_block",
+  "minecraft:quartz_bricks",
+  "minecraft:quartz_pillar",
+  "minecraft:smooth_quartz",
+  "minecraft:end_stone",
+  "minecraft:end_stone_bricks",
+  "minecraft:purpur_block",
+  "minecraft:purpur_pillar",
+  "minecraft:prismarine",
+  "minecraft:prismarine_bricks",
+  "minecraft:dark_prismarine",
+  "minecraft:sea_lantern",
+  "minecraft:sponge",
+  "minecraft:wet_sponge",
+  "minecraft:coal_ore",
+  "minecraft:deepslate_coal_ore",
+  "minecraft:iron_ore",
+  "minecraft:deepslate_iron_ore",
+  "minecraft:copper_ore",
+  "minecraft:deepslate_copper_ore",
+  "minecraft:gold_ore",
+  "minecraft:deepslate_gold_ore",
+  "minecraft:redstone_ore",
+  "minecraft:deepslate_redstone_ore",
+  "minecraft:emerald_ore",
+  "minecraft:deepslate_emerald_ore",
+  "minecraft:lapis_ore",
+  "minecraft:deepslate_lapis_ore",
+  "minecraft:diamond_ore",
+  "minecraft:deepslate_diamond_ore",
+  "minecraft:nether_gold_ore",
+  "minecraft:nether_quartz_ore",
+  "minecraft:ancient_debris",
+  "minecraft:coal_block",
+  "minecraft:iron_block",
+  "minecraft:copper_block",
+  "minecraft:gold_block",
+  "minecraft:redstone_block",
+  "minecraft:emerald_block",
+  "minecraft:lapis_block",
+  "minecraft:diamond_block",
+  "minecraft:netherite_block",
+  "minecraft:amethyst_block",
+  "minecraft:budding_amethyst",
+  "minecraft:raw_iron_block",
+  "minecraft:raw_copper_block",
+  "minecraft:raw_gold_block",
+  "minecraft:exposed_copper",
+  "minecraft:weathered_copper",
+  "minecraft:oxidized_copper",
+  "minecraft:cut_copper",
+  "minecraft:crimson_planks",
+  "minecraft:warped_planks",
+  "minecraft:bamboo_planks",
+  "minecraft:bamboo_mosaic",
+  "minecraft:bamboo_block",
+  "minecraft:crimson_stem",
+  "minecraft:warped_stem",
+  "minecraft:stripped_crimson_stem",
+  "minecraft:stripped_warped_stem",
+  "minecraft:short_grass",
+  "minecraft:tall_grass",
+  "minecraft:fern",
+  "minecraft:large_fern",
+  "minecraft:dead_bush",
+  "minecraft:dandelion",
+  "minecraft:poppy",
+  "minecraft:blue_orchid",
+  "minecraft:allium",
+  "minecraft:azure_bluet",
+  "minecraft:red_tulip",
+  "minecraft:orange_tulip",
+  "minecraft:white_tulip",
+  "minecraft:pink_tulip",
+  "minecraft:oxeye_daisy",
+  "minecraft:cornflower",
+  "minecraft:lily_of_the_valley",
+  "minecraft:wither_rose",
+  "minecraft:sunflower",
+  "minecraft:lilac",
+  "minecraft:rose_bush",
+  "minecraft:peony",
+  "minecraft:torchflower",
+  "minecraft:pink_petals",
+  "minecraft:brown_mushroom",
+  "minecraft:red_mushroom",
+  "minecraft:brown_mushroom_block",
+  "minecraft:red_mushroom_block",
+  "minecraft:mushroom_stem",
+  "minecraft:crimson_fungus",
+  "minecraft:warped_fungus",
+  "minecraft:crimson_roots",
+  "minecraft:warped_roots",
+  "minecraft:nether_sprouts",
+  "minecraft:vine",
+  "minecraft:glow_lichen",
+  "minecraft:sculk",
+  "minecraft:sculk_vein",
+  "minecraft:sugar_cane",
+  "minecraft:cactus",
+  "minecraft:bamboo",
+  "minecraft:kelp",
+  "minecraft:kelp_plant",
+  "minecraft:seagrass",
+  "minecraft:lily_pad",
+  "minecraft:azalea",
+  "minecraft:flowering_azalea",
+  "minecraft:azalea_leaves",
+  "minecraft:flowering_azalea_leaves",
+  "minecraft:wheat",
+  "minecraft:carrots",
+  "minecraft:potatoes",
+  "minecraft:beetroots",
+  "minecraft:pumpkin",
+  "minecraft:carved_pumpkin",
+  "minecraft:jack_o_lantern",
+  "minecraft:melon",
+  "minecraft:hay_block",
+  "minecraft:cobweb",
+  "minecraft:glass",
+  "minecraft:tinted_glass",
+  "minecraft:bookshelf",
+  "minecraft:tnt",
+  "minecraft:torch",
+  "minecraft:lantern",
+  "minecraft:soul_lantern",
+  "minecraft:campfire",
+  "minecraft:soul_campfire",
+  "minecraft:bone_block",
+  "minecraft:dried_kelp_block",
+  "minecraft:honey_block",
+  "minecraft:honeycomb_block",
+  "minecraft:slime_block",
+  "minecraft:terracotta",
+  "minecraft:oak_planks",
+  "minecraft:oak_log",
+  "minecraft:stripped_oak_log",
+  "minecraft:oak_wood",
+  "minecraft:stripped_oak_wood",
+  "minecraft:oak_leaves",
+  "minecraft:oak_sapling",
+  "minecraft:spruce_planks",
+  "minecraft:spruce_log",
+  "minecraft:stripped_spruce_log",
+  "minecraft:spruce_wood",
+  "minecraft:stripped_spruce_wood",
+  "minecraft:spruce_leaves",
+  "minecraft:spruce_sapling",
+  "minecraft:birch_planks",
+  "minecraft:birch_log",
+  "minecraft:stripped_birch_log",
+  "minecraft:birch_wood",
+  "minecraft:stripped_birch_wood",
+  "minecraft:birch_leaves",
+  "minecraft:birch_sapling",
+  "minecraft:jungle_planks",
+  "minecraft:jungle_log",
+  "minecraft:stripped_jungle_log",
+  "minecraft:jungle_wood",
+  "minecraft:stripped_jungle_wood",
+  "minecraft:jungle_leaves",
+  "minecraft:jungle_sapling",
+  "minecraft:acacia_planks",
+  "minecraft:acacia_log",
+  "minecraft:stripped_acacia_log",
+  "minecraft:acacia_wood",
+  "minecraft:stripped_acacia_wood",
+  "minecraft:acacia_leaves",
+  "minecraft:acacia_sapling",
+  "minecraft:dark_oak_planks",
+  "minecraft:dark_oak_log",
+  "minecraft:stripped_dark_oak_log",
+  "minecraft:dark_oak_wood",
+  "minecraft:stripped_dark_oak_wood",
+  "minecraft:dark_oak_leaves",
+  "minecraft:dark_oak_sapling",
+  "minecraft:mangrove_planks",
+  "minecraft:mangrove_log",
+  "minecraft:stripped_mangrove_log",
+  "minecraft:mangrove_wood",
+  "minecraft:stripped_mangrove_wood",
+  "minecraft:mangrove_leaves",
+  "minecraft:mangrove_propagule",
+  "minecraft:cherry_planks",
+  "minecraft:cherry_log",
+  "minecraft:stripped_cherry_log",
+  "minecraft:cherry_wood",
+  "minecraft:stripped_cherry_wood",
+  "minecraft:cherry_leaves",
+  "minecraft:cherry_sapling",
+  "minecraft:white_wool",
+  "minecraft:white_carpet",
+  "minecraft:white_concrete",
+  "minecraft:white_concrete_powder",
+  "minecraft:white_terracotta",
+  "minecraft:white_glazed_terracotta",
+  "minecraft:white_stained_glass",
+  "minecraft:orange_wool",
+  "minecraft:orange_carpet",
+  "minecraft:orange_concrete",
+  "minecraft:orange_concrete_powder",
+  "minecraft:orange_terracotta",
+  "minecraft:orange_glazed_terracotta",
+  "minecraft:orange_stained_glass",
+  "minecraft:magenta_wool",
+  "minecraft:magenta_carpet",
+  "minecraft:magenta_concrete",
+  "minecraft:magenta_concrete_powder",
+  "minecraft:magenta_terracotta",
+  "minecraft:magenta_glazed_terracotta",
+  "minecraft:magenta_stained_glass",
+  "minecraft:light_blue_wool",
+  "minecraft:light_blue_carpet",
+  "minecraft:light_blue_concrete",
+  "minecraft:light_blue_concrete_powder",
+  "minecraft:light_blue_terracotta",
+  "minecraft:light_blue_glazed_terracotta",
+  "minecraft:light_blue_stained_glass",
+  "minecraft:yellow_wool",
+  "minecraft:yellow_carpet",
+  "minecraft:yellow_concrete",
+  "minecraft:yellow_concrete_powder",
+  "minecraft:yellow_terracotta",
+  "minecraft:yellow_glazed_terracotta",
+  "minecraft:yellow_stained_glass",
+  "minecraft:lime_wool",
+  "minecraft:lime_carpet",
+  "minecraft:lime_concrete",
+  "minecraft:lime_concrete_powder",
+  "minecraft:lime_terracotta",
+  "minecraft:lime_glazed_terracotta",
+  "minecraft:lime_stained_glass",
+  "minecraft:pink_wool",
+  "minecraft:pink_carpet",
+  "minecraft:pink_concrete",
+  "minecraft:pink_concrete_powder",
+  "minecraft:pink_terracotta",
+  "minecraft:pink_glazed_terracotta",
+  "minecraft:pink_stained_glass",
+  "minecraft:gray_wool",
+  "minecraft:gray_carpet",
+  "minecraft:gray_concrete",
+  "minecraft:gray_concrete_powder",
+  "minecraft:gray_terracotta",
+  "minecraft:gray_glazed_terracotta",
+  "minecraft:gray_stained_glass",
+  "minecraft:light_gray_wool",
+  "minecraft:light_gray_carpet",
+  "minecraft:light_gray_concrete",
+  "minecraft:light_gray_concrete_powder",
+  "minecraft:light_gray_terracotta",
+  "minecraft:light_gray_glazed_terracotta",
+  "minecraft:light_gray_stained_glass",
+  "minecraft:cyan_wool",
+  "minecraft:cyan_carpet",
+  "minecraft:cyan_concrete",
+  "minecraft:cyan_concrete_powder",
+  "minecraft:cyan_terracotta",
+  "minecraft:cyan_glazed_terracotta",
+  "minecraft:cyan_stained_glass",
+  "minecraft:purple_wool",
+  "minecraft:purple_carpet",
+  "minecraft:purple_concrete",
+  "minecraft:purple_concrete_powder",
+  "minecraft:purple_terracotta",
+  "minecraft:purple_glazed_terracotta",
+  "minecraft:purple_stained_glass",
+  "minecraft:blue_wool",
+  "minecraft:blue_carpet",
+  "minecraft:blue_concrete",
+  "minecraft:blue_concrete_powder",
+  "minecraft:blue_terracotta",
+  "minecraft:blue_glazed_terracotta",
+  "minecraft:blue_stained_glass",
+  "minecraft:brown_wool",
+  "minecraft:brown_carpet",
+  "minecraft:brown_concrete",
+  "minecraft:brown_concrete_powder",
+  "minecraft:brown_terracotta",
+  "minecraft:brown_glazed_terracotta",
+  "minecraft:brown_stained_glass",
+  "minecraft:green_wool",
+  "minecraft:green_carpet",
+  "minecraft:green_concrete",
+  "minecraft:green_concrete_powder",
+  "minecraft:green_terracotta",
+  "minecraft:green_glazed_terracotta",
+  "minecraft:green_stained_glass",
+  "minecraft:red_wool",
+  "minecraft:red_carpet",
+  "minecraft:red_concrete",
+  "minecraft:red_concrete_powder",
+  "minecraft:red_terracotta",
+  "minecraft:red_glazed_terracotta",
+  "minecraft:red_stained_glass",
+  "minecraft:black_wool",
+  "minecraft:black_carpet",
+  "minecraft:black_concrete",
+  "minecraft:black_concrete_powder",
+  "minecraft:black_terracotta",
+  "minecraft:black_glazed_terracotta",
+  "minecraft:black_stained_glass",
+]);
+
+/** Vanilla 1.21.1 block tags commonly used as spread targets. */
+export const VANILLA_BLOCK_TAGS = new Set<string>([
+  "minecraft:dirt",
+  "minecraft:sand",
+  "minecraft:logs",
+  "minecraft:logs_that_burn",
+  "minecraft:planks",
+  "minecraft:leaves",
+  "minecraft:saplings",
+  "minecraft:flowers",
+  "minecraft:small_flowers",
+  "minecraft:tall_flowers",
+  "minecraft:wool",
+  "minecraft:wool_carpets",
+  "minecraft:stone_bricks",
+  "minecraft:base_stone_overworld",
+  "minecraft:base_stone_nether",
+  "minecraft:stone_ore_replaceables",
+  "minecraft:deepslate_ore_replaceables",
+  "minecraft:ice",
+  "minecraft:snow",
+  "minecraft:nylium",
+  "minecraft:wart_blocks",
+  "minecraft:crops",
+  "minecraft:mushroom_grow_block",
+  "minecraft:terracotta",
+  "minecraft:coal_ores",
+  "minecraft:iron_ores",
+  "minecraft:copper_ores",
+  "minecraft:gold_ores",
+  "minecraft:redstone_ores",
+  "minecraft:emerald_ores",
+  "minecraft:lapis_ores",
+  "minecraft:diamond_ores",
+  "minecraft:sculk_replaceable",
+  "minecraft:moss_replaceable",
+  "minecraft:lush_ground_replaceable",
+  "minecraft:azalea_root_replaceable",
+  "minecraft:dripstone_replaceable_blocks",
+  "minecraft:animals_spawnable_on",
+  "minecraft:valid_spawn",
+  "minecraft:infiniburn_overworld",
+  "minecraft:mineable/pickaxe",
+  "minecraft:mineable/axe",
+  "minecraft:mineable/shovel",
+  "minecraft:mineable/hoe",
+]);
+
+/** "ruby_block" and "<modId>:ruby_block" → "ruby_block"; other namespaces → undefined. */
+function modLocalId(id: string, modId: string): string | undefined {
+  if (!id.includes(":")) return id;
+  const [namespace, path] = id.split(":");
+  return namespace === modId ? path : undefined;
+}
+
+/** True if the block id is a vanilla block or a block of this mod (unnamespaced or under the mod id). */
+export function isKnownBlockId(id: string, spec: ModSpecV1): boolean {
+  if (VANILLA_BLOCKS.has(id)) return true;
+  const local = modLocalId(id, spec.modId);
+  return local !== undefined && (spec.blocks ?? []).some((b) => b.id === local);
+}
+
+/** Block tags the mod's own data pack writes (wood-tags: <modId>:planks, <modId>:logs; spec.tags block tags). */
+export function modBlockTags(spec: ModSpecV1): Set<string> {
+  const tags = new Set<string>();
+  if ((spec.woodTypes ?? []).length > 0) {
+    tags.add(`${spec.modId}:planks`);
+    tags.add(`${spec.modId}:logs`);
+  }
+  for (const tag of spec.tags ?? []) {
+    if (tag.registry === "blocks" && tag.values.length > 0) tags.add(normalizeItemTag(tag.id));
+  }
+  return tags;
+}
+
+/** True if the block tag is vanilla or generated by this mod. */
+export function isKnownBlockTag(tag: string, spec: ModSpecV1): boolean {
+  const id = normalizeItemTag(tag);
+  return VANILLA_BLOCK_TAGS.has(id) || modBlockTags(spec).has(id);
+}